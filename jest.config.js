@@ -8,8 +8,7 @@ module.exports = {
     '**/?(*.)+(spec|test).+(ts|tsx|js)'
   ],
   testPathIgnorePatterns: [
-    '/node_modules/',
-    'src/main/db.test.ts' // Skip DB tests as they require Electron environment
+    '/node_modules/'
   ],
   transform: {
     '^.+\\.(ts|tsx)$': 'ts-jest',
@@ -20,7 +19,6 @@ module.exports = {
     '!src/**/*.js',
     '!src/main/main.ts',
     '!src/preload/preload.ts',
-    '!src/main/db.test.ts',
   ],
   coverageDirectory: 'coverage',
   coverageReporters: ['text', 'lcov', 'html'],
@@ -0,0 +1,112 @@
+import { computeBalances, projectBalances } from "./balances";
+
+describe("Balances", () => {
+  const transaction = (
+    id: string,
+    date: string,
+    amount: number,
+    type: string,
+    reconciled = false,
+    createdAt: string | null = null
+  ) => ({
+    id,
+    date,
+    amount,
+    type,
+    is_reconciled: reconciled ? 1 : 0,
+    created_at: createdAt,
+  });
+
+  const opening = { amount: 100000, date: "2024-01-01" };
+
+  describe("computeBalances", () => {
+    test("should keep a running balance in register order", () => {
+      const balances = computeBalances(
+        [opening],
+        [
+          transaction("rent", "2024-01-05", 80000, "debit", false, "10:00"),
+          transaction("pay", "2024-01-03", 250000, "credit"),
+          transaction("coffee", "2024-01-05", 450, "debit", false, "09:00"),
+        ]
+      );
+
+      expect(balances.running).toEqual([
+        { transactionId: "pay", balance: 350000, clearedBalance: 100000 },
+        { transactionId: "coffee", balance: 349550, clearedBalance: 100000 },
+        { transactionId: "rent", balance: 269550, clearedBalance: 100000 },
+      ]);
+      expect(balances.balance).toBe(269550);
+    });
+
+    test("should split the balance into cleared and uncleared", () => {
+      const balances = computeBalances(
+        [opening],
+        [
+          transaction("pay", "2024-01-03", 250000, "credit", true),
+          transaction("check", "2024-01-04", 30000, "debit"),
+        ]
+      );
+
+      expect(balances.cleared).toBe(350000);
+      expect(balances.uncleared).toBe(-30000);
+      expect(balances.balance).toBe(320000);
+      expect(balances.running[1].clearedBalance).toBe(350000);
+    });
+
+    test("should stop at the as-of date", () => {
+      const transactions = [
+        transaction("pay", "2024-01-03", 250000, "credit", true),
+        transaction("rent", "2024-02-01", 80000, "debit", true),
+      ];
+
+      const january = computeBalances([opening], transactions, "2024-01-31");
+      expect(january).toMatchObject({
+        asOf: "2024-01-31",
+        balance: 350000,
+        cleared: 350000,
+        uncleared: 0,
+      });
+      expect(january.running.map((r) => r.transactionId)).toEqual(["pay"]);
+
+      // Before the account was opened
+      expect(computeBalances([opening], transactions, "2023-12-31")).toEqual({
+        asOf: "2023-12-31",
+        balance: 0,
+        cleared: 0,
+        uncleared: 0,
+        running: [],
+      });
+    });
+
+    test("should add each account's opening balance from its own date", () => {
+      const balances = computeBalances(
+        [opening, { amount: 50000, date: "2024-01-10" }],
+        [
+          transaction("pay", "2024-01-03", 1000, "credit"),
+          transaction("savings", "2024-01-10", 2000, "credit"),
+        ]
+      );
+
+      expect(balances.running.map((r) => r.balance)).toEqual([
+        101000, 153000,
+      ]);
+      expect(balances.cleared).toBe(150000);
+    });
+  });
+
+  describe("projectBalances", () => {
+    test("should project the balance through upcoming entries", () => {
+      const projected = projectBalances(100000, [
+        { date: "2024-02-01", amount: 80000, type: "debit" },
+        { date: "2024-01-31", amount: 250000, type: "credit" },
+        { date: "2024-01-31", amount: 1500, type: "debit", skipped: true },
+      ]);
+
+      expect(projected.map((e) => [e.date, e.balance])).toEqual([
+        ["2024-01-31", 350000],
+        ["2024-01-31", 350000],
+        ["2024-02-01", 270000],
+      ]);
+    });
+  });
+});
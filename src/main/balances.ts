@@ -0,0 +1,142 @@
+/**
+ * Register balances the way a paper check register keeps them: a running
+ * balance after each transaction in date order, plus the cleared balance
+ * (what the bank has already posted, i.e. reconciled transactions) and
+ * the uncleared remainder. Amounts are integer cents.
+ */
+
+interface BalanceTransaction {
+  id: string;
+  date: string; // YYYY-MM-DD
+  amount: number; // integer cents, always positive
+  type: string; // "debit" or "credit"
+  is_reconciled: number;
+  created_at?: string | null;
+}
+
+interface OpeningBalance {
+  amount: number; // signed integer cents
+  date: string; // YYYY-MM-DD the balance was taken on
+}
+
+interface RunningBalance {
+  transactionId: string;
+  balance: number;
+  clearedBalance: number;
+}
+
+// An upcoming register entry, posted or scheduled
+interface ProjectedEntry {
+  date: string; // YYYY-MM-DD
+  amount: number; // integer cents, always positive
+  type: string; // "debit" or "credit"
+  skipped?: boolean;
+}
+
+interface RegisterBalances {
+  asOf: string | null;
+  balance: number;
+  cleared: number;
+  uncleared: number;
+  running: RunningBalance[]; // oldest first
+}
+
+/**
+ * Register order: by date, then in the order the transactions were
+ * entered, with the id as a stable tie-breaker
+ */
+function compareRegisterOrder(
+  a: BalanceTransaction,
+  b: BalanceTransaction
+): number {
+  if (a.date !== b.date) return a.date < b.date ? -1 : 1;
+  const aCreated = a.created_at || "";
+  const bCreated = b.created_at || "";
+  if (aCreated !== bCreated) return aCreated < bCreated ? -1 : 1;
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
+
+function signedAmount(transaction: BalanceTransaction): number {
+  return transaction.type === "credit"
+    ? transaction.amount
+    : -transaction.amount;
+}
+
+/**
+ * Balances of a register as of a date (inclusive; null for all
+ * transactions). Opening balances count from their own date and are
+ * treated as cleared, since the bank already holds them. A register
+ * spanning several accounts passes one opening balance per account.
+ */
+function computeBalances(
+  openings: OpeningBalance[],
+  transactions: BalanceTransaction[],
+  asOf: string | null = null
+): RegisterBalances {
+  const pending = openings
+    .filter((o) => !asOf || o.date <= asOf)
+    .sort((a, b) => (a.date < b.date ? -1 : a.date > b.date ? 1 : 0));
+  const sorted = transactions
+    .filter((t) => !asOf || t.date <= asOf)
+    .sort(compareRegisterOrder);
+
+  let balance = 0;
+  let cleared = 0;
+  const running: RunningBalance[] = [];
+
+  for (const transaction of sorted) {
+    // An opening balance is in place before that day's transactions
+    while (pending.length > 0 && pending[0].date <= transaction.date) {
+      const opening = pending.shift()!;
+      balance += opening.amount;
+      cleared += opening.amount;
+    }
+
+    const amount = signedAmount(transaction);
+    balance += amount;
+    if (transaction.is_reconciled) cleared += amount;
+    running.push({
+      transactionId: transaction.id,
+      balance,
+      clearedBalance: cleared,
+    });
+  }
+
+  for (const opening of pending) {
+    balance += opening.amount;
+    cleared += opening.amount;
+  }
+
+  return { asOf, balance, cleared, uncleared: balance - cleared, running };
+}
+
+/**
+ * Projected balance after each upcoming entry, in date order, starting
+ * from a balance today. Skipped entries are listed but leave the
+ * balance unchanged.
+ */
+function projectBalances<T extends ProjectedEntry>(
+  startBalance: number,
+  entries: T[]
+): Array<T & { balance: number }> {
+  let balance = startBalance;
+  return [...entries]
+    .sort((a, b) => (a.date < b.date ? -1 : a.date > b.date ? 1 : 0))
+    .map((entry) => {
+      if (!entry.skipped) {
+        balance += entry.type === "credit" ? entry.amount : -entry.amount;
+      }
+      return { ...entry, balance };
+    });
+}
+
+export {
+  BalanceTransaction,
+  OpeningBalance,
+  ProjectedEntry,
+  RegisterBalances,
+  RunningBalance,
+  compareRegisterOrder,
+  computeBalances,
+  projectBalances,
+};
@@ -123,4 +123,14 @@ describe("ConfigManager", () => {
       }
     });
   });
+
+  describe("encryptDbFile", () => {
+    it("should be off until set and remembered once set", () => {
+      expect(configManager.getEncryptDbFile()).toBe(false);
+
+      expect(configManager.setEncryptDbFile(true)).toBe(true);
+
+      expect(new ConfigManager().getEncryptDbFile()).toBe(true);
+    });
+  });
 });
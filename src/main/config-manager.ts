@@ -4,6 +4,7 @@ import path from "path";
 
 interface AppConfig {
   dbPath?: string;
+  encryptDbFile?: boolean;
   version?: string;
 }
 
@@ -107,6 +108,21 @@ class ConfigManager {
     return !!this.config.dbPath;
   }
 
+  /**
+   * Whether the whole database file is kept encrypted
+   */
+  getEncryptDbFile(): boolean {
+    return !!this.config.encryptDbFile;
+  }
+
+  /**
+   * Keep the whole database file encrypted from now on
+   */
+  setEncryptDbFile(encrypt: boolean): boolean {
+    this.config.encryptDbFile = encrypt;
+    return this.saveConfig();
+  }
+
   /**
    * Get the directory containing the database
    */
@@ -0,0 +1,430 @@
+import {
+  classifyImportRows,
+  CsvMapping,
+  detectColumns,
+  guessMapping,
+  headerSignature,
+  importFingerprints,
+  importRowsFromRecords,
+  parseAmount,
+  parseCsv,
+  parseDate,
+  summarizeImport,
+} from "./csv-import";
+import { parseCsvRecords } from "./csv-reader";
+import { buildImportPreview } from "./matcher";
+
+describe("CSV Import", () => {
+  describe("detectColumns", () => {
+    test("should map common bank headers", () => {
+      expect(
+        detectColumns(["posting date", "description", "amount", "category", "check #"])
+      ).toEqual({
+        dateColumn: 0,
+        descriptionColumn: 1,
+        amountColumn: 2,
+        debitColumn: null,
+        creditColumn: null,
+        categoryColumn: 3,
+        checkNumberColumn: 4,
+      });
+    });
+
+    test("should mark missing columns as null", () => {
+      const columns = detectColumns(["date", "payee", "amount"]);
+      expect(columns.categoryColumn).toBeNull();
+      expect(columns.checkNumberColumn).toBeNull();
+    });
+
+    test("should prefer separate debit and credit columns", () => {
+      expect(
+        detectColumns(["Date", "Memo", "Amount", "Withdrawals", "Deposits"])
+      ).toMatchObject({
+        amountColumn: null,
+        debitColumn: 3,
+        creditColumn: 4,
+      });
+    });
+  });
+
+  describe("guessMapping", () => {
+    test("should skip preamble rows before the header", () => {
+      const records = parseCsvRecords(
+        "Account: Everyday Checking\nExported 2024-02-01\nDate,Payee,Amount\n"
+      );
+
+      expect(guessMapping(records)).toMatchObject({
+        skipRows: 2,
+        hasHeader: true,
+        dateColumn: 0,
+        descriptionColumn: 1,
+        amountColumn: 2,
+      });
+    });
+
+    test("should assume Date, Description, Amount without a header", () => {
+      const records = parseCsvRecords("2024-01-03,Groceries,-52.10\n");
+
+      expect(guessMapping(records)).toMatchObject({
+        skipRows: 0,
+        hasHeader: false,
+        dateColumn: 0,
+        descriptionColumn: 1,
+        amountColumn: 2,
+        signConvention: "negative_is_debit",
+        dateFormat: "auto",
+      });
+    });
+  });
+
+  describe("headerSignature", () => {
+    test("should ignore case and spacing", () => {
+      expect(headerSignature(["Posting  Date", " Amount"])).toBe(
+        headerSignature(["posting date", "AMOUNT"])
+      );
+    });
+
+    test("should change when the columns change", () => {
+      expect(headerSignature(["Date", "Amount"])).not.toBe(
+        headerSignature(["Amount", "Date"])
+      );
+    });
+  });
+
+  describe("parseDate", () => {
+    test("should keep ISO dates", () => {
+      expect(parseDate("2024-01-05")).toBe("2024-01-05");
+    });
+
+    test("should normalize US dates", () => {
+      expect(parseDate("1/5/2024")).toBe("2024-01-05");
+    });
+
+    test("should return null for non-dates", () => {
+      expect(parseDate("Pending")).toBeNull();
+      expect(parseDate("12")).toBeNull();
+      expect(parseDate("Jan 5")).toBeNull();
+    });
+
+    test("should read day-first dates when told to", () => {
+      expect(parseDate("05/01/2024", "DD/MM/YYYY")).toBe("2024-01-05");
+      expect(parseDate("5.1.2024", "DD.MM.YYYY")).toBe("2024-01-05");
+      expect(parseDate("01/05/2024", "MM/DD/YYYY")).toBe("2024-01-05");
+    });
+
+    test("should reject dates that do not fit the format", () => {
+      expect(parseDate("2024-01-05", "DD/MM/YYYY")).toBeNull();
+      expect(parseDate("31/01/2024", "MM/DD/YYYY")).toBeNull();
+    });
+
+    test("should reject days the month does not have", () => {
+      expect(parseDate("2024-02-31")).toBeNull();
+      expect(parseDate("2/30/2024")).toBeNull();
+      expect(parseDate("31.04.2024", "DD.MM.YYYY")).toBeNull();
+      expect(parseDate("2023-02-29")).toBeNull();
+      expect(parseDate("2024-02-29")).toBe("2024-02-29");
+    });
+  });
+
+  describe("parseAmount", () => {
+    test("should parse signed amounts into cents", () => {
+      expect(parseAmount("-4.50")).toBe(-450);
+      expect(parseAmount("$1,234.56")).toBe(123456);
+      expect(parseAmount("(45.10)")).toBe(-4510);
+    });
+
+    test("should parse amounts exactly", () => {
+      expect(parseAmount("0.30")).toBe(30);
+      expect(parseAmount("0.29")).toBe(29);
+    });
+
+    test("should parse European decimal commas", () => {
+      expect(parseAmount("-1.234,56")).toBe(-123456);
+      expect(parseAmount("4,5")).toBe(450);
+    });
+
+    test("should return null for non-numbers", () => {
+      expect(parseAmount("n/a")).toBeNull();
+      expect(parseAmount("12abc")).toBeNull();
+    });
+  });
+
+  describe("parseCsv", () => {
+    test("should find the header row and normalize transactions", () => {
+      const rows = parseCsv(
+        [
+          "Account: Everyday Checking",
+          "Date,Description,Amount,Check Number",
+          '01/05/2024,"Coffee, large",-4.50,',
+          "2024-01-06,Paycheck,2000.00,",
+          "2024-01-07,Check 101,-120.00,101",
+        ].join("\n")
+      );
+
+      expect(rows).toEqual([
+        {
+          rowNumber: 3,
+          date: "2024-01-05",
+          description: "Coffee, large",
+          amount: 450,
+          type: "debit",
+          category: null,
+          checkNumber: null,
+        },
+        {
+          rowNumber: 4,
+          date: "2024-01-06",
+          description: "Paycheck",
+          amount: 200000,
+          type: "credit",
+          category: null,
+          checkNumber: null,
+        },
+        {
+          rowNumber: 5,
+          date: "2024-01-07",
+          description: "Check 101",
+          amount: 12000,
+          type: "debit",
+          category: null,
+          checkNumber: "101",
+        },
+      ]);
+    });
+
+    test("should skip summary, zero and unparseable rows", () => {
+      const rows = parseCsv(
+        [
+          "Date,Description,Amount",
+          "2024-01-01,Beginning Balance,1000.00",
+          "2024-01-02,Zero,0.00",
+          "Pending,Not yet posted,-5.00",
+          "2024-01-03,Real,-5.00",
+        ].join("\n")
+      );
+
+      expect(rows.map((r) => r.description)).toEqual(["Real"]);
+    });
+
+    test("should report the lines it could not read", () => {
+      const { rows, unreadableLines } = importRowsFromRecords(
+        parseCsvRecords(
+          [
+            "Date,Description,Amount",
+            "2024-01-01,Beginning Balance,1000.00",
+            "2024-02-31,Impossible date,-5.00",
+            "2024-01-03,Real,-5.00",
+            "2024-01-04,No amount,abc",
+          ].join("\n")
+        )
+      );
+
+      expect(rows.map((r) => r.description)).toEqual(["Real"]);
+      expect(unreadableLines).toEqual([3, 5]);
+    });
+
+    test("should import semicolon exports with multiline descriptions", () => {
+      const rows = parseCsv(
+        '\uFEFFDatum;Description;Amount\r\n' +
+          '2024-01-05;"Transfer to\r\nsavings ""rainy day""";-1.250,00\r\n' +
+          "2024-01-06;Salary;2.000,00\r\n"
+      );
+
+      expect(rows).toEqual([
+        expect.objectContaining({
+          rowNumber: 2,
+          description: 'Transfer to savings "rainy day"',
+          amount: 125000,
+          type: "debit",
+        }),
+        expect.objectContaining({
+          rowNumber: 4,
+          description: "Salary",
+          amount: 200000,
+          type: "credit",
+        }),
+      ]);
+    });
+
+    test("should assume Date, Description, Amount without a header", () => {
+      const rows = parseCsv("2024-01-03,Groceries,-52.10\n");
+
+      expect(rows).toHaveLength(1);
+      expect(rows[0]).toMatchObject({
+        rowNumber: 1,
+        description: "Groceries",
+        amount: 5210,
+      });
+    });
+  });
+
+  describe("parseCsv with a mapping", () => {
+    const mapping: CsvMapping = {
+      skipRows: 0,
+      hasHeader: true,
+      dateColumn: 0,
+      descriptionColumn: 1,
+      amountColumn: 2,
+      debitColumn: null,
+      creditColumn: null,
+      categoryColumn: null,
+      checkNumberColumn: null,
+      signConvention: "negative_is_debit",
+      dateFormat: "auto",
+    };
+
+    test("should read separate debit and credit columns", () => {
+      const rows = parseCsv(
+        "Date,Description,Debit,Credit\n" +
+          "2024-01-05,Coffee,4.50,\n" +
+          "2024-01-06,Paycheck,,2000.00\n",
+        {
+          ...mapping,
+          amountColumn: null,
+          debitColumn: 2,
+          creditColumn: 3,
+        }
+      );
+
+      expect(rows.map((r) => [r.amount, r.type])).toEqual([
+        [450, "debit"],
+        [200000, "credit"],
+      ]);
+    });
+
+    test("should treat positive amounts as charges for credit cards", () => {
+      const rows = parseCsv(
+        "Date,Description,Amount\n" +
+          "2024-01-05,Restaurant,25.00\n" +
+          "2024-01-06,Payment,-100.00\n",
+        { ...mapping, signConvention: "negative_is_credit" }
+      );
+
+      expect(rows.map((r) => [r.amount, r.type])).toEqual([
+        [2500, "debit"],
+        [10000, "credit"],
+      ]);
+    });
+
+    test("should skip rows and use the configured date format", () => {
+      const rows = parseCsv(
+        "My Bank export\n" +
+          "Buchungstag;Text;Betrag\n" +
+          "05.01.2024;Miete;-800,00\n",
+        { ...mapping, skipRows: 1, dateFormat: "DD.MM.YYYY" }
+      );
+
+      expect(rows).toEqual([
+        expect.objectContaining({
+          rowNumber: 3,
+          date: "2024-01-05",
+          description: "Miete",
+          amount: 80000,
+          type: "debit",
+        }),
+      ]);
+    });
+
+    test("should read the first record as data without a header", () => {
+      const rows = parseCsv("01/05/2024,Coffee,-4.50\n", {
+        ...mapping,
+        hasHeader: false,
+        dateFormat: "MM/DD/YYYY",
+      });
+
+      expect(rows).toHaveLength(1);
+      expect(rows[0].date).toBe("2024-01-05");
+    });
+  });
+
+  describe("importFingerprints", () => {
+    const coffee = {
+      rowNumber: 2,
+      date: "2024-01-10",
+      description: "COFFEE  SHOP #12",
+      amount: 450,
+      type: "debit" as const,
+      category: null,
+      checkNumber: null,
+    };
+
+    test("should be stable across files and formatting", () => {
+      const [first] = importFingerprints([coffee], "acct-1");
+      const [again] = importFingerprints(
+        [{ ...coffee, rowNumber: 7, description: "Coffee Shop 12" }],
+        "acct-1"
+      );
+
+      expect(first).toMatch(/^sha256:[0-9a-f]{64}$/);
+      expect(again).toBe(first);
+    });
+
+    test("should tell apart identical rows in one file", () => {
+      const [first, second] = importFingerprints([coffee, coffee], "acct-1");
+      expect(second).not.toBe(first);
+
+      // The same pair imported again yields the same two fingerprints
+      expect(importFingerprints([coffee, coffee], "acct-1")).toEqual([
+        first,
+        second,
+      ]);
+    });
+
+    test("should depend on the account, amount and direction", () => {
+      const [base] = importFingerprints([coffee], "acct-1");
+
+      expect(importFingerprints([coffee], "acct-2")[0]).not.toBe(base);
+      expect(
+        importFingerprints([{ ...coffee, amount: 451 }], "acct-1")[0]
+      ).not.toBe(base);
+      expect(
+        importFingerprints([{ ...coffee, type: "credit" }], "acct-1")[0]
+      ).not.toBe(base);
+    });
+
+    test("should use the FITID when there is one", () => {
+      expect(importFingerprints([{ ...coffee, fitId: "ABC1" }], null)).toEqual([
+        "fitid:ABC1",
+      ]);
+    });
+  });
+
+  describe("classifyImportRows", () => {
+    test("should report new, skipped, matched and ambiguous rows", () => {
+      const rows = buildImportPreview(
+        parseCsv(
+          "Date,Description,Amount\n" +
+            "2024-01-10,Coffee,-4.50\n" +
+            "2024-01-11,Bakery,-3.00\n" +
+            "2024-01-12,Books,-20.00\n" +
+            "2024-01-13,CITY WATER BILL,-50.00\n"
+        ),
+        [
+          { id: "t1", date: "2024-01-11", amount: 300, type: "debit" },
+          {
+            id: "t2",
+            date: "2024-01-13",
+            description: "City Water",
+            amount: 5000,
+            type: "debit",
+          },
+        ]
+      );
+      const fingerprints = importFingerprints(rows, null);
+
+      const statuses = classifyImportRows(
+        rows,
+        fingerprints,
+        new Set([fingerprints[0]])
+      );
+
+      expect(statuses).toEqual(["skipped", "ambiguous", "new", "matched"]);
+      expect(summarizeImport(statuses)).toEqual({
+        new: 1,
+        skipped: 1,
+        matched: 1,
+        ambiguous: 1,
+      });
+    });
+  });
+});
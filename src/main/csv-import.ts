@@ -0,0 +1,476 @@
+import crypto from "crypto";
+import { CsvRecord, parseCsvRecords } from "./csv-reader";
+
+/**
+ * Bank statement CSV import: parsing, normalization and duplicate
+ * detection (match proposals are in matcher.ts). Runs in the main
+ * process so the raw file never reaches the renderer.
+ * Amounts are integer cents, like everywhere else in src/main.
+ */
+
+type TransactionType = "debit" | "credit";
+
+type DateFormat =
+  | "auto"
+  | "YYYY-MM-DD"
+  | "MM/DD/YYYY"
+  | "DD/MM/YYYY"
+  | "DD.MM.YYYY";
+
+// How to read a single signed amount column. Credit card exports often
+// show charges as positive numbers.
+type SignConvention = "negative_is_debit" | "negative_is_credit";
+
+/**
+ * How to read one bank's CSV layout. Column numbers are 0-based; null
+ * means the file has no such column. Either amountColumn or at least one
+ * of debitColumn/creditColumn must be set.
+ */
+interface CsvMapping {
+  skipRows: number; // records before the header (or first data row)
+  hasHeader: boolean;
+  dateColumn: number;
+  descriptionColumn: number;
+  amountColumn: number | null;
+  debitColumn: number | null;
+  creditColumn: number | null;
+  categoryColumn: number | null;
+  checkNumberColumn: number | null;
+  signConvention: SignConvention;
+  dateFormat: DateFormat;
+}
+
+type CsvColumns = Pick<
+  CsvMapping,
+  | "dateColumn"
+  | "descriptionColumn"
+  | "amountColumn"
+  | "debitColumn"
+  | "creditColumn"
+  | "categoryColumn"
+  | "checkNumberColumn"
+>;
+
+interface ImportRow {
+  rowNumber: number; // 1-based line in the source file, for error messages
+  date: string; // YYYY-MM-DD
+  description: string;
+  amount: number; // integer cents, always positive
+  type: TransactionType;
+  category: string | null;
+  checkNumber: string | null;
+  fitId?: string | null; // bank transaction id, OFX imports only
+  splits?: ImportSplit[]; // QIF imports only, empty unless split
+}
+
+interface ImportSplit {
+  amount: number; // integer cents, signed in the direction of the row
+  category: string | null;
+  memo: string | null;
+}
+
+// The rows a mapping reads from a file, and the lines it could not read
+interface CsvRows {
+  rows: ImportRow[];
+  unreadableLines: number[]; // 1-based, rows without a date or amount
+}
+
+interface ImportMatch {
+  transaction: any;
+  confidence: number; // 0-100
+  reason: string; // e.g. "Exact amount, same day, same payee"
+  daysApart: number;
+}
+
+// many_to_one: several register transactions cleared by one bank line
+// (a deposit of several checks); one_to_many: one register transaction
+// the bank posted as several lines
+type MatchGroupKind = "many_to_one" | "one_to_many";
+
+interface ImportGroupMatch {
+  id: string; // shared by every row of the group in one preview
+  kind: MatchGroupKind;
+  transactions: any[]; // register side
+  rowIndexes: number[]; // bank side, indexes into the preview rows
+  confidence: number; // 0-100
+  reason: string;
+}
+
+interface ImportPreviewRow extends ImportRow {
+  matches: ImportMatch[]; // best first, see matcher.ts
+  autoMatchId: string | null; // paired without review
+  groupMatches: ImportGroupMatch[]; // groups this row is part of
+}
+
+// new: nothing like it in the register; skipped: this exact row was
+// imported before; matched: paired with a register transaction with high
+// confidence; ambiguous: not imported before, but similar register
+// transactions exist and the user should decide
+type ImportRowStatus = "new" | "skipped" | "matched" | "ambiguous";
+
+interface ImportReport {
+  new: number;
+  skipped: number;
+  matched: number;
+  ambiguous: number;
+}
+
+// How far into a file to look for the header row
+const HEADER_SEARCH_ROWS = 10;
+
+// Lines banks put in exports that are not transactions
+const SUMMARY_ROW_PATTERNS = [
+  "beginning balance",
+  "ending balance",
+  "total credits",
+  "total debits",
+];
+
+/**
+ * Guess which column holds which field from the header names
+ */
+function detectColumns(headers: string[]): CsvColumns {
+  const find = (test: (h: string) => boolean): number | null => {
+    const index = headers.findIndex((h) => test(h.toLowerCase().trim()));
+    return index === -1 ? null : index;
+  };
+
+  const debitColumn = find(
+    (h) => h === "debit" || h.startsWith("debit ") || h.includes("withdrawal")
+  );
+  const creditColumn = find(
+    (h) => h === "credit" || h.startsWith("credit ") || h.includes("deposit")
+  );
+  const amountColumn = find((h) => h === "amount" || h.includes("amt"));
+  const separateColumns = debitColumn !== null || creditColumn !== null;
+
+  return {
+    dateColumn: find((h) => h.includes("date")) ?? 0,
+    descriptionColumn:
+      find(
+        (h) => h === "payee" || h === "memo" || h.includes("description")
+      ) ?? 1,
+    // Separate debit/credit columns win over a single amount column
+    amountColumn: separateColumns ? null : (amountColumn ?? 2),
+    debitColumn,
+    creditColumn,
+    categoryColumn: find((h) => h.includes("category")),
+    checkNumberColumn: find((h) => h.includes("check")),
+  };
+}
+
+/**
+ * Propose a mapping for a file nobody has set up yet. The header is the
+ * first of the leading records that mentions a date; without one, the
+ * conventional Date, Description, Amount layout is assumed.
+ */
+function guessMapping(records: CsvRecord[]): CsvMapping {
+  const headerIndex = records
+    .slice(0, HEADER_SEARCH_ROWS)
+    .findIndex((r) => r.fields.some((f) => f.toLowerCase().includes("date")));
+
+  const columns: CsvColumns =
+    headerIndex === -1
+      ? {
+          dateColumn: 0,
+          descriptionColumn: 1,
+          amountColumn: 2,
+          debitColumn: null,
+          creditColumn: null,
+          categoryColumn: null,
+          checkNumberColumn: null,
+        }
+      : detectColumns(records[headerIndex].fields);
+
+  return {
+    skipRows: Math.max(headerIndex, 0),
+    hasHeader: headerIndex !== -1,
+    ...columns,
+    signConvention: "negative_is_debit",
+    dateFormat: "auto",
+  };
+}
+
+/**
+ * Stable identifier for a header row, used to recognise a bank's export
+ * the next time it is opened
+ */
+function headerSignature(headers: string[]): string {
+  const normalized = headers.map((h) =>
+    h.toLowerCase().replace(/\s+/g, " ").trim()
+  );
+  return crypto
+    .createHash("sha256")
+    .update(normalized.join("\u001f"))
+    .digest("hex");
+}
+
+/**
+ * Signature of the header row a mapping points at, or null when the
+ * mapping has no header
+ */
+function signatureForMapping(
+  records: CsvRecord[],
+  mapping: CsvMapping
+): string | null {
+  const header = records[mapping.skipRows];
+  return mapping.hasHeader && header ? headerSignature(header.fields) : null;
+}
+
+/**
+ * Normalize a bank date to YYYY-MM-DD. With "auto", ISO and US M/D/YYYY
+ * dates are recognised. Returns null when the value is not a date in the
+ * given format or not a day of the calendar (2024-02-31).
+ */
+function parseDate(
+  dateStr: string,
+  format: DateFormat = "auto"
+): string | null {
+  const value = dateStr.trim();
+
+  const build = (year: string, month: string, day: string): string | null => {
+    const m = Number(month);
+    const d = Number(day);
+    const date = new Date(Date.UTC(Number(year), m - 1, d));
+    if (date.getUTCMonth() !== m - 1 || date.getUTCDate() !== d) return null;
+    return `${year}-${month.padStart(2, "0")}-${day.padStart(2, "0")}`;
+  };
+
+  const iso = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  const slashed = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  const dotted = value.match(/^(\d{1,2})\.(\d{1,2})\.(\d{4})$/);
+
+  switch (format) {
+    case "YYYY-MM-DD":
+      return iso ? build(iso[1], iso[2], iso[3]) : null;
+    case "MM/DD/YYYY":
+      return slashed ? build(slashed[3], slashed[1], slashed[2]) : null;
+    case "DD/MM/YYYY":
+      return slashed ? build(slashed[3], slashed[2], slashed[1]) : null;
+    case "DD.MM.YYYY":
+      return dotted ? build(dotted[3], dotted[2], dotted[1]) : null;
+  }
+
+  if (iso) return build(iso[1], iso[2], iso[3]);
+  if (slashed) return build(slashed[3], slashed[1], slashed[2]);
+  return null;
+}
+
+/**
+ * Parse a bank amount such as "$1,234.56", "-12.00", "(45.10)" or the
+ * European "1.234,56" into signed integer cents. Returns null when the
+ * value is not a number.
+ */
+function parseAmount(amountStr: string): number | null {
+  let cleaned = amountStr.replace(/[$€£"'\s]/g, "");
+  let negative = false;
+
+  if (cleaned.startsWith("(") && cleaned.endsWith(")")) {
+    negative = true;
+    cleaned = cleaned.slice(1, -1);
+  }
+  if (cleaned.startsWith("-")) {
+    negative = !negative;
+    cleaned = cleaned.substring(1);
+  }
+
+  // A comma followed by one or two final digits is a decimal comma;
+  // otherwise commas are thousands separators
+  if (/,\d{1,2}$/.test(cleaned)) {
+    cleaned = cleaned.replace(/\./g, "").replace(",", ".");
+  } else {
+    cleaned = cleaned.replace(/,/g, "");
+  }
+
+  if (!/^\d+(\.\d+)?$|^\.\d+$/.test(cleaned)) {
+    return null;
+  }
+
+  const cents = Math.round(parseFloat(cleaned) * 100);
+  return negative ? -cents : cents;
+}
+
+function isSummaryRow(description: string): boolean {
+  const lower = description.toLowerCase();
+  return SUMMARY_ROW_PATTERNS.some((pattern) => lower.includes(pattern));
+}
+
+/**
+ * Work out the amount and type of a row: from the debit/credit columns
+ * when the mapping has them, otherwise from the single amount column and
+ * its sign convention. Returns null when no non-zero amount is present.
+ */
+function rowAmount(
+  field: (index: number | null) => string,
+  mapping: CsvMapping
+): { amount: number; type: TransactionType } | null {
+  if (mapping.debitColumn !== null || mapping.creditColumn !== null) {
+    const debit = parseAmount(field(mapping.debitColumn));
+    if (debit) return { amount: Math.abs(debit), type: "debit" };
+
+    const credit = parseAmount(field(mapping.creditColumn));
+    if (credit) return { amount: Math.abs(credit), type: "credit" };
+
+    return null;
+  }
+
+  const signed = parseAmount(field(mapping.amountColumn));
+  if (!signed) return null;
+
+  const negativeIsDebit = mapping.signConvention === "negative_is_debit";
+  return {
+    amount: Math.abs(signed),
+    type: (signed < 0) === negativeIsDebit ? "debit" : "credit",
+  };
+}
+
+/**
+ * Turn CSV records into normalized import rows using a mapping.
+ * Balance/total summary rows are skipped; rows without a usable date or
+ * a non-zero amount are skipped and their lines reported.
+ */
+function importRowsFromRecords(
+  records: CsvRecord[],
+  mapping: CsvMapping = guessMapping(records)
+): CsvRows {
+  const firstDataRow = mapping.skipRows + (mapping.hasHeader ? 1 : 0);
+  const rows: ImportRow[] = [];
+  const unreadableLines: number[] = [];
+
+  for (const { line, fields } of records.slice(firstDataRow)) {
+    // Quoted fields may span lines; descriptions are kept on one
+    const field = (index: number | null): string =>
+      index !== null && fields[index]
+        ? fields[index].replace(/\s+/g, " ").trim()
+        : "";
+
+    const description = field(mapping.descriptionColumn);
+    if (isSummaryRow(description)) continue;
+
+    const date = parseDate(field(mapping.dateColumn), mapping.dateFormat);
+    const amount = rowAmount(field, mapping);
+    if (!date || !amount) {
+      unreadableLines.push(line);
+      continue;
+    }
+
+    rows.push({
+      rowNumber: line,
+      date,
+      description,
+      amount: amount.amount,
+      type: amount.type,
+      category: field(mapping.categoryColumn) || null,
+      checkNumber: field(mapping.checkNumberColumn) || null,
+    });
+  }
+
+  return { rows, unreadableLines };
+}
+
+/**
+ * Parse bank CSV text that is already in memory
+ */
+function parseCsv(content: string, mapping?: CsvMapping): ImportRow[] {
+  return importRowsFromRecords(parseCsvRecords(content), mapping).rows;
+}
+
+function normalizeDescription(description: string): string {
+  return description
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+/**
+ * Stable identity for each import row, stored on the transaction it
+ * creates or is matched to. OFX rows use the bank's FITID; other rows
+ * hash the account, date, signed amount and normalized description,
+ * plus an occurrence counter so two identical rows in one file (two
+ * coffees on the same day) stay distinct. The database keeps these
+ * encrypted and looks them up by a keyed hash.
+ */
+function importFingerprints(
+  rows: ImportRow[],
+  accountId: string | null
+): string[] {
+  const occurrences = new Map<string, number>();
+
+  return rows.map((row) => {
+    if (row.fitId) return `fitid:${row.fitId}`;
+
+    const key = [
+      accountId || "",
+      row.date,
+      row.type === "debit" ? -row.amount : row.amount,
+      normalizeDescription(row.description),
+    ].join("\u001f");
+    const occurrence = (occurrences.get(key) || 0) + 1;
+    occurrences.set(key, occurrence);
+
+    const hash = crypto
+      .createHash("sha256")
+      .update(`${key}\u001f${occurrence}`)
+      .digest("hex");
+    return `sha256:${hash}`;
+  });
+}
+
+/**
+ * Classify preview rows against the fingerprints already in the register
+ */
+function classifyImportRows(
+  rows: ImportPreviewRow[],
+  fingerprints: string[],
+  imported: Set<string>
+): ImportRowStatus[] {
+  return rows.map((row, index) => {
+    if (imported.has(fingerprints[index])) return "skipped";
+    if (row.autoMatchId) return "matched";
+    return row.matches.length > 0 || row.groupMatches.length > 0
+      ? "ambiguous"
+      : "new";
+  });
+}
+
+function summarizeImport(statuses: ImportRowStatus[]): ImportReport {
+  const report: ImportReport = {
+    new: 0,
+    skipped: 0,
+    matched: 0,
+    ambiguous: 0,
+  };
+  for (const status of statuses) {
+    report[status]++;
+  }
+  return report;
+}
+
+export {
+  CsvColumns,
+  CsvMapping,
+  CsvRows,
+  DateFormat,
+  ImportGroupMatch,
+  ImportMatch,
+  ImportPreviewRow,
+  ImportReport,
+  ImportRow,
+  ImportRowStatus,
+  ImportSplit,
+  MatchGroupKind,
+  SignConvention,
+  TransactionType,
+  classifyImportRows,
+  detectColumns,
+  guessMapping,
+  headerSignature,
+  importFingerprints,
+  importRowsFromRecords,
+  normalizeDescription,
+  parseAmount,
+  parseCsv,
+  parseDate,
+  signatureForMapping,
+  summarizeImport,
+};
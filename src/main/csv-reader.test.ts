@@ -0,0 +1,121 @@
+import { Readable } from "stream";
+import {
+  CsvReader,
+  detectDelimiter,
+  parseCsvRecords,
+  readCsvRecords,
+} from "./csv-reader";
+
+describe("CSV Reader", () => {
+  const fieldsOf = (content: string) =>
+    parseCsvRecords(content).map((r) => r.fields);
+
+  describe("parseCsvRecords", () => {
+    test("should split simple records", () => {
+      expect(fieldsOf("a,b,c\n1,2,3\n")).toEqual([
+        ["a", "b", "c"],
+        ["1", "2", "3"],
+      ]);
+    });
+
+    test("should keep delimiters inside quoted fields", () => {
+      expect(fieldsOf('"Coffee, large",-4.50')).toEqual([
+        ["Coffee, large", "-4.50"],
+      ]);
+    });
+
+    test("should unescape doubled quotes", () => {
+      expect(fieldsOf('"Say ""hi""",""\n')).toEqual([['Say "hi"', ""]]);
+    });
+
+    test("should keep newlines inside quoted fields", () => {
+      const records = parseCsvRecords(
+        'date,memo\n2024-01-05,"line one\nline two"\n2024-01-06,next'
+      );
+
+      expect(records).toEqual([
+        { line: 1, fields: ["date", "memo"] },
+        { line: 2, fields: ["2024-01-05", "line one\nline two"] },
+        { line: 4, fields: ["2024-01-06", "next"] },
+      ]);
+    });
+
+    test("should handle CRLF and lone CR line endings", () => {
+      expect(fieldsOf("a,b\r\n1,2\r3,4\r\n")).toEqual([
+        ["a", "b"],
+        ["1", "2"],
+        ["3", "4"],
+      ]);
+    });
+
+    test("should strip a byte order mark", () => {
+      expect(fieldsOf("\uFEFFDate,Amount\n")).toEqual([["Date", "Amount"]]);
+    });
+
+    test("should skip blank lines but keep empty fields", () => {
+      expect(fieldsOf("a,,c\n\n\n,\n")).toEqual([
+        ["a", "", "c"],
+        ["", ""],
+      ]);
+    });
+
+    test("should reject an unterminated quoted field", () => {
+      expect(() => parseCsvRecords('a,b\n1,"open\n')).toThrow(
+        "Unterminated quoted field starting on line 2"
+      );
+    });
+
+    test("should honour an explicit delimiter", () => {
+      expect(
+        parseCsvRecords("a;b,c", { delimiter: "," }).map((r) => r.fields)
+      ).toEqual([["a;b", "c"]]);
+    });
+  });
+
+  describe("detectDelimiter", () => {
+    test("should detect comma, semicolon and tab", () => {
+      expect(detectDelimiter("a,b,c\n1,2,3")).toBe(",");
+      expect(detectDelimiter("Datum;Betrag\n01.02.2024;-1,50")).toBe(";");
+      expect(detectDelimiter("date\tamount\n2024-01-01\t5")).toBe("\t");
+    });
+
+    test("should ignore delimiters inside quotes", () => {
+      expect(detectDelimiter('"a,b,c,d";x;y\n1;2;3')).toBe(";");
+    });
+  });
+
+  describe("CsvReader", () => {
+    test("should produce the same records however the input is chunked", () => {
+      const content =
+        'date,memo\r\n2024-01-05,"a ""b""\r\nc"\r\n2024-01-06,d\r\n';
+      const expected = parseCsvRecords(content);
+
+      for (let size = 1; size <= 5; size++) {
+        const reader = new CsvReader({ delimiter: "," });
+        const records = [];
+        for (let i = 0; i < content.length; i += size) {
+          records.push(...reader.write(content.slice(i, i + size)));
+        }
+        records.push(...reader.end());
+        expect(records).toEqual(expected);
+      }
+    });
+  });
+
+  describe("readCsvRecords", () => {
+    test("should decode multi-byte characters split across chunks", async () => {
+      const bytes = Buffer.from("payee,amount\nCafé,4.50\n", "utf8");
+      const split = bytes.indexOf(0xa9); // second byte of "é"
+      const stream = Readable.from([
+        bytes.subarray(0, split),
+        bytes.subarray(split),
+      ]);
+
+      const records = await readCsvRecords(stream);
+      expect(records.map((r) => r.fields)).toEqual([
+        ["payee", "amount"],
+        ["Café", "4.50"],
+      ]);
+    });
+  });
+});
@@ -0,0 +1,225 @@
+import { StringDecoder } from "string_decoder";
+
+/**
+ * RFC 4180 CSV reader that works on a stream of chunks.
+ *
+ * Handles a UTF-8 byte order mark, CRLF/LF/CR line endings, quoted fields
+ * containing delimiters or newlines, and "" escaped quotes. The delimiter
+ * (comma, semicolon or tab) is detected from the start of the file unless
+ * one is given.
+ */
+
+type CsvDelimiter = "," | ";" | "\t";
+
+interface CsvRecord {
+  line: number; // 1-based line the record starts on
+  fields: string[];
+}
+
+interface CsvReaderOptions {
+  delimiter?: CsvDelimiter;
+}
+
+const DELIMITERS: CsvDelimiter[] = [",", ";", "\t"];
+
+// How much of the file to look at before picking a delimiter
+const SNIFF_LENGTH = 4096;
+
+/**
+ * Pick the delimiter that occurs most often outside quotes in the sample
+ */
+function detectDelimiter(sample: string): CsvDelimiter {
+  const counts = new Map<string, number>(DELIMITERS.map((d) => [d, 0]));
+  let inQuotes = false;
+
+  for (const char of sample) {
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && counts.has(char)) {
+      counts.set(char, counts.get(char)! + 1);
+    }
+  }
+
+  let best: CsvDelimiter = ",";
+  for (const delimiter of DELIMITERS) {
+    if (counts.get(delimiter)! > counts.get(best)!) {
+      best = delimiter;
+    }
+  }
+  return best;
+}
+
+class CsvReader {
+  private delimiter: CsvDelimiter | null;
+  private pending = ""; // text held back until the delimiter is known
+  private started = false;
+
+  private fields: string[] = [];
+  private field = "";
+  private fieldStarted = false;
+  private inQuotes = false;
+  private quoteSeen = false; // a quote inside a quoted field, not yet resolved
+  private afterCR = false;
+
+  private line = 1;
+  private recordLine = 1;
+
+  constructor(options: CsvReaderOptions = {}) {
+    this.delimiter = options.delimiter || null;
+  }
+
+  /**
+   * Feed the next chunk of text; returns the records it completed
+   */
+  write(chunk: string): CsvRecord[] {
+    if (!this.started && chunk.length > 0) {
+      this.started = true;
+      if (chunk.charCodeAt(0) === 0xfeff) {
+        chunk = chunk.slice(1);
+      }
+    }
+
+    if (this.delimiter === null) {
+      this.pending += chunk;
+      if (this.pending.length < SNIFF_LENGTH) {
+        return [];
+      }
+      chunk = this.takePending();
+    }
+
+    return this.consume(chunk);
+  }
+
+  /**
+   * Signal end of input; returns the final record, if any
+   */
+  end(): CsvRecord[] {
+    const records =
+      this.delimiter === null ? this.consume(this.takePending()) : [];
+
+    if (this.quoteSeen) {
+      this.inQuotes = false;
+      this.quoteSeen = false;
+    }
+    if (this.inQuotes) {
+      throw new Error(
+        `Unterminated quoted field starting on line ${this.recordLine}`
+      );
+    }
+    if (this.fieldStarted || this.fields.length > 0) {
+      this.endRecord(records);
+    }
+    return records;
+  }
+
+  private takePending(): string {
+    const text = this.pending;
+    this.pending = "";
+    this.delimiter = detectDelimiter(text.slice(0, SNIFF_LENGTH));
+    return text;
+  }
+
+  private consume(text: string): CsvRecord[] {
+    const records: CsvRecord[] = [];
+
+    for (const char of text) {
+      if (this.afterCR) {
+        this.afterCR = false;
+        if (char === "\n") continue; // second half of CRLF
+      }
+
+      if (this.quoteSeen) {
+        this.quoteSeen = false;
+        if (char === '"') {
+          this.field += '"';
+          continue;
+        }
+        this.inQuotes = false; // closing quote; handle char below
+      }
+
+      if (this.inQuotes) {
+        if (char === '"') {
+          this.quoteSeen = true;
+        } else {
+          this.field += char;
+          if (char === "\n") this.line++;
+        }
+        continue;
+      }
+
+      if (char === '"' && !this.fieldStarted) {
+        this.inQuotes = true;
+        this.fieldStarted = true;
+      } else if (char === this.delimiter) {
+        this.fields.push(this.field);
+        this.field = "";
+        this.fieldStarted = false;
+      } else if (char === "\r" || char === "\n") {
+        this.afterCR = char === "\r";
+        this.endRecord(records);
+        this.line++;
+        this.recordLine = this.line;
+      } else {
+        this.field += char;
+        this.fieldStarted = true;
+      }
+    }
+
+    return records;
+  }
+
+  private endRecord(records: CsvRecord[]): void {
+    const blank = this.fields.length === 0 && !this.fieldStarted;
+    this.fields.push(this.field);
+
+    if (!blank) {
+      records.push({ line: this.recordLine, fields: this.fields });
+    }
+
+    this.fields = [];
+    this.field = "";
+    this.fieldStarted = false;
+  }
+}
+
+/**
+ * Parse CSV text that is already in memory
+ */
+function parseCsvRecords(
+  content: string,
+  options: CsvReaderOptions = {}
+): CsvRecord[] {
+  const reader = new CsvReader(options);
+  return [...reader.write(content), ...reader.end()];
+}
+
+/**
+ * Read CSV records from a stream such as fs.createReadStream(path).
+ * Buffer chunks are decoded as UTF-8 without splitting characters.
+ */
+async function readCsvRecords(
+  source: AsyncIterable<string | Buffer>,
+  options: CsvReaderOptions = {}
+): Promise<CsvRecord[]> {
+  const reader = new CsvReader(options);
+  const decoder = new StringDecoder("utf8");
+  const records: CsvRecord[] = [];
+
+  for await (const chunk of source) {
+    const text = typeof chunk === "string" ? chunk : decoder.write(chunk);
+    records.push(...reader.write(text));
+  }
+  records.push(...reader.write(decoder.end()), ...reader.end());
+
+  return records;
+}
+
+export {
+  CsvDelimiter,
+  CsvReader,
+  CsvReaderOptions,
+  CsvRecord,
+  detectDelimiter,
+  parseCsvRecords,
+  readCsvRecords,
+};
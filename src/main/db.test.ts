@@ -12,14 +12,14 @@ describe("EncryptedDatabase", () => {
   let db: any;
   const testEncryptionKey = "test-encryption-key-for-testing";
 
-  beforeEach(() => {
+  beforeEach(async () => {
     // Create a unique test database for each test
     const testDir = path.join(os.tmpdir(), "bankrec-test");
     if (!fs.existsSync(testDir)) {
       fs.mkdirSync(testDir, { recursive: true });
     }
     testDbPath = path.join(testDir, `test-${Date.now()}.db`);
-    db = new EncryptedDatabase(testDbPath, testEncryptionKey);
+    db = await EncryptedDatabase.open(testDbPath, testEncryptionKey);
   });
 
   afterEach(() => {
@@ -27,8 +27,10 @@ describe("EncryptedDatabase", () => {
     if (db && db.db) {
       db.db.close();
     }
-    if (fs.existsSync(testDbPath)) {
-      fs.unlinkSync(testDbPath);
+    for (const file of [testDbPath, `${testDbPath}-wal`, `${testDbPath}-shm`]) {
+      if (fs.existsSync(file)) {
+        fs.unlinkSync(file);
+      }
     }
   });
 
@@ -56,19 +58,10 @@ describe("EncryptedDatabase", () => {
       expect(result).toBeTruthy();
     });
 
-    test("should create plaid_items table", () => {
-      const result = db.db
-        .prepare(
-          "SELECT name FROM sqlite_master WHERE type='table' AND name='plaid_items'"
-        )
-        .get();
-      expect(result).toBeTruthy();
-    });
-
-    test("should create plaid_accounts table", () => {
+    test("should create accounts table", () => {
       const result = db.db
         .prepare(
-          "SELECT name FROM sqlite_master WHERE type='table' AND name='plaid_accounts'"
+          "SELECT name FROM sqlite_master WHERE type='table' AND name='accounts'"
         )
         .get();
       expect(result).toBeTruthy();
@@ -105,7 +98,7 @@ describe("EncryptedDatabase", () => {
         "Doe",
         "123 Main St"
       );
-      const user = db.getUser(userId);
+      const user = db.getUserById(userId);
 
       expect(user).toBeTruthy();
       expect(user.email).toBe("test@example.com");
@@ -121,9 +114,9 @@ describe("EncryptedDatabase", () => {
       expect(user.email).toBe("test@example.com");
     });
 
-    test("should return null for non-existent user", () => {
-      const user = db.getUser(99999);
-      expect(user).toBeNull();
+    test("should return undefined for non-existent user", () => {
+      const user = db.getUserById(99999);
+      expect(user).toBeUndefined();
     });
 
     test("should update user information", () => {
@@ -135,7 +128,7 @@ describe("EncryptedDatabase", () => {
         email: "jane@example.com",
       });
 
-      const user = db.getUser(userId);
+      const user = db.getUserById(userId);
       expect(user.first_name).toBe("Jane");
       expect(user.last_name).toBe("Smith");
       expect(user.email).toBe("jane@example.com");
@@ -146,7 +139,7 @@ describe("EncryptedDatabase", () => {
 
       db.updateUser(userId, { firstName: "Jane" });
 
-      const user = db.getUser(userId);
+      const user = db.getUserById(userId);
       expect(user.first_name).toBe("Jane");
       expect(user.last_name).toBe("Doe"); // Unchanged
     });
@@ -155,180 +148,160 @@ describe("EncryptedDatabase", () => {
   describe("Transaction Operations", () => {
     let userId: number;
 
+    const getTransaction = (id: string) =>
+      db.getTransactionsByUserId(userId).find((t: any) => t.id === id);
+
     beforeEach(() => {
       userId = db.createUser("test@example.com", "John", "Doe");
     });
 
     test("should create a new transaction", () => {
-      const transaction = {
-        id: "txn_123",
+      const { id } = db.createTransaction({
         userId,
         date: "2024-01-15",
         description: "Test transaction",
-        amount: 100.5,
+        amount: 10050,
         type: "debit",
-      };
-
-      db.createTransaction(transaction);
+      });
 
       const result = db.db
         .prepare("SELECT * FROM transactions WHERE id = ?")
-        .get("txn_123");
+        .get(id);
       expect(result).toBeTruthy();
-      expect(result.description).toBe("Test transaction");
-      expect(result.amount).toBe(100.5);
+      expect(result.description).not.toBe("Test transaction");
+      expect(result.amount).toBe(10050);
     });
 
     test("should get transaction by ID", () => {
-      const transaction = {
-        id: "txn_123",
+      const { id } = db.createTransaction({
         userId,
         date: "2024-01-15",
         description: "Test transaction",
-        amount: 100.5,
+        amount: 10050,
         type: "debit",
-      };
-
-      db.createTransaction(transaction);
-      const result = db.getTransaction("txn_123");
+      });
+      const result = getTransaction(id);
 
       expect(result).toBeTruthy();
-      expect(result.id).toBe("txn_123");
-      expect(result.amount).toBe(100.5);
+      expect(result.description).toBe("Test transaction");
+      expect(result.amount).toBe(10050);
     });
 
     test("should get all transactions for a user", () => {
       db.createTransaction({
-        id: "txn_1",
         userId,
         date: "2024-01-15",
         description: "Transaction 1",
-        amount: 100,
+        amount: 10000,
         type: "debit",
       });
 
       db.createTransaction({
-        id: "txn_2",
         userId,
         date: "2024-01-16",
         description: "Transaction 2",
-        amount: 200,
+        amount: 20000,
         type: "credit",
       });
 
-      const transactions = db.getTransactions(userId);
+      const transactions = db.getTransactionsByUserId(userId);
       expect(transactions).toHaveLength(2);
     });
 
     test("should update transaction", () => {
-      db.createTransaction({
-        id: "txn_123",
+      const { id } = db.createTransaction({
         userId,
         date: "2024-01-15",
         description: "Original",
-        amount: 100,
+        amount: 10000,
         type: "debit",
       });
 
-      db.updateTransaction("txn_123", {
+      db.updateTransaction(id, {
         description: "Updated",
-        amount: 150,
+        amount: 15000,
         isReconciled: true,
       });
 
-      const result = db.getTransaction("txn_123");
+      const result = getTransaction(id);
       expect(result.description).toBe("Updated");
-      expect(result.amount).toBe(150);
+      expect(result.amount).toBe(15000);
       expect(result.is_reconciled).toBe(1);
     });
 
     test("should delete transaction", () => {
-      db.createTransaction({
-        id: "txn_123",
+      const { id } = db.createTransaction({
         userId,
         date: "2024-01-15",
         description: "Test",
-        amount: 100,
+        amount: 10000,
         type: "debit",
       });
 
-      db.deleteTransaction("txn_123");
+      db.deleteTransaction(id);
 
-      const result = db.getTransaction("txn_123");
-      expect(result).toBeNull();
+      expect(getTransaction(id)).toBeUndefined();
     });
 
     test("should handle transactions with optional fields", () => {
-      db.createTransaction({
-        id: "txn_123",
+      const accountId = db.createAccount({
+        userId,
+        name: "Checking",
+        accountType: "checking",
+        openingBalance: 0,
+        openingDate: "2024-01-01",
+      });
+      const { id } = db.createTransaction({
         userId,
         date: "2024-01-15",
         description: "Test",
-        amount: 100,
+        amount: 10000,
         type: "debit",
         category: "Groceries",
         checkNumber: "1234",
-        accountId: "acc_456",
+        accountId,
       });
 
-      const result = db.getTransaction("txn_123");
+      const result = getTransaction(id);
       expect(result.category).toBe("Groceries");
       expect(result.check_number).toBe("1234");
-      expect(result.account_id).toBe("acc_456");
+      expect(result.account_id).toBe(accountId);
     });
 
-    test("should filter transactions by date range", () => {
-      db.createTransaction({
-        id: "txn_1",
-        userId,
-        date: "2024-01-15",
-        description: "Transaction 1",
-        amount: 100,
-        type: "debit",
-      });
-
-      db.createTransaction({
-        id: "txn_2",
-        userId,
-        date: "2024-02-15",
-        description: "Transaction 2",
-        amount: 200,
-        type: "debit",
-      });
-
-      const transactions = db.getTransactionsByDateRange(
-        userId,
-        "2024-02-01",
-        "2024-02-28"
-      );
-      expect(transactions).toHaveLength(1);
-      expect(transactions[0].id).toBe("txn_2");
+    test("should reject amounts that are not integer cents", () => {
+      expect(() =>
+        db.createTransaction({
+          userId,
+          date: "2024-01-15",
+          description: "Test",
+          amount: 100.5,
+          type: "debit",
+        })
+      ).toThrow();
     });
 
     test("should filter unreconciled transactions", () => {
       db.createTransaction({
-        id: "txn_1",
         userId,
         date: "2024-01-15",
         description: "Reconciled",
-        amount: 100,
+        amount: 10000,
         type: "debit",
         isReconciled: true,
       });
 
-      db.createTransaction({
-        id: "txn_2",
+      const { id } = db.createTransaction({
         userId,
         date: "2024-01-16",
         description: "Not reconciled",
-        amount: 200,
+        amount: 20000,
         type: "debit",
         isReconciled: false,
       });
 
-      const transactions = db.getUnreconciledTransactions(userId);
+      const transactions = db.getUnreconciledTransactionsByUserId(userId);
       expect(transactions).toHaveLength(1);
-      expect(transactions[0].id).toBe("txn_2");
+      expect(transactions[0].id).toBe(id);
     });
   });
 
@@ -379,97 +352,2223 @@ describe("EncryptedDatabase", () => {
     });
   });
 
-  describe("Search and Filtering", () => {
+  describe("Field-Level Encryption", () => {
     let userId: number;
 
     beforeEach(() => {
-      userId = db.createUser("test@example.com", "John", "Doe");
+      userId = db.createUser(
+        "test@example.com",
+        "John",
+        "Doe",
+        "123 Main St"
+      );
+    });
 
-      db.createTransaction({
-        id: "txn_1",
+    test("should store user fields as ciphertext", () => {
+      const raw = db.db.prepare("SELECT * FROM users WHERE id = ?").get(userId);
+
+      expect(raw.email).not.toBe("test@example.com");
+      expect(raw.first_name).not.toBe("John");
+      expect(raw.last_name).not.toBe("Doe");
+      expect(raw.address).not.toBe("123 Main St");
+      expect(db.decrypt(raw.email)).toBe("test@example.com");
+    });
+
+    test("should look up users by email despite encryption", () => {
+      const user = db.getUserByEmail("Test@Example.com ");
+
+      expect(user.id).toBe(userId);
+      expect(user.email).toBe("test@example.com");
+      expect(user.address).toBe("123 Main St");
+    });
+
+    test("should keep email lookup in sync on update", () => {
+      db.updateUser(userId, { email: "new@example.com" });
+
+      expect(db.getUserByEmail("test@example.com")).toBeUndefined();
+      expect(db.getUserByEmail("new@example.com").id).toBe(userId);
+    });
+
+    test("should store transaction description and check number as ciphertext", () => {
+      const { id } = db.createTransaction({
         userId,
         date: "2024-01-15",
-        description: "Grocery Store",
-        amount: 50,
+        description: "Rent payment",
+        amount: 1200,
         type: "debit",
-        category: "Groceries",
+        checkNumber: "1001",
+      });
+
+      const raw = db.db
+        .prepare("SELECT * FROM transactions WHERE id = ?")
+        .get(id);
+      expect(raw.description).not.toBe("Rent payment");
+      expect(raw.check_number).not.toBe("1001");
+
+      const [transaction] = db.getTransactionsByUserId(userId);
+      expect(transaction.description).toBe("Rent payment");
+      expect(transaction.check_number).toBe("1001");
+    });
+
+    test("should encrypt updated transaction fields", () => {
+      const { id } = db.createTransaction({
+        userId,
+        date: "2024-01-15",
+        description: "Original",
+        amount: 10,
+        type: "debit",
+      });
+
+      db.updateTransaction(id, { description: "Updated" });
+
+      const raw = db.db
+        .prepare("SELECT description FROM transactions WHERE id = ?")
+        .get(id);
+      expect(raw.description).not.toBe("Updated");
+      expect(db.getTransactionsByUserId(userId)[0].description).toBe(
+        "Updated"
+      );
+    });
+
+    test("should encrypt plaintext rows from older databases once", async () => {
+      const legacyPath = path.join(os.tmpdir(), `test-legacy-${Date.now()}.db`);
+      const Database = require("better-sqlite3-multiple-ciphers");
+      const legacy = new Database(legacyPath);
+      legacy.exec(`
+        CREATE TABLE users (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          email TEXT UNIQUE NOT NULL,
+          first_name TEXT,
+          last_name TEXT,
+          address TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+        CREATE TABLE transactions (
+          id TEXT PRIMARY KEY,
+          user_id INTEGER NOT NULL,
+          date TEXT NOT NULL,
+          description TEXT NOT NULL,
+          amount REAL NOT NULL,
+          type TEXT NOT NULL,
+          category TEXT,
+          check_number TEXT,
+          is_reconciled INTEGER DEFAULT 0,
+          account_id TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+        INSERT INTO users (email, first_name) VALUES ('old@example.com', 'Old');
+        INSERT INTO transactions (id, user_id, date, description, amount, type, check_number)
+        VALUES ('t1', 1, '2024-01-01', 'Coffee: large', 4.5, 'debit', '42');
+      `);
+      legacy.close();
+
+      const migrated = await EncryptedDatabase.open(
+        legacyPath,
+        testEncryptionKey
+      );
+      const raw = migrated.db
+        .prepare("SELECT description FROM transactions WHERE id = 't1'")
+        .get();
+      expect(raw.description).not.toBe("Coffee: large");
+
+      const user = migrated.getUserByEmail("old@example.com");
+      expect(user.first_name).toBe("Old");
+      expect(migrated.getTransactionsByUserId(user.id)[0]).toMatchObject({
+        description: "Coffee: large",
+        check_number: "42",
+      });
+      migrated.close();
+
+      // Reopening must not double-encrypt
+      const reopened = await EncryptedDatabase.open(
+        legacyPath,
+        testEncryptionKey
+      );
+      expect(reopened.getUserByEmail("old@example.com").email).toBe(
+        "old@example.com"
+      );
+      reopened.close();
+      fs.unlinkSync(legacyPath);
+    });
+  });
+
+  describe("Account Operations", () => {
+    let userId: number;
+    const checking = {
+      name: "Everyday Checking",
+      institution: "First Bank",
+      accountType: "checking",
+      lastFour: "1234",
+      openingBalance: 50000,
+      openingDate: "2024-01-01",
+    };
+
+    beforeEach(() => {
+      userId = db.createUser("test@example.com", "John", "Doe");
+    });
+
+    test("should create and list accounts", () => {
+      const id = db.createAccount({ userId, ...checking });
+      const accounts = db.getAccountsByUserId(userId);
+
+      expect(accounts).toHaveLength(1);
+      expect(accounts[0]).toMatchObject({
+        id,
+        name: "Everyday Checking",
+        institution: "First Bank",
+        account_type: "checking",
+        last_four: "1234",
+        opening_balance: 50000,
+      });
+    });
+
+    test("should encrypt account name, institution and last four", () => {
+      const id = db.createAccount({ userId, ...checking });
+      const raw = db.db.prepare("SELECT * FROM accounts WHERE id = ?").get(id);
+
+      expect(raw.name).not.toBe("Everyday Checking");
+      expect(raw.institution).not.toBe("First Bank");
+      expect(raw.last_four).not.toBe("1234");
+    });
+
+    test("should reject unknown account types", () => {
+      expect(() =>
+        db.createAccount({ userId, ...checking, accountType: "brokerage" })
+      ).toThrow();
+    });
+
+    test("should update account fields", () => {
+      const id = db.createAccount({ userId, ...checking });
+      db.updateAccount(id, { name: "Joint Checking", openingBalance: 75000 });
+
+      const account = db.getAccountById(id);
+      expect(account.name).toBe("Joint Checking");
+      expect(account.opening_balance).toBe(75000);
+      expect(account.institution).toBe("First Bank");
+    });
+
+    test("should keep separate registers and balances per account", () => {
+      const checkingId = db.createAccount({ userId, ...checking });
+      const savingsId = db.createAccount({
+        userId,
+        name: "Savings",
+        accountType: "savings",
+        openingBalance: 100000,
+        openingDate: "2024-01-01",
       });
 
       db.createTransaction({
-        id: "txn_2",
         userId,
-        date: "2024-01-16",
-        description: "Gas Station",
-        amount: 40,
+        date: "2024-01-05",
+        description: "Paycheck",
+        amount: 200000,
+        type: "credit",
+        accountId: checkingId,
+      });
+      db.createTransaction({
+        userId,
+        date: "2024-01-06",
+        description: "Rent",
+        amount: 120000,
         type: "debit",
-        category: "Transportation",
+        accountId: checkingId,
+      });
+      db.createTransaction({
+        userId,
+        date: "2024-01-07",
+        description: "Interest",
+        amount: 500,
+        type: "credit",
+        accountId: savingsId,
       });
 
+      expect(db.getTransactionsByAccountId(checkingId)).toHaveLength(2);
+      expect(db.getTransactionsByAccountId(savingsId)).toHaveLength(1);
+      expect(db.getAccountBalance(checkingId)).toBe(130000);
+      expect(db.getAccountBalance(savingsId)).toBe(100500);
+    });
+
+    test("should refuse to delete an account that has transactions", () => {
+      const id = db.createAccount({ userId, ...checking });
       db.createTransaction({
-        id: "txn_3",
         userId,
-        date: "2024-01-17",
-        description: "Salary Deposit",
-        amount: 2000,
+        date: "2024-01-05",
+        description: "Coffee",
+        amount: 400,
+        type: "debit",
+        accountId: id,
+      });
+
+      expect(() => db.deleteAccount(id)).toThrow("move or delete them first");
+
+      const emptyId = db.createAccount({ userId, ...checking, name: "Empty" });
+      db.deleteAccount(emptyId);
+      expect(db.getAccountById(emptyId)).toBeUndefined();
+    });
+
+    test("should track import fingerprints per account", () => {
+      const checkingId = db.createAccount({ userId, ...checking });
+      const savingsId = db.createAccount({
+        userId,
+        ...checking,
+        name: "Savings",
+      });
+      const { id: importedId } = db.createTransaction({
+        userId,
+        date: "2024-01-05",
+        description: "Coffee",
+        amount: 450,
+        type: "debit",
+        accountId: checkingId,
+        fitId: "2024010501",
+        importFingerprint: "fitid:2024010501",
+      });
+      const { id: manualId } = db.createTransaction({
+        userId,
+        date: "2024-01-06",
+        description: "Paycheck",
+        amount: 200000,
+        type: "credit",
+        accountId: checkingId,
+      });
+      db.setImportFingerprint(manualId, "sha256:paycheck");
+      // The first fingerprint a transaction gets is kept
+      db.setImportFingerprint(importedId, "sha256:other");
+
+      expect(db.getImportFingerprints(userId, checkingId)).toEqual(
+        new Set(
+          ["fitid:2024010501", "sha256:paycheck"].map((fingerprint) =>
+            db.keyImportFingerprint(fingerprint)
+          )
+        )
+      );
+      // Stored keyed, with the fingerprint itself encrypted
+      const raw = db.db
+        .prepare(
+          "SELECT import_fingerprint, import_fingerprint_source FROM transactions WHERE id = ?"
+        )
+        .get(manualId);
+      expect(raw.import_fingerprint).toMatch(/^[0-9a-f]{64}$/);
+      expect(raw.import_fingerprint_source).not.toContain("paycheck");
+      expect(db.getImportFingerprints(userId, savingsId).size).toBe(0);
+      expect(db.getImportFingerprints(userId, null).size).toBe(0);
+      expect(
+        db
+          .getTransactionsByAccountId(checkingId)
+          .find((t: any) => t.id === importedId).fitid
+      ).toBe("2024010501");
+    });
+  });
+
+  describe("Reconciliation Sessions", () => {
+    let userId: number;
+    let accountId: string;
+    let paycheckId: string;
+    let rentId: string;
+
+    beforeEach(() => {
+      userId = db.createUser("test@example.com", "John", "Doe");
+      accountId = db.createAccount({
+        userId,
+        name: "Checking",
+        accountType: "checking",
+        openingBalance: 10000,
+        openingDate: "2024-01-01",
+      });
+      paycheckId = db.createTransaction({
+        userId,
+        date: "2024-01-05",
+        description: "Paycheck",
+        amount: 50010,
         type: "credit",
-        category: "Income",
+        accountId,
+      }).id;
+      rentId = db.createTransaction({
+        userId,
+        date: "2024-01-06",
+        description: "Rent",
+        amount: 30020,
+        type: "debit",
+        accountId,
+      }).id;
+      db.createTransaction({
+        userId,
+        date: "2024-02-06",
+        description: "After statement",
+        amount: 1000,
+        type: "debit",
+        accountId,
+      });
+    });
+
+    const start = () =>
+      db.startReconciliation({
+        userId,
+        accountId,
+        statementDate: "2024-01-31",
+        beginningBalance: 10000,
+        endingBalance: 29990,
       });
+
+    test("should suggest the opening balance for the first statement", () => {
+      expect(db.getSuggestedBeginningBalance(userId, accountId)).toBe(10000);
+    });
+
+    test("should only offer unreconciled transactions up to the statement date", () => {
+      const id = start();
+      const candidates = db.getReconciliationCandidates(id);
+
+      expect(candidates.map((t: any) => t.description)).toEqual([
+        "Paycheck",
+        "Rent",
+      ]);
+    });
+
+    test("should track the difference as transactions are cleared", () => {
+      const id = start();
+      expect(db.getReconciliationStatus(id).difference).toBe(19990);
+
+      db.setReconciliationCleared(id, paycheckId, true);
+      expect(db.getReconciliationStatus(id).difference).toBe(-30020);
+
+      db.setReconciliationCleared(id, rentId, true);
+      const status = db.getReconciliationStatus(id);
+      expect(status.difference).toBe(0);
+      expect(status.canFinish).toBe(true);
+      expect(status.clearedCount).toBe(2);
+    });
+
+    test("should refuse to finish until the statement balances", () => {
+      const id = start();
+      db.setReconciliationCleared(id, paycheckId, true);
+
+      expect(() => db.finishReconciliation(id)).toThrow(
+        "Statement does not balance; difference is -300.20"
+      );
+      expect(db.getReconciliationById(id).status).toBe("in_progress");
+    });
+
+    test("should mark cleared transactions reconciled on finish", () => {
+      const id = start();
+      db.setReconciliationCleared(id, paycheckId, true);
+      db.setReconciliationCleared(id, rentId, true);
+      db.finishReconciliation(id);
+
+      expect(db.getReconciliationById(id).status).toBe("completed");
+      expect(db.getUnreconciledTransactionsByUserId(userId)).toHaveLength(1);
+      expect(db.getSuggestedBeginningBalance(userId, accountId)).toBe(29990);
+    });
+
+    test("should resume an in-progress session instead of starting another", () => {
+      const id = start();
+      db.setReconciliationCleared(id, paycheckId, true);
+
+      expect(db.getInProgressReconciliation(userId, accountId).id).toBe(id);
+      expect(() => start()).toThrow("already in progress");
     });
 
-    test("should search transactions by description", () => {
-      const results = db.searchTransactions(userId, "Grocery");
-      expect(results).toHaveLength(1);
-      expect(results[0].description).toContain("Grocery");
+    test("should undo a completed session", () => {
+      const id = start();
+      db.setReconciliationCleared(id, paycheckId, true);
+      db.setReconciliationCleared(id, rentId, true);
+      db.finishReconciliation(id);
+
+      db.undoReconciliation(id);
+
+      expect(db.getReconciliationById(id)).toBeUndefined();
+      expect(db.getUnreconciledTransactionsByUserId(userId)).toHaveLength(3);
     });
 
-    test("should filter transactions by type", () => {
-      const debits = db.getTransactionsByType(userId, "debit");
-      expect(debits).toHaveLength(2);
+    test("should only undo the most recent completed session", () => {
+      const first = start();
+      db.setReconciliationCleared(first, paycheckId, true);
+      db.setReconciliationCleared(first, rentId, true);
+      db.finishReconciliation(first);
+
+      const second = db.startReconciliation({
+        userId,
+        accountId,
+        statementDate: "2024-02-29",
+        beginningBalance: 29990,
+        endingBalance: 29990,
+      });
+      db.finishReconciliation(second);
 
-      const credits = db.getTransactionsByType(userId, "credit");
-      expect(credits).toHaveLength(1);
+      expect(() => db.undoReconciliation(first)).toThrow(
+        "Only the most recent reconciliation can be undone"
+      );
     });
 
-    test("should filter transactions by category", () => {
-      const groceries = db.getTransactionsByCategory(userId, "Groceries");
-      expect(groceries).toHaveLength(1);
-      expect(groceries[0].category).toBe("Groceries");
+    describe("after a statement import", () => {
+      let batchId: number;
+
+      // The import clears both January transactions against its lines
+      beforeEach(() => {
+        batchId = db.createImportBatch({
+          userId,
+          accountId,
+          format: "ofx",
+          fileName: "checking-january.ofx",
+          fileHash: "cd34",
+          profileId: null,
+        });
+        for (const [id, amount] of [
+          [paycheckId, 50010],
+          [rentId, 30020],
+        ] as [string, number][]) {
+          db.markTransactionReconciled(id, true);
+          const lineId = db.createStatementLine({
+            userId,
+            accountId,
+            importBatchId: batchId,
+            date: "2024-01-05",
+            description: "BANK LINE",
+            amount,
+            type: "credit",
+            checkNumber: null,
+            fitId: null,
+            importFingerprint: `sha256:${id}`,
+            rawData: {},
+          });
+          db.linkStatementLine(lineId, id);
+        }
+      });
+
+      test("should start the session with the import's transactions cleared", () => {
+        const id = db.startReconciliation({
+          userId,
+          accountId,
+          statementDate: "2024-01-31",
+          beginningBalance: 10000,
+          endingBalance: 29990,
+          importBatchId: batchId,
+        });
+
+        expect(
+          db.getReconciliationCandidates(id).map((t: any) => t.is_cleared)
+        ).toEqual([1, 1]);
+        expect(db.getReconciliationStatus(id).canFinish).toBe(true);
+
+        // Unclearing one keeps it on offer
+        db.setReconciliationCleared(id, rentId, false);
+        expect(db.getReconciliationCandidates(id)).toHaveLength(2);
+        db.setReconciliationCleared(id, rentId, true);
+        db.finishReconciliation(id);
+        expect(db.getReconciliationById(id).status).toBe("completed");
+      });
+
+      test("should offer imported transactions to a session started by hand", () => {
+        const id = start();
+        expect(
+          db.getReconciliationCandidates(id).map((t: any) => t.is_cleared)
+        ).toEqual([0, 0]);
+
+        db.setReconciliationCleared(id, paycheckId, true);
+        db.setReconciliationCleared(id, rentId, true);
+        db.finishReconciliation(id);
+
+        // Settled transactions are not offered again, and undoing the
+        // session leaves them cleared by the import
+        const next = db.startReconciliation({
+          userId,
+          accountId,
+          statementDate: "2024-01-31",
+          beginningBalance: 29990,
+          endingBalance: 29990,
+        });
+        expect(db.getReconciliationCandidates(next)).toHaveLength(0);
+        db.undoReconciliation(next);
+        db.undoReconciliation(id);
+        expect(db.getUnreconciledTransactionsByUserId(userId)).toHaveLength(1);
+      });
     });
   });
 
-  describe("Edge Cases and Error Handling", () => {
-    test("should handle database with invalid encryption key", () => {
-      const dbPath = path.join(os.tmpdir(), `test-invalid-${Date.now()}.db`);
-      const db1 = new EncryptedDatabase(dbPath, "key1");
+  describe("Schema Migrations", () => {
+    const { LATEST_SCHEMA_VERSION } = require("./migrations");
+    const Database = require("better-sqlite3-multiple-ciphers");
 
-      const encrypted = db1.encrypt("test data");
-      db1.db.close();
+    test("should create new databases at the latest schema version", () => {
+      expect(db.db.pragma("user_version", { simple: true })).toBe(
+        LATEST_SCHEMA_VERSION
+      );
+      expect(db.migrationResult).toEqual({
+        fromVersion: 0,
+        toVersion: LATEST_SCHEMA_VERSION,
+        backupPath: null,
+      });
+    });
 
-      // Open with different key
-      const db2 = new EncryptedDatabase(dbPath, "key2");
-      const decrypted = db2.decrypt(encrypted);
+    test("should not re-run migrations on an up-to-date database", async () => {
+      db.close();
+      db = await EncryptedDatabase.open(testDbPath, testEncryptionKey);
 
-      // Should fail to decrypt properly
-      expect(decrypted).toBeNull();
+      expect(db.migrationResult.fromVersion).toBe(LATEST_SCHEMA_VERSION);
+      expect(db.migrationResult.backupPath).toBeNull();
+    });
 
-      db2.db.close();
-      fs.unlinkSync(dbPath);
+    test("should upgrade an unversioned database and delete its backup", async () => {
+      const legacyPath = path.join(os.tmpdir(), `test-v0-${Date.now()}.db`);
+      const legacy = new Database(legacyPath);
+      // Oldest schema: no check_number column yet
+      legacy.exec(`
+        CREATE TABLE users (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          email TEXT UNIQUE NOT NULL,
+          first_name TEXT,
+          last_name TEXT,
+          address TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+        CREATE TABLE transactions (
+          id TEXT PRIMARY KEY,
+          user_id INTEGER NOT NULL,
+          date TEXT NOT NULL,
+          description TEXT NOT NULL,
+          amount REAL NOT NULL,
+          type TEXT NOT NULL,
+          category TEXT,
+          is_reconciled INTEGER DEFAULT 0,
+          account_id TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+        INSERT INTO users (email) VALUES ('old@example.com');
+      `);
+      legacy.close();
+
+      const upgraded = await EncryptedDatabase.open(
+        legacyPath,
+        testEncryptionKey
+      );
+      const { fromVersion, toVersion, backupPath } = upgraded.migrationResult;
+
+      expect(fromVersion).toBe(0);
+      expect(toVersion).toBe(LATEST_SCHEMA_VERSION);
+      expect(backupPath).toBeNull();
+
+      const columns = upgraded.db
+        .pragma("table_info(transactions)")
+        .map((c: any) => c.name);
+      expect(columns).toContain("check_number");
+
+      // No plaintext copy of the pre-upgrade file is left behind
+      expect(
+        fs
+          .readdirSync(os.tmpdir())
+          .filter((file) =>
+            file.startsWith(`${path.basename(legacyPath)}.schema-v0-`)
+          )
+      ).toEqual([]);
+
+      upgraded.close();
+      fs.unlinkSync(legacyPath);
     });
 
-    test("should handle very large transaction amounts", () => {
-      const userId = db.createUser("test@example.com", "John", "Doe");
+    test("should keep and name the backup when a migration fails", () => {
+      const legacyPath = path.join(os.tmpdir(), `test-failed-${Date.now()}.db`);
+      const { MigrationError, runMigrations } = require("./migrations");
+      const legacy = new Database(legacyPath);
+      legacy.exec(`
+        CREATE TABLE users (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          email TEXT UNIQUE NOT NULL,
+          first_name TEXT,
+          last_name TEXT,
+          address TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+        INSERT INTO users (email) VALUES ('old@example.com');
+      `);
+
+      let error: any;
+      try {
+        runMigrations(legacy, legacyPath, {
+          encrypt: () => {
+            throw new Error("no key");
+          },
+          blindIndex: (value: string) => value
+        });
+      } catch (caught) {
+        error = caught;
+      }
+      legacy.close();
+
+      expect(error).toBeInstanceOf(MigrationError);
+      expect(error.message).toContain(error.backupPath);
+      expect(error.message).toContain("its fields are not encrypted");
+      expect(path.basename(error.backupPath)).toMatch(/\.schema-v0-.*\.bak$/);
+
+      // The backup is the untouched pre-upgrade file
+      const backup = new Database(error.backupPath, { readonly: true });
+      expect(backup.pragma("user_version", { simple: true })).toBe(0);
+      expect(
+        backup.prepare("SELECT email FROM users").get().email
+      ).toBe("old@example.com");
+      backup.close();
+
+      fs.unlinkSync(legacyPath);
+      fs.unlinkSync(error.backupPath);
+    });
 
-      db.createTransaction({
-        id: "txn_large",
+    test("should convert REAL amounts to integer cents", () => {
+      const legacyPath = path.join(os.tmpdir(), `test-v4-${Date.now()}.db`);
+      const { migrations, runMigrations } = require("./migrations");
+      const identity = {
+        encrypt: (text: string | null) => text,
+        blindIndex: (value: string) => value,
+      };
+
+      // Build a v4 database with the REAL money columns
+      const legacy = new Database(legacyPath);
+      legacy.pragma("foreign_keys = ON");
+      for (const migration of migrations.filter((m: any) => m.version <= 4)) {
+        migration.up(legacy, identity);
+      }
+      legacy.pragma("user_version = 4");
+      legacy.exec(`
+        INSERT INTO users (email) VALUES ('old@example.com');
+        INSERT INTO accounts (id, user_id, name, account_type, opening_balance, opening_date)
+        VALUES ('a1', 1, 'Checking', 'checking', 100.1, '2024-01-01');
+        INSERT INTO transactions (id, user_id, date, description, amount, type, account_id)
+        VALUES ('t1', 1, '2024-01-05', 'Coffee', 0.1 + 0.2, 'debit', 'a1');
+        INSERT INTO reconciliations (user_id, account_id, statement_date, beginning_balance, ending_balance)
+        VALUES (1, 'a1', '2024-01-31', 100.1, 99.8);
+        INSERT INTO reconciliation_transactions (reconciliation_id, transaction_id) VALUES (1, 't1');
+      `);
+      legacy.close();
+
+      const upgraded = new Database(legacyPath);
+      upgraded.pragma("foreign_keys = ON");
+      runMigrations(upgraded, legacyPath, identity);
+
+      expect(
+        upgraded.prepare("SELECT amount FROM transactions").get().amount
+      ).toBe(30);
+      expect(
+        upgraded.prepare("SELECT opening_balance FROM accounts").get()
+          .opening_balance
+      ).toBe(10010);
+      expect(
+        upgraded
+          .prepare(
+            "SELECT beginning_balance, ending_balance FROM reconciliations"
+          )
+          .get()
+      ).toEqual({ beginning_balance: 10010, ending_balance: 9980 });
+      // Rebuilding the parent tables must not cascade into child rows
+      expect(
+        upgraded
+          .prepare("SELECT COUNT(*) AS n FROM reconciliation_transactions")
+          .get().n
+      ).toBe(1);
+      expect(upgraded.pragma("foreign_keys", { simple: true })).toBe(1);
+      expect(() =>
+        upgraded
+          .prepare(
+            "UPDATE transactions SET amount = 1.5 WHERE id = 't1'"
+          )
+          .run()
+      ).toThrow(/CHECK constraint failed/);
+
+      const { backupPath } = runMigrations(upgraded, legacyPath, identity);
+      expect(backupPath).toBeNull();
+      upgraded.close();
+      for (const file of fs.readdirSync(os.tmpdir())) {
+        if (file.startsWith(path.basename(legacyPath))) {
+          fs.unlinkSync(path.join(os.tmpdir(), file));
+        }
+      }
+    });
+
+    test("should key existing import fingerprints", () => {
+      const legacyPath = path.join(os.tmpdir(), `test-v16-${Date.now()}.db`);
+      const { migrations, runMigrations } = require("./migrations");
+      const context = {
+        encrypt: (text: string | null) => text && `enc(${text})`,
+        blindIndex: (value: string) => `hmac(${value})`,
+      };
+
+      const legacy = new Database(legacyPath);
+      for (const migration of migrations.filter((m: any) => m.version <= 16)) {
+        migration.up(legacy, context);
+      }
+      legacy.pragma("user_version = 16");
+      legacy.exec(`
+        INSERT INTO users (email) VALUES ('old@example.com');
+        INSERT INTO transactions (id, user_id, date, description, amount, type, import_fingerprint)
+        VALUES ('t1', 1, '2024-01-05', 'Coffee', 450, 'debit', 'sha256:coffee');
+      `);
+
+      runMigrations(legacy, legacyPath, context);
+
+      expect(
+        legacy
+          .prepare(
+            "SELECT import_fingerprint, import_fingerprint_source FROM transactions"
+          )
+          .get()
+      ).toEqual({
+        import_fingerprint: "hmac(sha256:coffee)",
+        import_fingerprint_source: "enc(sha256:coffee)",
+      });
+      legacy.close();
+      for (const file of fs.readdirSync(os.tmpdir())) {
+        if (file.startsWith(path.basename(legacyPath))) {
+          fs.unlinkSync(path.join(os.tmpdir(), file));
+        }
+      }
+    });
+
+    test("should refuse databases from a newer app version", async () => {
+      db.close();
+      const raw = new Database(testDbPath);
+      raw.pragma(`user_version = ${LATEST_SCHEMA_VERSION + 1}`);
+      raw.close();
+
+      await expect(
+        EncryptedDatabase.open(testDbPath, testEncryptionKey)
+      ).rejects.toThrow(/newer than this version of BankRec supports/);
+      db = null;
+    });
+
+    test("should roll back a failed migration", () => {
+      const { migrations, runMigrations } = require("./migrations");
+      const raw = new Database(":memory:");
+      const context = {
+        encrypt: (text: string | null) => text,
+        blindIndex: (value: string) => value,
+      };
+      runMigrations(raw, ":memory:", context);
+
+      migrations.push({
+        version: LATEST_SCHEMA_VERSION + 1,
+        description: "Broken",
+        up(target: any) {
+          target.exec("CREATE TABLE half_done (id INTEGER)");
+          throw new Error("boom");
+        },
+      });
+      try {
+        expect(() => runMigrations(raw, ":memory:", context)).toThrow(
+          /Migration \d+ \(Broken\) failed: boom/
+        );
+      } finally {
+        migrations.pop();
+      }
+
+      expect(raw.pragma("user_version", { simple: true })).toBe(
+        LATEST_SCHEMA_VERSION
+      );
+      expect(
+        raw
+          .prepare("SELECT name FROM sqlite_master WHERE name = 'half_done'")
+          .get()
+      ).toBeUndefined();
+      raw.close();
+    });
+  });
+
+  describe("Import Profiles", () => {
+    let userId: number;
+    const mapping = {
+      skipRows: 2,
+      hasHeader: true,
+      dateColumn: 0,
+      descriptionColumn: 1,
+      amountColumn: null,
+      debitColumn: 2,
+      creditColumn: 3,
+      categoryColumn: null,
+      checkNumberColumn: null,
+      signConvention: "negative_is_debit",
+      dateFormat: "DD/MM/YYYY",
+    };
+
+    beforeEach(() => {
+      userId = db.createUser("test@example.com", "John", "Doe");
+    });
+
+    test("should save and load a profile with its mapping", () => {
+      const id = db.createImportProfile({
+        userId,
+        name: "First Bank Checking",
+        headerSignature: "abc123",
+        mapping,
+      });
+
+      expect(db.getImportProfileById(id)).toMatchObject({
+        id,
+        user_id: userId,
+        name: "First Bank Checking",
+        header_signature: "abc123",
+        mapping,
+      });
+    });
+
+    test("should encrypt the profile name", () => {
+      const id = db.createImportProfile({
+        userId,
+        name: "First Bank Checking",
+        headerSignature: null,
+        mapping,
+      });
+      const raw = db.db
+        .prepare("SELECT * FROM import_profiles WHERE id = ?")
+        .get(id);
+
+      expect(raw.name).not.toBe("First Bank Checking");
+    });
+
+    test("should list, update and delete profiles", () => {
+      const first = db.createImportProfile({
+        userId,
+        name: "First Bank",
+        headerSignature: "one",
+        mapping,
+      });
+      const second = db.createImportProfile({
+        userId,
+        name: "Card",
+        headerSignature: "two",
+        mapping,
+      });
+
+      expect(
+        db.getImportProfilesByUserId(userId).map((p: any) => p.id)
+      ).toEqual([second, first]);
+
+      db.updateImportProfile(first, {
+        name: "First Bank",
+        headerSignature: "one",
+        mapping: { ...mapping, skipRows: 0 },
+      });
+      expect(db.getImportProfileById(first).mapping.skipRows).toBe(0);
+
+      db.deleteImportProfile(second);
+      expect(db.getImportProfilesByUserId(userId)).toHaveLength(1);
+    });
+  });
+
+  describe("Import Batches", () => {
+    let userId: number;
+    let accountId: string;
+
+    beforeEach(() => {
+      userId = db.createUser("test@example.com", "John", "Doe");
+      accountId = db.createAccount({
+        userId,
+        name: "Checking",
+        accountType: "checking",
+        openingBalance: 10000,
+        openingDate: "2024-01-01",
+      });
+    });
+
+    const importBatch = (isReconciled: boolean) => {
+      const batchId = db.createImportBatch({
+        userId,
+        accountId,
+        format: "csv",
+        fileName: "checking-january.csv",
+        fileHash: "ab12",
+        profileId: null,
+      });
+      const ids = ["Coffee", "Groceries"].map(
+        (description, i) =>
+          db.createTransaction({
+            userId,
+            date: `2024-01-0${i + 5}`,
+            description,
+            amount: 1000,
+            type: "debit",
+            isReconciled,
+            accountId,
+            importBatchId: batchId,
+          }).id
+      );
+      db.setImportBatchCounts(batchId, { created: 2, matched: 1, skipped: 3 });
+      return { batchId, ids };
+    };
+
+    test("should record the file and row counts", () => {
+      const { batchId } = importBatch(true);
+
+      expect(db.getImportBatchesByUserId(userId)).toEqual([
+        expect.objectContaining({
+          id: batchId,
+          account_id: accountId,
+          format: "csv",
+          file_name: "checking-january.csv",
+          file_hash: "ab12",
+          created_count: 2,
+          matched_count: 1,
+          skipped_count: 3,
+          reconciled_count: 0,
+          rolled_back_at: null,
+        }),
+      ]);
+
+      const raw = db.db
+        .prepare("SELECT file_name FROM import_batches WHERE id = ?")
+        .get(batchId);
+      expect(raw.file_name).not.toBe("checking-january.csv");
+    });
+
+    test("should delete only the transactions the batch created", () => {
+      const { id: manualId } = db.createTransaction({
+        userId,
+        date: "2024-01-02",
+        description: "Matched by the import",
+        amount: 500,
+        type: "debit",
+        isReconciled: true,
+        accountId,
+      });
+      const { batchId } = importBatch(true);
+
+      expect(db.rollbackImportBatch(batchId)).toBe(2);
+      expect(
+        db.getTransactionsByAccountId(accountId).map((t: any) => t.id)
+      ).toEqual([manualId]);
+      expect(db.getImportBatchById(batchId).rolled_back_at).not.toBeNull();
+      expect(() => db.rollbackImportBatch(batchId)).toThrow(
+        "already been rolled back"
+      );
+    });
+
+    test("should refuse once a transaction was cleared in a reconciliation", () => {
+      const { batchId, ids } = importBatch(false);
+      const reconciliationId = db.startReconciliation({
+        userId,
+        accountId,
+        statementDate: "2024-01-31",
+        beginningBalance: 10000,
+        endingBalance: 9000,
+      });
+      db.setReconciliationCleared(reconciliationId, ids[0], true);
+
+      expect(db.getImportBatchById(batchId).reconciled_count).toBe(1);
+      expect(() => db.rollbackImportBatch(batchId)).toThrow(
+        "1 transaction(s) from this import have been reconciled since"
+      );
+      expect(db.getTransactionsByAccountId(accountId)).toHaveLength(2);
+    });
+
+    test("should refuse once a later statement covering the rows is completed", () => {
+      const { batchId } = importBatch(true);
+      const reconciliationId = db.startReconciliation({
+        userId,
+        accountId,
+        statementDate: "2024-01-05",
+        beginningBalance: 10000,
+        endingBalance: 10000,
+      });
+      db.finishReconciliation(reconciliationId);
+
+      // Only the row on or before the statement date is covered
+      expect(db.getImportBatchById(batchId).reconciled_count).toBe(1);
+      expect(() => db.rollbackImportBatch(batchId)).toThrow(
+        "reconciled since"
+      );
+    });
+  });
+
+  describe("Statement Lines", () => {
+    let userId: number;
+    let accountId: string;
+
+    const line = (overrides: any = {}) => ({
+      userId,
+      accountId,
+      importBatchId: null,
+      date: "2024-01-09",
+      description: "DEPOSIT",
+      amount: 45000,
+      type: "credit",
+      checkNumber: null,
+      fitId: null,
+      importFingerprint: "sha256:deposit",
+      rawData: { Date: "01/09/2024", Description: "DEPOSIT", Amount: "450.00" },
+      ...overrides,
+    });
+
+    const createCheck = (description: string, amount: number): string =>
+      db.createTransaction({
+        userId,
+        date: "2024-01-08",
+        description,
+        amount,
+        type: "credit",
+        isReconciled: true,
+        accountId,
+        importFingerprint: "sha256:deposit",
+      }).id;
+
+    beforeEach(() => {
+      userId = db.createUser("test@example.com", "John", "Doe");
+      accountId = db.createAccount({
+        userId,
+        name: "Checking",
+        accountType: "checking",
+        openingBalance: 0,
+        openingDate: "2024-01-01",
+      });
+    });
+
+    test("should keep the bank's line, encrypted, next to the transaction", () => {
+      const transactionId = createCheck("Paycheck", 45000);
+      const lineId = db.createStatementLine(line());
+      db.linkStatementLine(lineId, transactionId);
+
+      const [stored] = db.getStatementLinesByTransactionId(transactionId);
+      expect(stored).toMatchObject({
+        id: lineId,
+        description: "DEPOSIT",
+        amount: 45000,
+        raw_data: { Description: "DEPOSIT", Amount: "450.00" },
+        match_group_id: null,
+      });
+      const row = db.db
+        .prepare("SELECT description, raw_data FROM statement_lines")
+        .get();
+      expect(row.description).not.toBe("DEPOSIT");
+      expect(row.raw_data).not.toContain("DEPOSIT");
+
+      expect([...db.getStatementLinkedTransactionIds(userId)]).toEqual([
+        transactionId,
+      ]);
+      expect(db.getImportFingerprints(userId, accountId)).toEqual(
+        new Set([db.keyImportFingerprint("sha256:deposit")])
+      );
+    });
+
+    test("should record which transactions and bank lines cleared together", () => {
+      const [aliceId, bobId] = [
+        createCheck("Check 1", 20000),
+        createCheck("Check 2", 25000),
+      ];
+      const groupId = db.createMatchGroup({
+        userId,
+        accountId,
+        importBatchId: null,
+        kind: "many_to_one",
+      });
+      const lineId = db.createStatementLine(line());
+      db.linkStatementLine(lineId, aliceId, groupId);
+      db.linkStatementLine(lineId, bobId, groupId);
+
+      const [group] = db.getMatchGroupsByTransactionId(bobId);
+      expect(group.kind).toBe("many_to_one");
+      expect(
+        group.transactions.map((t: any) => t.description).sort()
+      ).toEqual(["Check 1", "Check 2"]);
+      expect(group.lines).toEqual([
+        expect.objectContaining({ description: "DEPOSIT", amount: 45000 }),
+      ]);
+      expect([...db.getStatementLinkedTransactionIds(userId)].sort()).toEqual(
+        [aliceId, bobId].sort()
+      );
+    });
+
+    test("should unmatch a whole group and release its transactions", () => {
+      const [aliceId, bobId] = [
+        createCheck("Check 1", 20000),
+        createCheck("Check 2", 25000),
+      ];
+      const groupId = db.createMatchGroup({
+        userId,
+        accountId,
+        importBatchId: null,
+        kind: "many_to_one",
+      });
+      const lineId = db.createStatementLine(line());
+      db.linkStatementLine(lineId, aliceId, groupId);
+      db.linkStatementLine(lineId, bobId, groupId);
+
+      db.unlinkStatementLine(lineId, aliceId);
+
+      expect(db.getStatementLinesByTransactionId(bobId)).toEqual([]);
+      expect(db.getMatchGroupsByTransactionId(bobId)).toEqual([]);
+      for (const transaction of db.getTransactionsByUserId(userId)) {
+        expect(transaction.is_reconciled).toBe(0);
+        expect(transaction.import_fingerprint).toBeNull();
+      }
+      // The line can be matched again by a later import
+      expect(db.getImportFingerprints(userId, accountId)).toEqual(new Set());
+      expect(() => db.unlinkStatementLine(lineId, aliceId)).toThrow(
+        "This statement line is not matched to the transaction"
+      );
+    });
+
+    test("should undo an import's matches on rollback", () => {
+      const matchedId = createCheck("Paycheck", 45000);
+      db.setTransactionFitId(matchedId, "FIT-1");
+      const batchId = db.createImportBatch({
+        userId,
+        accountId,
+        format: "csv",
+        fileName: "january.csv",
+        fileHash: "abc",
+        profileId: null,
+      });
+      const { id: createdId } = db.createTransaction({
+        userId,
+        date: "2024-01-10",
+        description: "Coffee",
+        amount: 450,
+        type: "debit",
+        isReconciled: true,
+        accountId,
+        importBatchId: batchId,
+      });
+      const matchedLine = db.createStatementLine(
+        line({ importBatchId: batchId })
+      );
+      db.linkStatementLine(matchedLine, matchedId);
+      db.linkStatementLine(
+        db.createStatementLine(
+          line({
+            importBatchId: batchId,
+            description: "COFFEE",
+            importFingerprint: "sha256:coffee",
+          })
+        ),
+        createdId
+      );
+
+      db.rollbackImportBatch(batchId);
+
+      const lines = db.db.prepare("SELECT id FROM statement_lines").all();
+      expect(lines).toEqual([]);
+      expect(db.getStatementLinesByTransactionId(matchedId)).toEqual([]);
+      const [matched] = db
+        .getTransactionsByUserId(userId)
+        .filter((t: any) => t.id === matchedId);
+      expect(matched.is_reconciled).toBe(0);
+      expect(matched.import_fingerprint).toBeNull();
+      expect(matched.fitid).toBeNull();
+      expect(db.getImportFingerprints(userId, accountId)).toEqual(new Set());
+    });
+
+    test("should refuse to roll back an import whose match was reconciled", () => {
+      const matchedId = createCheck("Paycheck", 45000);
+      const batchId = db.createImportBatch({
+        userId,
+        accountId,
+        format: "csv",
+        fileName: "january.csv",
+        fileHash: "abc",
+        profileId: null,
+      });
+      db.linkStatementLine(
+        db.createStatementLine(line({ importBatchId: batchId })),
+        matchedId
+      );
+      db.markTransactionReconciled(matchedId, false);
+      const reconciliationId = db.startReconciliation({
+        userId,
+        accountId,
+        statementDate: "2024-01-31",
+        beginningBalance: 0,
+        endingBalance: 45000,
+      });
+      db.setReconciliationCleared(reconciliationId, matchedId, true);
+
+      expect(() => db.rollbackImportBatch(batchId)).toThrow(
+        "1 transaction(s) this import matched have been reconciled since; undo those reconciliations first"
+      );
+      expect(db.getImportBatchById(batchId).rolled_back_at).toBeNull();
+      expect(db.getStatementLinesByTransactionId(matchedId)).toHaveLength(1);
+    });
+
+    test("should refuse to unmatch a transaction cleared in a reconciliation", () => {
+      const transactionId = createCheck("Paycheck", 45000);
+      const lineId = db.createStatementLine(line());
+      db.linkStatementLine(lineId, transactionId);
+      db.markTransactionReconciled(transactionId, false);
+
+      const reconciliationId = db.startReconciliation({
+        userId,
+        accountId,
+        statementDate: "2024-01-31",
+        beginningBalance: 0,
+        endingBalance: 45000,
+      });
+      db.setReconciliationCleared(reconciliationId, transactionId, true);
+
+      expect(() => db.unlinkStatementLine(lineId, transactionId)).toThrow(
+        "undo that reconciliation first"
+      );
+      expect(db.getStatementLinesByTransactionId(transactionId)).toHaveLength(
+        1
+      );
+    });
+  });
+
+  describe("Transaction Splits", () => {
+    let userId: number;
+
+    const costco = () =>
+      db.createTransaction({
+        userId,
+        date: "2024-01-15",
+        description: "Costco",
+        amount: 15000,
+        type: "debit",
+        splits: [
+          { amount: 10000, category: "Groceries", memo: "Food" },
+          { amount: 5000, category: "Household" },
+        ],
+      }).id;
+
+    beforeEach(() => {
+      userId = db.createUser("test@example.com", "John", "Doe");
+    });
+
+    test("should store splits in order with encrypted memos", () => {
+      const id = costco();
+
+      expect(db.getSplitsByTransactionId(id)).toEqual([
+        expect.objectContaining({
+          position: 0,
+          amount: 10000,
+          category: "Groceries",
+          memo: "Food",
+        }),
+        expect.objectContaining({
+          position: 1,
+          amount: 5000,
+          category: "Household",
+          memo: null,
+        }),
+      ]);
+      expect(
+        db.db.prepare("SELECT memo FROM transaction_splits").get().memo
+      ).not.toBe("Food");
+      expect(db.getSplitsByUserId(userId).get(id)).toHaveLength(2);
+    });
+
+    test("should replace splits on update and drop them with the transaction", () => {
+      const id = costco();
+
+      db.updateTransaction(id, {
+        splits: [
+          { amount: 12000, category: "Groceries" },
+          { amount: 3000, category: "Pharmacy" },
+        ],
+      });
+      expect(
+        db.getSplitsByTransactionId(id).map((split: any) => split.category)
+      ).toEqual(["Groceries", "Pharmacy"]);
+
+      db.updateTransaction(id, { description: "Costco Wholesale" });
+      expect(db.getSplitsByTransactionId(id)).toHaveLength(2);
+
+      db.deleteTransaction(id);
+      expect(
+        db.db.prepare("SELECT COUNT(*) AS count FROM transaction_splits").get()
+          .count
+      ).toBe(0);
+    });
+
+    test("should total categories using split amounts", () => {
+      costco();
+      db.createTransaction({
+        userId,
+        date: "2024-01-20",
+        description: "Market",
+        amount: 2500,
+        type: "debit",
+        category: "Groceries",
+      });
+      db.createTransaction({
+        userId,
+        date: "2024-02-01",
+        description: "Paycheck",
+        amount: 200000,
+        type: "credit",
+        category: "Salary",
+      });
+
+      expect(db.getCategoryTotals(userId)).toEqual([
+        { category: "Groceries", credits: 0, debits: 12500 },
+        { category: "Household", credits: 0, debits: 5000 },
+        { category: "Salary", credits: 200000, debits: 0 },
+      ]);
+      expect(
+        db.getCategoryTotals(userId, { endDate: "2024-01-15" })
+      ).toEqual([
+        { category: "Groceries", credits: 0, debits: 10000 },
+        { category: "Household", credits: 0, debits: 5000 },
+      ]);
+    });
+  });
+
+  describe("Transfers", () => {
+    let userId: number;
+    let checkingId: string;
+    let savingsId: string;
+
+    beforeEach(() => {
+      userId = db.createUser("test@example.com", "John", "Doe");
+      [checkingId, savingsId] = ["Checking", "Savings"].map((name) =>
+        db.createAccount({
+          userId,
+          name,
+          accountType: name.toLowerCase(),
+          openingBalance: 100000,
+          openingDate: "2024-01-01",
+        })
+      );
+    });
+
+    const transfer = () =>
+      db.createTransfer({
+        userId,
+        date: "2024-01-15",
+        description: "To savings",
+        amount: 25000,
+        fromAccountId: checkingId,
+        toAccountId: savingsId,
+        checkNumber: "101",
+      });
+
+    test("should create both sides linked", () => {
+      const { id, fromTransactionId, toTransactionId } = transfer();
+
+      const created = db.getTransferById(id);
+      expect(created.from).toMatchObject({
+        id: fromTransactionId,
+        type: "debit",
+        amount: 25000,
+        account_id: checkingId,
+        check_number: "101",
+      });
+      expect(created.to).toMatchObject({
+        id: toTransactionId,
+        type: "credit",
+        amount: 25000,
+        account_id: savingsId,
+        check_number: null,
+      });
+      expect(db.getTransferByTransactionId(toTransactionId).id).toBe(id);
+      expect(
+        db.getTransferSidesByUserId(userId).get(fromTransactionId)
+      ).toEqual({ transferId: id, otherAccountId: savingsId });
+      expect(db.getAccountBalance(checkingId)).toBe(75000);
+      expect(db.getAccountBalance(savingsId)).toBe(125000);
+    });
+
+    test("should edit both sides together and keep each side's cleared state", () => {
+      const { id, toTransactionId } = transfer();
+      db.markTransactionReconciled(toTransactionId, true);
+
+      db.updateTransfer(id, {
+        date: "2024-01-16",
+        description: "To savings",
+        amount: 30000,
+        fromAccountId: checkingId,
+        toAccountId: savingsId,
+      });
+
+      const updated = db.getTransferById(id);
+      expect([updated.from.amount, updated.to.amount]).toEqual([30000, 30000]);
+      expect([updated.from.date, updated.to.date]).toEqual([
+        "2024-01-16",
+        "2024-01-16",
+      ]);
+      expect([updated.from.is_reconciled, updated.to.is_reconciled]).toEqual([
+        0, 1,
+      ]);
+    });
+
+    test("should delete both sides when either is deleted", () => {
+      const { id, toTransactionId } = transfer();
+
+      db.deleteTransaction(toTransactionId);
+
+      expect(db.getTransferById(id)).toBeUndefined();
+      expect(db.getTransactionsByUserId(userId)).toEqual([]);
+    });
+
+    test("should leave transfers out of category totals", () => {
+      transfer();
+      db.createTransaction({
+        userId,
+        date: "2024-01-20",
+        description: "Market",
+        amount: 2500,
+        type: "debit",
+        category: "Groceries",
+        accountId: checkingId,
+      });
+
+      expect(db.getCategoryTotals(userId)).toEqual([
+        { category: "Groceries", credits: 0, debits: 2500 },
+      ]);
+    });
+  });
+
+  describe("Scheduled Transactions", () => {
+    let userId: number;
+    let accountId: string;
+
+    beforeEach(() => {
+      userId = db.createUser("test@example.com", "John", "Doe");
+      accountId = db.createAccount({
+        userId,
+        name: "Checking",
+        accountType: "checking",
+        openingBalance: 100000,
+        openingDate: "2024-01-01",
+      });
+    });
+
+    const schedule = (mode: "post" | "remind" = "post") =>
+      db.createScheduledTransaction({
+        userId,
+        accountId,
+        description: "Rent",
+        amount: 120000,
+        type: "debit",
+        category: "Housing",
+        frequency: "monthly",
+        dayOfMonth: 1,
+        startDate: "2024-01-01",
+        mode,
+      });
+
+    test("should encrypt the description and start at the first occurrence", () => {
+      const id = schedule();
+
+      expect(db.getScheduledTransactionById(id)).toMatchObject({
+        description: "Rent",
+        next_date: "2024-01-01",
+      });
+      const raw = db.db
+        .prepare("SELECT description FROM scheduled_transactions WHERE id = ?")
+        .get(id);
+      expect(raw.description).not.toBe("Rent");
+    });
+
+    test("should post due occurrences and leave reminders waiting", () => {
+      const rent = schedule();
+      const gym = db.createScheduledTransaction({
+        userId,
+        accountId,
+        description: "Gym",
+        amount: 4000,
+        type: "debit",
+        frequency: "monthly",
+        startDate: "2024-01-15",
+        mode: "remind",
+      });
+
+      const created = db.postDueScheduledTransactions(userId, "2024-02-10");
+
+      expect(created).toHaveLength(2);
+      expect(
+        db
+          .getTransactionsByUserId(userId)
+          .map((t: any) => [t.date, t.description, t.category])
+          .sort()
+      ).toEqual([
+        ["2024-01-01", "Rent", "Housing"],
+        ["2024-02-01", "Rent", "Housing"],
+      ]);
+      expect(db.getScheduledTransactionById(rent).next_date).toBe("2024-03-01");
+      expect(db.getScheduledTransactionById(gym).next_date).toBe("2024-01-15");
+
+      // Running again the same day posts nothing new
+      expect(db.postDueScheduledTransactions(userId, "2024-02-10")).toEqual([]);
+    });
+
+    test("should post reminders one occurrence at a time", () => {
+      const id = schedule("remind");
+
+      expect(() => db.postScheduledOccurrence(id, "2024-02-01")).toThrow(
+        "Post or skip the occurrence on 2024-01-01 first"
+      );
+      const transactionId = db.postScheduledOccurrence(id, "2024-01-01");
+
+      expect(db.getTransactionsByUserId(userId)[0].id).toBe(transactionId);
+      expect(() => db.postScheduledOccurrence(id, "2024-01-01")).toThrow(
+        "This occurrence has already been posted or skipped"
+      );
+      expect(() => db.skipScheduledOccurrence(id, "2024-02-15")).toThrow(
+        "The schedule has no occurrence on 2024-02-15"
+      );
+    });
+
+    test("should skip and change single occurrences", () => {
+      const id = schedule();
+      db.skipScheduledOccurrence(id, "2024-02-01");
+      db.setScheduledOccurrence(id, "2024-03-01", {
+        date: "2024-02-29",
+        amount: 125000,
+      });
+
+      const forecast = db.getScheduledEntries(userId, "2024-03-31");
+      expect(
+        forecast.map((e: any) => [
+          e.occurrenceDate,
+          e.date,
+          e.amount,
+          e.skipped,
+        ])
+      ).toEqual([
+        ["2024-01-01", "2024-01-01", 120000, false],
+        ["2024-02-01", "2024-02-01", 120000, true],
+        ["2024-03-01", "2024-02-29", 125000, false],
+      ]);
+      expect(forecast[2].changed).toBe(true);
+
+      db.postDueScheduledTransactions(userId, "2024-03-01");
+      expect(
+        db
+          .getTransactionsByUserId(userId)
+          .map((t: any) => [t.date, t.amount])
+          .sort()
+      ).toEqual([
+        ["2024-01-01", 120000],
+        ["2024-02-29", 125000],
+      ]);
+      expect(db.getScheduledTransactionById(id).next_date).toBe("2024-04-01");
+    });
+
+    test("should keep posted transactions when a schedule is deleted", () => {
+      const id = schedule();
+      db.postDueScheduledTransactions(userId, "2024-01-01");
+
+      expect(() => db.deleteAccount(accountId)).toThrow();
+      db.deleteScheduledTransaction(id);
+
+      expect(db.getScheduledTransactionsByUserId(userId)).toEqual([]);
+      expect(db.getTransactionsByUserId(userId)).toHaveLength(1);
+    });
+  });
+
+  describe("Categorization Rules", () => {
+    let userId: number;
+    let checkingId: string;
+    let cardId: string;
+
+    beforeEach(() => {
+      userId = db.createUser("test@example.com", "John", "Doe");
+      [checkingId, cardId] = [
+        ["Checking", "checking"],
+        ["Card", "credit_card"],
+      ].map(([name, accountType]) =>
+        db.createAccount({
+          userId,
+          name,
+          accountType,
+          openingBalance: 0,
+          openingDate: "2024-01-01",
+        })
+      );
+    });
+
+    const rule = (fields: object) =>
+      db.createCategorizationRule({
+        userId,
+        descriptionPattern: null,
+        matchType: "contains",
+        minAmount: null,
+        maxAmount: null,
+        accountId: null,
+        type: null,
+        setCategory: null,
+        setDescription: null,
+        transferAccountId: null,
+        ...fields,
+      });
+
+    const payment = (accountId: string, type: string, importBatchId = null) =>
+      db.createTransaction({
+        userId,
+        date: "2024-01-10",
+        description: "ONLINE PMT",
+        amount: 50000,
+        type,
+        category: "Bills",
+        accountId,
+        importBatchId,
+      }).id;
+
+    test("should keep rules in order with encrypted patterns", () => {
+      const coffee = rule({
+        descriptionPattern: "blue bottle",
+        setCategory: "Coffee",
+      });
+      const dining = rule({ maxAmount: 5000, setCategory: "Dining" });
+
+      expect(
+        db.getCategorizationRulesByUserId(userId).map((r: any) => r.id)
+      ).toEqual([coffee, dining]);
+      db.reorderCategorizationRules(userId, [dining, coffee]);
+      expect(db.getCategorizationRulesByUserId(userId)[1]).toMatchObject({
+        id: coffee,
+        descriptionPattern: "blue bottle",
+        matchType: "contains",
+        setCategory: "Coffee",
+      });
+      expect(() => db.reorderCategorizationRules(userId, [coffee])).toThrow(
+        "The new order must list every rule once"
+      );
+
+      const raw = db.db
+        .prepare(
+          "SELECT description_pattern FROM categorization_rules WHERE id = ?"
+        )
+        .get(coffee);
+      expect(raw.description_pattern).not.toBe("blue bottle");
+    });
+
+    test("should pair a transfer with the other account's transaction", () => {
+      const fromChecking = payment(checkingId, "debit");
+      const onCard = payment(cardId, "credit");
+
+      const { id, otherTransactionId } = db.linkTransfer(fromChecking, cardId);
+
+      expect(otherTransactionId).toBe(onCard);
+      const transfer = db.getTransferById(id);
+      expect([transfer.from.id, transfer.to.id]).toEqual([
+        fromChecking,
+        onCard,
+      ]);
+      expect([transfer.from.category, transfer.to.category]).toEqual([
+        null,
+        null,
+      ]);
+      expect(() => db.linkTransfer(fromChecking, cardId)).toThrow(
+        "The transaction is already a transfer"
+      );
+    });
+
+    test("should create the other side when there is none", () => {
+      const fromChecking = payment(checkingId, "debit");
+
+      const { otherTransactionId } = db.linkTransfer(fromChecking, cardId);
+
+      expect(db.getTransferByTransactionId(fromChecking).to).toMatchObject({
+        id: otherTransactionId,
+        account_id: cardId,
+        type: "credit",
+        amount: 50000,
+        description: "ONLINE PMT",
+      });
+    });
+
+    test("should release transfer partners when an import is rolled back", () => {
+      const batchId = db.createImportBatch({
+        userId,
+        accountId: checkingId,
+        format: "csv",
+        fileName: "checking.csv",
+        fileHash: "cd34",
+        profileId: null,
+      });
+      const imported = payment(checkingId, "debit", batchId);
+      const onCard = payment(cardId, "credit");
+      db.linkTransfer(imported, cardId, batchId);
+
+      db.rollbackImportBatch(batchId);
+
+      const [remaining] = db.getTransactionsByUserId(userId);
+      expect(remaining.id).toBe(onCard);
+      expect(remaining.transfer_id).toBeNull();
+      expect(db.db.prepare("SELECT COUNT(*) AS n FROM transfers").get().n).toBe(
+        0
+      );
+    });
+  });
+
+  describe("Payees", () => {
+    let userId: number;
+
+    beforeEach(() => {
+      userId = db.createUser("test@example.com", "John", "Doe");
+    });
+
+    const spend = (description: string, fields: object = {}) =>
+      db.createTransaction({
+        userId,
+        date: "2024-01-10",
+        description,
+        amount: 450,
+        type: "debit",
+        category: "Coffee",
+        ...fields,
+      }).id;
+
+    test("should keep payee names and aliases encrypted and unique", () => {
+      const id = db.createPayee(userId, "Blue Bottle", ["SQ *BLUE BOTTLE"]);
+
+      expect(db.getPayeeAliases(userId)).toEqual([
+        expect.objectContaining({
+          payeeId: id,
+          payee: "Blue Bottle",
+          pattern: "SQ *BLUE BOTTLE",
+        }),
+      ]);
+      expect(() => db.createPayee(userId, " blue bottle")).toThrow(
+        "already exists"
+      );
+
+      const raw = db.db.prepare("SELECT name FROM payees WHERE id = ?").get(id);
+      expect(raw.name).not.toBe("Blue Bottle");
+    });
+
+    test("should rename the transactions still carrying the payee's name", () => {
+      const id = db.createPayee(userId, "Blue Bottle");
+      const kept = spend("Blue Bottle", { payeeId: id });
+      const edited = spend("Coffee with Sam", { payeeId: id });
+
+      db.renamePayee(id, "Blue Bottle Coffee");
+
+      const descriptions = new Map(
+        db
+          .getTransactionsByUserId(userId)
+          .map((t: any) => [t.id, t.description])
+      );
+      expect(descriptions.get(kept)).toBe("Blue Bottle Coffee");
+      expect(descriptions.get(edited)).toBe("Coffee with Sam");
+    });
+
+    test("should merge payees and descriptions, keeping the originals", () => {
+      const target = db.createPayee(userId, "Blue Bottle");
+      const duplicate = db.createPayee(userId, "Bluebottle", ["BLUEBOTTLE SF"]);
+      const linked = spend("Bluebottle", { payeeId: duplicate });
+      const typed = spend("blue bottle cafe ");
+      const other = spend("Corner Deli");
+
+      const rewritten = db.mergePayees(
+        target,
+        [duplicate],
+        ["Blue Bottle Cafe"]
+      );
+
+      expect(rewritten).toBe(2);
+      expect(db.getPayeeById(duplicate)).toBeUndefined();
+      const transactions = new Map<string, any>(
+        db.getTransactionsByUserId(userId).map((t: any) => [t.id, t])
+      );
+      expect(transactions.get(linked)).toMatchObject({
+        description: "Blue Bottle",
+        payee_id: target,
+        original_description: "Bluebottle",
+      });
+      expect(transactions.get(typed)).toMatchObject({
+        description: "Blue Bottle",
+        original_description: "blue bottle cafe ",
+      });
+      expect(transactions.get(other).payee_id).toBeNull();
+
+      const [payee] = db.getPayeesByUserId(userId);
+      expect(payee.transaction_count).toBe(2);
+      expect(payee.aliases.map((a: any) => a.pattern).sort()).toEqual([
+        "BLUEBOTTLE SF",
+        "Blue Bottle Cafe",
+        "Bluebottle",
+      ]);
+    });
+  });
+
+  describe("Key Derivation", () => {
+    const Database = require("better-sqlite3-multiple-ciphers");
+    const { CURRENT_KDF_VERSION } = require("./kdf");
+
+    test("should store a random salt in each new database", async () => {
+      const otherPath = path.join(os.tmpdir(), `test-kdf-${Date.now()}.db`);
+      const other = await EncryptedDatabase.open(otherPath, testEncryptionKey);
+
+      const params = db.getKdfParams();
+      expect(params).toMatchObject({
+        version: CURRENT_KDF_VERSION,
+        algorithm: "scrypt",
+      });
+      expect(params.salt).not.toBe(other.getKdfParams().salt);
+
+      other.close();
+      fs.unlinkSync(otherPath);
+    });
+
+    test("should reopen with the stored parameters", async () => {
+      const userId = db.createUser("test@example.com", "John", "Doe");
+      const { salt } = db.getKdfParams();
+      db.close();
+
+      db = await EncryptedDatabase.open(testDbPath, testEncryptionKey);
+      expect(db.getKdfParams().salt).toBe(salt);
+      expect(db.getUserById(userId).first_name).toBe("John");
+    });
+
+    test("should keep the fixed salt for databases that predate it", async () => {
+      const crypto = require("crypto");
+      const legacyPath = path.join(os.tmpdir(), `test-salt-${Date.now()}.db`);
+      const key = crypto.scryptSync(testEncryptionKey, "salt", 32);
+      const iv = crypto.randomBytes(16);
+      const cipher = crypto.createCipheriv("aes-256-gcm", key, iv);
+      const encrypted =
+        cipher.update("Jane", "utf8", "hex") + cipher.final("hex");
+      const firstName = [
+        iv.toString("hex"),
+        cipher.getAuthTag().toString("hex"),
+        encrypted,
+      ].join(":");
+
+      const legacy = new Database(legacyPath);
+      legacy.exec(`
+        CREATE TABLE users (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          email TEXT UNIQUE NOT NULL,
+          first_name TEXT,
+          last_name TEXT,
+          address TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+        CREATE TABLE app_metadata (key TEXT PRIMARY KEY, value TEXT NOT NULL);
+        INSERT INTO app_metadata (key, value) VALUES ('field_encryption', '1');
+      `);
+      legacy
+        .prepare("INSERT INTO users (email, first_name) VALUES (?, ?)")
+        .run("old@example.com", firstName);
+      legacy.close();
+
+      const upgraded = await EncryptedDatabase.open(
+        legacyPath,
+        testEncryptionKey
+      );
+      expect(upgraded.getKdfParams()).toMatchObject({
+        version: 1,
+        salt: Buffer.from("salt").toString("hex"),
+      });
+      expect(upgraded.getFirstUser().first_name).toBe("Jane");
+
+      upgraded.close();
+      for (const file of fs.readdirSync(os.tmpdir())) {
+        if (file.startsWith(path.basename(legacyPath))) {
+          fs.unlinkSync(path.join(os.tmpdir(), file));
+        }
+      }
+    });
+
+    test("should give plaintext databases that predate it a random salt", async () => {
+      const legacyPath = path.join(os.tmpdir(), `test-salt-${Date.now()}.db`);
+      const legacy = new Database(legacyPath);
+      legacy.exec(`
+        CREATE TABLE users (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          email TEXT UNIQUE NOT NULL,
+          first_name TEXT,
+          last_name TEXT,
+          address TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+        INSERT INTO users (email, first_name) VALUES ('old@example.com', 'Jane');
+      `);
+      legacy.close();
+
+      const upgraded = await EncryptedDatabase.open(
+        legacyPath,
+        testEncryptionKey
+      );
+      const kdf = upgraded.getKdfParams();
+      expect(kdf.version).toBe(CURRENT_KDF_VERSION);
+      expect(kdf.salt).not.toBe(Buffer.from("salt").toString("hex"));
+      expect(upgraded.getFirstUser().first_name).toBe("Jane");
+
+      upgraded.close();
+      for (const file of fs.readdirSync(os.tmpdir())) {
+        if (file.startsWith(path.basename(legacyPath))) {
+          fs.unlinkSync(path.join(os.tmpdir(), file));
+        }
+      }
+    });
+  });
+
+  describe("Recovery Key Check", () => {
+    test("should refuse to open the database with another key", async () => {
+      const userId = db.createUser("test@example.com", "John", "Doe");
+      db.close();
+
+      await expect(
+        EncryptedDatabase.open(testDbPath, "another-key")
+      ).rejects.toMatchObject({ name: "KeyMismatchError" });
+
+      // Nothing was written under the wrong key
+      db = await EncryptedDatabase.open(testDbPath, testEncryptionKey);
+      expect(db.getUserById(userId).first_name).toBe("John");
+    });
+
+    test("should recognize the database's key without opening it", async () => {
+      db.createUser("test@example.com", "John", "Doe");
+      db.close();
+
+      expect(
+        await EncryptedDatabase.keyMatches(testDbPath, testEncryptionKey)
+      ).toBe(true);
+      expect(
+        await EncryptedDatabase.keyMatches(testDbPath, "another-key")
+      ).toBe(false);
+      db = null;
+    });
+
+    test("should fall back to the first user for files without a check value", async () => {
+      db.createUser("test@example.com", "John", "Doe");
+      db.db.prepare("DELETE FROM app_metadata WHERE key = 'key_check'").run();
+      db.close();
+
+      expect(
+        await EncryptedDatabase.keyMatches(testDbPath, "another-key")
+      ).toBe(false);
+      expect(
+        await EncryptedDatabase.keyMatches(testDbPath, testEncryptionKey)
+      ).toBe(true);
+
+      // Opening with a wrong key is refused and records no check value
+      await expect(
+        EncryptedDatabase.open(testDbPath, "another-key")
+      ).rejects.toThrow("its data was encrypted with another key");
+      expect(
+        await EncryptedDatabase.keyMatches(testDbPath, "another-key")
+      ).toBe(false);
+      db = await EncryptedDatabase.open(testDbPath, testEncryptionKey);
+      expect(
+        db.db
+          .prepare("SELECT 1 FROM app_metadata WHERE key = 'key_check'")
+          .get()
+      ).toBeTruthy();
+    });
+
+    test("should follow the key through a rotation", async () => {
+      db.createUser("test@example.com", "John", "Doe");
+      await db.rotateKey("rotated-encryption-key");
+      db.close();
+
+      expect(
+        await EncryptedDatabase.keyMatches(testDbPath, "rotated-encryption-key")
+      ).toBe(true);
+      expect(
+        await EncryptedDatabase.keyMatches(testDbPath, testEncryptionKey)
+      ).toBe(false);
+      db = null;
+    });
+
+    test("should recognize the key an export was made under", async () => {
+      db.createUser("test@example.com", "John", "Doe");
+      const exported = db.getKeyIdentity();
+      expect(exported.fileEncrypted).toBe(false);
+      await db.rotateKey("rotated-encryption-key");
+
+      expect(
+        await EncryptedDatabase.keyMatchesIdentity(exported, testEncryptionKey)
+      ).toBe(true);
+      expect(
+        await EncryptedDatabase.keyMatchesIdentity(
+          exported,
+          "rotated-encryption-key"
+        )
+      ).toBe(false);
+      expect(
+        await EncryptedDatabase.keyMatchesIdentity(
+          db.getKeyIdentity(),
+          "rotated-encryption-key"
+        )
+      ).toBe(true);
+    });
+  });
+
+  describe("Key Rotation", () => {
+    const newKey = "rotated-encryption-key";
+
+    test("should re-encrypt every value under the new key", async () => {
+      const userId = db.createUser("test@example.com", "John", "Doe");
+      const { id } = db.createTransaction({
+        userId,
+        date: "2024-01-10",
+        description: "Blue Bottle",
+        amount: 450,
+        type: "debit",
+        checkNumber: "101",
+      });
+      db.createPayee(userId, "Blue Bottle", ["SQ *BLUE BOTTLE"]);
+      db.setImportFingerprint(id, "sha256:blue-bottle");
+      const raw = () =>
+        db.db
+          .prepare("SELECT description FROM transactions WHERE id = ?")
+          .get(id).description;
+      const rawBefore = raw();
+      const { salt } = db.getKdfParams();
+
+      await db.rotateKey(newKey);
+
+      expect(db.getKdfParams().salt).not.toBe(salt);
+      expect(raw()).not.toBe(rawBefore);
+      expect(db.getTransactionsByUserId(userId)[0]).toMatchObject({
+        description: "Blue Bottle",
+        check_number: "101",
+      });
+      // Lookup hashes follow the new key
+      expect(db.getUserByEmail("test@example.com").id).toBe(userId);
+      expect(() => db.createPayee(userId, "blue bottle")).toThrow(
+        "already exists"
+      );
+      expect(db.getImportFingerprints(userId, null)).toEqual(
+        new Set([db.keyImportFingerprint("sha256:blue-bottle")])
+      );
+
+      db.close();
+      await expect(
+        EncryptedDatabase.open(testDbPath, testEncryptionKey)
+      ).rejects.toThrow("its data was encrypted with another key");
+
+      db = await EncryptedDatabase.open(testDbPath, newKey);
+      db.verifyEncryption();
+      expect(db.getPayeeAliases(userId)[0].pattern).toBe("SQ *BLUE BOTTLE");
+    });
+
+    test("should change nothing when a value does not decrypt", async () => {
+      const userId = db.createUser("test@example.com", "John", "Doe");
+      db.createTransaction({
+        userId,
+        date: "2024-01-10",
+        description: "Damaged",
+        amount: 450,
+        type: "debit",
+      });
+      db.db.prepare("UPDATE transactions SET description = ?").run("00:00:00");
+      const { salt } = db.getKdfParams();
+
+      await expect(db.rotateKey(newKey)).rejects.toThrow(
+        /Could not decrypt transactions.description/
+      );
+
+      expect(db.getKdfParams().salt).toBe(salt);
+      expect(db.getUserById(userId).first_name).toBe("John");
+    });
+  });
+
+  describe("File Encryption", () => {
+    const isPlaintext = (file: string) =>
+      fs.readFileSync(file).subarray(0, 15).toString() === "SQLite format 3";
+
+    test("should convert a plaintext file in place when asked", async () => {
+      const userId = db.createUser("test@example.com", "John", "Doe");
+      db.createTransaction({
+        userId,
+        date: "2024-01-10",
+        description: "Rent",
+        amount: 145000,
+        type: "debit",
+        category: "Housing",
+      });
+      db.close();
+      expect(isPlaintext(testDbPath)).toBe(true);
+
+      db = await EncryptedDatabase.open(testDbPath, testEncryptionKey, {
+        encryptFile: true,
+      });
+      expect(db.isFileEncrypted()).toBe(true);
+      db.close();
+
+      // The plaintext copy is gone once the encrypted file checked out
+      const copies = fs
+        .readdirSync(path.dirname(testDbPath))
+        .filter((file) =>
+          file.startsWith(`${path.basename(testDbPath)}.plaintext-`)
+        );
+      expect(copies).toEqual([]);
+
+      expect(isPlaintext(testDbPath)).toBe(false);
+      expect(fs.readFileSync(testDbPath).includes("Housing")).toBe(false);
+      expect(
+        await EncryptedDatabase.keyMatches(testDbPath, testEncryptionKey)
+      ).toBe(true);
+      expect(
+        await EncryptedDatabase.keyMatches(testDbPath, "wrong-key")
+      ).toBe(false);
+      await expect(
+        EncryptedDatabase.open(testDbPath, "wrong-key")
+      ).rejects.toThrow("The encryption key does not open this database file");
+
+      // Encrypted files are recognized without the option
+      db = await EncryptedDatabase.open(testDbPath, testEncryptionKey);
+      expect(db.getTransactionsByUserId(userId)[0]).toMatchObject({
+        description: "Rent",
+        category: "Housing",
+      });
+    });
+
+    test("should create new files encrypted and back them up encrypted", async () => {
+      db.close();
+      fs.unlinkSync(testDbPath);
+
+      db = await EncryptedDatabase.open(testDbPath, testEncryptionKey, {
+        encryptFile: true,
+      });
+      const userId = db.createUser("test@example.com", "John", "Doe");
+      expect(isPlaintext(testDbPath)).toBe(false);
+
+      const backupPath = `${testDbPath}.copy.bak`;
+      await db.backup(backupPath);
+      expect(isPlaintext(backupPath)).toBe(false);
+      const backup = await EncryptedDatabase.open(
+        backupPath,
+        testEncryptionKey
+      );
+      expect(backup.getUserById(userId).first_name).toBe("John");
+      backup.close();
+      fs.unlinkSync(backupPath);
+    });
+
+    test("should rekey an encrypted file when the key is rotated", async () => {
+      const userId = db.createUser("test@example.com", "John", "Doe");
+      db.encryptFile(testEncryptionKey);
+      expect(() => db.encryptFile(testEncryptionKey)).toThrow(
+        "already encrypted"
+      );
+
+      await db.rotateKey("rotated-encryption-key");
+      db.close();
+
+      expect(
+        await EncryptedDatabase.keyMatches(testDbPath, testEncryptionKey)
+      ).toBe(false);
+      db = await EncryptedDatabase.open(testDbPath, "rotated-encryption-key");
+      expect(db.getUserById(userId).first_name).toBe("John");
+    });
+  });
+
+  describe("Edge Cases and Error Handling", () => {
+    test("should handle database with invalid encryption key", async () => {
+      const dbPath = path.join(os.tmpdir(), `test-invalid-${Date.now()}.db`);
+      const db1 = await EncryptedDatabase.open(dbPath, "key1");
+      db1.db.close();
+
+      // Open with different key
+      await expect(EncryptedDatabase.open(dbPath, "key2")).rejects.toThrow(
+        "The encryption key does not open this database"
+      );
+
+      fs.unlinkSync(dbPath);
+    });
+
+    test("should handle very large transaction amounts", () => {
+      const userId = db.createUser("test@example.com", "John", "Doe");
+
+      const { id } = db.createTransaction({
         userId,
         date: "2024-01-15",
         description: "Large transaction",
-        amount: 999999999.99,
+        amount: 99999999999,
         type: "credit",
       });
 
-      const result = db.getTransaction("txn_large");
-      expect(result.amount).toBe(999999999.99);
+      const [result] = db.getTransactionsByUserId(userId);
+      expect(result.id).toBe(id);
+      expect(result.amount).toBe(99999999999);
     });
 
     test("should handle special characters in descriptions", () => {
@@ -477,15 +2576,14 @@ describe("EncryptedDatabase", () => {
 
       const specialDesc = 'Test\'s & "Special" <Characters> 测试';
       db.createTransaction({
-        id: "txn_special",
         userId,
         date: "2024-01-15",
         description: specialDesc,
-        amount: 100,
+        amount: 10000,
         type: "debit",
       });
 
-      const result = db.getTransaction("txn_special");
+      const [result] = db.getTransactionsByUserId(userId);
       expect(result.description).toBe(specialDesc);
     });
   });
@@ -1,28 +1,120 @@
-import Database from "better-sqlite3";
+import Database from "better-sqlite3-multiple-ciphers";
 import crypto from "crypto";
 import fs from "fs";
 import path from "path";
+import {
+  KeyMismatchError,
+  encryptFileInPlace,
+  isFileEncrypted,
+  keyConnection,
+  rekeyFile,
+} from "./file-encryption";
+import {
+  KdfParams,
+  deriveKey,
+  kdfParams,
+  legacyKdfParams,
+  parseKdfParams,
+} from "./kdf";
+import { MigrationResult, runMigrations } from "./migrations";
+import { formatCents } from "./money";
+import {
+  RecurrenceFrequency,
+  RecurrenceRule,
+  addDays,
+  nextOccurrence,
+  occurrencesBetween,
+} from "./recurrence";
+import { CategorizationRule } from "./rules";
+
+interface SplitInput {
+  amount: number; // integer cents, signed in the direction of the parent
+  category?: string | null;
+  memo?: string | null;
+}
 
 interface TransactionInput {
   userId: number;
   date: string;
   description: string;
-  amount: number;
+  amount: number; // integer cents
   type: string;
   category?: string | null;
   checkNumber?: string | null;
   isReconciled?: boolean;
   accountId?: string | null;
+  fitId?: string | null; // bank transaction id from OFX imports
+  importFingerprint?: string | null;
+  importBatchId?: number | null;
+  transferId?: number | null;
+  payeeId?: number | null;
+  originalDescription?: string | null; // bank wording before normalizing
+  splits?: SplitInput[];
 }
 
 interface TransactionUpdate {
   date?: string;
   description?: string;
-  amount?: number;
+  amount?: number; // integer cents
   type?: string;
   category?: string | null;
   checkNumber?: string | null;
   isReconciled?: boolean;
+  accountId?: string | null;
+  splits?: SplitInput[]; // replaces the splits; empty removes them
+}
+
+interface TransferInput {
+  userId: number;
+  date: string;
+  description: string;
+  amount: number; // integer cents, always positive
+  fromAccountId: string;
+  toAccountId: string;
+  checkNumber?: string | null; // written on the side leaving the account
+}
+
+type TransferUpdate = Omit<TransferInput, "userId">;
+
+interface ScheduledTransactionInput {
+  userId: number;
+  accountId: string | null;
+  description: string;
+  amount: number; // integer cents, always positive
+  type: string;
+  category?: string | null;
+  frequency: RecurrenceFrequency;
+  dayOfMonth?: number | null;
+  startDate: string;
+  endDate?: string | null;
+  mode: "post" | "remind";
+}
+
+// Changes to one occurrence of a schedule; unset fields keep the schedule's
+interface OccurrenceOverride {
+  skipped?: boolean;
+  date?: string | null;
+  amount?: number | null; // integer cents
+  description?: string | null;
+}
+
+interface CategorizationRuleInput {
+  userId: number;
+  descriptionPattern: string | null;
+  matchType: "contains" | "regex";
+  minAmount: number | null; // integer cents
+  maxAmount: number | null; // integer cents
+  accountId: string | null;
+  type: string | null;
+  setCategory: string | null;
+  setDescription: string | null;
+  transferAccountId: string | null;
+}
+
+interface CategoryTotalsFilter {
+  accountId?: string | null;
+  startDate?: string | null; // YYYY-MM-DD, inclusive
+  endDate?: string | null; // YYYY-MM-DD, inclusive
 }
 
 interface UserUpdate {
@@ -32,33 +124,502 @@ interface UserUpdate {
   email?: string;
 }
 
+interface AccountInput {
+  userId: number;
+  name: string;
+  institution?: string | null;
+  accountType: string;
+  lastFour?: string | null;
+  openingBalance: number; // integer cents
+  openingDate: string;
+}
+
+interface ReconciliationInput {
+  userId: number;
+  accountId?: string | null;
+  statementDate: string;
+  beginningBalance: number; // integer cents
+  endingBalance: number; // integer cents
+  // The statement import the session follows; what it cleared starts
+  // out cleared in the session
+  importBatchId?: number | null;
+}
+
+interface ReconciliationStatus {
+  reconciliation: any;
+  clearedTotal: number; // integer cents
+  clearedCount: number;
+  difference: number; // integer cents
+  canFinish: boolean;
+}
+
+interface ImportProfileInput {
+  userId: number;
+  name: string;
+  headerSignature: string | null;
+  mapping: object; // stored as JSON
+}
+
+interface ImportBatchInput {
+  userId: number;
+  accountId: string | null;
+  format: "csv" | "ofx" | "qif";
+  fileName: string;
+  fileHash: string; // sha256 of the imported file
+  profileId: number | null;
+}
+
+interface ImportBatchCounts {
+  created: number;
+  matched: number;
+  skipped: number;
+}
+
+interface StatementLineInput {
+  userId: number;
+  accountId: string | null;
+  importBatchId: number | null;
+  date: string;
+  description: string;
+  amount: number; // integer cents, always positive
+  type: string;
+  checkNumber: string | null;
+  fitId: string | null;
+  importFingerprint: string | null;
+  rawData: object | null; // the row as the bank sent it, stored as JSON
+}
+
+interface MatchGroupInput {
+  userId: number;
+  accountId: string | null;
+  importBatchId: number | null;
+  kind: "many_to_one" | "one_to_many";
+}
+
+interface AccountUpdate {
+  name?: string;
+  institution?: string | null;
+  accountType?: string;
+  lastFour?: string | null;
+  openingBalance?: number; // integer cents
+  openingDate?: string;
+}
+
+/**
+ * Columns stored as AES-256-GCM ciphertext, per table.
+ * Everything listed here is encrypted on write and decrypted on read.
+ */
+const ENCRYPTED_COLUMNS = {
+  users: ["email", "first_name", "last_name", "address"],
+  transactions: [
+    "description",
+    "check_number",
+    "original_description",
+    "import_fingerprint_source",
+  ],
+  accounts: ["name", "institution", "last_four"],
+  import_profiles: ["name"],
+  import_batches: ["file_name"],
+  statement_lines: [
+    "description",
+    "check_number",
+    "raw_data",
+    "import_fingerprint_source",
+  ],
+  transaction_splits: ["memo"],
+  scheduled_transactions: ["description"],
+  scheduled_occurrences: ["description"],
+  categorization_rules: ["description_pattern", "set_description"],
+  payees: ["name"],
+  payee_aliases: ["pattern"],
+};
+
+type EncryptedTable = keyof typeof ENCRYPTED_COLUMNS;
+
+// How far apart the two sides of a transfer found by linkTransfer may be
+const TRANSFER_MATCH_DAYS = 3;
+
+/**
+ * Import batches with reconciled_count: how many of the transactions a
+ * batch created have been reconciled since the import. Those were either
+ * cleared in a reconciliation session or fall inside a statement completed
+ * after the import, so removing them would change a reconciled balance.
+ */
+const IMPORT_BATCH_SELECT = `
+  SELECT b.*, (
+    SELECT COUNT(*) FROM transactions t
+    WHERE t.import_batch_id = b.id AND (
+      EXISTS (
+        SELECT 1 FROM reconciliation_transactions rt
+        WHERE rt.transaction_id = t.id
+      ) OR EXISTS (
+        SELECT 1 FROM reconciliations r
+        WHERE r.user_id = t.user_id AND r.account_id IS t.account_id
+          AND r.status = 'completed' AND r.completed_at >= b.imported_at
+          AND r.statement_date >= t.date
+      )
+    )
+  ) AS reconciled_count
+  FROM import_batches b
+`;
+
+// Transactions (as t) that an import cleared against a statement line and
+// no completed reconciliation has settled yet
+const UNSETTLED_IMPORT_CLEARED = `
+  EXISTS (SELECT 1 FROM statement_line_links k WHERE k.transaction_id = t.id)
+  AND NOT EXISTS (
+    SELECT 1 FROM reconciliation_transactions s
+    JOIN reconciliations r ON r.id = s.reconciliation_id
+    WHERE s.transaction_id = t.id AND r.status = 'completed'
+  )
+`;
+
+// Lookup hashes, each computed from an encrypted column of the same table
+const BLIND_INDEXES: Partial<
+  Record<EncryptedTable, { column: string; source: string }>
+> = {
+  users: { column: "email_hash", source: "email" },
+  payees: { column: "name_hash", source: "name" },
+  transactions: {
+    column: "import_fingerprint",
+    source: "import_fingerprint_source",
+  },
+  statement_lines: {
+    column: "import_fingerprint",
+    source: "import_fingerprint_source",
+  },
+};
+
+/**
+ * Decrypt an iv:authTag:encrypted value. Throws when the key is wrong or
+ * the value was altered.
+ */
+function decryptValue(key: Buffer, text: string): string {
+  const [iv, authTag, encrypted] = text.split(":");
+  const decipher = crypto.createDecipheriv(
+    "aes-256-gcm",
+    key,
+    Buffer.from(iv, "hex")
+  ) as crypto.DecipherGCM;
+  decipher.setAuthTag(Buffer.from(authTag, "hex"));
+  return decipher.update(encrypted, "hex", "utf8") + decipher.final("utf8");
+}
+
+/**
+ * A one-way value stored in the database to recognize its key without
+ * decrypting any data
+ */
+function keyCheckValue(key: Buffer): string {
+  return Buffer.from(
+    crypto.hkdfSync("sha256", key, "", "bankrec-key-check", 32)
+  ).toString("hex");
+}
+
+// A value from app_metadata, which older files may not have yet
+function readMetadata(
+  db: Database.Database,
+  key: string
+): string | undefined {
+  const hasMetadata = db
+    .prepare(
+      "SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'app_metadata'"
+    )
+    .get();
+  const row = hasMetadata
+    ? (db.prepare("SELECT value FROM app_metadata WHERE key = ?").get(key) as
+        | { value: string }
+        | undefined)
+    : undefined;
+  return row ? row.value : undefined;
+}
+
+/**
+ * Whether a key decrypts the first user's email, for files without a
+ * key-check value. Files without users hold nothing to decrypt.
+ */
+function keyOpensFirstUser(db: Database.Database, key: Buffer): boolean {
+  const hasUsers = db
+    .prepare(
+      "SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'users'"
+    )
+    .get();
+  const user = hasUsers
+    ? (db.prepare("SELECT email FROM users ORDER BY id LIMIT 1").get() as
+        | { email: string }
+        | undefined)
+    : undefined;
+  if (!user || user.email.split(":").length !== 3) return true;
+
+  try {
+    decryptValue(key, user.email);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Whether a derived key is the one a database's fields are encrypted
+ * under: it matches the stored key-check value, or for files that
+ * predate it, it decrypts the first user's email
+ */
+function keyOpensFields(db: Database.Database, key: Buffer): boolean {
+  const check = readMetadata(db, "key_check");
+  if (!check) {
+    return keyOpensFirstUser(db, key);
+  }
+  return crypto.timingSafeEqual(
+    Buffer.from(check, "hex"),
+    Buffer.from(keyCheckValue(key), "hex")
+  );
+}
+
+// The key a database is encrypted under, as recorded in an export
+interface KeyIdentity {
+  kdf: KdfParams;
+  keyCheck: string;
+  fileEncrypted: boolean;
+}
+
+// The decrypted values of a row's encrypted columns
+interface DecryptedRow {
+  table: EncryptedTable;
+  rowid: number;
+  row: any;
+}
+
+interface DatabaseOptions {
+  // Keep the whole file encrypted: new files are created encrypted and a
+  // plaintext file is converted in place when it is opened
+  encryptFile?: boolean;
+}
+
+// A database file opened and keyed, with how its field key is derived
+interface OpenConnection {
+  db: Database.Database;
+  dbPath: string;
+  fileEncrypted: boolean;
+  kdf: KdfParams;
+}
+
+/**
+ * The key derivation parameters stored in a database. A file whose fields
+ * were encrypted before the parameters were stored used the fixed legacy
+ * salt and keeps it; any other file, new or still plaintext, gets the
+ * current version with a random salt.
+ */
+function readKdfParams(db: Database.Database): KdfParams {
+  const stored = readMetadata(db, "kdf");
+  if (stored) {
+    return parseKdfParams(stored);
+  }
+
+  const fieldsEncrypted =
+    readMetadata(db, "field_encryption") !== undefined ||
+    (db.pragma("user_version", { simple: true }) as number) >= 2;
+  return fieldsEncrypted ? legacyKdfParams() : kdfParams();
+}
+
+/**
+ * The field encryption key and a separate key for deterministic lookup
+ * hashes (e.g. email)
+ */
+async function deriveKeys(
+  encryptionKey: string,
+  kdf: KdfParams
+): Promise<[Buffer, Buffer]> {
+  const keyMaterial = await deriveKey(encryptionKey, kdf);
+  const indexKey = Buffer.from(
+    crypto.hkdfSync("sha256", keyMaterial, "", "bankrec-blind-index", 32)
+  );
+  return [keyMaterial, indexKey];
+}
+
+/**
+ * Open the database file at a path, creating it and its directory if
+ * needed. An encrypted file is keyed before anything is read.
+ */
+function openConnection(
+  dbPath: string,
+  encryptionKey: string,
+  options: DatabaseOptions
+): OpenConnection {
+  // Ensure the directory exists
+  const dir = path.dirname(dbPath);
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+  const newFile = !fs.existsSync(dbPath) || fs.statSync(dbPath).size === 0;
+  const fileEncrypted =
+    isFileEncrypted(dbPath) || (newFile && !!options.encryptFile);
+
+  const db = new Database(dbPath);
+  try {
+    if (fileEncrypted) {
+      keyConnection(db, encryptionKey);
+    }
+
+    // Enable Write-Ahead Logging for better performance and concurrency
+    db.pragma("journal_mode = WAL");
+
+    // Enable foreign keys
+    db.pragma("foreign_keys = ON");
+
+    return { db, dbPath, fileEncrypted, kdf: readKdfParams(db) };
+  } catch (error) {
+    db.close();
+    throw error;
+  }
+}
+
 class EncryptedDatabase {
   private db: Database.Database;
   private algorithm: string;
   private key: Buffer;
+  private indexKey: Buffer;
+  private dbPath: string;
+  private fileEncrypted: boolean;
+  readonly migrationResult: MigrationResult;
 
-  constructor(dbPath: string, encryptionKey: string) {
-    // Ensure the directory exists
-    const dir = path.dirname(dbPath);
-    if (!fs.existsSync(dir)) {
-      fs.mkdirSync(dir, { recursive: true });
+  /**
+   * Open (or create) the database at a path. The key is derived on the
+   * thread pool, so the main process stays responsive meanwhile. A key
+   * the data was not encrypted under is refused with a KeyMismatchError
+   * before anything is written.
+   */
+  static async open(
+    dbPath: string,
+    encryptionKey: string,
+    options: DatabaseOptions = {}
+  ): Promise<EncryptedDatabase> {
+    const connection = openConnection(dbPath, encryptionKey, options);
+    let keys: [Buffer, Buffer];
+    try {
+      keys = await deriveKeys(encryptionKey, connection.kdf);
+      if (!keyOpensFields(connection.db, keys[0])) {
+        throw new KeyMismatchError(
+          "The encryption key does not open this database; its data was encrypted with another key"
+        );
+      }
+    } catch (error) {
+      connection.db.close();
+      throw error;
     }
+    return new EncryptedDatabase(connection, keys, encryptionKey, options);
+  }
 
-    // Derive encryption components
-    const keyMaterial = crypto.scryptSync(encryptionKey, "salt", 32);
+  private constructor(
+    connection: OpenConnection,
+    [key, indexKey]: [Buffer, Buffer],
+    encryptionKey: string,
+    options: DatabaseOptions
+  ) {
+    const { db, dbPath, kdf } = connection;
+    this.db = db;
+    this.dbPath = dbPath;
+    this.fileEncrypted = connection.fileEncrypted;
     this.algorithm = "aes-256-gcm";
-    this.key = keyMaterial;
+    this.key = key;
+    this.indexKey = indexKey;
+
+    try {
+      // Create or upgrade the schema (backs up existing files first)
+      this.migrationResult = runMigrations(this.db, dbPath, {
+        encrypt: (text) => this.encrypt(text),
+        blindIndex: (value) => this.blindIndex(value),
+      });
+
+      // Databases created before the parameters were stored keep using
+      // the ones they were written with
+      this.db
+        .prepare(
+          "INSERT OR IGNORE INTO app_metadata (key, value) VALUES ('kdf', ?)"
+        )
+        .run(JSON.stringify(kdf));
+
+      // Remember the key for recovery-key restores, once it is known to
+      // be the right one
+      if (
+        !readMetadata(this.db, "key_check") &&
+        keyOpensFirstUser(this.db, this.key)
+      ) {
+        this.db
+          .prepare(
+            "INSERT INTO app_metadata (key, value) VALUES ('key_check', ?)"
+          )
+          .run(keyCheckValue(this.key));
+      }
 
-    // Open database
-    this.db = new Database(dbPath);
+      if (options.encryptFile && !this.fileEncrypted) {
+        this.encryptFile(encryptionKey);
+      }
+    } catch (error) {
+      this.db.close();
+      throw error;
+    }
+  }
 
-    // Enable Write-Ahead Logging for better performance and concurrency
-    this.db.pragma("journal_mode = WAL");
+  /**
+   * How this database's key is derived from the encryption key
+   */
+  getKdfParams(): KdfParams {
+    return parseKdfParams(readMetadata(this.db, "kdf")!);
+  }
 
-    // Enable foreign keys
-    this.db.pragma("foreign_keys = ON");
+  /**
+   * Whether an encryption key opens the database file at a path, checked
+   * without changing the file: an encrypted file must accept it as its
+   * passphrase, then it is checked against the stored key-check value, or
+   * for files that predate it, by decrypting the first user's email
+   */
+  static async keyMatches(
+    dbPath: string,
+    encryptionKey: string
+  ): Promise<boolean> {
+    const db = new Database(dbPath, { readonly: true, fileMustExist: true });
+    try {
+      if (isFileEncrypted(dbPath)) {
+        try {
+          keyConnection(db, encryptionKey);
+        } catch {
+          return false;
+        }
+      }
+
+      return keyOpensFields(
+        db,
+        await deriveKey(encryptionKey, readKdfParams(db))
+      );
+    } finally {
+      db.close();
+    }
+  }
+
+  /**
+   * What identifies the key this database is encrypted under, stored
+   * with exports so an import can be checked before it replaces anything
+   */
+  getKeyIdentity(): KeyIdentity {
+    return {
+      kdf: this.getKdfParams(),
+      keyCheck: readMetadata(this.db, "key_check")!,
+      fileEncrypted: this.fileEncrypted,
+    };
+  }
 
-    this.initializeTables();
+  /**
+   * Whether an encryption key is the one a key identity was taken under
+   */
+  static async keyMatchesIdentity(
+    identity: KeyIdentity,
+    encryptionKey: string
+  ): Promise<boolean> {
+    const key = await deriveKey(encryptionKey, identity.kdf);
+    const check = Buffer.from(identity.keyCheck, "hex");
+    const expected = Buffer.from(keyCheckValue(key), "hex");
+    return (
+      check.length === expected.length && crypto.timingSafeEqual(check, expected)
+    );
   }
 
   /**
@@ -93,89 +654,41 @@ class EncryptedDatabase {
       const parts = text.split(":");
       if (parts.length !== 3) return text; // Not encrypted, return as-is
 
-      const iv = Buffer.from(parts[0], "hex");
-      const authTag = Buffer.from(parts[1], "hex");
-      const encrypted = parts[2];
-
-      const decipher = crypto.createDecipheriv(
-        this.algorithm,
-        this.key,
-        iv
-      ) as crypto.DecipherGCM;
-      decipher.setAuthTag(authTag);
-
-      let decrypted = decipher.update(encrypted, "hex", "utf8");
-      decrypted += decipher.final("utf8");
-
-      return decrypted;
+      return decryptValue(this.key, text);
     } catch (err) {
       console.error("Decryption error:", (err as Error).message);
       return null;
     }
   }
 
-  private initializeTables(): void {
-    // Create users table
-    this.db.exec(`
-      CREATE TABLE IF NOT EXISTS users (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        email TEXT UNIQUE NOT NULL,
-        first_name TEXT,
-        last_name TEXT,
-        address TEXT,
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-      )
-    `);
+  /**
+   * Deterministic keyed hash used to look up encrypted values by equality
+   */
+  private blindIndex(value: string): string {
+    return crypto
+      .createHmac("sha256", this.indexKey)
+      .update(value.trim().toLowerCase())
+      .digest("hex");
+  }
 
-    // Create transactions table
-    this.db.exec(`
-      CREATE TABLE IF NOT EXISTS transactions (
-        id TEXT PRIMARY KEY,
-        user_id INTEGER NOT NULL,
-        date TEXT NOT NULL,
-        description TEXT NOT NULL,
-        amount REAL NOT NULL,
-        type TEXT NOT NULL,
-        category TEXT,
-        check_number TEXT,
-        is_reconciled INTEGER DEFAULT 0,
-        account_id TEXT,
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-        FOREIGN KEY (user_id) REFERENCES users(id)
-      )
-    `);
+  /**
+   * Decrypt the encrypted columns of a row read from the given table
+   */
+  private decryptRow(table: EncryptedTable, row: any): any {
+    if (!row) return row;
 
-    // Migrate existing databases - add check_number column if it doesn't exist
-    try {
-      this.db.exec(`ALTER TABLE transactions ADD COLUMN check_number TEXT`);
-    } catch (err) {
-      // Column already exists, ignore error
+    const decrypted = { ...row };
+    for (const column of ENCRYPTED_COLUMNS[table]) {
+      decrypted[column] = this.decrypt(row[column]);
     }
+    return decrypted;
+  }
 
-    // Create categories table
-    this.db.exec(`
-      CREATE TABLE IF NOT EXISTS categories (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        user_id INTEGER NOT NULL,
-        name TEXT NOT NULL,
-        type TEXT NOT NULL CHECK(type IN ('income', 'expense')),
-        is_default INTEGER DEFAULT 0,
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-        FOREIGN KEY (user_id) REFERENCES users(id),
-        UNIQUE(user_id, name, type)
-      )
-    `);
-
-    // Create indexes for better performance
-    this.db.exec(`
-      CREATE INDEX IF NOT EXISTS idx_transactions_user_id ON transactions(user_id);
-      CREATE INDEX IF NOT EXISTS idx_transactions_date ON transactions(date);
-      CREATE INDEX IF NOT EXISTS idx_transactions_category ON transactions(category);
-      CREATE INDEX IF NOT EXISTS idx_transactions_amount ON transactions(amount);
-      CREATE INDEX IF NOT EXISTS idx_transactions_description ON transactions(description);
-      CREATE INDEX IF NOT EXISTS idx_transactions_is_reconciled ON transactions(is_reconciled);
-      CREATE INDEX IF NOT EXISTS idx_categories_user_id ON categories(user_id);
-    `);
+  // Decrypt an import profile row and parse its stored mapping
+  private toImportProfile(row: any): any {
+    if (!row) return row;
+    const profile = this.decryptRow("import_profiles", row);
+    return { ...profile, mapping: JSON.parse(profile.mapping) };
   }
 
   // User operations
@@ -186,27 +699,33 @@ class EncryptedDatabase {
     address: string | null = null
   ): number {
     const stmt = this.db.prepare(
-      "INSERT INTO users (email, first_name, last_name, address) VALUES (?, ?, ?, ?)"
+      "INSERT INTO users (email, email_hash, first_name, last_name, address) VALUES (?, ?, ?, ?, ?)"
+    );
+    const result = stmt.run(
+      this.encrypt(email),
+      this.blindIndex(email),
+      this.encrypt(firstName),
+      this.encrypt(lastName),
+      this.encrypt(address)
     );
-    const result = stmt.run(email, firstName, lastName, address);
     return result.lastInsertRowid as number;
   }
 
   getUserByEmail(email: string): any {
-    const stmt = this.db.prepare("SELECT * FROM users WHERE email = ?");
-    return stmt.get(email);
+    const stmt = this.db.prepare("SELECT * FROM users WHERE email_hash = ?");
+    return this.decryptRow("users", stmt.get(this.blindIndex(email)));
   }
 
   getUserById(id: number): any {
     const stmt = this.db.prepare("SELECT * FROM users WHERE id = ?");
-    return stmt.get(id);
+    return this.decryptRow("users", stmt.get(id));
   }
 
   getFirstUser(): any {
     const stmt = this.db.prepare(
       "SELECT * FROM users ORDER BY created_at ASC LIMIT 1"
     );
-    return stmt.get();
+    return this.decryptRow("users", stmt.get());
   }
 
   updateUser(id: number, updates: UserUpdate): Database.RunResult | undefined {
@@ -215,19 +734,19 @@ class EncryptedDatabase {
 
     if (updates.firstName !== undefined) {
       fields.push("first_name = ?");
-      values.push(updates.firstName);
+      values.push(this.encrypt(updates.firstName));
     }
     if (updates.lastName !== undefined) {
       fields.push("last_name = ?");
-      values.push(updates.lastName);
+      values.push(this.encrypt(updates.lastName));
     }
     if (updates.address !== undefined) {
       fields.push("address = ?");
-      values.push(updates.address);
+      values.push(this.encrypt(updates.address));
     }
     if (updates.email !== undefined) {
-      fields.push("email = ?");
-      values.push(updates.email);
+      fields.push("email = ?", "email_hash = ?");
+      values.push(this.encrypt(updates.email), this.blindIndex(updates.email));
     }
 
     if (fields.length === 0) return;
@@ -249,28 +768,42 @@ class EncryptedDatabase {
   } {
     const stmt = this.db.prepare(`
       INSERT INTO transactions 
-      (id, user_id, date, description, amount, type, category, check_number, is_reconciled, account_id)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      (id, user_id, date, description, amount, type, category, check_number, is_reconciled, account_id, fitid, import_fingerprint, import_fingerprint_source, import_batch_id, transfer_id, payee_id, original_description)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
 
+    const splits = transaction.splits || [];
+    const insert = this.db.transaction((id: string) => {
+      const result = stmt.run(
+        id,
+        transaction.userId,
+        transaction.date,
+        this.encrypt(transaction.description),
+        transaction.amount,
+        transaction.type,
+        transaction.category || null,
+        this.encrypt(transaction.checkNumber || null),
+        transaction.isReconciled ? 1 : 0,
+        transaction.accountId || null,
+        transaction.fitId || null,
+        ...this.importFingerprintColumns(transaction.importFingerprint),
+        transaction.importBatchId || null,
+        transaction.transferId || null,
+        transaction.payeeId || null,
+        this.encrypt(transaction.originalDescription || null)
+      );
+      if (splits.length > 0) {
+        this.setTransactionSplits(id, splits);
+      }
+      return result;
+    });
+
     // Retry up to 3 times in case of UUID collision (extremely rare)
     let lastError: Error | null = null;
     for (let attempt = 0; attempt < 3; attempt++) {
       try {
         const id = crypto.randomUUID();
-
-        const result = stmt.run(
-          id,
-          transaction.userId,
-          transaction.date,
-          transaction.description,
-          transaction.amount,
-          transaction.type,
-          transaction.category || null,
-          transaction.checkNumber || null,
-          transaction.isReconciled ? 1 : 0,
-          transaction.accountId || null
-        );
+        const result = insert(id);
 
         return { id, result };
       } catch (error) {
@@ -297,7 +830,9 @@ class EncryptedDatabase {
       WHERE user_id = ? 
       ORDER BY date DESC
     `);
-    return stmt.all(userId);
+    return stmt
+      .all(userId)
+      .map((row) => this.decryptRow("transactions", row));
   }
 
   updateTransaction(
@@ -318,7 +853,7 @@ class EncryptedDatabase {
     }
     if (updates.description !== undefined) {
       fields.push("description = ?");
-      values.push(updates.description);
+      values.push(this.encrypt(updates.description));
     }
     if (updates.amount !== undefined) {
       fields.push("amount = ?");
@@ -334,23 +869,34 @@ class EncryptedDatabase {
     }
     if (updates.checkNumber !== undefined) {
       fields.push("check_number = ?");
-      values.push(updates.checkNumber);
+      values.push(this.encrypt(updates.checkNumber));
     }
     if (updates.isReconciled !== undefined) {
       fields.push("is_reconciled = ?");
       values.push(updates.isReconciled ? 1 : 0);
     }
+    if (updates.accountId !== undefined) {
+      fields.push("account_id = ?");
+      values.push(updates.accountId);
+    }
 
-    if (fields.length === 0) return;
+    const update = this.db.transaction(() => {
+      if (updates.splits !== undefined) {
+        this.setTransactionSplits(id, updates.splits);
+      }
+      if (fields.length === 0) return;
 
-    values.push(id);
-    const stmt = this.db.prepare(`
-      UPDATE transactions 
-      SET ${fields.join(", ")} 
-      WHERE id = ?
-    `);
+      values.push(id);
+      const stmt = this.db.prepare(`
+        UPDATE transactions 
+        SET ${fields.join(", ")} 
+        WHERE id = ?
+      `);
 
-    return stmt.run(...values);
+      return stmt.run(...values);
+    });
+
+    return update();
   }
 
   deleteTransaction(id: string): Database.RunResult {
@@ -359,10 +905,336 @@ class EncryptedDatabase {
       throw new Error("Transaction ID is required for delete");
     }
 
+    // The two sides of a transfer go together
+    const row = this.db
+      .prepare("SELECT transfer_id FROM transactions WHERE id = ?")
+      .get(id) as { transfer_id: number | null } | undefined;
+    if (row && row.transfer_id) {
+      return this.deleteTransfer(row.transfer_id);
+    }
+
     const stmt = this.db.prepare("DELETE FROM transactions WHERE id = ?");
     return stmt.run(id);
   }
 
+  // Transfer operations
+  /**
+   * Move money between two accounts: a debit in the account it leaves
+   * and a credit in the one it enters, created together and linked.
+   * Each side is reconciled on its own account's statement.
+   */
+  createTransfer(transfer: TransferInput): {
+    id: number;
+    fromTransactionId: string;
+    toTransactionId: string;
+  } {
+    const create = this.db.transaction(() => {
+      const id = this.db
+        .prepare("INSERT INTO transfers (user_id) VALUES (?)")
+        .run(transfer.userId).lastInsertRowid as number;
+      const side = (type: string, accountId: string): string =>
+        this.createTransaction({
+          userId: transfer.userId,
+          date: transfer.date,
+          description: transfer.description,
+          amount: transfer.amount,
+          type,
+          checkNumber: type === "debit" ? transfer.checkNumber : null,
+          accountId,
+          transferId: id,
+        }).id;
+
+      return {
+        id,
+        fromTransactionId: side("debit", transfer.fromAccountId),
+        toTransactionId: side("credit", transfer.toAccountId),
+      };
+    });
+
+    return create();
+  }
+
+  /**
+   * A transfer with both of its sides: from (the debit) and to (the
+   * credit)
+   */
+  getTransferById(id: number): any {
+    const transfer = this.db
+      .prepare("SELECT * FROM transfers WHERE id = ?")
+      .get(id) as any;
+    if (!transfer) return transfer;
+
+    const sides = this.db
+      .prepare("SELECT * FROM transactions WHERE transfer_id = ?")
+      .all(id)
+      .map((row) => this.decryptRow("transactions", row));
+    return {
+      ...transfer,
+      from: sides.find((t: any) => t.type === "debit"),
+      to: sides.find((t: any) => t.type === "credit"),
+    };
+  }
+
+  getTransferByTransactionId(transactionId: string): any {
+    const row = this.db
+      .prepare("SELECT transfer_id FROM transactions WHERE id = ?")
+      .get(transactionId) as { transfer_id: number | null } | undefined;
+    return row && row.transfer_id
+      ? this.getTransferById(row.transfer_id)
+      : undefined;
+  }
+
+  /**
+   * For each transfer side of a user, the transfer and the account on
+   * the other side
+   */
+  getTransferSidesByUserId(
+    userId: number
+  ): Map<string, { transferId: number; otherAccountId: string | null }> {
+    const rows = this.db
+      .prepare(
+        `
+      SELECT t.id, t.transfer_id, other.account_id AS other_account_id
+      FROM transactions t
+      JOIN transactions other ON other.transfer_id = t.transfer_id AND other.id != t.id
+      WHERE t.user_id = ? AND t.transfer_id IS NOT NULL
+    `
+      )
+      .all(userId) as any[];
+    return new Map(
+      rows.map((row) => [
+        row.id,
+        { transferId: row.transfer_id, otherAccountId: row.other_account_id },
+      ])
+    );
+  }
+
+  /**
+   * Edit both sides of a transfer. Each side keeps its reconciled state.
+   */
+  updateTransfer(id: number, update: TransferUpdate): void {
+    const transfer = this.getTransferById(id);
+    if (!transfer) {
+      throw new Error("Transfer not found");
+    }
+
+    this.db.transaction(() => {
+      const shared = {
+        date: update.date,
+        description: update.description,
+        amount: update.amount,
+      };
+      this.updateTransaction(transfer.from.id, {
+        ...shared,
+        accountId: update.fromAccountId,
+        checkNumber: update.checkNumber || null,
+      });
+      this.updateTransaction(transfer.to.id, {
+        ...shared,
+        accountId: update.toAccountId,
+      });
+    })();
+  }
+
+  deleteTransfer(id: number): Database.RunResult {
+    const remove = this.db.transaction(() => {
+      this.db.prepare("DELETE FROM transactions WHERE transfer_id = ?").run(id);
+      return this.db.prepare("DELETE FROM transfers WHERE id = ?").run(id);
+    });
+    return remove();
+  }
+
+  /**
+   * Turn an existing transaction into one side of a transfer. The other
+   * side is a transaction already in the other account for the same
+   * amount in the opposite direction within TRANSFER_MATCH_DAYS (the
+   * other account's statement may have been imported first), or else a
+   * new one, created in the same import batch so a rollback removes it.
+   * Transfers have no category, so both sides lose theirs.
+   */
+  linkTransfer(
+    transactionId: string,
+    otherAccountId: string,
+    importBatchId: number | null = null
+  ): { id: number; otherTransactionId: string } {
+    const link = this.db.transaction(() => {
+      const transaction = this.db
+        .prepare("SELECT * FROM transactions WHERE id = ?")
+        .get(transactionId) as any;
+      if (!transaction) {
+        throw new Error("Transaction not found");
+      }
+      if (transaction.transfer_id) {
+        throw new Error("The transaction is already a transfer");
+      }
+      if (
+        !transaction.account_id ||
+        transaction.account_id === otherAccountId
+      ) {
+        throw new Error("A transfer needs two different accounts");
+      }
+
+      const otherType = transaction.type === "debit" ? "credit" : "debit";
+      const counterpart = this.db
+        .prepare(
+          `
+        SELECT id FROM transactions
+        WHERE user_id = ? AND account_id = ? AND amount = ? AND type = ?
+          AND transfer_id IS NULL
+          AND ABS(julianday(date) - julianday(?)) <= ?
+          AND NOT EXISTS (SELECT 1 FROM transaction_splits s WHERE s.transaction_id = transactions.id)
+        ORDER BY ABS(julianday(date) - julianday(?)), created_at, id
+        LIMIT 1
+      `
+        )
+        .get(
+          transaction.user_id,
+          otherAccountId,
+          transaction.amount,
+          otherType,
+          transaction.date,
+          TRANSFER_MATCH_DAYS,
+          transaction.date
+        ) as { id: string } | undefined;
+
+      const id = this.db
+        .prepare("INSERT INTO transfers (user_id) VALUES (?)")
+        .run(transaction.user_id).lastInsertRowid as number;
+      this.setTransactionSplits(transactionId, []);
+      const setTransfer = this.db.prepare(
+        "UPDATE transactions SET transfer_id = ?, category = NULL WHERE id = ?"
+      );
+      setTransfer.run(id, transactionId);
+
+      let otherTransactionId: string;
+      if (counterpart) {
+        otherTransactionId = counterpart.id;
+        setTransfer.run(id, otherTransactionId);
+      } else {
+        otherTransactionId = this.createTransaction({
+          userId: transaction.user_id,
+          date: transaction.date,
+          description: this.decrypt(transaction.description) || "Transfer",
+          amount: transaction.amount,
+          type: otherType,
+          accountId: otherAccountId,
+          importBatchId,
+          transferId: id,
+        }).id;
+      }
+      return { id, otherTransactionId };
+    });
+
+    return link();
+  }
+
+  // Split operations
+  /**
+   * Replace a transaction's splits. The caller checks that they add up
+   * to the transaction amount.
+   */
+  setTransactionSplits(transactionId: string, splits: SplitInput[]): void {
+    const insert = this.db.prepare(`
+      INSERT INTO transaction_splits (transaction_id, position, amount, category, memo)
+      VALUES (?, ?, ?, ?, ?)
+    `);
+
+    this.db.transaction(() => {
+      this.db
+        .prepare("DELETE FROM transaction_splits WHERE transaction_id = ?")
+        .run(transactionId);
+      splits.forEach((split, position) => {
+        insert.run(
+          transactionId,
+          position,
+          split.amount,
+          split.category || null,
+          this.encrypt(split.memo || null)
+        );
+      });
+    })();
+  }
+
+  getSplitsByTransactionId(transactionId: string): any[] {
+    return this.db
+      .prepare(
+        "SELECT * FROM transaction_splits WHERE transaction_id = ? ORDER BY position"
+      )
+      .all(transactionId)
+      .map((row) => this.decryptRow("transaction_splits", row));
+  }
+
+  /**
+   * The splits of every split transaction of a user, by transaction id
+   */
+  getSplitsByUserId(userId: number): Map<string, any[]> {
+    const rows = this.db
+      .prepare(
+        `
+      SELECT s.* FROM transaction_splits s
+      JOIN transactions t ON t.id = s.transaction_id
+      WHERE t.user_id = ?
+      ORDER BY s.transaction_id, s.position
+    `
+      )
+      .all(userId)
+      .map((row) => this.decryptRow("transaction_splits", row));
+
+    const splits = new Map<string, any[]>();
+    for (const row of rows) {
+      splits.set(row.transaction_id, [
+        ...(splits.get(row.transaction_id) || []),
+        row,
+      ]);
+    }
+    return splits;
+  }
+
+  /**
+   * Income and spending per category in cents. Split transactions count
+   * toward each split's category with the split amount instead of the
+   * transaction's own category. Uncategorized amounts have a null
+   * category. Transfers between accounts are neither.
+   */
+  getCategoryTotals(userId: number, filter: CategoryTotalsFilter = {}): any[] {
+    const conditions = ["t.user_id = ?", "t.transfer_id IS NULL"];
+    const params: any[] = [userId];
+    if (filter.accountId) {
+      conditions.push("t.account_id = ?");
+      params.push(filter.accountId);
+    }
+    if (filter.startDate) {
+      conditions.push("t.date >= ?");
+      params.push(filter.startDate);
+    }
+    if (filter.endDate) {
+      conditions.push("t.date <= ?");
+      params.push(filter.endDate);
+    }
+    const where = conditions.join(" AND ");
+
+    return this.db
+      .prepare(
+        `
+      SELECT category,
+        SUM(CASE WHEN type = 'credit' THEN amount ELSE 0 END) AS credits,
+        SUM(CASE WHEN type = 'debit' THEN amount ELSE 0 END) AS debits
+      FROM (
+        SELECT t.category, t.type, t.amount FROM transactions t
+        WHERE ${where}
+          AND NOT EXISTS (SELECT 1 FROM transaction_splits s WHERE s.transaction_id = t.id)
+        UNION ALL
+        SELECT s.category, t.type, s.amount FROM transaction_splits s
+        JOIN transactions t ON t.id = s.transaction_id
+        WHERE ${where}
+      )
+      GROUP BY category
+      ORDER BY category IS NULL, category
+    `
+      )
+      .all(...params, ...params);
+  }
+
   // Reconciliation operations
   findUnreconciledTransactionsByAmount(
     userId: number,
@@ -392,7 +1264,9 @@ class EncryptedDatabase {
     query += " ORDER BY date DESC";
 
     const stmt = this.db.prepare(query);
-    return stmt.all(...params);
+    return stmt
+      .all(...params)
+      .map((row) => this.decryptRow("transactions", row));
   }
 
   // Find all transactions by amount (including reconciled ones) for CSV import matching
@@ -423,7 +1297,9 @@ class EncryptedDatabase {
     query += " ORDER BY is_reconciled ASC, date DESC";
 
     const stmt = this.db.prepare(query);
-    return stmt.all(...params);
+    return stmt
+      .all(...params)
+      .map((row) => this.decryptRow("transactions", row));
   }
 
   markTransactionReconciled(
@@ -436,6 +1312,71 @@ class EncryptedDatabase {
     return stmt.run(isReconciled ? 1 : 0, id);
   }
 
+  /**
+   * Record the bank's FITID on an existing transaction that an OFX row
+   * was matched to, so importing the statement again skips that row
+   */
+  setTransactionFitId(id: string, fitId: string | null): Database.RunResult {
+    return this.db
+      .prepare("UPDATE transactions SET fitid = ? WHERE id = ?")
+      .run(fitId, id);
+  }
+
+  /**
+   * An import fingerprint as it is stored and looked up: a keyed hash, so
+   * the file does not give away a hash of each row's date, amount and
+   * description to guess against
+   */
+  keyImportFingerprint(fingerprint: string): string {
+    return this.blindIndex(fingerprint);
+  }
+
+  // The stored import_fingerprint and its encrypted source, which key
+  // rotation rehashes
+  private importFingerprintColumns(
+    fingerprint: string | null | undefined
+  ): [string | null, string | null] {
+    return fingerprint
+      ? [this.keyImportFingerprint(fingerprint), this.encrypt(fingerprint)]
+      : [null, null];
+  }
+
+  /**
+   * Record the statement row an existing transaction was matched to.
+   * A transaction keeps the first fingerprint it was given.
+   */
+  setImportFingerprint(id: string, fingerprint: string): Database.RunResult {
+    return this.db
+      .prepare(
+        "UPDATE transactions SET import_fingerprint = ?, import_fingerprint_source = ? WHERE id = ? AND import_fingerprint IS NULL"
+      )
+      .run(...this.importFingerprintColumns(fingerprint), id);
+  }
+
+  /**
+   * Keyed import fingerprints already in an account (null for
+   * transactions without an account), including those of statement
+   * lines that still clear a transaction. Compare them with
+   * keyImportFingerprint.
+   */
+  getImportFingerprints(userId: number, accountId: string | null): Set<string> {
+    const rows = this.db
+      .prepare(
+        `
+      SELECT import_fingerprint FROM transactions
+      WHERE user_id = ? AND account_id IS ? AND import_fingerprint IS NOT NULL
+      UNION
+      SELECT l.import_fingerprint FROM statement_lines l
+      WHERE l.user_id = ? AND l.account_id IS ? AND l.import_fingerprint IS NOT NULL
+        AND EXISTS (SELECT 1 FROM statement_line_links k WHERE k.statement_line_id = l.id)
+    `
+      )
+      .all(userId, accountId, userId, accountId) as {
+      import_fingerprint: string;
+    }[];
+    return new Set(rows.map((row) => row.import_fingerprint));
+  }
+
   getUnreconciledTransactionsByUserId(userId: number): any[] {
     const stmt = this.db.prepare(`
       SELECT * FROM transactions 
@@ -443,18 +1384,1552 @@ class EncryptedDatabase {
       AND is_reconciled = 0
       ORDER BY date DESC
     `);
-    return stmt.all(userId);
+    return stmt
+      .all(userId)
+      .map((row) => this.decryptRow("transactions", row));
   }
 
-  // Category operations
-  createCategory(
-    userId: number,
-    name: string,
-    type: string,
-    isDefault: boolean = false
-  ): number {
+  // Account operations
+  createAccount(account: AccountInput): string {
+    const id = crypto.randomUUID();
     const stmt = this.db.prepare(`
-      INSERT INTO categories (user_id, name, type, is_default)
+      INSERT INTO accounts
+      (id, user_id, name, institution, account_type, last_four, opening_balance, opening_date)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    stmt.run(
+      id,
+      account.userId,
+      this.encrypt(account.name),
+      this.encrypt(account.institution || null),
+      account.accountType,
+      this.encrypt(account.lastFour || null),
+      account.openingBalance,
+      account.openingDate
+    );
+    return id;
+  }
+
+  getAccountById(id: string): any {
+    const stmt = this.db.prepare("SELECT * FROM accounts WHERE id = ?");
+    return this.decryptRow("accounts", stmt.get(id));
+  }
+
+  getAccountsByUserId(userId: number): any[] {
+    const stmt = this.db.prepare(
+      "SELECT * FROM accounts WHERE user_id = ? ORDER BY created_at ASC"
+    );
+    return stmt
+      .all(userId)
+      .map((row) => this.decryptRow("accounts", row));
+  }
+
+  updateAccount(
+    id: string,
+    updates: AccountUpdate
+  ): Database.RunResult | undefined {
+    if (!id) {
+      throw new Error("Account ID is required for update");
+    }
+
+    const fields: string[] = [];
+    const values: any[] = [];
+
+    if (updates.name !== undefined) {
+      fields.push("name = ?");
+      values.push(this.encrypt(updates.name));
+    }
+    if (updates.institution !== undefined) {
+      fields.push("institution = ?");
+      values.push(this.encrypt(updates.institution));
+    }
+    if (updates.accountType !== undefined) {
+      fields.push("account_type = ?");
+      values.push(updates.accountType);
+    }
+    if (updates.lastFour !== undefined) {
+      fields.push("last_four = ?");
+      values.push(this.encrypt(updates.lastFour));
+    }
+    if (updates.openingBalance !== undefined) {
+      fields.push("opening_balance = ?");
+      values.push(updates.openingBalance);
+    }
+    if (updates.openingDate !== undefined) {
+      fields.push("opening_date = ?");
+      values.push(updates.openingDate);
+    }
+
+    if (fields.length === 0) return;
+
+    values.push(id);
+    const stmt = this.db.prepare(`
+      UPDATE accounts
+      SET ${fields.join(", ")}
+      WHERE id = ?
+    `);
+
+    return stmt.run(...values);
+  }
+
+  deleteAccount(id: string): Database.RunResult {
+    if (!id) {
+      throw new Error("Account ID is required for delete");
+    }
+
+    // Refuse to orphan a register - transactions must be moved or deleted first
+    const { count } = this.db
+      .prepare("SELECT COUNT(*) AS count FROM transactions WHERE account_id = ?")
+      .get(id) as { count: number };
+    if (count > 0) {
+      throw new Error(
+        `Account has ${count} transaction(s); move or delete them first`
+      );
+    }
+    const { scheduled } = this.db
+      .prepare(
+        "SELECT COUNT(*) AS scheduled FROM scheduled_transactions WHERE account_id = ?"
+      )
+      .get(id) as { scheduled: number };
+    if (scheduled > 0) {
+      throw new Error(
+        `Account has ${scheduled} scheduled transaction(s); delete them first`
+      );
+    }
+
+    const stmt = this.db.prepare("DELETE FROM accounts WHERE id = ?");
+    return stmt.run(id);
+  }
+
+  getTransactionsByAccountId(accountId: string): any[] {
+    const stmt = this.db.prepare(`
+      SELECT * FROM transactions
+      WHERE account_id = ?
+      ORDER BY date DESC
+    `);
+    return stmt
+      .all(accountId)
+      .map((row) => this.decryptRow("transactions", row));
+  }
+
+  /**
+   * Current balance of an account in cents: opening balance plus credits
+   * minus debits
+   */
+  getAccountBalance(accountId: string): number {
+    const row = this.db
+      .prepare(
+        `
+      SELECT a.opening_balance + COALESCE(SUM(
+        CASE WHEN t.type = 'credit' THEN t.amount ELSE -t.amount END
+      ), 0) AS balance
+      FROM accounts a
+      LEFT JOIN transactions t ON t.account_id = a.id
+      WHERE a.id = ?
+      GROUP BY a.id
+    `
+      )
+      .get(accountId) as { balance: number } | undefined;
+
+    if (!row) {
+      throw new Error("Account not found");
+    }
+    return row.balance;
+  }
+
+  /**
+   * The amount columns of a register, enough to compute its balances
+   * without decrypting anything. Without an account id, every
+   * transaction of the user.
+   */
+  getBalanceTransactions(userId: number, accountId?: string): any[] {
+    const columns = "id, date, amount, type, is_reconciled, created_at";
+    if (accountId) {
+      return this.db
+        .prepare(
+          `SELECT ${columns} FROM transactions WHERE user_id = ? AND account_id = ?`
+        )
+        .all(userId, accountId);
+    }
+    return this.db
+      .prepare(`SELECT ${columns} FROM transactions WHERE user_id = ?`)
+      .all(userId);
+  }
+
+  // Reconciliation session operations
+  startReconciliation(input: ReconciliationInput): number {
+    const accountId = input.accountId || null;
+
+    if (this.getInProgressReconciliation(input.userId, accountId)) {
+      throw new Error(
+        "A reconciliation is already in progress for this account; resume or undo it first"
+      );
+    }
+
+    const start = this.db.transaction(() => {
+      const stmt = this.db.prepare(`
+        INSERT INTO reconciliations
+        (user_id, account_id, statement_date, beginning_balance, ending_balance)
+        VALUES (?, ?, ?, ?, ?)
+      `);
+      const id = stmt.run(
+        input.userId,
+        accountId,
+        input.statementDate,
+        input.beginningBalance,
+        input.endingBalance
+      ).lastInsertRowid as number;
+
+      if (input.importBatchId) {
+        this.db
+          .prepare(
+            `
+          INSERT OR IGNORE INTO reconciliation_transactions (reconciliation_id, transaction_id)
+          SELECT ?, t.id FROM transactions t
+          WHERE t.user_id = ? AND t.account_id IS ? AND t.date <= ?
+          AND t.id IN (
+            SELECT k.transaction_id FROM statement_line_links k
+            JOIN statement_lines l ON l.id = k.statement_line_id
+            WHERE l.import_batch_id = ?
+          )
+          AND ${UNSETTLED_IMPORT_CLEARED}
+        `
+          )
+          .run(
+            id,
+            input.userId,
+            accountId,
+            input.statementDate,
+            input.importBatchId
+          );
+      }
+      return id;
+    });
+
+    return start();
+  }
+
+  getReconciliationById(id: number): any {
+    const stmt = this.db.prepare("SELECT * FROM reconciliations WHERE id = ?");
+    return stmt.get(id);
+  }
+
+  getInProgressReconciliation(userId: number, accountId: string | null): any {
+    const stmt = this.db.prepare(`
+      SELECT * FROM reconciliations
+      WHERE user_id = ? AND account_id IS ? AND status = 'in_progress'
+      ORDER BY id DESC LIMIT 1
+    `);
+    return stmt.get(userId, accountId);
+  }
+
+  getReconciliationsByAccount(userId: number, accountId: string | null): any[] {
+    const stmt = this.db.prepare(`
+      SELECT * FROM reconciliations
+      WHERE user_id = ? AND account_id IS ?
+      ORDER BY statement_date DESC, id DESC
+    `);
+    return stmt.all(userId, accountId);
+  }
+
+  /**
+   * Suggested beginning balance for the next statement: the ending balance of
+   * the last completed reconciliation, else the account's opening balance
+   */
+  getSuggestedBeginningBalance(
+    userId: number,
+    accountId: string | null
+  ): number {
+    const last = this.db
+      .prepare(
+        `
+      SELECT ending_balance FROM reconciliations
+      WHERE user_id = ? AND account_id IS ? AND status = 'completed'
+      ORDER BY statement_date DESC, id DESC LIMIT 1
+    `
+      )
+      .get(userId, accountId) as { ending_balance: number } | undefined;
+    if (last) return last.ending_balance;
+
+    const account = accountId ? this.getAccountById(accountId) : null;
+    return account ? account.opening_balance : 0;
+  }
+
+  /**
+   * Transactions that can be cleared in a session: everything in the account
+   * that is not yet reconciled, or that an import cleared but no completed
+   * session has settled, up to the statement date
+   */
+  getReconciliationCandidates(id: number): any[] {
+    const reconciliation = this.getReconciliationById(id);
+    if (!reconciliation) {
+      throw new Error("Reconciliation not found");
+    }
+
+    const stmt = this.db.prepare(`
+      SELECT t.*, CASE WHEN rt.transaction_id IS NULL THEN 0 ELSE 1 END AS is_cleared
+      FROM transactions t
+      LEFT JOIN reconciliation_transactions rt
+        ON rt.transaction_id = t.id AND rt.reconciliation_id = ?
+      WHERE t.user_id = ? AND t.account_id IS ?
+      AND (
+        t.is_reconciled = 0 OR rt.transaction_id IS NOT NULL
+        OR (${UNSETTLED_IMPORT_CLEARED})
+      )
+      AND t.date <= ?
+      ORDER BY t.date ASC
+    `);
+    return stmt
+      .all(
+        id,
+        reconciliation.user_id,
+        reconciliation.account_id,
+        reconciliation.statement_date
+      )
+      .map((row) => this.decryptRow("transactions", row));
+  }
+
+  setReconciliationCleared(
+    id: number,
+    transactionId: string,
+    cleared: boolean
+  ): void {
+    const reconciliation = this.getReconciliationById(id);
+    if (!reconciliation || reconciliation.status !== "in_progress") {
+      throw new Error("Reconciliation is not in progress");
+    }
+
+    if (!cleared) {
+      this.db
+        .prepare(
+          "DELETE FROM reconciliation_transactions WHERE reconciliation_id = ? AND transaction_id = ?"
+        )
+        .run(id, transactionId);
+      return;
+    }
+
+    const transaction = this.db
+      .prepare(
+        `
+      SELECT user_id, account_id, is_reconciled,
+        CASE WHEN ${UNSETTLED_IMPORT_CLEARED} THEN 1 ELSE 0 END AS import_cleared
+      FROM transactions t WHERE id = ?
+    `
+      )
+      .get(transactionId) as any;
+    if (
+      !transaction ||
+      transaction.user_id !== reconciliation.user_id ||
+      transaction.account_id !== reconciliation.account_id
+    ) {
+      throw new Error("Transaction does not belong to this reconciliation");
+    }
+    if (transaction.is_reconciled === 1 && transaction.import_cleared === 0) {
+      throw new Error("Transaction is already reconciled");
+    }
+
+    this.db
+      .prepare(
+        "INSERT OR IGNORE INTO reconciliation_transactions (reconciliation_id, transaction_id) VALUES (?, ?)"
+      )
+      .run(id, transactionId);
+  }
+
+  /**
+   * Live checkbook math for a session: the statement balances once
+   * beginning balance + cleared total equals the statement ending balance
+   */
+  getReconciliationStatus(id: number): ReconciliationStatus {
+    const reconciliation = this.getReconciliationById(id);
+    if (!reconciliation) {
+      throw new Error("Reconciliation not found");
+    }
+
+    const totals = this.db
+      .prepare(
+        `
+      SELECT
+        COALESCE(SUM(CASE WHEN t.type = 'credit' THEN t.amount ELSE -t.amount END), 0) AS cleared_total,
+        COUNT(t.id) AS cleared_count
+      FROM reconciliation_transactions rt
+      JOIN transactions t ON t.id = rt.transaction_id
+      WHERE rt.reconciliation_id = ?
+    `
+      )
+      .get(id) as { cleared_total: number; cleared_count: number };
+
+    const difference =
+      reconciliation.ending_balance -
+      reconciliation.beginning_balance -
+      totals.cleared_total;
+
+    return {
+      reconciliation,
+      clearedTotal: totals.cleared_total,
+      clearedCount: totals.cleared_count,
+      difference,
+      canFinish: difference === 0,
+    };
+  }
+
+  finishReconciliation(id: number): ReconciliationStatus {
+    const finish = this.db.transaction(() => {
+      const status = this.getReconciliationStatus(id);
+      if (status.reconciliation.status !== "in_progress") {
+        throw new Error("Reconciliation is not in progress");
+      }
+      if (!status.canFinish) {
+        throw new Error(
+          `Statement does not balance; difference is ${formatCents(status.difference)}`
+        );
+      }
+
+      this.db
+        .prepare(
+          `
+        UPDATE transactions SET is_reconciled = 1
+        WHERE id IN (SELECT transaction_id FROM reconciliation_transactions WHERE reconciliation_id = ?)
+      `
+        )
+        .run(id);
+      this.db
+        .prepare(
+          "UPDATE reconciliations SET status = 'completed', completed_at = CURRENT_TIMESTAMP WHERE id = ?"
+        )
+        .run(id);
+
+      return this.getReconciliationStatus(id);
+    });
+
+    return finish();
+  }
+
+  /**
+   * Undo a session. An in-progress session is simply discarded; a completed
+   * one un-reconciles its cleared transactions, except those an import
+   * cleared, and is removed. Only the most recent completed session of an
+   * account can be undone.
+   */
+  undoReconciliation(id: number): void {
+    const undo = this.db.transaction(() => {
+      const reconciliation = this.getReconciliationById(id);
+      if (!reconciliation) {
+        throw new Error("Reconciliation not found");
+      }
+
+      if (reconciliation.status === "completed") {
+        const latest = this.db
+          .prepare(
+            `
+          SELECT id FROM reconciliations
+          WHERE user_id = ? AND account_id IS ? AND status = 'completed'
+          ORDER BY statement_date DESC, id DESC LIMIT 1
+        `
+          )
+          .get(reconciliation.user_id, reconciliation.account_id) as {
+          id: number;
+        };
+        if (latest.id !== id) {
+          throw new Error("Only the most recent reconciliation can be undone");
+        }
+
+        // What an import cleared stays cleared by its statement lines
+        this.db
+          .prepare(
+            `
+          UPDATE transactions SET is_reconciled = 0
+          WHERE id IN (SELECT transaction_id FROM reconciliation_transactions WHERE reconciliation_id = ?)
+          AND NOT EXISTS (SELECT 1 FROM statement_line_links k WHERE k.transaction_id = transactions.id)
+        `
+          )
+          .run(id);
+      }
+
+      this.db.prepare("DELETE FROM reconciliations WHERE id = ?").run(id);
+    });
+
+    undo();
+  }
+
+  // Import profile operations
+  createImportProfile(profile: ImportProfileInput): number {
+    const result = this.db
+      .prepare(
+        `
+      INSERT INTO import_profiles (user_id, name, header_signature, mapping)
+      VALUES (?, ?, ?, ?)
+    `
+      )
+      .run(
+        profile.userId,
+        this.encrypt(profile.name),
+        profile.headerSignature,
+        JSON.stringify(profile.mapping)
+      );
+    return result.lastInsertRowid as number;
+  }
+
+  updateImportProfile(
+    id: number,
+    profile: Omit<ImportProfileInput, "userId">
+  ): Database.RunResult {
+    return this.db
+      .prepare(
+        `
+      UPDATE import_profiles
+      SET name = ?, header_signature = ?, mapping = ?, updated_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `
+      )
+      .run(
+        this.encrypt(profile.name),
+        profile.headerSignature,
+        JSON.stringify(profile.mapping),
+        id
+      );
+  }
+
+  getImportProfileById(id: number): any {
+    const row = this.db
+      .prepare("SELECT * FROM import_profiles WHERE id = ?")
+      .get(id);
+    return this.toImportProfile(row);
+  }
+
+  /**
+   * Profiles for a user, most recently saved first
+   */
+  getImportProfilesByUserId(userId: number): any[] {
+    return this.db
+      .prepare(
+        "SELECT * FROM import_profiles WHERE user_id = ? ORDER BY updated_at DESC, id DESC"
+      )
+      .all(userId)
+      .map((row) => this.toImportProfile(row));
+  }
+
+  deleteImportProfile(id: number): Database.RunResult {
+    return this.db.prepare("DELETE FROM import_profiles WHERE id = ?").run(id);
+  }
+
+  // Import batch operations
+  createImportBatch(batch: ImportBatchInput): number {
+    const result = this.db
+      .prepare(
+        `
+      INSERT INTO import_batches (user_id, account_id, format, file_name, file_hash, profile_id)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `
+      )
+      .run(
+        batch.userId,
+        batch.accountId,
+        batch.format,
+        this.encrypt(batch.fileName),
+        batch.fileHash,
+        batch.profileId
+      );
+    return result.lastInsertRowid as number;
+  }
+
+  setImportBatchCounts(
+    id: number,
+    counts: ImportBatchCounts
+  ): Database.RunResult {
+    return this.db
+      .prepare(
+        "UPDATE import_batches SET created_count = ?, matched_count = ?, skipped_count = ? WHERE id = ?"
+      )
+      .run(counts.created, counts.matched, counts.skipped, id);
+  }
+
+  getImportBatchById(id: number): any {
+    const row = this.db
+      .prepare(`${IMPORT_BATCH_SELECT} WHERE b.id = ?`)
+      .get(id);
+    return this.decryptRow("import_batches", row);
+  }
+
+  /**
+   * Past imports for a user, most recent first
+   */
+  getImportBatchesByUserId(userId: number): any[] {
+    return this.db
+      .prepare(
+        `${IMPORT_BATCH_SELECT} WHERE b.user_id = ? ORDER BY b.imported_at DESC, b.id DESC`
+      )
+      .all(userId)
+      .map((row) => this.decryptRow("import_batches", row));
+  }
+
+  /**
+   * Delete every transaction a batch created and mark the batch rolled
+   * back, all or nothing. Transactions the import only matched existed
+   * before it and are kept, but the matches are undone as if each had
+   * been unlinked. Refused once any created or matched transaction has
+   * been reconciled. Returns the number of transactions deleted.
+   */
+  rollbackImportBatch(id: number): number {
+    const rollback = this.db.transaction(() => {
+      const batch = this.getImportBatchById(id);
+      if (!batch) {
+        throw new Error("Import not found");
+      }
+      if (batch.rolled_back_at) {
+        throw new Error("This import has already been rolled back");
+      }
+      if (batch.reconciled_count > 0) {
+        throw new Error(
+          `${batch.reconciled_count} transaction(s) from this import have been reconciled since; undo those reconciliations first`
+        );
+      }
+
+      const matchedIds = this.db
+        .prepare(
+          `
+        SELECT DISTINCT t.id FROM statement_line_links k
+        JOIN statement_lines l ON l.id = k.statement_line_id
+        JOIN transactions t ON t.id = k.transaction_id
+        WHERE l.import_batch_id = ? AND t.import_batch_id IS NOT ?
+      `
+        )
+        .pluck()
+        .all(id, id) as string[];
+      const reconciled = this.db
+        .prepare(
+          "SELECT COUNT(*) AS count FROM reconciliation_transactions WHERE transaction_id = ?"
+        )
+        .pluck();
+      const cleared = matchedIds.filter(
+        (transactionId) => (reconciled.get(transactionId) as number) > 0
+      ).length;
+      if (cleared > 0) {
+        throw new Error(
+          `${cleared} transaction(s) this import matched have been reconciled since; undo those reconciliations first`
+        );
+      }
+
+      // Transactions from other imports or entered by hand that were
+      // paired as transfers with this import's go back to standing alone
+      this.db
+        .prepare(
+          `
+        UPDATE transactions SET transfer_id = NULL
+        WHERE import_batch_id IS NOT ? AND transfer_id IN (
+          SELECT transfer_id FROM transactions WHERE import_batch_id = ?
+        )
+      `
+        )
+        .run(id, id);
+      const result = this.db
+        .prepare("DELETE FROM transactions WHERE import_batch_id = ?")
+        .run(id);
+      this.db
+        .prepare(
+          `
+        DELETE FROM transfers WHERE user_id = ?
+        AND NOT EXISTS (SELECT 1 FROM transactions t WHERE t.transfer_id = transfers.id)
+      `
+        )
+        .run(batch.user_id);
+      // The batch's bank lines and match groups go with their links, and
+      // the transactions they matched stand as they did before the import
+      this.db
+        .prepare("DELETE FROM match_groups WHERE import_batch_id = ?")
+        .run(id);
+      this.db
+        .prepare("DELETE FROM statement_lines WHERE import_batch_id = ?")
+        .run(id);
+      this.releaseUnlinkedTransactions(matchedIds);
+      this.db
+        .prepare(
+          "UPDATE import_batches SET rolled_back_at = CURRENT_TIMESTAMP WHERE id = ?"
+        )
+        .run(id);
+
+      return result.changes;
+    });
+
+    return rollback();
+  }
+
+  // Statement line operations
+  private toStatementLine(row: any): any {
+    if (!row) return row;
+    const line = this.decryptRow("statement_lines", row);
+    return {
+      ...line,
+      raw_data: line.raw_data ? JSON.parse(line.raw_data) : null,
+    };
+  }
+
+  createStatementLine(line: StatementLineInput): number {
+    const result = this.db
+      .prepare(
+        `
+      INSERT INTO statement_lines
+      (user_id, account_id, import_batch_id, date, description, amount, type, check_number, fitid, import_fingerprint, import_fingerprint_source, raw_data)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `
+      )
+      .run(
+        line.userId,
+        line.accountId,
+        line.importBatchId,
+        line.date,
+        this.encrypt(line.description),
+        line.amount,
+        line.type,
+        this.encrypt(line.checkNumber),
+        line.fitId,
+        ...this.importFingerprintColumns(line.importFingerprint),
+        this.encrypt(line.rawData ? JSON.stringify(line.rawData) : null)
+      );
+    return result.lastInsertRowid as number;
+  }
+
+  /**
+   * Record that a statement line cleared a transaction. Links made for
+   * an accepted group match carry the group's id.
+   */
+  linkStatementLine(
+    statementLineId: number,
+    transactionId: string,
+    matchGroupId: number | null = null
+  ): Database.RunResult {
+    return this.db
+      .prepare(
+        "INSERT INTO statement_line_links (statement_line_id, transaction_id, match_group_id) VALUES (?, ?, ?)"
+      )
+      .run(statementLineId, transactionId, matchGroupId);
+  }
+
+  /**
+   * The statement lines that cleared a transaction, oldest first, with
+   * the match group of each link
+   */
+  getStatementLinesByTransactionId(transactionId: string): any[] {
+    return this.db
+      .prepare(
+        `
+      SELECT l.*, k.match_group_id, k.linked_at FROM statement_lines l
+      JOIN statement_line_links k ON k.statement_line_id = l.id
+      WHERE k.transaction_id = ?
+      ORDER BY k.linked_at, l.id
+    `
+      )
+      .all(transactionId)
+      .map((row) => this.toStatementLine(row));
+  }
+
+  /**
+   * Ids of a user's transactions that have at least one statement line
+   */
+  getStatementLinkedTransactionIds(userId: number): Set<string> {
+    const rows = this.db
+      .prepare(
+        `
+      SELECT DISTINCT k.transaction_id FROM statement_line_links k
+      JOIN statement_lines l ON l.id = k.statement_line_id
+      WHERE l.user_id = ?
+    `
+      )
+      .all(userId) as { transaction_id: string }[];
+    return new Set(rows.map((row) => row.transaction_id));
+  }
+
+  /**
+   * Undo a match: the statement line no longer clears the transaction.
+   * A link made by a group match takes the whole group with it. A
+   * transaction left without statement lines is unreconciled again and
+   * loses its import identity, so importing the line again proposes it.
+   * Refused for transactions cleared in a reconciliation session.
+   */
+  unlinkStatementLine(statementLineId: number, transactionId: string): void {
+    const unlink = this.db.transaction(() => {
+      const link = this.db
+        .prepare(
+          "SELECT * FROM statement_line_links WHERE statement_line_id = ? AND transaction_id = ?"
+        )
+        .get(statementLineId, transactionId) as any;
+      if (!link) {
+        throw new Error("This statement line is not matched to the transaction");
+      }
+
+      const links = (
+        link.match_group_id
+          ? this.db
+              .prepare(
+                "SELECT * FROM statement_line_links WHERE match_group_id = ?"
+              )
+              .all(link.match_group_id)
+          : [link]
+      ) as any[];
+      const transactionIds = [...new Set(links.map((l) => l.transaction_id))];
+
+      const reconciled = this.db
+        .prepare(
+          "SELECT COUNT(*) AS count FROM reconciliation_transactions WHERE transaction_id = ?"
+        )
+        .pluck();
+      if (transactionIds.some((id) => (reconciled.get(id) as number) > 0)) {
+        throw new Error(
+          "The transaction was cleared in a reconciliation; undo that reconciliation first"
+        );
+      }
+
+      if (link.match_group_id) {
+        this.db
+          .prepare("DELETE FROM match_groups WHERE id = ?")
+          .run(link.match_group_id); // cascades to the group's links
+      } else {
+        this.db
+          .prepare(
+            "DELETE FROM statement_line_links WHERE statement_line_id = ? AND transaction_id = ?"
+          )
+          .run(statementLineId, transactionId);
+      }
+
+      this.releaseUnlinkedTransactions(transactionIds);
+    });
+
+    unlink();
+  }
+
+  /**
+   * Transactions no statement line clears any more are unreconciled
+   * again and lose their import identity, so importing the line again
+   * proposes them
+   */
+  private releaseUnlinkedTransactions(transactionIds: string[]): void {
+    const release = this.db.prepare(
+      `
+        UPDATE transactions SET is_reconciled = 0, import_fingerprint = NULL, import_fingerprint_source = NULL, fitid = NULL
+        WHERE id = ? AND NOT EXISTS (SELECT 1 FROM statement_line_links k WHERE k.transaction_id = transactions.id)
+      `
+    );
+    for (const id of transactionIds) {
+      release.run(id);
+    }
+  }
+
+  // Match group operations
+  createMatchGroup(group: MatchGroupInput): number {
+    const result = this.db
+      .prepare(
+        "INSERT INTO match_groups (user_id, account_id, import_batch_id, kind) VALUES (?, ?, ?, ?)"
+      )
+      .run(group.userId, group.accountId, group.importBatchId, group.kind);
+    return result.lastInsertRowid as number;
+  }
+
+  /**
+   * The match groups a transaction belongs to, each with all of its
+   * register transactions and statement lines
+   */
+  getMatchGroupsByTransactionId(transactionId: string): any[] {
+    const groups = this.db
+      .prepare(
+        `
+      SELECT DISTINCT g.* FROM match_groups g
+      JOIN statement_line_links k ON k.match_group_id = g.id
+      WHERE k.transaction_id = ?
+      ORDER BY g.created_at, g.id
+    `
+      )
+      .all(transactionId) as any[];
+
+    return groups.map((group) => ({
+      ...group,
+      transactions: this.db
+        .prepare(
+          `
+        SELECT DISTINCT t.* FROM transactions t
+        JOIN statement_line_links k ON k.transaction_id = t.id
+        WHERE k.match_group_id = ?
+        ORDER BY t.date, t.id
+      `
+        )
+        .all(group.id)
+        .map((row) => this.decryptRow("transactions", row)),
+      lines: this.db
+        .prepare(
+          `
+        SELECT DISTINCT l.* FROM statement_lines l
+        JOIN statement_line_links k ON k.statement_line_id = l.id
+        WHERE k.match_group_id = ?
+        ORDER BY l.date, l.id
+      `
+        )
+        .all(group.id)
+        .map((row) => this.toStatementLine(row)),
+    }));
+  }
+
+  // Scheduled transaction operations
+  private toRecurrenceRule(schedule: any): RecurrenceRule {
+    return {
+      frequency: schedule.frequency,
+      dayOfMonth: schedule.day_of_month,
+      startDate: schedule.start_date,
+      endDate: schedule.end_date,
+    };
+  }
+
+  createScheduledTransaction(schedule: ScheduledTransactionInput): number {
+    const rule: RecurrenceRule = {
+      frequency: schedule.frequency,
+      dayOfMonth: schedule.dayOfMonth,
+      startDate: schedule.startDate,
+      endDate: schedule.endDate,
+    };
+    const nextDate = nextOccurrence(rule, addDays(schedule.startDate, -1));
+
+    const result = this.db
+      .prepare(
+        `
+      INSERT INTO scheduled_transactions
+      (user_id, account_id, description, amount, type, category, frequency, day_of_month, start_date, end_date, next_date, mode)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `
+      )
+      .run(
+        schedule.userId,
+        schedule.accountId || null,
+        this.encrypt(schedule.description),
+        schedule.amount,
+        schedule.type,
+        schedule.category || null,
+        schedule.frequency,
+        schedule.dayOfMonth || null,
+        schedule.startDate,
+        schedule.endDate || null,
+        nextDate,
+        schedule.mode
+      );
+    return result.lastInsertRowid as number;
+  }
+
+  getScheduledTransactionById(id: number): any {
+    const row = this.db
+      .prepare("SELECT * FROM scheduled_transactions WHERE id = ?")
+      .get(id);
+    return row ? this.decryptRow("scheduled_transactions", row) : row;
+  }
+
+  getScheduledTransactionsByUserId(userId: number): any[] {
+    return this.db
+      .prepare(
+        `
+      SELECT * FROM scheduled_transactions
+      WHERE user_id = ?
+      ORDER BY next_date IS NULL, next_date, id
+    `
+      )
+      .all(userId)
+      .map((row) => this.decryptRow("scheduled_transactions", row));
+  }
+
+  /**
+   * Transactions already posted from the schedule are kept
+   */
+  deleteScheduledTransaction(id: number): Database.RunResult {
+    return this.db
+      .prepare("DELETE FROM scheduled_transactions WHERE id = ?")
+      .run(id);
+  }
+
+  private getScheduledOccurrences(scheduledId: number): Map<string, any> {
+    const rows = this.db
+      .prepare("SELECT * FROM scheduled_occurrences WHERE scheduled_id = ?")
+      .all(scheduledId)
+      .map((row) => this.decryptRow("scheduled_occurrences", row));
+    return new Map(rows.map((row: any) => [row.occurrence_date, row]));
+  }
+
+  /**
+   * One occurrence of a schedule as it will be entered, with any change
+   * made to that occurrence applied
+   */
+  private toScheduledEntry(
+    schedule: any,
+    occurrenceDate: string,
+    occurrence: any
+  ): any {
+    return {
+      scheduledId: schedule.id,
+      occurrenceDate,
+      date: (occurrence && occurrence.date) || occurrenceDate,
+      description:
+        (occurrence && occurrence.description) || schedule.description,
+      amount:
+        occurrence && occurrence.amount !== null
+          ? occurrence.amount
+          : schedule.amount,
+      type: schedule.type,
+      category: schedule.category,
+      accountId: schedule.account_id,
+      mode: schedule.mode,
+      skipped: Boolean(occurrence && occurrence.skipped),
+      changed: Boolean(
+        occurrence &&
+          (occurrence.date ||
+            occurrence.description ||
+            occurrence.amount !== null)
+      ),
+    };
+  }
+
+  /**
+   * Upcoming occurrences of a user's schedules, from each schedule's next
+   * unhandled occurrence through a date, in date order. Skipped
+   * occurrences are included and flagged.
+   */
+  getScheduledEntries(
+    userId: number,
+    through: string,
+    accountId: string | null = null
+  ): any[] {
+    const entries: any[] = [];
+    for (const schedule of this.getScheduledTransactionsByUserId(userId)) {
+      if (!schedule.next_date) continue;
+      if (accountId && schedule.account_id !== accountId) continue;
+
+      const occurrences = this.getScheduledOccurrences(schedule.id);
+      const dates = occurrencesBetween(
+        this.toRecurrenceRule(schedule),
+        schedule.next_date,
+        through
+      );
+      for (const date of dates) {
+        entries.push(
+          this.toScheduledEntry(schedule, date, occurrences.get(date))
+        );
+      }
+    }
+
+    return entries.sort((a, b) =>
+      a.date !== b.date
+        ? a.date < b.date
+          ? -1
+          : 1
+        : a.scheduledId - b.scheduledId
+    );
+  }
+
+  private requireScheduledOccurrence(id: number, occurrenceDate: string): any {
+    const schedule = this.getScheduledTransactionById(id);
+    if (!schedule) {
+      throw new Error("Scheduled transaction not found");
+    }
+    if (!schedule.next_date || occurrenceDate < schedule.next_date) {
+      throw new Error("This occurrence has already been posted or skipped");
+    }
+    const [date] = occurrencesBetween(
+      this.toRecurrenceRule(schedule),
+      occurrenceDate,
+      occurrenceDate
+    );
+    if (!date) {
+      throw new Error(`The schedule has no occurrence on ${occurrenceDate}`);
+    }
+    return schedule;
+  }
+
+  /**
+   * Skip, or change the date, amount or description of, a single
+   * occurrence without touching the rest of the schedule
+   */
+  setScheduledOccurrence(
+    id: number,
+    occurrenceDate: string,
+    override: OccurrenceOverride
+  ): Database.RunResult {
+    this.requireScheduledOccurrence(id, occurrenceDate);
+    return this.db
+      .prepare(
+        `
+      INSERT INTO scheduled_occurrences
+      (scheduled_id, occurrence_date, skipped, date, amount, description)
+      VALUES (?, ?, ?, ?, ?, ?)
+      ON CONFLICT (scheduled_id, occurrence_date) DO UPDATE SET
+        skipped = excluded.skipped,
+        date = excluded.date,
+        amount = excluded.amount,
+        description = excluded.description
+    `
+      )
+      .run(
+        id,
+        occurrenceDate,
+        override.skipped ? 1 : 0,
+        override.date || null,
+        override.amount ?? null,
+        this.encrypt(override.description || null)
+      );
+  }
+
+  clearScheduledOccurrence(
+    id: number,
+    occurrenceDate: string
+  ): Database.RunResult {
+    return this.db
+      .prepare(
+        "DELETE FROM scheduled_occurrences WHERE scheduled_id = ? AND occurrence_date = ?"
+      )
+      .run(id, occurrenceDate);
+  }
+
+  /**
+   * Handle a schedule's next occurrence: enter it in the register unless
+   * it was skipped, then move the schedule on to the following one.
+   * Occurrences are handled in order, so only the next one can be posted.
+   * Returns the new transaction's id, or null for a skipped occurrence.
+   */
+  postScheduledOccurrence(
+    id: number,
+    occurrenceDate: string,
+    skip = false
+  ): string | null {
+    const schedule = this.requireScheduledOccurrence(id, occurrenceDate);
+    if (occurrenceDate !== schedule.next_date) {
+      throw new Error(
+        `Post or skip the occurrence on ${schedule.next_date} first`
+      );
+    }
+
+    const post = this.db.transaction(() => {
+      const entry = this.toScheduledEntry(
+        schedule,
+        occurrenceDate,
+        this.getScheduledOccurrences(id).get(occurrenceDate)
+      );
+
+      let transactionId: string | null = null;
+      if (!skip && !entry.skipped) {
+        transactionId = this.createTransaction({
+          userId: schedule.user_id,
+          date: entry.date,
+          description: entry.description,
+          amount: entry.amount,
+          type: entry.type,
+          category: entry.category,
+          accountId: entry.accountId,
+        }).id;
+      }
+
+      this.clearScheduledOccurrence(id, occurrenceDate);
+      this.db
+        .prepare("UPDATE scheduled_transactions SET next_date = ? WHERE id = ?")
+        .run(
+          nextOccurrence(this.toRecurrenceRule(schedule), occurrenceDate),
+          id
+        );
+      return transactionId;
+    });
+
+    return post();
+  }
+
+  /**
+   * Skip one occurrence. The next one is handled right away; later ones
+   * are marked and passed over when their turn comes.
+   */
+  skipScheduledOccurrence(id: number, occurrenceDate: string): void {
+    const schedule = this.requireScheduledOccurrence(id, occurrenceDate);
+    if (occurrenceDate === schedule.next_date) {
+      this.postScheduledOccurrence(id, occurrenceDate, true);
+    } else {
+      const occurrence = this.getScheduledOccurrences(id).get(occurrenceDate);
+      this.setScheduledOccurrence(id, occurrenceDate, {
+        ...(occurrence || {}),
+        skipped: true,
+      });
+    }
+  }
+
+  /**
+   * Enter every occurrence due by a date for schedules in "post" mode, and
+   * move any schedule past skipped occurrences that are due. Returns the
+   * ids of the transactions created.
+   */
+  postDueScheduledTransactions(userId: number, today: string): string[] {
+    const post = this.db.transaction(() => {
+      const created: string[] = [];
+      for (let schedule of this.getScheduledTransactionsByUserId(userId)) {
+        while (schedule.next_date && schedule.next_date <= today) {
+          const occurrence = this.getScheduledOccurrences(schedule.id).get(
+            schedule.next_date
+          );
+          // A reminder holds back the occurrences after it until answered
+          if (schedule.mode !== "post" && !(occurrence && occurrence.skipped)) {
+            break;
+          }
+
+          const id = this.postScheduledOccurrence(
+            schedule.id,
+            schedule.next_date
+          );
+          if (id) created.push(id);
+          schedule = this.getScheduledTransactionById(schedule.id);
+        }
+      }
+      return created;
+    });
+
+    return post();
+  }
+
+  // Categorization rule operations
+  private toCategorizationRule(row: any): CategorizationRule {
+    const rule = this.decryptRow("categorization_rules", row);
+    return {
+      id: rule.id,
+      descriptionPattern: rule.description_pattern,
+      matchType: rule.match_type,
+      minAmount: rule.min_amount,
+      maxAmount: rule.max_amount,
+      accountId: rule.account_id,
+      type: rule.type,
+      setCategory: rule.set_category,
+      setDescription: rule.set_description,
+      transferAccountId: rule.transfer_account_id,
+    };
+  }
+
+  /**
+   * New rules go last, so they run after the existing ones
+   */
+  createCategorizationRule(rule: CategorizationRuleInput): number {
+    const { position } = this.db
+      .prepare(
+        "SELECT COALESCE(MAX(position), 0) + 1 AS position FROM categorization_rules WHERE user_id = ?"
+      )
+      .get(rule.userId) as { position: number };
+
+    const result = this.db
+      .prepare(
+        `
+      INSERT INTO categorization_rules
+      (user_id, position, description_pattern, match_type, min_amount, max_amount, account_id, type, set_category, set_description, transfer_account_id)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `
+      )
+      .run(
+        rule.userId,
+        position,
+        this.encrypt(rule.descriptionPattern),
+        rule.matchType,
+        rule.minAmount,
+        rule.maxAmount,
+        rule.accountId,
+        rule.type,
+        rule.setCategory,
+        this.encrypt(rule.setDescription),
+        rule.transferAccountId
+      );
+    return result.lastInsertRowid as number;
+  }
+
+  updateCategorizationRule(
+    id: number,
+    rule: Omit<CategorizationRuleInput, "userId">
+  ): Database.RunResult {
+    return this.db
+      .prepare(
+        `
+      UPDATE categorization_rules SET
+        description_pattern = ?, match_type = ?, min_amount = ?, max_amount = ?,
+        account_id = ?, type = ?, set_category = ?, set_description = ?,
+        transfer_account_id = ?
+      WHERE id = ?
+    `
+      )
+      .run(
+        this.encrypt(rule.descriptionPattern),
+        rule.matchType,
+        rule.minAmount,
+        rule.maxAmount,
+        rule.accountId,
+        rule.type,
+        rule.setCategory,
+        this.encrypt(rule.setDescription),
+        rule.transferAccountId,
+        id
+      );
+  }
+
+  getCategorizationRuleById(id: number): any {
+    const row = this.db
+      .prepare("SELECT * FROM categorization_rules WHERE id = ?")
+      .get(id);
+    return row ? this.decryptRow("categorization_rules", row) : row;
+  }
+
+  getCategorizationRulesByUserId(userId: number): CategorizationRule[] {
+    return this.db
+      .prepare(
+        "SELECT * FROM categorization_rules WHERE user_id = ? ORDER BY position, id"
+      )
+      .all(userId)
+      .map((row) => this.toCategorizationRule(row));
+  }
+
+  deleteCategorizationRule(id: number): Database.RunResult {
+    return this.db
+      .prepare("DELETE FROM categorization_rules WHERE id = ?")
+      .run(id);
+  }
+
+  /**
+   * Put a user's rules in the given order, which must list each of them
+   * exactly once
+   */
+  reorderCategorizationRules(userId: number, ruleIds: number[]): void {
+    const existing = this.getCategorizationRulesByUserId(userId).map(
+      (rule) => rule.id
+    );
+    if (
+      ruleIds.length !== existing.length ||
+      new Set(ruleIds).size !== ruleIds.length ||
+      !ruleIds.every((id) => existing.includes(id))
+    ) {
+      throw new Error("The new order must list every rule once");
+    }
+
+    const setPosition = this.db.prepare(
+      "UPDATE categorization_rules SET position = ? WHERE id = ?"
+    );
+    this.db.transaction(() => {
+      ruleIds.forEach((id, index) => setPosition.run(index + 1, id));
+    })();
+  }
+
+  // Payee operations
+  createPayee(userId: number, name: string, aliases: string[] = []): number {
+    const create = this.db.transaction(() => {
+      const existing = this.db
+        .prepare("SELECT 1 FROM payees WHERE user_id = ? AND name_hash = ?")
+        .get(userId, this.blindIndex(name));
+      if (existing) {
+        throw new Error(`A payee named "${name}" already exists`);
+      }
+
+      const id = this.db
+        .prepare(
+          "INSERT INTO payees (user_id, name, name_hash) VALUES (?, ?, ?)"
+        )
+        .run(userId, this.encrypt(name), this.blindIndex(name))
+        .lastInsertRowid as number;
+      aliases.forEach((pattern) => this.addPayeeAlias(id, pattern));
+      return id;
+    });
+
+    return create();
+  }
+
+  getPayeeById(id: number): any {
+    const row = this.db.prepare("SELECT * FROM payees WHERE id = ?").get(id);
+    return row ? this.decryptRow("payees", row) : row;
+  }
+
+  /**
+   * A user's payees by name, each with its aliases and how many
+   * transactions are normalized to it
+   */
+  getPayeesByUserId(userId: number): any[] {
+    const payees = this.db
+      .prepare(
+        `
+      SELECT p.*, (
+        SELECT COUNT(*) FROM transactions t WHERE t.payee_id = p.id
+      ) AS transaction_count
+      FROM payees p
+      WHERE p.user_id = ?
+    `
+      )
+      .all(userId)
+      .map((row) => this.decryptRow("payees", row));
+    const aliases = this.getPayeeAliases(userId);
+
+    return payees
+      .map((payee: any) => ({
+        ...payee,
+        aliases: aliases
+          .filter((alias) => alias.payeeId === payee.id)
+          .map((alias) => ({ id: alias.id, pattern: alias.pattern })),
+      }))
+      .sort((a: any, b: any) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Every alias of a user's payees, with the payee's name, for normalizing
+   * bank descriptions
+   */
+  getPayeeAliases(
+    userId: number
+  ): { id: number; payeeId: number; payee: string; pattern: string }[] {
+    return this.db
+      .prepare(
+        `
+      SELECT a.id, a.payee_id, a.pattern, p.name
+      FROM payee_aliases a
+      JOIN payees p ON p.id = a.payee_id
+      WHERE p.user_id = ?
+      ORDER BY a.id
+    `
+      )
+      .all(userId)
+      .map((row: any) => ({
+        id: row.id,
+        payeeId: row.payee_id,
+        payee: this.decrypt(row.name) as string,
+        pattern: this.decrypt(row.pattern) as string,
+      }));
+  }
+
+  addPayeeAlias(payeeId: number, pattern: string): number {
+    return this.db
+      .prepare("INSERT INTO payee_aliases (payee_id, pattern) VALUES (?, ?)")
+      .run(payeeId, this.encrypt(pattern)).lastInsertRowid as number;
+  }
+
+  getPayeeAliasById(id: number): any {
+    const row = this.db
+      .prepare("SELECT * FROM payee_aliases WHERE id = ?")
+      .get(id);
+    return row ? this.decryptRow("payee_aliases", row) : row;
+  }
+
+  deletePayeeAlias(id: number): Database.RunResult {
+    return this.db.prepare("DELETE FROM payee_aliases WHERE id = ?").run(id);
+  }
+
+  /**
+   * Rename a payee along with the transactions still carrying its name
+   */
+  renamePayee(id: number, name: string): void {
+    const payee = this.getPayeeById(id);
+    if (!payee) {
+      throw new Error("Payee not found");
+    }
+
+    this.db.transaction(() => {
+      const clash = this.db
+        .prepare(
+          "SELECT 1 FROM payees WHERE user_id = ? AND name_hash = ? AND id != ?"
+        )
+        .get(payee.user_id, this.blindIndex(name), id);
+      if (clash) {
+        throw new Error(`A payee named "${name}" already exists`);
+      }
+
+      this.db
+        .prepare("UPDATE payees SET name = ?, name_hash = ? WHERE id = ?")
+        .run(this.encrypt(name), this.blindIndex(name), id);
+
+      // Descriptions edited since the import keep the edit
+      const rename = this.db.prepare(
+        "UPDATE transactions SET description = ? WHERE id = ?"
+      );
+      this.db
+        .prepare("SELECT id, description FROM transactions WHERE payee_id = ?")
+        .all(id)
+        .forEach((row: any) => {
+          if (this.decrypt(row.description) === payee.name) {
+            rename.run(this.encrypt(name), row.id);
+          }
+        });
+    })();
+  }
+
+  /**
+   * Transactions keep their description and lose the link
+   */
+  deletePayee(id: number): Database.RunResult {
+    return this.db.prepare("DELETE FROM payees WHERE id = ?").run(id);
+  }
+
+  /**
+   * Fold other payees, and descriptions typed or imported as they are,
+   * into one payee. The other payees' names and aliases and the merged
+   * descriptions become aliases of the target, so later imports are
+   * normalized too. Every transaction whose description is one of the
+   * merged names (ignoring case) is rewritten to the target's name and
+   * linked to it, keeping its original wording. Returns the number of
+   * transactions rewritten.
+   */
+  mergePayees(
+    targetId: number,
+    payeeIds: number[],
+    descriptions: string[] = []
+  ): number {
+    const target = this.getPayeeById(targetId);
+    if (!target) {
+      throw new Error("Payee not found");
+    }
+
+    const merge = this.db.transaction(() => {
+      const names = new Set<string>();
+      const addAlias = (pattern: string) => {
+        const key = pattern.trim().toLowerCase();
+        if (key && key !== target.name.trim().toLowerCase()) {
+          names.add(key);
+          this.addPayeeAlias(targetId, pattern.trim());
+        }
+      };
+
+      const sources = payeeIds.filter((id) => id !== targetId);
+      for (const id of sources) {
+        const payee = this.getPayeeById(id);
+        if (!payee || payee.user_id !== target.user_id) {
+          throw new Error("Payee not found");
+        }
+        addAlias(payee.name);
+        this.db
+          .prepare("UPDATE payee_aliases SET payee_id = ? WHERE payee_id = ?")
+          .run(targetId, id);
+        this.db
+          .prepare("UPDATE transactions SET payee_id = ? WHERE payee_id = ?")
+          .run(targetId, id);
+        this.deletePayee(id);
+      }
+      descriptions.forEach(addAlias);
+
+      const rewrite = this.db.prepare(
+        `
+        UPDATE transactions
+        SET description = ?, payee_id = ?, original_description = COALESCE(original_description, ?)
+        WHERE id = ?
+      `
+      );
+      let count = 0;
+      for (const transaction of this.getTransactionsByUserId(target.user_id)) {
+        const key = (transaction.description || "").trim().toLowerCase();
+        if (!names.has(key)) continue;
+        rewrite.run(
+          this.encrypt(target.name),
+          targetId,
+          this.encrypt(transaction.description),
+          transaction.id
+        );
+        count++;
+      }
+      return count;
+    });
+
+    return merge();
+  }
+
+  // Category operations
+  createCategory(
+    userId: number,
+    name: string,
+    type: string,
+    isDefault: boolean = false
+  ): number {
+    const stmt = this.db.prepare(`
+      INSERT INTO categories (user_id, name, type, is_default)
       VALUES (?, ?, ?, ?)
     `);
     const result = stmt.run(userId, name, type, isDefault ? 1 : 0);
@@ -537,18 +3012,153 @@ class EncryptedDatabase {
   getAllData(userId: number): any {
     return {
       user: this.getUserById(userId),
+      accounts: this.getAccountsByUserId(userId),
       transactions: this.getTransactionsByUserId(userId),
     };
   }
 
+  /**
+   * Run several operations atomically; any thrown error rolls all of them back
+   */
+  runInTransaction<T>(fn: () => T): T {
+    return this.db.transaction(fn)();
+  }
+
+  // Key operations
+
+  /**
+   * Decrypt every encrypted value, failing on the first one the current
+   * key cannot decrypt (a wrong key or a damaged file)
+   */
+  private decryptAll(): DecryptedRow[] {
+    const decrypted: DecryptedRow[] = [];
+    for (const table of Object.keys(ENCRYPTED_COLUMNS) as EncryptedTable[]) {
+      const columns = ENCRYPTED_COLUMNS[table];
+      const rows = this.db
+        .prepare(`SELECT rowid AS _rowid, ${columns.join(", ")} FROM ${table}`)
+        .all() as any[];
+
+      for (const row of rows) {
+        const values = this.decryptRow(table, row);
+        const failed = columns.find(
+          (column) => row[column] && values[column] === null
+        );
+        if (failed) {
+          throw new Error(
+            `Could not decrypt ${table}.${failed} (row ${row._rowid}) with the current key`
+          );
+        }
+        decrypted.push({ table, rowid: row._rowid, row: values });
+      }
+    }
+    return decrypted;
+  }
+
+  /**
+   * Check that every encrypted value decrypts under the current key
+   */
+  verifyEncryption(): void {
+    this.decryptAll();
+  }
+
+  /**
+   * Re-encrypt every encrypted value and recompute the lookup hashes
+   * under a new encryption key, in one transaction. The key is derived
+   * with the current KDF version and a new salt. Nothing is changed if
+   * any value fails to decrypt under the current key. An encrypted file
+   * is rekeyed with the new key afterwards. An error from that or from
+   * compacting the file comes after the commit, with the values already
+   * under the new key, so callers keep a backup to put back.
+   */
+  async rotateKey(newEncryptionKey: string): Promise<void> {
+    const kdf = kdfParams();
+    const keys = await deriveKeys(newEncryptionKey, kdf);
+    const previous = [this.key, this.indexKey];
+
+    const rotate = this.db.transaction(() => {
+      const decrypted = this.decryptAll();
+      [this.key, this.indexKey] = keys;
+
+      for (const { table, rowid, row } of decrypted) {
+        const columns = ENCRYPTED_COLUMNS[table];
+        const values = columns.map((column) => this.encrypt(row[column]));
+        const assignments = columns.map((column) => `${column} = ?`);
+
+        const index = BLIND_INDEXES[table];
+        if (index) {
+          const source = row[index.source];
+          assignments.push(`${index.column} = ?`);
+          values.push(source === null ? null : this.blindIndex(source));
+        }
+        this.db
+          .prepare(
+            `UPDATE ${table} SET ${assignments.join(", ")} WHERE rowid = ?`
+          )
+          .run(...values, rowid);
+      }
+
+      this.db
+        .prepare("UPDATE app_metadata SET value = ? WHERE key = 'kdf'")
+        .run(JSON.stringify(kdf));
+      this.db
+        .prepare(
+          "INSERT OR REPLACE INTO app_metadata (key, value) VALUES ('key_check', ?)"
+        )
+        .run(keyCheckValue(this.key));
+    });
+
+    try {
+      rotate();
+    } catch (error) {
+      [this.key, this.indexKey] = previous;
+      throw error;
+    }
+
+    // Old ciphertext would otherwise linger in free pages and the
+    // write-ahead log
+    this.db.exec("VACUUM");
+    this.db.pragma("wal_checkpoint(TRUNCATE)");
+
+    if (this.fileEncrypted) {
+      rekeyFile(this.db, newEncryptionKey);
+    }
+  }
+
+  /**
+   * Whether the whole file is encrypted, not just the sensitive fields
+   */
+  isFileEncrypted(): boolean {
+    return this.fileEncrypted;
+  }
+
+  /**
+   * Encrypt the whole file in place with the encryption key this database
+   * was opened with. The plaintext copy written first is deleted once the
+   * encrypted file is verified, and kept if it is not.
+   */
+  encryptFile(encryptionKey: string): void {
+    if (this.fileEncrypted) {
+      throw new Error("The database file is already encrypted");
+    }
+    try {
+      encryptFileInPlace(this.db, this.dbPath, encryptionKey);
+    } finally {
+      // A file that failed verification was still converted
+      this.fileEncrypted = isFileEncrypted(this.dbPath);
+    }
+  }
+
   close(): void {
     this.db.close();
   }
 
-  // Backup database
-  backup(backupPath: string): Promise<any> {
-    return this.db.backup(backupPath);
+  // Backup database. VACUUM INTO copies an encrypted file with its
+  // encryption, which the online backup API cannot do.
+  async backup(backupPath: string): Promise<void> {
+    fs.rmSync(backupPath, { force: true });
+    this.db.prepare("VACUUM INTO ?").run(backupPath);
   }
 }
 
+export { KeyIdentity };
 export default EncryptedDatabase;
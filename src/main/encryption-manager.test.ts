@@ -1,3 +1,4 @@
+import crypto from "crypto";
 import fs from "fs";
 import path from "path";
 import EncryptionKeyManager from "./encryption-manager";
@@ -202,6 +203,31 @@ describe("EncryptionKeyManager", () => {
     });
   });
 
+  describe("parseDisplayedKey", () => {
+    beforeEach(() => {
+      manager = new EncryptionKeyManager(mockApp);
+    });
+
+    test("should read back a key from its displayed form", () => {
+      const key = manager.generateKey();
+      const displayed = manager.formatKeyForDisplay(key);
+
+      expect(manager.parseDisplayedKey(displayed)).toBe(key);
+      expect(
+        manager.parseDisplayedKey(` ${displayed.replace(/-/g, " ")}\n`)
+      ).toBe(key);
+    });
+
+    test("should reject text that is not a key", () => {
+      expect(() => manager.parseDisplayedKey("abcd-efgh")).toThrow(
+        "That is not a BankRec encryption key"
+      );
+      expect(() => manager.parseDisplayedKey("")).toThrow(
+        "That is not a BankRec encryption key"
+      );
+    });
+  });
+
   describe("key security", () => {
     beforeEach(() => {
       manager = new EncryptionKeyManager(mockApp);
@@ -238,6 +264,48 @@ describe("EncryptionKeyManager", () => {
     });
   });
 
+  describe("key derivation", () => {
+    beforeEach(() => {
+      manager = new EncryptionKeyManager(mockApp);
+    });
+
+    test("should store a random salt with the key", async () => {
+      await manager.storeKey("test-key");
+      const [version, salt1] = fs.readFileSync(testFile, "utf8").split(":");
+
+      await manager.storeKey("test-key");
+      const [, salt2] = fs.readFileSync(testFile, "utf8").split(":");
+
+      expect(version).toBe("2");
+      expect(salt1).not.toBe(salt2);
+    });
+
+    test("should read and upgrade key files written with the fixed salt", async () => {
+      const fileKey = crypto.scryptSync(
+        (manager as any).getMachineId(),
+        "bankrec-salt",
+        32
+      );
+      const iv = crypto.randomBytes(16);
+      const cipher = crypto.createCipheriv(
+        "aes-256-gcm",
+        fileKey,
+        iv
+      ) as crypto.CipherGCM;
+      const encrypted =
+        cipher.update("old-key", "utf8", "hex") + cipher.final("hex");
+      fs.mkdirSync(testDir, { recursive: true });
+      fs.writeFileSync(
+        testFile,
+        `${iv.toString("hex")}:${cipher.getAuthTag().toString("hex")}:${encrypted}`
+      );
+
+      expect((await manager.getKey()).key).toBe("old-key");
+      expect(fs.readFileSync(testFile, "utf8").split(":")).toHaveLength(5);
+      expect((await manager.getKey()).key).toBe("old-key");
+    });
+  });
+
   describe("edge cases", () => {
     beforeEach(() => {
       manager = new EncryptionKeyManager(mockApp);
@@ -3,6 +3,7 @@ import { App } from "electron";
 import fs from "fs";
 import os from "os";
 import path from "path";
+import { deriveKey, kdfParams } from "./kdf";
 
 interface KeyResult {
   success: boolean;
@@ -91,20 +92,17 @@ class EncryptionKeyManager {
   /**
    * Store key in an encrypted file (fallback method)
    */
-  private storeKeyInFile(encryptionKey: string): KeyResult {
+  private async storeKeyInFile(encryptionKey: string): Promise<KeyResult> {
     try {
       // Ensure directory exists
       if (!fs.existsSync(this.FALLBACK_DIR)) {
         fs.mkdirSync(this.FALLBACK_DIR, { recursive: true, mode: 0o700 });
       }
 
-      // Generate a machine-specific encryption key using hardware info
-      const machineId = this.getMachineId();
-      const fileEncryptionKey = crypto.scryptSync(
-        machineId,
-        "bankrec-salt",
-        32
-      );
+      // Derive a machine-specific encryption key from hardware info,
+      // with a new random salt each time the file is written
+      const kdf = kdfParams();
+      const fileEncryptionKey = await deriveKey(this.getMachineId(), kdf);
 
       // Encrypt the encryption key (yes, encrypt the encryptor!)
       const iv = crypto.randomBytes(16);
@@ -119,9 +117,14 @@ class EncryptionKeyManager {
 
       const authTag = cipher.getAuthTag();
 
-      // Store iv:authTag:encrypted
-      const data =
-        iv.toString("hex") + ":" + authTag.toString("hex") + ":" + encrypted;
+      // Store kdfVersion:salt:iv:authTag:encrypted
+      const data = [
+        kdf.version,
+        kdf.salt,
+        iv.toString("hex"),
+        authTag.toString("hex"),
+        encrypted,
+      ].join(":");
 
       fs.writeFileSync(this.FALLBACK_FILE, data, { mode: 0o600 });
 
@@ -158,7 +161,7 @@ class EncryptionKeyManager {
   /**
    * Retrieve key from encrypted file
    */
-  private getKeyFromFile(): KeyResult {
+  private async getKeyFromFile(): Promise<KeyResult> {
     try {
       if (!fs.existsSync(this.FALLBACK_FILE)) {
         return { success: false, error: "No encryption key found" };
@@ -167,21 +170,22 @@ class EncryptionKeyManager {
       const data = fs.readFileSync(this.FALLBACK_FILE, "utf8");
       const parts = data.split(":");
 
-      if (parts.length !== 3) {
+      // Files written before salts were stored hold iv:authTag:encrypted
+      // and used a fixed salt
+      const legacy = parts.length === 3;
+      if (!legacy && parts.length !== 5) {
         return { success: false, error: "Invalid key file format" };
       }
+      const kdf = legacy
+        ? kdfParams(1, Buffer.from("bankrec-salt").toString("hex"))
+        : kdfParams(Number(parts[0]), parts[1]);
+      const [iv, authTag] = parts
+        .slice(-3, -1)
+        .map((part) => Buffer.from(part, "hex"));
+      const encrypted = parts[parts.length - 1];
 
-      const iv = Buffer.from(parts[0], "hex");
-      const authTag = Buffer.from(parts[1], "hex");
-      const encrypted = parts[2];
-
-      // Generate same machine-specific key
-      const machineId = this.getMachineId();
-      const fileEncryptionKey = crypto.scryptSync(
-        machineId,
-        "bankrec-salt",
-        32
-      );
+      // Derive the same machine-specific key
+      const fileEncryptionKey = await deriveKey(this.getMachineId(), kdf);
 
       // Decrypt
       const decipher = crypto.createDecipheriv(
@@ -194,6 +198,11 @@ class EncryptionKeyManager {
       let decrypted = decipher.update(encrypted, "hex", "utf8");
       decrypted += decipher.final("utf8");
 
+      // Rewrite legacy files with a random salt
+      if (legacy) {
+        await this.storeKeyInFile(decrypted);
+      }
+
       return { success: true, key: decrypted, storage: "file" };
     } catch (err) {
       console.error("Failed to retrieve key from file:", err);
@@ -269,6 +278,21 @@ class EncryptionKeyManager {
     const matches = key.match(/.{1,4}/g);
     return matches ? matches.join("-") : key;
   }
+
+  /**
+   * Read a key typed back in from its displayed form. The groups may be
+   * separated by dashes, spaces or line breaks; base64 has no dashes of
+   * its own.
+   */
+  parseDisplayedKey(displayed: string): string {
+    const key = String(displayed || "").replace(/[\s-]/g, "");
+    if (!/^[A-Za-z0-9+/]{43}=$/.test(key)) {
+      throw new Error(
+        "That is not a BankRec encryption key. It is 44 characters, shown in groups of four."
+      );
+    }
+    return key;
+  }
 }
 
 export default EncryptionKeyManager;
@@ -0,0 +1,118 @@
+import Database from "better-sqlite3-multiple-ciphers";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+  FileEncryptionError,
+  encryptFileInPlace,
+  isFileEncrypted,
+  keyConnection,
+  rekeyFile,
+} from "./file-encryption";
+
+describe("File Encryption", () => {
+  const testDir = path.join(os.tmpdir(), "bankrec-file-encryption-test");
+  let dbPath: string;
+
+  beforeEach(() => {
+    fs.mkdirSync(testDir, { recursive: true });
+    dbPath = path.join(testDir, `test-${Date.now()}.db`);
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  function createPlaintext(): void {
+    const db = new Database(dbPath);
+    db.pragma("journal_mode = WAL");
+    db.exec("CREATE TABLE notes (body TEXT)");
+    db.prepare("INSERT INTO notes (body) VALUES (?)").run("rent 1450.00");
+    db.close();
+  }
+
+  function readNotes(key: string): string[] {
+    const db = new Database(dbPath);
+    try {
+      keyConnection(db, key);
+      return db
+        .prepare("SELECT body FROM notes")
+        .all()
+        .map((row: any) => row.body);
+    } finally {
+      db.close();
+    }
+  }
+
+  test("should tell new and plaintext files from encrypted ones", () => {
+    expect(isFileEncrypted(dbPath)).toBe(false);
+    fs.writeFileSync(dbPath, "");
+    expect(isFileEncrypted(dbPath)).toBe(false);
+
+    createPlaintext();
+    expect(isFileEncrypted(dbPath)).toBe(false);
+  });
+
+  const plaintextCopies = (): string[] =>
+    fs.readdirSync(testDir).filter((file) => file.includes(".plaintext-"));
+
+  test("should encrypt a plaintext file in place and delete the verified copy", () => {
+    createPlaintext();
+
+    const db = new Database(dbPath);
+    encryptFileInPlace(db, dbPath, "key-one");
+    expect(db.pragma("journal_mode", { simple: true })).toBe("wal");
+    db.close();
+
+    expect(isFileEncrypted(dbPath)).toBe(true);
+    expect(fs.readFileSync(dbPath).includes("rent 1450.00")).toBe(false);
+    expect(readNotes("key-one")).toEqual(["rent 1450.00"]);
+    expect(plaintextCopies()).toEqual([]);
+  });
+
+  test("should keep the plaintext copy when the encrypted file does not check out", () => {
+    createPlaintext();
+    const pragma = Database.prototype.pragma;
+    const failCheck = jest
+      .spyOn(Database.prototype, "pragma")
+      .mockImplementation(function (this: any, source: string, options?: any) {
+        return source === "quick_check"
+          ? "*** page 2 is never used"
+          : pragma.call(this, source, options);
+      });
+
+    const db = new Database(dbPath);
+    let error: any;
+    try {
+      encryptFileInPlace(db, dbPath, "key-one");
+    } catch (thrown) {
+      error = thrown;
+    } finally {
+      failCheck.mockRestore();
+      db.close();
+    }
+
+    expect(error).toBeInstanceOf(FileEncryptionError);
+    expect(error.message).toContain("integrity check");
+    expect(plaintextCopies()).toEqual([path.basename(error.backupPath)]);
+    expect(error.message).toContain(error.backupPath);
+    const backup = new Database(error.backupPath, { readonly: true });
+    expect(backup.prepare("SELECT body FROM notes").get()).toEqual({
+      body: "rent 1450.00",
+    });
+    backup.close();
+  });
+
+  test("should refuse a wrong key and follow a new one", () => {
+    createPlaintext();
+    const db = new Database(dbPath);
+    encryptFileInPlace(db, dbPath, "key-one");
+    rekeyFile(db, "it's key two");
+    db.close();
+
+    expect(() => readNotes("key-one")).toThrow(
+      "The encryption key does not open this database file"
+    );
+    expect(readNotes("it's key two")).toEqual(["rent 1450.00"]);
+  });
+});
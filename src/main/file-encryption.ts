@@ -0,0 +1,208 @@
+import Database from "better-sqlite3-multiple-ciphers";
+import fs from "fs";
+import path from "path";
+
+/**
+ * Whole-file encryption. An encrypted database file is a SQLCipher 4 page
+ * store keyed with the encryption key as its passphrase: SQLCipher derives
+ * the page key with PBKDF2 and a random salt kept in the first 16 bytes of
+ * the file, so without the key nothing in it is readable, not even the
+ * schema. Field encryption stays on inside the file. The file can be
+ * opened with the sqlcipher shell and `PRAGMA key = '<encryption key>'`.
+ */
+
+// Every plaintext SQLite file starts with this
+const SQLITE_HEADER = "SQLite format 3\0";
+
+/**
+ * Raised when an encryption key does not open a database: an encrypted
+ * file does not accept it, or the fields were encrypted under another key
+ */
+class KeyMismatchError extends Error {
+  constructor(
+    message: string = "The encryption key does not open this database file"
+  ) {
+    super(message);
+    this.name = "KeyMismatchError";
+  }
+}
+
+/**
+ * Raised when a file converted in place does not reopen as the database
+ * it was. The plaintext copy is kept and named in the message.
+ */
+class FileEncryptionError extends Error {
+  readonly backupPath: string;
+
+  constructor(backupPath: string, reason: string) {
+    super(
+      `The encrypted database file could not be verified (${reason}). A plaintext copy was kept at ${backupPath}.`
+    );
+    this.name = "FileEncryptionError";
+    this.backupPath = backupPath;
+  }
+}
+
+/**
+ * Whether the file at a path holds an encrypted database. Missing and
+ * empty files are new databases, not encrypted ones.
+ */
+function isFileEncrypted(dbPath: string): boolean {
+  if (!fs.existsSync(dbPath) || fs.statSync(dbPath).size === 0) {
+    return false;
+  }
+
+  const header = Buffer.alloc(SQLITE_HEADER.length);
+  const fd = fs.openSync(dbPath, "r");
+  try {
+    fs.readSync(fd, header, 0, header.length, 0);
+  } finally {
+    fs.closeSync(fd);
+  }
+  return header.toString("latin1") !== SQLITE_HEADER;
+}
+
+function quotePassphrase(encryptionKey: string): string {
+  return `'${encryptionKey.replace(/'/g, "''")}'`;
+}
+
+function useSqlCipher(db: Database.Database): void {
+  db.pragma("cipher = 'sqlcipher'");
+  db.pragma("legacy = 4");
+}
+
+/**
+ * Key a connection before its first read. For an existing file a wrong
+ * key only shows when a page is read, as SQLITE_NOTADB, so check it here.
+ */
+function keyConnection(db: Database.Database, encryptionKey: string): void {
+  useSqlCipher(db);
+  db.pragma(`key = ${quotePassphrase(encryptionKey)}`);
+
+  try {
+    db.prepare("SELECT count(*) FROM sqlite_master").get();
+  } catch (error: unknown) {
+    // Checked by its code: the native driver throws the error class of
+    // whichever copy of the module loaded it first, so instanceof can miss
+    if (
+      typeof error === "object" &&
+      error !== null &&
+      "code" in error &&
+      error.code === "SQLITE_NOTADB"
+    ) {
+      throw new KeyMismatchError();
+    }
+    throw error;
+  }
+}
+
+/**
+ * Rewrite every page of the file under a new key, or encrypt a plaintext
+ * file in place. SQLite cannot rekey a file in WAL mode, so the log is
+ * checkpointed away first and WAL is turned back on afterwards.
+ */
+function rekeyFile(db: Database.Database, encryptionKey: string): void {
+  db.pragma("journal_mode = DELETE");
+  try {
+    useSqlCipher(db);
+    db.pragma(`rekey = ${quotePassphrase(encryptionKey)}`);
+  } finally {
+    db.pragma("journal_mode = WAL");
+  }
+}
+
+// Row counts of every table in a database, by name
+function tableRowCounts(db: Database.Database): Record<string, number> {
+  const tables = db
+    .prepare(
+      "SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%' ORDER BY name"
+    )
+    .pluck()
+    .all() as string[];
+  const counts: Record<string, number> = {};
+  for (const table of tables) {
+    counts[table] = db
+      .prepare(`SELECT count(*) FROM "${table}"`)
+      .pluck()
+      .get() as number;
+  }
+  return counts;
+}
+
+/**
+ * Reopen an encrypted file on a connection of its own and check that the
+ * key opens it, it passes SQLite's integrity check and it holds the same
+ * tables and rows as the plaintext copy it was made from
+ */
+function verifyEncryptedFile(
+  dbPath: string,
+  backupPath: string,
+  encryptionKey: string
+): void {
+  if (!isFileEncrypted(dbPath)) {
+    throw new Error("the file is still plaintext");
+  }
+
+  const encrypted = new Database(dbPath, {
+    readonly: true,
+    fileMustExist: true,
+  });
+  const plaintext = new Database(backupPath, {
+    readonly: true,
+    fileMustExist: true,
+  });
+  try {
+    keyConnection(encrypted, encryptionKey);
+    const check = encrypted.pragma("quick_check", { simple: true });
+    if (check !== "ok") {
+      throw new Error(`integrity check: ${check}`);
+    }
+    if (
+      JSON.stringify(tableRowCounts(encrypted)) !==
+      JSON.stringify(tableRowCounts(plaintext))
+    ) {
+      throw new Error("its tables differ from the plaintext copy");
+    }
+  } finally {
+    encrypted.close();
+    plaintext.close();
+  }
+}
+
+/**
+ * Convert an open plaintext database to an encrypted file in place.
+ * A plaintext copy is written next to it first; VACUUM INTO takes a
+ * consistent snapshot even while the database is in WAL mode. The copy
+ * is deleted once the encrypted file has been reopened and verified
+ * against it; if that fails it is kept, and the FileEncryptionError
+ * names it.
+ */
+function encryptFileInPlace(
+  db: Database.Database,
+  dbPath: string,
+  encryptionKey: string
+): void {
+  const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+  const backupPath = path.join(
+    path.dirname(dbPath),
+    `${path.basename(dbPath)}.plaintext-${timestamp}.bak`
+  );
+  db.prepare("VACUUM INTO ?").run(backupPath);
+
+  rekeyFile(db, encryptionKey);
+  try {
+    verifyEncryptedFile(dbPath, backupPath, encryptionKey);
+  } catch (error) {
+    throw new FileEncryptionError(backupPath, (error as Error).message);
+  }
+  fs.unlinkSync(backupPath);
+}
+
+export {
+  FileEncryptionError,
+  KeyMismatchError,
+  encryptFileInPlace,
+  isFileEncrypted,
+  keyConnection,
+  rekeyFile,
+};
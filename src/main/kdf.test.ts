@@ -0,0 +1,38 @@
+import crypto from "crypto";
+import {
+  CURRENT_KDF_VERSION,
+  deriveKey,
+  kdfParams,
+  legacyKdfParams,
+  parseKdfParams,
+} from "./kdf";
+
+describe("Key Derivation", () => {
+  test("should give every new set of parameters its own salt", async () => {
+    const a = kdfParams();
+    const b = kdfParams();
+
+    expect(a.version).toBe(CURRENT_KDF_VERSION);
+    expect(a.salt).toMatch(/^[0-9a-f]{32}$/);
+    expect(a.salt).not.toBe(b.salt);
+    const key = await deriveKey("secret", a);
+    expect(key).not.toEqual(await deriveKey("secret", b));
+    expect(key).toEqual(await deriveKey("secret", { ...a }));
+  });
+
+  test("should derive legacy keys the way they were written", async () => {
+    expect(await deriveKey("secret", legacyKdfParams())).toEqual(
+      crypto.scryptSync("secret", "salt", 32)
+    );
+  });
+
+  test("should refuse unknown versions and malformed parameters", () => {
+    expect(() => kdfParams(99)).toThrow("Unknown key derivation version 99");
+    expect(() =>
+      parseKdfParams(JSON.stringify({ ...kdfParams(), cost: -1 }))
+    ).toThrow("Invalid key derivation parameters");
+
+    const stored = kdfParams();
+    expect(parseKdfParams(JSON.stringify(stored))).toEqual(stored);
+  });
+});
@@ -0,0 +1,126 @@
+import crypto from "crypto";
+
+/**
+ * Key derivation for the database and the key file. Each version fixes
+ * the algorithm and cost parameters; the salt is random per database (or
+ * per key file) and stored next to it with the version, so the cost can be
+ * raised in a new version while existing files keep deriving their key
+ * the way they were written.
+ */
+
+interface KdfParams {
+  version: number;
+  algorithm: "scrypt";
+  salt: string; // hex
+  cost: number; // scrypt N
+  blockSize: number; // scrypt r
+  parallelization: number; // scrypt p
+  keyLength: number;
+}
+
+type KdfCost = Omit<KdfParams, "version" | "salt">;
+
+const KDF_VERSIONS: Record<number, KdfCost> = {
+  // Node's scrypt defaults with a fixed salt, as derived before salts
+  // were stored
+  1: {
+    algorithm: "scrypt",
+    cost: 16384,
+    blockSize: 8,
+    parallelization: 1,
+    keyLength: 32,
+  },
+  2: {
+    algorithm: "scrypt",
+    cost: 131072,
+    blockSize: 8,
+    parallelization: 1,
+    keyLength: 32,
+  },
+};
+
+const CURRENT_KDF_VERSION = 2;
+const SALT_BYTES = 16;
+
+/**
+ * Parameters for a known version, with a new random salt unless one is
+ * given
+ */
+function kdfParams(
+  version: number = CURRENT_KDF_VERSION,
+  salt: string = crypto.randomBytes(SALT_BYTES).toString("hex")
+): KdfParams {
+  const cost = KDF_VERSIONS[version];
+  if (!cost) {
+    throw new Error(`Unknown key derivation version ${version}`);
+  }
+  return { version, salt, ...cost };
+}
+
+/**
+ * The parameters of databases created before salts were stored, which
+ * all used the fixed salt "salt"
+ */
+function legacyKdfParams(): KdfParams {
+  return kdfParams(1, Buffer.from("salt").toString("hex"));
+}
+
+/**
+ * Derive a key on the thread pool: at these costs scrypt takes long
+ * enough to freeze the window if it ran on the main process
+ */
+function deriveKey(secret: string, params: KdfParams): Promise<Buffer> {
+  if (params.algorithm !== "scrypt") {
+    return Promise.reject(
+      new Error(`Unsupported key derivation ${params.algorithm}`)
+    );
+  }
+  return new Promise((resolve, reject) => {
+    crypto.scrypt(
+      secret,
+      Buffer.from(params.salt, "hex"),
+      params.keyLength,
+      {
+        N: params.cost,
+        r: params.blockSize,
+        p: params.parallelization,
+        // scrypt needs 128 * N * r bytes; leave room for the rest
+        maxmem: 256 * params.cost * params.blockSize,
+      },
+      (error, key) => (error ? reject(error) : resolve(key))
+    );
+  });
+}
+
+function isPositiveInteger(value: unknown): boolean {
+  return Number.isInteger(value) && (value as number) > 0;
+}
+
+/**
+ * Read stored parameters back, refusing values this version cannot use
+ */
+function parseKdfParams(value: string): KdfParams {
+  const params = JSON.parse(value);
+  if (
+    !params ||
+    typeof params.version !== "number" ||
+    params.algorithm !== "scrypt" ||
+    typeof params.salt !== "string" ||
+    !isPositiveInteger(params.cost) ||
+    !isPositiveInteger(params.blockSize) ||
+    !isPositiveInteger(params.parallelization) ||
+    !isPositiveInteger(params.keyLength)
+  ) {
+    throw new Error("Invalid key derivation parameters");
+  }
+  return params;
+}
+
+export {
+  CURRENT_KDF_VERSION,
+  KdfParams,
+  deriveKey,
+  kdfParams,
+  legacyKdfParams,
+  parseKdfParams,
+};
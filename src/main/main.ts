@@ -4,18 +4,57 @@ import fs from "fs";
 import path from "path";
 import {
   RateLimiter,
+  hasCurrencyPrecision,
+  sanitizeString,
+  validateAccountData,
+  validateCsvMapping,
   validateFilePath,
+  validateImportProfileName,
+  validatePayeeAlias,
+  validatePayeeName,
+  validateReconciliationData,
+  validateRuleData,
+  validateScheduledTransactionData,
   validateTransactionData,
+  validateTransferData,
   validateUserData,
 } from "../renderer/validation";
+import { computeBalances, projectBalances } from "./balances";
 import ConfigManager from "./config-manager";
-import EncryptedDatabase from "./db";
+import {
+  CsvMapping,
+  ImportPreviewRow,
+  ImportReport,
+  classifyImportRows,
+  guessMapping,
+  importFingerprints,
+  importRowsFromRecords,
+  signatureForMapping,
+  summarizeImport,
+} from "./csv-import";
+import { CsvRecord, readCsvRecords } from "./csv-reader";
+import EncryptedDatabase, { KeyIdentity } from "./db";
 import EncryptionKeyManager from "./encryption-manager";
+import { FileEncryptionError, KeyMismatchError } from "./file-encryption";
+import { parseKdfParams } from "./kdf";
+import { MigrationError, SchemaVersionError } from "./migrations";
+import { buildImportPreview, findPayeeAlias } from "./matcher";
+import { formatCents, fromCents, toCents } from "./money";
+import {
+  OfxStatement,
+  decodeOfxFile,
+  ofxImportRows,
+  parseOfx,
+  statementAccountMismatch,
+} from "./ofx-import";
+import { QifAccount, parseQif, qifImportRows, writeQif } from "./qif";
+import { RuleChanges, applyRules } from "./rules";
 
 let mainWindow: BrowserWindow | null;
 let db: EncryptedDatabase | null;
 let encryptionKeyManager: EncryptionKeyManager;
 let configManager: ConfigManager;
+let dbOpenError: string | null = null;
 
 // Rate limiters for API protection
 const exportRateLimiter = new RateLimiter(5, 300000); // 5 exports per 5 minutes
@@ -78,9 +117,41 @@ async function initializeDatabase(retryCount = 0): Promise<boolean> {
     }
 
     const dbPath = configManager.getDbPath();
-    db = new EncryptedDatabase(dbPath, keyResult.key);
+    db = await EncryptedDatabase.open(dbPath, keyResult.key, {
+      encryptFile: configManager.getEncryptDbFile(),
+    });
+    dbOpenError = null;
+
+    const { fromVersion, toVersion, backupPath } = db.migrationResult;
+    if (fromVersion !== toVersion) {
+      console.log(
+        `Database schema upgraded from v${fromVersion} to v${toVersion}`
+      );
+    }
+    if (backupPath) {
+      const notice =
+        `The copy of your database taken before the upgrade could not be deleted. Delete ${backupPath} yourself` +
+        (fromVersion < 2 ? "; its fields are not encrypted." : ".");
+      console.warn(notice);
+      dialog.showMessageBox({ type: "warning", message: notice });
+    }
     return true;
   } catch (error) {
+    // A newer schema or the wrong key will not go away by retrying, a
+    // failed upgrade must not be retried over its partial result, and a
+    // file that failed verification after encrypting must not be opened
+    // until checked
+    if (
+      error instanceof SchemaVersionError ||
+      error instanceof MigrationError ||
+      error instanceof KeyMismatchError ||
+      error instanceof FileEncryptionError
+    ) {
+      console.error("Database initialization refused:", error.message);
+      dbOpenError = error.message;
+      return false;
+    }
+
     console.error(
       `Database initialization error (attempt ${retryCount + 1}):`,
       error
@@ -106,6 +177,80 @@ if (!fs.existsSync(dataDir)) {
   fs.mkdirSync(dataDir, { recursive: true });
 }
 
+// Map a database transaction row to the shape the renderer expects.
+// The database stores money as integer cents; the renderer works in dollars.
+function toFrontendTransaction(t: any): any {
+  return {
+    id: t.id,
+    date: t.date,
+    payee: t.description, // Map description to payee for frontend
+    description: t.description, // Keep for compatibility
+    amount: fromCents(t.amount),
+    type: t.type,
+    category: t.category,
+    reconciled: t.is_reconciled === 1, // Map to reconciled for frontend
+    isReconciled: t.is_reconciled === 1, // Keep for compatibility
+    accountId: t.account_id,
+    checkNumber: t.check_number || null,
+    payeeId: t.payee_id || null,
+    originalDescription: t.original_description || null, // bank wording
+    splits: (t.splits || []).map((split: any) => ({
+      amount: fromCents(split.amount),
+      category: split.category,
+      memo: split.memo,
+    })),
+    source: t.import_batch_id ? "import" : "manual",
+  };
+}
+
+// Validated splits (in dollars) as the database stores them
+function toSplitInputs(splits: { amount: number }[]): any[] {
+  return splits.map((split) => ({ ...split, amount: toCents(split.amount) }));
+}
+
+// Map a database account row (plus its computed balance in cents) for the renderer
+function toFrontendAccount(a: any, balanceCents: number): any {
+  return {
+    id: a.id,
+    name: a.name,
+    institution: a.institution,
+    accountType: a.account_type,
+    lastFour: a.last_four,
+    openingBalance: fromCents(a.opening_balance),
+    openingDate: a.opening_date,
+    balance: fromCents(balanceCents),
+  };
+}
+
+// Build the renderer view of a reconciliation session: statement details,
+// live totals and the transactions that can be cleared against it
+function getReconciliationView(reconciliationId: number): any {
+  const status = db!.getReconciliationStatus(reconciliationId);
+  const r = status.reconciliation;
+  const transactions =
+    r.status === "in_progress"
+      ? db!.getReconciliationCandidates(reconciliationId).map((t: any) => ({
+          ...toFrontendTransaction(t),
+          cleared: t.is_cleared === 1,
+        }))
+      : [];
+
+  return {
+    id: r.id,
+    accountId: r.account_id,
+    statementDate: r.statement_date,
+    beginningBalance: fromCents(r.beginning_balance),
+    endingBalance: fromCents(r.ending_balance),
+    status: r.status,
+    completedAt: r.completed_at,
+    clearedTotal: fromCents(status.clearedTotal),
+    clearedCount: status.clearedCount,
+    difference: fromCents(status.difference),
+    canFinish: status.canFinish,
+    transactions,
+  };
+}
+
 // IPC Handlers for Database Operations
 ipcMain.handle("save-data", async (_event, data: any) => {
   try {
@@ -196,7 +341,9 @@ ipcMain.handle("save-data", async (_event, data: any) => {
             type: transaction.type,
             category: transaction.category,
             isReconciled: isReconciled,
+            checkNumber: transaction.checkNumber,
             accountId: transaction.accountId,
+            splits: transaction.splits,
           };
 
           // Validate transaction data
@@ -213,6 +360,15 @@ ipcMain.handle("save-data", async (_event, data: any) => {
             continue; // Skip invalid transactions
           }
 
+          // Only allow assigning transactions to the user's own accounts
+          if (validatedTransaction.accountId) {
+            const account = db.getAccountById(validatedTransaction.accountId);
+            if (!account || account.user_id !== data.user.id) {
+              console.error("Transaction save error: unknown account");
+              continue;
+            }
+          }
+
           // Check if transaction exists
           const existing = db
             .getTransactionsByUserId(data.user.id)
@@ -220,9 +376,15 @@ ipcMain.handle("save-data", async (_event, data: any) => {
           if (existing) {
             db.updateTransaction(validatedTransaction.id, {
               description: validatedTransaction.description,
-              amount: validatedTransaction.amount,
+              amount: toCents(validatedTransaction.amount),
               category: validatedTransaction.category,
               isReconciled: validatedTransaction.isReconciled,
+              accountId: validatedTransaction.accountId,
+              // Splits are only replaced when the renderer sent them
+              splits:
+                transaction.splits !== undefined
+                  ? toSplitInputs(validatedTransaction.splits)
+                  : undefined,
             });
           } else {
             // Create new transaction - DB will generate UUID
@@ -230,12 +392,13 @@ ipcMain.handle("save-data", async (_event, data: any) => {
               userId: data.user.id,
               date: validatedTransaction.date,
               description: validatedTransaction.description,
-              amount: validatedTransaction.amount,
+              amount: toCents(validatedTransaction.amount),
               type: validatedTransaction.type,
               category: validatedTransaction.category,
               checkNumber: validatedTransaction.checkNumber,
               isReconciled: validatedTransaction.isReconciled,
               accountId: validatedTransaction.accountId,
+              splits: toSplitInputs(validatedTransaction.splits),
             });
           }
         } catch (err: any) {
@@ -261,7 +424,10 @@ ipcMain.handle("load-data", async (_event, email?: string) => {
         console.error("Failed to initialize database on load-data request");
         return {
           success: false,
-          error: "Database not initialized. Please complete onboarding.",
+          error:
+            dbOpenError ||
+            "Database not initialized. Please complete onboarding.",
+          schemaTooNew: dbOpenError !== null,
         };
       }
     }
@@ -278,20 +444,25 @@ ipcMain.handle("load-data", async (_event, email?: string) => {
       return { success: true, data: null };
     }
 
-    const transactions = db.getTransactionsByUserId(user.id).map((t: any) => ({
-      id: t.id,
-      date: t.date,
-      payee: t.description, // Map description to payee for frontend
-      description: t.description, // Keep for compatibility
-      amount: t.amount,
-      type: t.type,
-      category: t.category,
-      reconciled: t.is_reconciled === 1, // Map to reconciled for frontend
-      isReconciled: t.is_reconciled === 1, // Keep for compatibility
-      accountId: t.account_id,
-      checkNumber: t.check_number || null,
-      source: "manual",
-    }));
+    const linked = db.getStatementLinkedTransactionIds(user.id);
+    const splits = db.getSplitsByUserId(user.id);
+    const transfers = db.getTransferSidesByUserId(user.id);
+    const transactions = db
+      .getTransactionsByUserId(user.id)
+      .map((t: any) => {
+        const transfer = transfers.get(t.id);
+        return {
+          ...toFrontendTransaction({ ...t, splits: splits.get(t.id) }),
+          hasStatementLines: linked.has(t.id),
+          transferId: transfer ? transfer.transferId : null,
+          transferAccountId: transfer ? transfer.otherAccountId : null,
+        };
+      });
+
+    // Load accounts with their current balances
+    const accounts = db
+      .getAccountsByUserId(user.id)
+      .map((a: any) => toFrontendAccount(a, db!.getAccountBalance(a.id)));
 
     // Load categories
     const dbCategories = db.getCategoriesByUserId(user.id);
@@ -328,8 +499,10 @@ ipcMain.handle("load-data", async (_event, email?: string) => {
         firstName: user.first_name,
         lastName: user.last_name,
       },
+      accounts,
       transactions,
       categories,
+      payees: db.getPayeesByUserId(user.id).map(toFrontendPayee),
       bankConnected: false,
     };
 
@@ -340,6 +513,248 @@ ipcMain.handle("load-data", async (_event, email?: string) => {
   }
 });
 
+// Account IPC Handlers
+ipcMain.handle("accounts:list", async (_event, userId: number) => {
+  try {
+    if (!db) {
+      return { success: false, error: "Database not initialized" };
+    }
+
+    const accounts = db
+      .getAccountsByUserId(userId)
+      .map((a: any) => toFrontendAccount(a, db!.getAccountBalance(a.id)));
+    return { success: true, accounts };
+  } catch (error: any) {
+    console.error("Error listing accounts:", error);
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle(
+  "accounts:create",
+  async (_event, userId: number, account: any) => {
+    try {
+      if (!db) {
+        return { success: false, error: "Database not initialized" };
+      }
+
+      if (!db.getUserById(userId)) {
+        return { success: false, error: "User not found" };
+      }
+
+      let validatedAccount: any;
+      try {
+        validatedAccount = validateAccountData(account);
+      } catch (validationError: any) {
+        return {
+          success: false,
+          error: `Invalid account data: ${validationError.message}`,
+        };
+      }
+
+      const id = db.createAccount({
+        userId,
+        ...validatedAccount,
+        openingBalance: toCents(validatedAccount.openingBalance),
+      });
+      return {
+        success: true,
+        account: toFrontendAccount(
+          db.getAccountById(id),
+          db.getAccountBalance(id)
+        ),
+      };
+    } catch (error: any) {
+      console.error("Error creating account:", error);
+      return { success: false, error: error.message };
+    }
+  }
+);
+
+ipcMain.handle(
+  "accounts:update",
+  async (_event, accountId: string, updates: any) => {
+    try {
+      if (!db) {
+        return { success: false, error: "Database not initialized" };
+      }
+
+      const existing = db.getAccountById(accountId);
+      if (!existing) {
+        return { success: false, error: "Account not found" };
+      }
+
+      // Validate the merged record so partial updates are checked too
+      let validatedAccount: any;
+      try {
+        validatedAccount = validateAccountData({
+          name: existing.name,
+          institution: existing.institution,
+          accountType: existing.account_type,
+          lastFour: existing.last_four,
+          openingBalance: fromCents(existing.opening_balance),
+          openingDate: existing.opening_date,
+          ...updates,
+        });
+      } catch (validationError: any) {
+        return {
+          success: false,
+          error: `Invalid account data: ${validationError.message}`,
+        };
+      }
+
+      db.updateAccount(accountId, {
+        ...validatedAccount,
+        openingBalance: toCents(validatedAccount.openingBalance),
+      });
+      return {
+        success: true,
+        account: toFrontendAccount(
+          db.getAccountById(accountId),
+          db.getAccountBalance(accountId)
+        ),
+      };
+    } catch (error: any) {
+      console.error("Error updating account:", error);
+      return { success: false, error: error.message };
+    }
+  }
+);
+
+ipcMain.handle("accounts:delete", async (_event, accountId: string) => {
+  try {
+    if (!db) {
+      return { success: false, error: "Database not initialized" };
+    }
+
+    db.deleteAccount(accountId);
+    return { success: true };
+  } catch (error: any) {
+    console.error("Error deleting account:", error);
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle("accounts:get-register", async (_event, accountId: string) => {
+  try {
+    if (!db) {
+      return { success: false, error: "Database not initialized" };
+    }
+
+    const account = db.getAccountById(accountId);
+    if (!account) {
+      return { success: false, error: "Account not found" };
+    }
+
+    const balance = db.getAccountBalance(accountId);
+    const transactions = db
+      .getTransactionsByAccountId(accountId)
+      .map(toFrontendTransaction);
+    return {
+      success: true,
+      account: toFrontendAccount(account, balance),
+      transactions,
+    };
+  } catch (error: any) {
+    console.error("Error loading account register:", error);
+    return { success: false, error: error.message };
+  }
+});
+
+// Running, cleared and uncleared balances of one account's register, or
+// of every transaction when no account is given, as of a date
+ipcMain.handle(
+  "balances:get",
+  async (
+    _event,
+    userId: number,
+    accountId: string | null,
+    asOf: string | null
+  ) => {
+    try {
+      if (!db) {
+        return { success: false, error: "Database not initialized" };
+      }
+      if (asOf && !/^\d{4}-\d{2}-\d{2}$/.test(asOf)) {
+        return {
+          success: false,
+          error: "Balance date must be in YYYY-MM-DD format",
+        };
+      }
+
+      const account = findOwnAccount(userId, accountId);
+      const accounts = account ? [account] : db.getAccountsByUserId(userId);
+      const balances = computeBalances(
+        accounts.map((a: any) => ({
+          amount: a.opening_balance,
+          date: a.opening_date,
+        })),
+        db.getBalanceTransactions(userId, account ? account.id : undefined),
+        asOf || null
+      );
+
+      return {
+        success: true,
+        balances: {
+          asOf: balances.asOf,
+          balance: fromCents(balances.balance),
+          cleared: fromCents(balances.cleared),
+          uncleared: fromCents(balances.uncleared),
+          running: balances.running.map((r) => ({
+            transactionId: r.transactionId,
+            balance: fromCents(r.balance),
+            clearedBalance: fromCents(r.clearedBalance),
+          })),
+        },
+      };
+    } catch (error: any) {
+      console.error("Error computing balances:", error);
+      return { success: false, error: error.message };
+    }
+  }
+);
+
+// Income and spending per category, with split transactions counted by
+// their splits
+ipcMain.handle(
+  "reports:category-totals",
+  async (
+    _event,
+    userId: number,
+    filter: {
+      accountId?: string | null;
+      startDate?: string | null;
+      endDate?: string | null;
+    } = {}
+  ) => {
+    try {
+      if (!db) {
+        return { success: false, error: "Database not initialized" };
+      }
+      for (const date of [filter.startDate, filter.endDate]) {
+        if (date && !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+          return {
+            success: false,
+            error: "Report dates must be in YYYY-MM-DD format",
+          };
+        }
+      }
+
+      findOwnAccount(userId, filter.accountId || null);
+      const totals = db.getCategoryTotals(userId, filter).map((row: any) => ({
+        category: row.category,
+        credits: fromCents(row.credits),
+        debits: fromCents(row.debits),
+        net: fromCents(row.credits - row.debits),
+      }));
+      return { success: true, totals };
+    } catch (error: any) {
+      console.error("Error computing category totals:", error);
+      return { success: false, error: error.message };
+    }
+  }
+);
+
 // Encryption Key Management IPC Handlers
 ipcMain.handle("encryption:generate-key", async () => {
   try {
@@ -367,6 +782,19 @@ ipcMain.handle("encryption:store-key", async (_event, key: string) => {
       };
     }
 
+    // Never replace the key of a database that already holds data with
+    // one that does not open it
+    const dbPath = configManager.getDbPath();
+    if (
+      fs.existsSync(dbPath) &&
+      !(await EncryptedDatabase.keyMatches(dbPath, key))
+    ) {
+      return {
+        success: false,
+        error: `A database encrypted with another key already exists at ${dbPath}. Restore its key from the welcome screen, or choose another database location.`,
+      };
+    }
+
     const result = await encryptionKeyManager.storeKey(key);
 
     if (result.success) {
@@ -376,7 +804,8 @@ ipcMain.handle("encryption:store-key", async (_event, key: string) => {
       if (!dbInitialized) {
         return {
           success: false,
-          error: "Failed to initialize database with encryption key",
+          error:
+            dbOpenError || "Failed to initialize database with encryption key",
         };
       }
     }
@@ -422,65 +851,305 @@ ipcMain.handle("encryption:format-key", async (_event, key: string) => {
   }
 });
 
-// Database Path Configuration IPC Handlers
-ipcMain.handle("db:get-path", async () => {
-  try {
-    if (!configManager) {
-      return {
-        success: false,
-        error: "Configuration manager not initialized",
-      };
+// Restore a saved key on a machine that lost it (new computer, reinstall).
+// The key is checked against the existing database before it is stored,
+// and the database is opened as it is, never recreated.
+ipcMain.handle(
+  "encryption:restore-key",
+  async (_event, displayedKey: string, dbPath: string | null = null) => {
+    try {
+      if (!encryptionKeyManager) {
+        return {
+          success: false,
+          error: "Encryption key manager not initialized",
+        };
+      }
+
+      let key: string;
+      try {
+        key = encryptionKeyManager.parseDisplayedKey(displayedKey);
+        if (dbPath) validateFilePath(dbPath);
+      } catch (validationError: any) {
+        return { success: false, error: validationError.message };
+      }
+
+      const targetPath = dbPath || configManager.getDbPath();
+      if (!fs.existsSync(targetPath)) {
+        return {
+          success: false,
+          error: `No database found at ${targetPath}. Choose your database file.`,
+        };
+      }
+      if (!(await EncryptedDatabase.keyMatches(targetPath, key))) {
+        return {
+          success: false,
+          error: "This key does not open the database. Check it and try again.",
+        };
+      }
+
+      if (dbPath) {
+        const pathResult = configManager.setDbPath(dbPath);
+        if (!pathResult.success) return pathResult;
+      }
+      const stored = await encryptionKeyManager.storeKey(key);
+      if (!stored.success) return stored;
+
+      if (db) {
+        db.close();
+        db = null;
+      }
+      if (!(await initializeDatabase())) {
+        return {
+          success: false,
+          error: dbOpenError || "Failed to open the database with the key",
+        };
+      }
+      return { success: true, storage: stored.storage };
+    } catch (error: any) {
+      console.error("Error restoring encryption key:", error);
+      return { success: false, error: error.message };
     }
+  }
+);
 
-    const dbPath = configManager.getDbPath();
-    const hasCustomPath = configManager.hasDbPath();
-    return { success: true, path: dbPath, hasCustomPath };
-  } catch (error: any) {
-    console.error("Error getting database path:", error);
-    return { success: false, error: error.message };
+/**
+ * Copy the database aside before rotating its key and check that every
+ * value in the copy decrypts under the current key
+ */
+async function backupBeforeRotation(currentKey: string): Promise<string> {
+  const dbPath = configManager.getDbPath();
+  const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+  const backupPath = path.join(
+    path.dirname(dbPath),
+    `${path.basename(dbPath)}.pre-rotation-${timestamp}.bak`
+  );
+  await db!.backup(backupPath);
+
+  const backup = await EncryptedDatabase.open(backupPath, currentKey);
+  try {
+    backup.verifyEncryption();
+  } finally {
+    backup.close();
   }
-});
+  return backupPath;
+}
 
-ipcMain.handle("db:choose-path", async () => {
+/**
+ * Undo a key rotation that failed part way: put the verified
+ * pre-rotation backup back in place of the database, store the old key
+ * again and reopen. The backup is kept and its path returned either way.
+ */
+async function restoreAfterFailedRotation(
+  backupPath: string,
+  oldKey: string,
+  reason: string
+): Promise<{ success: false; error: string; backupPath: string }> {
   try {
-    if (!mainWindow) {
-      return { success: false, error: "Main window not available" };
+    const dbPath = configManager.getDbPath();
+    if (db) {
+      const rotated = db;
+      db = null;
+      rotated.close();
     }
-
-    const result = await dialog.showSaveDialog(mainWindow, {
-      title: "Choose Database Location",
-      defaultPath: "bankrec.db",
-      filters: [{ name: "Database Files", extensions: ["db"] }],
-      properties: ["createDirectory", "showOverwriteConfirmation"],
+    // The rotated file's write-ahead log must not be replayed over the
+    // backup
+    fs.rmSync(`${dbPath}-wal`, { force: true });
+    fs.rmSync(`${dbPath}-shm`, { force: true });
+    fs.copyFileSync(backupPath, dbPath);
+
+    const stored = await encryptionKeyManager.storeKey(oldKey);
+    if (!stored.success) {
+      throw new Error(stored.error || "the old key could not be stored");
+    }
+    db = await EncryptedDatabase.open(dbPath, oldKey, {
+      encryptFile: configManager.getEncryptDbFile(),
     });
+    return {
+      success: false,
+      error: `${reason} Your data is still encrypted with the old key.`,
+      backupPath,
+    };
+  } catch (restoreError: any) {
+    console.error("Restoring the pre-rotation backup failed:", restoreError);
+    return {
+      success: false,
+      error: `${reason} Putting the backup back also failed (${restoreError.message}); restore the backup below with your old key.`,
+      backupPath,
+    };
+  }
+}
 
-    if (result.canceled || !result.filePath) {
-      return { success: false, error: "No path selected" };
+// Replace the encryption key with a new one. The database is re-encrypted
+// in one transaction; the pre-rotation backup is kept until the new key
+// is stored. If the rotation or storing the key fails, the backup is put
+// back with the old key and its path is reported.
+ipcMain.handle("encryption:rotate-key", async () => {
+  try {
+    if (!db) {
+      return { success: false, error: "Database not initialized" };
+    }
+    if (!encryptionKeyManager) {
+      return {
+        success: false,
+        error: "Encryption key manager not initialized",
+      };
     }
 
-    return { success: true, path: result.filePath };
-  } catch (error: any) {
-    console.error("Error choosing database path:", error);
-    return { success: false, error: error.message };
-  }
-});
+    const current = await encryptionKeyManager.getKey();
+    if (!current.success || !current.key) {
+      return { success: false, error: "The current key could not be read" };
+    }
 
-ipcMain.handle("db:set-path", async (_event, dbPath: string) => {
-  try {
-    if (!configManager) {
+    let backupPath: string;
+    try {
+      backupPath = await backupBeforeRotation(current.key);
+    } catch (backupError: any) {
+      console.error("Pre-rotation backup failed:", backupError);
       return {
         success: false,
-        error: "Configuration manager not initialized",
+        error: `Could not make a verified backup: ${backupError.message}`,
       };
     }
 
-    // Validate the path
-    if (!dbPath || typeof dbPath !== "string") {
-      return { success: false, error: "Invalid path provided" };
+    const newKey = encryptionKeyManager.generateKey();
+    try {
+      await db.rotateKey(newKey);
+    } catch (rotateError: any) {
+      // The values may already be under the new key if finishing the
+      // file failed after the commit
+      console.error("Error rotating encryption key:", rotateError);
+      return restoreAfterFailedRotation(
+        backupPath,
+        current.key,
+        `The key could not be rotated (${rotateError.message}).`
+      );
     }
 
-    const result = configManager.setDbPath(dbPath);
-    return result;
+    const stored = await encryptionKeyManager.storeKey(newKey);
+    const check = stored.success ? await encryptionKeyManager.getKey() : null;
+    if (!check || check.key !== newKey) {
+      return restoreAfterFailedRotation(
+        backupPath,
+        current.key,
+        `The new key could not be stored (${
+          stored.error || "it did not read back"
+        }).`
+      );
+    }
+
+    // The rotation is done and the new key must reach the user even if
+    // the backup cannot be removed
+    try {
+      fs.unlinkSync(backupPath);
+    } catch (unlinkError) {
+      console.error("Could not remove the pre-rotation backup:", unlinkError);
+    }
+    return { success: true, key: newKey, storage: stored.storage };
+  } catch (error: any) {
+    console.error("Error rotating encryption key:", error);
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle("encryption:file-status", async () => {
+  if (!db) {
+    return { success: false, error: "Database not initialized" };
+  }
+  return { success: true, encrypted: db.isFileEncrypted() };
+});
+
+// Encrypt the whole database file in place and keep it encrypted from
+// now on. The plaintext copy made first is deleted once the encrypted
+// file is verified; if it is kept, the error gives its path.
+ipcMain.handle("encryption:encrypt-file", async () => {
+  try {
+    if (!db) {
+      return { success: false, error: "Database not initialized" };
+    }
+    if (!encryptionKeyManager || !configManager) {
+      return {
+        success: false,
+        error: "Encryption key manager not initialized",
+      };
+    }
+
+    const current = await encryptionKeyManager.getKey();
+    if (!current.success || !current.key) {
+      return { success: false, error: "The current key could not be read" };
+    }
+
+    try {
+      db.encryptFile(current.key);
+    } finally {
+      // Keep a converted file encrypted even if it failed verification
+      if (db.isFileEncrypted()) configManager.setEncryptDbFile(true);
+    }
+    return { success: true };
+  } catch (error: any) {
+    console.error("Error encrypting database file:", error);
+    return { success: false, error: error.message };
+  }
+});
+
+// Database Path Configuration IPC Handlers
+ipcMain.handle("db:get-path", async () => {
+  try {
+    if (!configManager) {
+      return {
+        success: false,
+        error: "Configuration manager not initialized",
+      };
+    }
+
+    const dbPath = configManager.getDbPath();
+    const hasCustomPath = configManager.hasDbPath();
+    return { success: true, path: dbPath, hasCustomPath };
+  } catch (error: any) {
+    console.error("Error getting database path:", error);
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle("db:choose-path", async () => {
+  try {
+    if (!mainWindow) {
+      return { success: false, error: "Main window not available" };
+    }
+
+    const result = await dialog.showSaveDialog(mainWindow, {
+      title: "Choose Database Location",
+      defaultPath: "bankrec.db",
+      filters: [{ name: "Database Files", extensions: ["db"] }],
+      properties: ["createDirectory", "showOverwriteConfirmation"],
+    });
+
+    if (result.canceled || !result.filePath) {
+      return { success: false, error: "No path selected" };
+    }
+
+    return { success: true, path: result.filePath };
+  } catch (error: any) {
+    console.error("Error choosing database path:", error);
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle("db:set-path", async (_event, dbPath: string) => {
+  try {
+    if (!configManager) {
+      return {
+        success: false,
+        error: "Configuration manager not initialized",
+      };
+    }
+
+    // Validate the path
+    if (!dbPath || typeof dbPath !== "string") {
+      return { success: false, error: "Invalid path provided" };
+    }
+
+    const result = configManager.setDbPath(dbPath);
+    return result;
   } catch (error: any) {
     console.error("Error setting database path:", error);
     return { success: false, error: error.message };
@@ -521,7 +1190,13 @@ ipcMain.handle("db:change-path", async (_event, newDbPath: string) => {
 
     // Close and reinitialize database with new path
     db.close();
-    await initializeDatabase();
+    db = null;
+    if (!(await initializeDatabase())) {
+      return {
+        success: false,
+        error: dbOpenError || "The database could not be opened at the new path",
+      };
+    }
 
     return { success: true, oldPath: oldDbPath, newPath: newDbPath };
   } catch (error: any) {
@@ -572,6 +1247,64 @@ function decryptFileData(encryptedData: Buffer, password: string): Buffer {
   return Buffer.concat([decipher.update(encrypted), decipher.final()]);
 }
 
+// An export's decrypted contents start with this line and a JSON line
+// recording the key the database inside is encrypted under. Older
+// exports are the bare database file.
+const EXPORT_HEADER = "bankrec-export 1\n";
+
+function packExport(identity: KeyIdentity, dbData: Buffer): Buffer {
+  return Buffer.concat([
+    Buffer.from(EXPORT_HEADER + JSON.stringify(identity) + "\n"),
+    dbData,
+  ]);
+}
+
+function unpackExport(data: Buffer): {
+  identity: KeyIdentity | null;
+  dbData: Buffer;
+} {
+  const header = Buffer.from(EXPORT_HEADER);
+  if (!data.subarray(0, header.length).equals(header)) {
+    return { identity: null, dbData: data };
+  }
+
+  const end = data.indexOf("\n", header.length);
+  if (end === -1) {
+    throw new Error("The export's key information is incomplete");
+  }
+  const identity = JSON.parse(
+    data.subarray(header.length, end).toString("utf8")
+  );
+  if (
+    typeof identity.keyCheck !== "string" ||
+    typeof identity.fileEncrypted !== "boolean"
+  ) {
+    throw new Error("The export's key information is invalid");
+  }
+  return {
+    identity: {
+      kdf: parseKdfParams(JSON.stringify(identity.kdf)),
+      keyCheck: identity.keyCheck,
+      fileEncrypted: identity.fileEncrypted,
+    },
+    dbData: data.subarray(end + 1),
+  };
+}
+
+/**
+ * Whether an encryption key opens an export: checked against the key it
+ * recorded, or for older exports, against the restored file itself
+ */
+async function exportKeyMatches(
+  identity: KeyIdentity | null,
+  restoredPath: string,
+  encryptionKey: string
+): Promise<boolean> {
+  return identity
+    ? EncryptedDatabase.keyMatchesIdentity(identity, encryptionKey)
+    : EncryptedDatabase.keyMatches(restoredPath, encryptionKey);
+}
+
 ipcMain.handle(
   "export-data",
   async (_event, exportPath: string, password: string) => {
@@ -614,8 +1347,12 @@ ipcMain.handle(
       // Read the database file
       const dbData = fs.readFileSync(tempPath);
 
-      // Encrypt the data with the provided password
-      const encryptedData = encryptFileData(dbData, password);
+      // Encrypt the data and a record of the key it is under with the
+      // provided password
+      const encryptedData = encryptFileData(
+        packExport(db.getKeyIdentity(), dbData),
+        password
+      );
 
       // Write encrypted data to export file
       fs.writeFileSync(exportPath, encryptedData);
@@ -631,9 +1368,18 @@ ipcMain.handle(
   }
 );
 
+// Replace the database with an export. An export made under an earlier
+// encryption key is refused unless that key is given; it is then re-keyed
+// under the current key before it replaces anything.
 ipcMain.handle(
   "import-data",
-  async (_event, importPath: string, password: string) => {
+  async (
+    _event,
+    importPath: string,
+    password: string,
+    exportKey: string | null = null
+  ) => {
+    let restoredPath: string | null = null;
     try {
       // Validate file path
       try {
@@ -668,9 +1414,9 @@ ipcMain.handle(
       const encryptedData = fs.readFileSync(importPath);
 
       // Try to decrypt the data
-      let dbData: Buffer;
+      let decrypted: Buffer;
       try {
-        dbData = decryptFileData(encryptedData, password);
+        decrypted = decryptFileData(encryptedData, password);
       } catch (decryptError) {
         return {
           success: false,
@@ -678,25 +1424,82 @@ ipcMain.handle(
         };
       }
 
+      const current = await encryptionKeyManager.getKey();
+      if (!current.success || !current.key) {
+        return { success: false, error: "The current key could not be read" };
+      }
+
+      // Restore the export beside the database and check its key first
+      const { identity, dbData } = unpackExport(decrypted);
+      restoredPath = path.join(configManager.getDbDir(), "temp-import.db");
+      fs.rmSync(restoredPath, { force: true });
+      fs.writeFileSync(restoredPath, dbData);
+
+      if (!(await exportKeyMatches(identity, restoredPath, current.key))) {
+        if (!exportKey) {
+          return {
+            success: false,
+            needsExportKey: true,
+            error:
+              "This export was made before your encryption key was last changed, so the current key cannot read it. Enter the key that was in use when it was exported.",
+          };
+        }
+
+        let oldKey: string;
+        try {
+          oldKey = encryptionKeyManager.parseDisplayedKey(exportKey);
+        } catch (keyError: any) {
+          return {
+            success: false,
+            needsExportKey: true,
+            error: keyError.message,
+          };
+        }
+        if (!(await exportKeyMatches(identity, restoredPath, oldKey))) {
+          return {
+            success: false,
+            needsExportKey: true,
+            error: "That key does not open this export either. Check it and try again.",
+          };
+        }
+
+        const restored = await EncryptedDatabase.open(restoredPath, oldKey);
+        try {
+          await restored.rotateKey(current.key);
+        } finally {
+          restored.close();
+        }
+      }
+
       // Close current database
       if (db) {
         db.close();
+        db = null;
       }
 
-      // Write decrypted data to database file
+      // Replace the database file; its write-ahead log must not be
+      // replayed over the import
       const dbPath = configManager.getDbPath();
-      fs.writeFileSync(dbPath, dbData);
+      fs.rmSync(`${dbPath}-wal`, { force: true });
+      fs.rmSync(`${dbPath}-shm`, { force: true });
+      fs.copyFileSync(restoredPath, dbPath);
 
       // Reinitialize database
-      await initializeDatabase();
+      if (!(await initializeDatabase())) {
+        return {
+          success: false,
+          error: dbOpenError || "The imported database could not be opened",
+        };
+      }
 
       return { success: true };
     } catch (error: any) {
       console.error("Import error occurred");
 
-      // Try to reinitialize the old database if import failed
+      // Try to reinitialize the old database if import failed after
+      // closing it
       try {
-        await initializeDatabase();
+        if (!db) await initializeDatabase();
       } catch (reinitError) {
         console.error("Failed to reinitialize database");
       }
@@ -705,6 +1508,12 @@ ipcMain.handle(
         success: false,
         error: "Import failed. Please check your file and password.",
       };
+    } finally {
+      if (restoredPath) {
+        for (const suffix of ["", "-wal", "-shm"]) {
+          fs.rmSync(`${restoredPath}${suffix}`, { force: true });
+        }
+      }
     }
   }
 );
@@ -737,145 +1546,1845 @@ ipcMain.handle("dialog:saveFile", async () => {
   return { success: true, filePath: result.filePath };
 });
 
-ipcMain.handle("dialog:openCsvFile", async () => {
-  if (!mainWindow) return { success: false };
-  try {
-    const result = await dialog.showOpenDialog(mainWindow, {
-      properties: ["openFile"],
-      filters: [
-        { name: "CSV Files", extensions: ["csv"] },
-        { name: "All Files", extensions: ["*"] },
-      ],
-    });
+// Statement import: the file is read and parsed here, the renderer only
+// sees the normalized rows and the match proposals (plus, for CSV, a few
+// sample records for the column mapping step). The import is kept until
+// the user commits or starts another one.
+interface PendingImport {
+  id: string;
+  userId: number;
+  accountId: string | null; // register checked for already imported rows
+  fileName: string;
+  fileHash: string; // sha256 of the file, recorded on the import batch
+  rows: ImportPreviewRow[];
+}
 
-    if (result.canceled || result.filePaths.length === 0) {
-      return { success: false };
-    }
+interface PendingCsvImport extends PendingImport {
+  format: "csv";
+  records: CsvRecord[];
+  mapping: CsvMapping;
+  unreadableLines: number[]; // lines the mapping could not read
+  profileId: number | null;
+}
 
-    const filePath = result.filePaths[0];
-    const content = fs.readFileSync(filePath, "utf-8");
+interface PendingOfxImport extends PendingImport {
+  format: "ofx";
+  statement: OfxStatement;
+}
 
-    return { success: true, content, filePath };
-  } catch (error: any) {
-    console.error("CSV file open error:", error);
-    return { success: false, error: error.message };
+interface PendingQifImport extends PendingImport {
+  format: "qif";
+  account: QifAccount;
+}
+
+let pendingImport:
+  | PendingCsvImport
+  | PendingOfxImport
+  | PendingQifImport
+  | null = null;
+
+// Records shown in the mapping step so the user can pick columns and
+// see which leading rows to skip
+const CSV_SAMPLE_RECORDS = 8;
+
+// Register transactions an import into the account could match
+function getMatchCandidates(userId: number, accountId: string | null): any[] {
+  return db!
+    .getTransactionsByUserId(userId)
+    .filter((t: any) => (t.account_id || null) === accountId);
+}
+
+function applyCsvMapping(pending: PendingCsvImport, mapping: CsvMapping): void {
+  const { rows, unreadableLines } = importRowsFromRecords(
+    pending.records,
+    mapping
+  );
+  pending.mapping = mapping;
+  pending.unreadableLines = unreadableLines;
+  pending.rows = buildImportPreview(
+    rows,
+    getMatchCandidates(pending.userId, pending.accountId),
+    db!.getPayeeAliases(pending.userId)
+  );
+}
+
+function toCsvPreviewResponse(pending: PendingCsvImport): any {
+  const sample = pending.records
+    .slice(0, CSV_SAMPLE_RECORDS)
+    .map((r) => r.fields);
+  const header = pending.mapping.hasHeader
+    ? pending.records[pending.mapping.skipRows]
+    : undefined;
+  const columnCount = Math.max(0, ...sample.map((fields) => fields.length));
+  const columns = Array.from(
+    { length: columnCount },
+    (_, i) => (header && header.fields[i]) || `Column ${i + 1}`
+  );
+
+  return {
+    success: true,
+    importId: pending.id,
+    fileName: pending.fileName,
+    mapping: pending.mapping,
+    profileId: pending.profileId,
+    profiles: db!
+      .getImportProfilesByUserId(pending.userId)
+      .map((p: any) => ({ id: p.id, name: p.name, mapping: p.mapping })),
+    columns,
+    sample,
+    unreadableLines: pending.unreadableLines,
+    ...toImportPreview(pending),
+  };
+}
+
+function getPendingImport(
+  importId: string
+): PendingCsvImport | PendingOfxImport | PendingQifImport {
+  if (!pendingImport || pendingImport.id !== importId) {
+    throw new Error("This import has expired. Please open the file again.");
   }
-});
+  return pendingImport;
+}
+
+function getPendingCsvImport(importId: string): PendingCsvImport {
+  const pending = getPendingImport(importId);
+  if (pending.format !== "csv") {
+    throw new Error("Column mapping only applies to CSV imports");
+  }
+  return pending;
+}
+
+// The row as it appears in the file, kept with its statement line so the
+// bank's own wording survives our normalization
+function rawStatementData(
+  pending: PendingCsvImport | PendingOfxImport | PendingQifImport,
+  row: ImportPreviewRow
+): object | null {
+  if (pending.format === "csv") {
+    const record = pending.records.find((r) => r.line === row.rowNumber);
+    if (!record) return null;
+    const header = pending.mapping.hasHeader
+      ? pending.records[pending.mapping.skipRows]
+      : undefined;
+    if (!header) return { fields: record.fields };
+    return Object.fromEntries(
+      record.fields.map((value, i) => [
+        header.fields[i] || `Column ${i + 1}`,
+        value,
+      ])
+    );
+  }
+
+  const transactions: { line: number }[] =
+    pending.format === "ofx"
+      ? pending.statement.transactions
+      : pending.account.transactions;
+  const { line, ...raw } =
+    transactions.find((t) => t.line === row.rowNumber) || ({} as any);
+  return line ? raw : null;
+}
+
+// Rows and the new/skipped/matched/ambiguous report for the review step.
+// Rows whose fingerprint is already in the account are reported as
+// skipped.
+function toImportPreview(pending: PendingImport): {
+  rows: any[];
+  report: ImportReport;
+} {
+  const statuses = classifyImportRows(
+    pending.rows,
+    importFingerprints(pending.rows, pending.accountId).map((fingerprint) =>
+      db!.keyImportFingerprint(fingerprint)
+    ),
+    db!.getImportFingerprints(pending.userId, pending.accountId)
+  );
+
+  const rows = pending.rows.map((row, index) => ({
+    index,
+    date: row.date,
+    payee: row.description,
+    amount: fromCents(row.amount),
+    type: row.type,
+    category: row.category,
+    checkNumber: row.checkNumber,
+    status: statuses[index],
+    autoMatchId: row.autoMatchId,
+    matches: row.matches.map((m) => ({
+      transaction: toFrontendTransaction(m.transaction),
+      confidence: m.confidence,
+      reason: m.reason,
+      daysApart: m.daysApart,
+    })),
+    groupMatches: row.groupMatches.map((g) => ({
+      id: g.id,
+      kind: g.kind,
+      transactions: g.transactions.map(toFrontendTransaction),
+      rowIndexes: g.rowIndexes,
+      confidence: g.confidence,
+      reason: g.reason,
+    })),
+  }));
+
+  return { rows, report: summarizeImport(statuses) };
+}
+
+async function hashFile(filePath: string): Promise<string> {
+  const hash = crypto.createHash("sha256");
+  for await (const chunk of fs.createReadStream(filePath)) {
+    hash.update(chunk);
+  }
+  return hash.digest("hex");
+}
+
+function findOwnAccount(userId: number, accountId: string | null): any {
+  const account = accountId ? db!.getAccountById(accountId) : null;
+  if (accountId && (!account || account.user_id !== userId)) {
+    throw new Error("Account not found");
+  }
+  return account;
+}
 
-// Update Transaction
 ipcMain.handle(
-  "update-transaction",
-  async (_event, transactionId: string, updates: any) => {
+  "import:csv-preview",
+  async (_event, userId: number, accountId: string | null) => {
+    if (!mainWindow) return { success: false };
     try {
       if (!db) {
         return { success: false, error: "Database not initialized" };
       }
 
-      db.updateTransaction(transactionId, updates);
-      return { success: true };
+      findOwnAccount(userId, accountId);
+
+      const result = await dialog.showOpenDialog(mainWindow, {
+        properties: ["openFile"],
+        filters: [
+          { name: "CSV Files", extensions: ["csv"] },
+          { name: "All Files", extensions: ["*"] },
+        ],
+      });
+
+      if (result.canceled || result.filePaths.length === 0) {
+        return { success: false, canceled: true };
+      }
+
+      const filePath = result.filePaths[0];
+      const records = await readCsvRecords(fs.createReadStream(filePath));
+      if (records.length === 0) {
+        return { success: false, error: "The CSV file is empty" };
+      }
+
+      // Reuse the saved profile whose header matches this file, if any
+      const profile = db
+        .getImportProfilesByUserId(userId)
+        .find(
+          (p: any) =>
+            p.header_signature &&
+            signatureForMapping(records, p.mapping) === p.header_signature
+        );
+
+      pendingImport = {
+        format: "csv",
+        id: crypto.randomUUID(),
+        userId,
+        accountId,
+        fileName: path.basename(filePath),
+        fileHash: await hashFile(filePath),
+        records,
+        mapping: profile ? profile.mapping : guessMapping(records),
+        profileId: profile ? profile.id : null,
+        unreadableLines: [],
+        rows: [],
+      };
+      applyCsvMapping(pendingImport, pendingImport.mapping);
+
+      return toCsvPreviewResponse(pendingImport);
     } catch (error: any) {
-      console.error("Update transaction error:", error);
+      console.error("CSV preview error:", error);
       return { success: false, error: error.message };
     }
   }
 );
 
-// Delete Transaction
-ipcMain.handle("delete-transaction", async (_event, transactionId: string) => {
-  try {
-    if (!db) {
-      return { success: false, error: "Database not initialized" };
-    }
-
-    db.deleteTransaction(transactionId);
-    return { success: true };
-  } catch (error: any) {
-    console.error("Delete transaction error:", error);
-    return { success: false, error: error.message };
-  }
-});
-
-// Reconciliation handlers
 ipcMain.handle(
-  "db:find-unreconciled-by-amount",
-  async (
-    _event,
-    userId: number,
-    amount: number,
-    dateFrom: string | null,
-    dateTo: string | null
-  ) => {
+  "import:csv-remap",
+  async (_event, importId: string, mapping: any, profileId: number | null) => {
     try {
       if (!db) {
         return { success: false, error: "Database not initialized" };
       }
 
-      const transactions = db.findUnreconciledTransactionsByAmount(
-        userId,
-        amount,
-        dateFrom,
-        dateTo
-      );
-      return { success: true, transactions };
+      const pending = getPendingCsvImport(importId);
+
+      let validatedMapping: CsvMapping;
+      try {
+        validatedMapping = validateCsvMapping(mapping);
+      } catch (validationError: any) {
+        return {
+          success: false,
+          error: `Invalid column mapping: ${validationError.message}`,
+        };
+      }
+
+      pending.profileId = profileId || null;
+      applyCsvMapping(pending, validatedMapping);
+      return toCsvPreviewResponse(pending);
     } catch (error: any) {
-      console.error("Error finding unreconciled transactions:", error);
+      console.error("CSV remap error:", error);
       return { success: false, error: error.message };
     }
   }
 );
 
 ipcMain.handle(
-  "db:find-by-amount",
-  async (
-    _event,
-    userId: number,
-    amount: number,
-    dateFrom: string | null,
-    dateTo: string | null
-  ) => {
+  "import:csv-save-profile",
+  async (_event, importId: string, name: string) => {
     try {
       if (!db) {
         return { success: false, error: "Database not initialized" };
       }
 
-      const transactions = db.findTransactionsByAmount(
-        userId,
-        amount,
-        dateFrom,
-        dateTo
-      );
-      return { success: true, transactions };
+      const pending = getPendingCsvImport(importId);
+
+      let validatedName: string;
+      try {
+        validatedName = validateImportProfileName(name);
+      } catch (validationError: any) {
+        return { success: false, error: validationError.message };
+      }
+
+      const profile = {
+        name: validatedName,
+        headerSignature: signatureForMapping(pending.records, pending.mapping),
+        mapping: pending.mapping,
+      };
+
+      // Saving under an existing name updates that profile
+      const existing = db
+        .getImportProfilesByUserId(pending.userId)
+        .find((p: any) => p.name === validatedName);
+      if (existing) {
+        db.updateImportProfile(existing.id, profile);
+        pending.profileId = existing.id;
+      } else {
+        pending.profileId = db.createImportProfile({
+          userId: pending.userId,
+          ...profile,
+        });
+      }
+
+      return toCsvPreviewResponse(pending);
     } catch (error: any) {
-      console.error("Error finding transactions by amount:", error);
+      console.error("Error saving import profile:", error);
       return { success: false, error: error.message };
     }
   }
 );
 
 ipcMain.handle(
-  "db:mark-reconciled",
-  async (_event, transactionId: string, isReconciled: boolean) => {
+  "import-profiles:delete",
+  async (_event, userId: number, profileId: number) => {
     try {
       if (!db) {
         return { success: false, error: "Database not initialized" };
       }
 
-      db.markTransactionReconciled(transactionId, isReconciled);
+      const profile = db.getImportProfileById(profileId);
+      if (!profile || profile.user_id !== userId) {
+        return { success: false, error: "Import profile not found" };
+      }
+
+      db.deleteImportProfile(profileId);
       return { success: true };
     } catch (error: any) {
-      console.error("Error marking transaction as reconciled:", error);
+      console.error("Error deleting import profile:", error);
       return { success: false, error: error.message };
     }
   }
 );
 
-ipcMain.handle("db:get-unreconciled", async (_event, userId: number) => {
-  try {
-    if (!db) {
-      return { success: false, error: "Database not initialized" };
-    }
-
-    const transactions = db.getUnreconciledTransactionsByUserId(userId);
+ipcMain.handle(
+  "import:ofx-preview",
+  async (_event, userId: number, accountId: string | null) => {
+    if (!mainWindow) return { success: false };
+    try {
+      if (!db) {
+        return { success: false, error: "Database not initialized" };
+      }
+
+      const account = findOwnAccount(userId, accountId);
+
+      const result = await dialog.showOpenDialog(mainWindow, {
+        properties: ["openFile"],
+        filters: [
+          { name: "OFX/QFX Statements", extensions: ["ofx", "qfx"] },
+          { name: "All Files", extensions: ["*"] },
+        ],
+      });
+
+      if (result.canceled || result.filePaths.length === 0) {
+        return { success: false, canceled: true };
+      }
+
+      const filePath = result.filePaths[0];
+      const statement = parseOfx(
+        decodeOfxFile(await fs.promises.readFile(filePath))
+      );
+
+      pendingImport = {
+        format: "ofx",
+        id: crypto.randomUUID(),
+        userId,
+        accountId,
+        fileName: path.basename(filePath),
+        fileHash: await hashFile(filePath),
+        statement,
+        rows: buildImportPreview(
+          ofxImportRows(statement),
+          getMatchCandidates(userId, accountId),
+          db.getPayeeAliases(userId)
+        ),
+      };
+
+      const { ledgerBalance } = statement;
+      return {
+        success: true,
+        importId: pendingImport.id,
+        fileName: pendingImport.fileName,
+        statement: {
+          accountType: statement.accountType,
+          accountLastFour: statement.accountId
+            ? statement.accountId.slice(-4)
+            : null,
+          startDate: statement.startDate,
+          endDate: statement.endDate,
+          ledgerBalance: ledgerBalance ? fromCents(ledgerBalance.amount) : null,
+          ledgerBalanceDate: ledgerBalance ? ledgerBalance.date : null,
+          accountMismatch: account
+            ? statementAccountMismatch(statement, {
+                name: account.name,
+                accountType: account.account_type,
+                lastFour: account.last_four,
+              })
+            : null,
+        },
+        ...toImportPreview(pendingImport),
+      };
+    } catch (error: any) {
+      console.error("OFX preview error:", error);
+      return { success: false, error: error.message };
+    }
+  }
+);
+
+ipcMain.handle(
+  "import:qif-preview",
+  async (_event, userId: number, accountId: string | null) => {
+    if (!mainWindow) return { success: false };
+    try {
+      if (!db) {
+        return { success: false, error: "Database not initialized" };
+      }
+
+      findOwnAccount(userId, accountId);
+
+      const result = await dialog.showOpenDialog(mainWindow, {
+        properties: ["openFile"],
+        filters: [
+          { name: "QIF Files", extensions: ["qif"] },
+          { name: "All Files", extensions: ["*"] },
+        ],
+      });
+
+      if (result.canceled || result.filePaths.length === 0) {
+        return { success: false, canceled: true };
+      }
+
+      const filePath = result.filePaths[0];
+      const accounts = parseQif(await fs.promises.readFile(filePath, "utf8"));
+      if (accounts.length === 0) {
+        return {
+          success: false,
+          error: "No bank or credit card transactions found in the QIF file",
+        };
+      }
+      // Imports go into one register at a time
+      if (accounts.length > 1) {
+        return {
+          success: false,
+          error: `This QIF file contains ${accounts.length} accounts. Please export each account to its own file.`,
+        };
+      }
+
+      pendingImport = {
+        format: "qif",
+        id: crypto.randomUUID(),
+        userId,
+        accountId,
+        fileName: path.basename(filePath),
+        fileHash: await hashFile(filePath),
+        account: accounts[0],
+        rows: buildImportPreview(
+          qifImportRows(accounts[0]),
+          getMatchCandidates(userId, accountId),
+          db.getPayeeAliases(userId)
+        ),
+      };
+
+      return {
+        success: true,
+        importId: pendingImport.id,
+        fileName: pendingImport.fileName,
+        ...toImportPreview(pendingImport),
+      };
+    } catch (error: any) {
+      console.error("QIF preview error:", error);
+      return { success: false, error: error.message };
+    }
+  }
+);
+
+ipcMain.handle(
+  "export:qif",
+  async (_event, userId: number, accountId: string | null) => {
+    if (!mainWindow) return { success: false };
+    try {
+      if (!db) {
+        return { success: false, error: "Database not initialized" };
+      }
+
+      const account = findOwnAccount(userId, accountId);
+
+      const result = await dialog.showSaveDialog(mainWindow, {
+        filters: [{ name: "QIF Files", extensions: ["qif"] }],
+        defaultPath: `${account ? account.name : "bankrec"}.qif`,
+      });
+
+      if (result.canceled || !result.filePath) {
+        return { success: false, canceled: true };
+      }
+
+      const transactions = account
+        ? db.getTransactionsByAccountId(account.id)
+        : db.getTransactionsByUserId(userId);
+      const splits = db.getSplitsByUserId(userId);
+      const sign = (t: any, amount: number): number =>
+        t.type === "debit" ? -amount : amount;
+
+      const qif = writeQif({
+        type:
+          account && account.account_type === "credit_card" ? "CCard" : "Bank",
+        transactions: transactions
+          .slice()
+          .sort((a: any, b: any) => a.date.localeCompare(b.date))
+          .map((t: any) => ({
+            date: t.date,
+            amount: sign(t, t.amount),
+            payee: t.description,
+            memo: null,
+            category: t.category || null,
+            checkNumber: t.check_number || null,
+            reconciled: t.is_reconciled === 1,
+            splits: (splits.get(t.id) || []).map((split: any) => ({
+              category: split.category,
+              memo: split.memo,
+              amount: sign(t, split.amount),
+            })),
+          })),
+      });
+
+      await fs.promises.writeFile(result.filePath, qif, "utf8");
+      return {
+        success: true,
+        filePath: result.filePath,
+        count: transactions.length,
+      };
+    } catch (error: any) {
+      console.error("QIF export error:", error);
+      return { success: false, error: error.message };
+    }
+  }
+);
+
+ipcMain.handle(
+  "import:commit",
+  async (
+    _event,
+    importId: string,
+    decisions: {
+      index: number;
+      matchId?: string | null;
+      matchIds?: string[]; // several transactions cleared by this row
+      splitOf?: string | null; // one transaction cleared by several rows
+      type?: string;
+    }[],
+    accountId: string | null
+  ) => {
+    try {
+      if (!db) {
+        return { success: false, error: "Database not initialized" };
+      }
+
+      const pending = getPendingImport(importId);
+      findOwnAccount(pending.userId, accountId);
+
+      const ownTransactions = new Map<string, any>(
+        db
+          .getTransactionsByUserId(pending.userId)
+          .map((t: any) => [t.id, t])
+      );
+      // Fingerprints are stored as given and looked up by their keyed hash
+      const fingerprints = importFingerprints(pending.rows, accountId);
+      const keys = fingerprints.map((fingerprint) =>
+        db!.keyImportFingerprint(fingerprint)
+      );
+      const imported = db.getImportFingerprints(pending.userId, accountId);
+      const rules = db.getCategorizationRulesByUserId(pending.userId);
+      const aliases = db.getPayeeAliases(pending.userId);
+      let created = 0;
+      let matched = 0;
+      let skipped = 0;
+      let categorized = 0;
+
+      // Every accepted row is kept as a statement line, the bank's
+      // evidence for the transactions it clears
+      const statementLine = (index: number, batchId: number): number => {
+        const row = pending.rows[index];
+        return db!.createStatementLine({
+          userId: pending.userId,
+          accountId,
+          importBatchId: batchId,
+          date: row.date,
+          description: row.description,
+          amount: row.amount,
+          type: row.type,
+          checkNumber: row.checkNumber,
+          fitId: row.fitId || null,
+          importFingerprint: fingerprints[index],
+          rawData: rawStatementData(pending, row),
+        });
+      };
+
+      // All or nothing: a bad row rolls the whole import back
+      const batchId = db.runInTransaction(() => {
+        const batchId = db!.createImportBatch({
+          userId: pending.userId,
+          accountId,
+          format: pending.format,
+          fileName: pending.fileName,
+          fileHash: pending.fileHash,
+          profileId: pending.format === "csv" ? pending.profileId : null,
+        });
+        const splits = new Map<string, number[]>();
+
+        for (const decision of decisions) {
+          const row = pending.rows[decision.index];
+          if (!row) {
+            throw new Error(`Unknown import row ${decision.index}`);
+          }
+          const fingerprint = fingerprints[decision.index];
+          const key = keys[decision.index];
+
+          // Several register transactions that together make up this
+          // bank line, e.g. checks deposited together
+          if (decision.matchIds && decision.matchIds.length > 0) {
+            const members = decision.matchIds.map((id) => {
+              const transaction = ownTransactions.get(id);
+              if (!transaction) {
+                throw new Error(`Row ${row.rowNumber}: unknown match`);
+              }
+              return transaction;
+            });
+            const total = members.reduce((sum, t) => sum + t.amount, 0);
+            if (total !== row.amount) {
+              throw new Error(
+                `Row ${row.rowNumber}: the grouped transactions add up to ${formatCents(total)}, not ${formatCents(row.amount)}`
+              );
+            }
+
+            const groupId = db!.createMatchGroup({
+              userId: pending.userId,
+              accountId,
+              importBatchId: batchId,
+              kind: "many_to_one",
+            });
+            const lineId = statementLine(decision.index, batchId);
+            for (const member of members) {
+              db!.markTransactionReconciled(member.id, true);
+              db!.setImportFingerprint(member.id, fingerprint);
+              db!.linkStatementLine(lineId, member.id, groupId);
+            }
+            imported.add(key);
+            matched++;
+            continue;
+          }
+
+          // Bank lines that together make up one register transaction
+          // are collected and recorded once all rows are seen
+          if (decision.splitOf) {
+            const indexes = splits.get(decision.splitOf) || [];
+            splits.set(decision.splitOf, [...indexes, decision.index]);
+            continue;
+          }
+
+          if (decision.matchId) {
+            if (!ownTransactions.has(decision.matchId)) {
+              throw new Error(`Row ${row.rowNumber}: unknown match`);
+            }
+            db!.markTransactionReconciled(decision.matchId, true);
+            if (row.fitId) {
+              db!.setTransactionFitId(decision.matchId, row.fitId);
+            }
+            db!.setImportFingerprint(decision.matchId, fingerprint);
+            db!.linkStatementLine(
+              statementLine(decision.index, batchId),
+              decision.matchId
+            );
+            imported.add(key);
+            matched++;
+            continue;
+          }
+
+          // Rows seen in an earlier import are never created twice
+          if (imported.has(key)) {
+            skipped++;
+            continue;
+          }
+
+          // New transactions take the canonical payee name, then go
+          // through the categorization rules
+          const payee = findPayeeAlias(row.description, aliases);
+          const description = payee ? payee.payee : row.description;
+          const type = decision.type || row.type;
+          const changes: RuleChanges = applyRules(rules, {
+            description,
+            amount: row.amount,
+            type,
+            category: row.category,
+            account_id: accountId,
+          }) || { ruleIds: [] };
+
+          let validated: any;
+          try {
+            validated = validateTransactionData({
+              date: row.date,
+              description: changes.description || description,
+              amount: fromCents(row.amount),
+              type,
+              category: changes.transferAccountId
+                ? null
+                : changes.category || row.category,
+              checkNumber: row.checkNumber,
+              isReconciled: true,
+              splits: changes.transferAccountId
+                ? []
+                : (row.splits || []).map((split) => ({
+                    ...split,
+                    amount: fromCents(split.amount),
+                  })),
+            });
+          } catch (validationError: any) {
+            throw new Error(`Row ${row.rowNumber}: ${validationError.message}`);
+          }
+
+          const { id: transactionId } = db!.createTransaction({
+            userId: pending.userId,
+            date: validated.date,
+            description: validated.description,
+            amount: toCents(validated.amount),
+            type: validated.type,
+            category: validated.category,
+            checkNumber: validated.checkNumber,
+            isReconciled: true,
+            accountId,
+            splits: toSplitInputs(validated.splits),
+            fitId: row.fitId,
+            importFingerprint: fingerprint,
+            importBatchId: batchId,
+            payeeId: payee && !changes.description ? payee.payeeId : null,
+            originalDescription:
+              validated.description !== row.description
+                ? row.description
+                : null,
+          });
+          if (changes.transferAccountId) {
+            db!.linkTransfer(transactionId, changes.transferAccountId, batchId);
+          }
+          db!.linkStatementLine(
+            statementLine(decision.index, batchId),
+            transactionId
+          );
+          imported.add(key);
+          created++;
+          if (changes.ruleIds.length > 0) categorized++;
+        }
+
+        splits.forEach((indexes, transactionId) => {
+          const transaction = ownTransactions.get(transactionId);
+          if (!transaction) {
+            const { rowNumber } = pending.rows[indexes[0]];
+            throw new Error(`Row ${rowNumber}: unknown match`);
+          }
+          const total = indexes.reduce(
+            (sum, i) => sum + pending.rows[i].amount,
+            0
+          );
+          if (total !== transaction.amount) {
+            throw new Error(
+              `The bank lines matched to "${transaction.description}" add up to ${formatCents(total)}, not ${formatCents(transaction.amount)}`
+            );
+          }
+
+          db!.markTransactionReconciled(transactionId, true);
+          db!.setImportFingerprint(transactionId, fingerprints[indexes[0]]);
+          const groupId = db!.createMatchGroup({
+            userId: pending.userId,
+            accountId,
+            importBatchId: batchId,
+            kind: "one_to_many",
+          });
+          for (const i of indexes) {
+            db!.linkStatementLine(
+              statementLine(i, batchId),
+              transactionId,
+              groupId
+            );
+          }
+          indexes.forEach((i) => imported.add(keys[i]));
+          matched += indexes.length;
+        });
+
+        db!.setImportBatchCounts(batchId, { created, matched, skipped });
+        return batchId;
+      });
+
+      pendingImport = null;
+      return { success: true, batchId, created, matched, skipped, categorized };
+    } catch (error: any) {
+      console.error("Statement import error:", error);
+      return { success: false, error: error.message };
+    }
+  }
+);
+
+// Import history: past statement imports, each of which can be rolled
+// back as a whole until its transactions are reconciled
+ipcMain.handle("import-batches:list", async (_event, userId: number) => {
+  try {
+    if (!db) {
+      return { success: false, error: "Database not initialized" };
+    }
+
+    const batches = db.getImportBatchesByUserId(userId).map((b: any) => ({
+      id: b.id,
+      accountId: b.account_id,
+      format: b.format,
+      fileName: b.file_name,
+      fileHash: b.file_hash,
+      importedAt: b.imported_at,
+      createdCount: b.created_count,
+      matchedCount: b.matched_count,
+      skippedCount: b.skipped_count,
+      reconciledCount: b.reconciled_count,
+      rolledBackAt: b.rolled_back_at,
+      canRollBack: !b.rolled_back_at && b.reconciled_count === 0,
+    }));
+    return { success: true, batches };
+  } catch (error: any) {
+    console.error("Error listing imports:", error);
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle(
+  "import-batches:rollback",
+  async (_event, userId: number, batchId: number) => {
+    try {
+      if (!db) {
+        return { success: false, error: "Database not initialized" };
+      }
+
+      const batch = db.getImportBatchById(batchId);
+      if (!batch || batch.user_id !== userId) {
+        return { success: false, error: "Import not found" };
+      }
+
+      const deleted = db.rollbackImportBatch(batchId);
+      return { success: true, deleted };
+    } catch (error: any) {
+      console.error("Import rollback error:", error);
+      return { success: false, error: error.message };
+    }
+  }
+);
+
+function toFrontendStatementLine(line: any): any {
+  return {
+    id: line.id,
+    date: line.date,
+    description: line.description,
+    amount: fromCents(line.amount),
+    type: line.type,
+    checkNumber: line.check_number,
+    fitId: line.fitid,
+    rawData: line.raw_data,
+    importBatchId: line.import_batch_id,
+    importedAt: line.imported_at,
+    matchGroupId: line.match_group_id,
+    linkedAt: line.linked_at,
+  };
+}
+
+// Audit trail of a transaction: the bank statement lines that cleared
+// it, and for group matches every transaction and line cleared together
+ipcMain.handle(
+  "statement-lines:for-transaction",
+  async (_event, transactionId: string) => {
+    try {
+      if (!db) {
+        return { success: false, error: "Database not initialized" };
+      }
+
+      const lines = db
+        .getStatementLinesByTransactionId(transactionId)
+        .map(toFrontendStatementLine);
+      const groups = db
+        .getMatchGroupsByTransactionId(transactionId)
+        .map((g: any) => ({
+          id: g.id,
+          kind: g.kind,
+          createdAt: g.created_at,
+          importBatchId: g.import_batch_id,
+          transactions: g.transactions.map(toFrontendTransaction),
+          lines: g.lines.map(toFrontendStatementLine),
+        }));
+      return { success: true, lines, groups };
+    } catch (error: any) {
+      console.error("Error loading statement lines:", error);
+      return { success: false, error: error.message };
+    }
+  }
+);
+
+ipcMain.handle(
+  "statement-lines:unlink",
+  async (_event, statementLineId: number, transactionId: string) => {
+    try {
+      if (!db) {
+        return { success: false, error: "Database not initialized" };
+      }
+
+      db.unlinkStatementLine(statementLineId, transactionId);
+      return { success: true };
+    } catch (error: any) {
+      console.error("Error unmatching statement line:", error);
+      return { success: false, error: error.message };
+    }
+  }
+);
+
+// Update Transaction
+ipcMain.handle(
+  "update-transaction",
+  async (_event, transactionId: string, updates: any) => {
+    try {
+      if (!db) {
+        return { success: false, error: "Database not initialized" };
+      }
+
+      if (db.getTransferByTransactionId(transactionId)) {
+        return {
+          success: false,
+          error: "This is one side of a transfer; edit the transfer instead",
+        };
+      }
+
+      const validated = validateTransactionData({
+        ...updates,
+        description: updates.payee || updates.description,
+      });
+      db.updateTransaction(transactionId, {
+        date: validated.date,
+        description: validated.description,
+        amount: toCents(validated.amount),
+        type: validated.type,
+        category: validated.category,
+        checkNumber: validated.checkNumber,
+        isReconciled: validated.isReconciled,
+        accountId: validated.accountId,
+        splits: toSplitInputs(validated.splits),
+      });
+      return { success: true };
+    } catch (error: any) {
+      console.error("Update transaction error:", error);
+      return { success: false, error: error.message };
+    }
+  }
+);
+
+// Transfers between two of the user's accounts. Both sides are created,
+// edited and deleted together (deleting either side removes the pair).
+function validateOwnTransfer(userId: number, transfer: any): any {
+  let validated: any;
+  try {
+    validated = validateTransferData(transfer);
+  } catch (validationError: any) {
+    throw new Error(`Invalid transfer: ${validationError.message}`);
+  }
+  findOwnAccount(userId, validated.fromAccountId);
+  findOwnAccount(userId, validated.toAccountId);
+  return { ...validated, amount: toCents(validated.amount) };
+}
+
+ipcMain.handle(
+  "transfers:create",
+  async (_event, userId: number, transfer: any) => {
+    try {
+      if (!db) {
+        return { success: false, error: "Database not initialized" };
+      }
+
+      const created = db.createTransfer({
+        userId,
+        ...validateOwnTransfer(userId, transfer),
+      });
+      return { success: true, ...created };
+    } catch (error: any) {
+      console.error("Error creating transfer:", error);
+      return { success: false, error: error.message };
+    }
+  }
+);
+
+ipcMain.handle(
+  "transfers:update",
+  async (_event, userId: number, transferId: number, transfer: any) => {
+    try {
+      if (!db) {
+        return { success: false, error: "Database not initialized" };
+      }
+
+      const existing = db.getTransferById(transferId);
+      if (!existing || existing.user_id !== userId) {
+        return { success: false, error: "Transfer not found" };
+      }
+
+      db.updateTransfer(transferId, validateOwnTransfer(userId, transfer));
+      return { success: true };
+    } catch (error: any) {
+      console.error("Error updating transfer:", error);
+      return { success: false, error: error.message };
+    }
+  }
+);
+
+// Scheduled transactions. Due occurrences are handled when the renderer
+// calls scheduled:run-due at startup: "post" schedules are entered in the
+// register, "remind" schedules come back as reminders to post or skip.
+function toFrontendSchedule(s: any): any {
+  return {
+    id: s.id,
+    accountId: s.account_id,
+    description: s.description,
+    amount: fromCents(s.amount),
+    type: s.type,
+    category: s.category,
+    frequency: s.frequency,
+    dayOfMonth: s.day_of_month,
+    startDate: s.start_date,
+    endDate: s.end_date,
+    nextDate: s.next_date,
+    mode: s.mode,
+  };
+}
+
+function toFrontendScheduledEntry(entry: any): any {
+  return { ...entry, amount: fromCents(entry.amount) };
+}
+
+function findOwnSchedule(userId: number, scheduledId: number): any {
+  const schedule = db!.getScheduledTransactionById(scheduledId);
+  if (!schedule || schedule.user_id !== userId) {
+    throw new Error("Scheduled transaction not found");
+  }
+  return schedule;
+}
+
+// Today in the local time zone, as YYYY-MM-DD
+function localToday(): string {
+  const now = new Date();
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+}
+
+ipcMain.handle("scheduled:list", async (_event, userId: number) => {
+  try {
+    if (!db) {
+      return { success: false, error: "Database not initialized" };
+    }
+
+    const schedules = db
+      .getScheduledTransactionsByUserId(userId)
+      .map(toFrontendSchedule);
+    return { success: true, schedules };
+  } catch (error: any) {
+    console.error("Error listing scheduled transactions:", error);
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle(
+  "scheduled:create",
+  async (_event, userId: number, schedule: any) => {
+    try {
+      if (!db) {
+        return { success: false, error: "Database not initialized" };
+      }
+
+      let validated;
+      try {
+        validated = validateScheduledTransactionData(schedule);
+      } catch (validationError: any) {
+        return {
+          success: false,
+          error: `Invalid scheduled transaction: ${validationError.message}`,
+        };
+      }
+      findOwnAccount(userId, validated.accountId);
+
+      const id = db.createScheduledTransaction({
+        userId,
+        ...validated,
+        amount: toCents(validated.amount),
+      });
+      return { success: true, id };
+    } catch (error: any) {
+      console.error("Error creating scheduled transaction:", error);
+      return { success: false, error: error.message };
+    }
+  }
+);
+
+ipcMain.handle(
+  "scheduled:delete",
+  async (_event, userId: number, scheduledId: number) => {
+    try {
+      if (!db) {
+        return { success: false, error: "Database not initialized" };
+      }
+
+      findOwnSchedule(userId, scheduledId);
+      db.deleteScheduledTransaction(scheduledId);
+      return { success: true };
+    } catch (error: any) {
+      console.error("Error deleting scheduled transaction:", error);
+      return { success: false, error: error.message };
+    }
+  }
+);
+
+ipcMain.handle("scheduled:run-due", async (_event, userId: number) => {
+  try {
+    if (!db) {
+      return { success: false, error: "Database not initialized" };
+    }
+
+    const today = localToday();
+    const posted = db.postDueScheduledTransactions(userId, today);
+    const reminders = db
+      .getScheduledEntries(userId, today)
+      .filter((entry: any) => entry.occurrenceDate <= today && !entry.skipped)
+      .map(toFrontendScheduledEntry);
+    return { success: true, posted: posted.length, reminders };
+  } catch (error: any) {
+    console.error("Error posting scheduled transactions:", error);
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle(
+  "scheduled:post",
+  async (
+    _event,
+    userId: number,
+    scheduledId: number,
+    occurrenceDate: string
+  ) => {
+    try {
+      if (!db) {
+        return { success: false, error: "Database not initialized" };
+      }
+
+      findOwnSchedule(userId, scheduledId);
+      const transactionId = db.postScheduledOccurrence(
+        scheduledId,
+        occurrenceDate
+      );
+      return { success: true, transactionId };
+    } catch (error: any) {
+      console.error("Error posting scheduled transaction:", error);
+      return { success: false, error: error.message };
+    }
+  }
+);
+
+ipcMain.handle(
+  "scheduled:skip",
+  async (
+    _event,
+    userId: number,
+    scheduledId: number,
+    occurrenceDate: string
+  ) => {
+    try {
+      if (!db) {
+        return { success: false, error: "Database not initialized" };
+      }
+
+      findOwnSchedule(userId, scheduledId);
+      db.skipScheduledOccurrence(scheduledId, occurrenceDate);
+      return { success: true };
+    } catch (error: any) {
+      console.error("Error skipping scheduled transaction:", error);
+      return { success: false, error: error.message };
+    }
+  }
+);
+
+// Change one occurrence's date, amount (in dollars) or description; a
+// null override puts the occurrence back as scheduled
+ipcMain.handle(
+  "scheduled:override",
+  async (
+    _event,
+    userId: number,
+    scheduledId: number,
+    occurrenceDate: string,
+    override: {
+      date?: string | null;
+      amount?: number | null;
+      description?: string | null;
+    } | null
+  ) => {
+    try {
+      if (!db) {
+        return { success: false, error: "Database not initialized" };
+      }
+
+      findOwnSchedule(userId, scheduledId);
+      if (!override) {
+        db.clearScheduledOccurrence(scheduledId, occurrenceDate);
+        return { success: true };
+      }
+
+      if (override.date && !/^\d{4}-\d{2}-\d{2}$/.test(override.date)) {
+        return { success: false, error: "Date must be in YYYY-MM-DD format" };
+      }
+      const amount = override.amount ?? null;
+      if (
+        amount !== null &&
+        (typeof amount !== "number" ||
+          !(amount > 0) ||
+          !hasCurrencyPrecision(amount))
+      ) {
+        return {
+          success: false,
+          error: "Amount must be greater than zero, in dollars and cents",
+        };
+      }
+
+      db.setScheduledOccurrence(scheduledId, occurrenceDate, {
+        date: override.date || null,
+        amount: amount === null ? null : toCents(amount),
+        description: override.description
+          ? sanitizeString(override.description, 500)
+          : null,
+      });
+      return { success: true };
+    } catch (error: any) {
+      console.error("Error changing scheduled transaction:", error);
+      return { success: false, error: error.message };
+    }
+  }
+);
+
+// Upcoming register entries through a date with the projected balance
+// after each: transactions already entered with a later date plus the
+// occurrences of the schedules still to come
+ipcMain.handle(
+  "scheduled:forecast",
+  async (
+    _event,
+    userId: number,
+    accountId: string | null,
+    through: string
+  ) => {
+    try {
+      if (!db) {
+        return { success: false, error: "Database not initialized" };
+      }
+      if (!through || !/^\d{4}-\d{2}-\d{2}$/.test(through)) {
+        return {
+          success: false,
+          error: "Forecast date must be in YYYY-MM-DD format",
+        };
+      }
+
+      const account = findOwnAccount(userId, accountId);
+      const accounts = account ? [account] : db.getAccountsByUserId(userId);
+      const today = localToday();
+      const { balance } = computeBalances(
+        accounts.map((a: any) => ({
+          amount: a.opening_balance,
+          date: a.opening_date,
+        })),
+        db.getBalanceTransactions(userId, account ? account.id : undefined),
+        today
+      );
+
+      const posted = db
+        .getTransactionsByUserId(userId)
+        .filter(
+          (t: any) =>
+            t.date > today &&
+            t.date <= through &&
+            (!account || t.account_id === account.id)
+        )
+        .map((t: any) => ({
+          kind: "posted",
+          transactionId: t.id,
+          date: t.date,
+          description: t.description,
+          amount: t.amount,
+          type: t.type,
+          category: t.category,
+          accountId: t.account_id,
+        }));
+      const scheduled = db
+        .getScheduledEntries(userId, through, account ? account.id : null)
+        .map((entry: any) => ({ kind: "scheduled", ...entry }));
+
+      const entries = projectBalances(balance, [...posted, ...scheduled]).map(
+        (entry) => ({
+          ...toFrontendScheduledEntry(entry),
+          balance: fromCents(entry.balance),
+        })
+      );
+      return {
+        success: true,
+        today,
+        startBalance: fromCents(balance),
+        entries,
+      };
+    } catch (error: any) {
+      console.error("Error forecasting balances:", error);
+      return { success: false, error: error.message };
+    }
+  }
+);
+
+// Auto-categorization rules. They run on new transactions during import
+// (see import:commit) and on demand over the register, where rules:preview
+// is the dry run and rules:apply makes the changes the user picked.
+function toFrontendRule(rule: any): any {
+  return {
+    ...rule,
+    minAmount: rule.minAmount === null ? null : fromCents(rule.minAmount),
+    maxAmount: rule.maxAmount === null ? null : fromCents(rule.maxAmount),
+  };
+}
+
+// What the rules would change in a user's register (or one account's)
+function getRuleChanges(
+  userId: number,
+  accountId: string | null
+): { transaction: any; changes: RuleChanges }[] {
+  const rules = db!.getCategorizationRulesByUserId(userId);
+  const splits = db!.getSplitsByUserId(userId);
+  const found: { transaction: any; changes: RuleChanges }[] = [];
+
+  for (const transaction of db!.getTransactionsByUserId(userId)) {
+    if (accountId && transaction.account_id !== accountId) continue;
+    const changes = applyRules(rules, {
+      ...transaction,
+      hasSplits: splits.has(transaction.id),
+    });
+    if (changes) found.push({ transaction, changes });
+  }
+  return found;
+}
+
+function findOwnRule(userId: number, ruleId: number): any {
+  const rule = db!.getCategorizationRuleById(ruleId);
+  if (!rule || rule.user_id !== userId) {
+    throw new Error("Rule not found");
+  }
+  return rule;
+}
+
+ipcMain.handle("rules:list", async (_event, userId: number) => {
+  try {
+    if (!db) {
+      return { success: false, error: "Database not initialized" };
+    }
+
+    const rules = db.getCategorizationRulesByUserId(userId).map(toFrontendRule);
+    return { success: true, rules };
+  } catch (error: any) {
+    console.error("Error listing rules:", error);
+    return { success: false, error: error.message };
+  }
+});
+
+// Creates the rule, or updates it when it has an id
+ipcMain.handle("rules:save", async (_event, userId: number, rule: any) => {
+  try {
+    if (!db) {
+      return { success: false, error: "Database not initialized" };
+    }
+
+    let validated;
+    try {
+      validated = validateRuleData(rule);
+    } catch (validationError: any) {
+      return {
+        success: false,
+        error: `Invalid rule: ${validationError.message}`,
+      };
+    }
+    findOwnAccount(userId, validated.accountId);
+    findOwnAccount(userId, validated.transferAccountId);
+
+    const input = {
+      ...validated,
+      minAmount:
+        validated.minAmount === null ? null : toCents(validated.minAmount),
+      maxAmount:
+        validated.maxAmount === null ? null : toCents(validated.maxAmount),
+    };
+    if (rule.id) {
+      findOwnRule(userId, rule.id);
+      db.updateCategorizationRule(rule.id, input);
+      return { success: true, id: rule.id };
+    }
+    const id = db.createCategorizationRule({ userId, ...input });
+    return { success: true, id };
+  } catch (error: any) {
+    console.error("Error saving rule:", error);
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle(
+  "rules:delete",
+  async (_event, userId: number, ruleId: number) => {
+    try {
+      if (!db) {
+        return { success: false, error: "Database not initialized" };
+      }
+
+      findOwnRule(userId, ruleId);
+      db.deleteCategorizationRule(ruleId);
+      return { success: true };
+    } catch (error: any) {
+      console.error("Error deleting rule:", error);
+      return { success: false, error: error.message };
+    }
+  }
+);
+
+ipcMain.handle(
+  "rules:reorder",
+  async (_event, userId: number, ruleIds: number[]) => {
+    try {
+      if (!db) {
+        return { success: false, error: "Database not initialized" };
+      }
+
+      db.reorderCategorizationRules(userId, ruleIds);
+      return { success: true };
+    } catch (error: any) {
+      console.error("Error reordering rules:", error);
+      return { success: false, error: error.message };
+    }
+  }
+);
+
+// Dry run: what the rules would change, nothing is written
+ipcMain.handle(
+  "rules:preview",
+  async (_event, userId: number, accountId: string | null) => {
+    try {
+      if (!db) {
+        return { success: false, error: "Database not initialized" };
+      }
+
+      findOwnAccount(userId, accountId);
+      const changes = getRuleChanges(userId, accountId).map(
+        ({ transaction, changes }) => ({
+          transactionId: transaction.id,
+          date: transaction.date,
+          description: transaction.description,
+          amount: fromCents(transaction.amount),
+          type: transaction.type,
+          accountId: transaction.account_id,
+          category: transaction.category,
+          changes: {
+            category: changes.category,
+            description: changes.description,
+            transferAccountId: changes.transferAccountId,
+          },
+          ruleIds: changes.ruleIds,
+        })
+      );
+      return { success: true, changes };
+    } catch (error: any) {
+      console.error("Error previewing rules:", error);
+      return { success: false, error: error.message };
+    }
+  }
+);
+
+// Apply the rules to the chosen transactions from a preview. The changes
+// are worked out again, so a rule edited since the preview is honored.
+ipcMain.handle(
+  "rules:apply",
+  async (_event, userId: number, transactionIds: string[]) => {
+    try {
+      if (!db) {
+        return { success: false, error: "Database not initialized" };
+      }
+
+      const chosen = new Set(transactionIds);
+      const updated = db.runInTransaction(() => {
+        // Transactions that became the other side of a transfer marked
+        // earlier in this run
+        const paired = new Set<string>();
+        let count = 0;
+        for (const { transaction, changes } of getRuleChanges(userId, null)) {
+          if (!chosen.has(transaction.id) || paired.has(transaction.id)) {
+            continue;
+          }
+
+          if (changes.category || changes.description) {
+            db!.updateTransaction(transaction.id, {
+              category: changes.category,
+              description: changes.description,
+            });
+          }
+          if (changes.transferAccountId) {
+            const { otherTransactionId } = db!.linkTransfer(
+              transaction.id,
+              changes.transferAccountId
+            );
+            paired.add(otherTransactionId);
+          }
+          count++;
+        }
+        return count;
+      });
+      return { success: true, updated };
+    } catch (error: any) {
+      console.error("Error applying rules:", error);
+      return { success: false, error: error.message };
+    }
+  }
+);
+
+// Payees. Imports normalize bank descriptions to a payee's name through
+// its aliases (see import:commit), keeping the bank's wording on the
+// transaction; payees:merge folds duplicates together.
+function toFrontendPayee(payee: any): any {
+  return {
+    id: payee.id,
+    name: payee.name,
+    aliases: payee.aliases,
+    transactionCount: payee.transaction_count,
+  };
+}
+
+function findOwnPayee(userId: number, payeeId: number): any {
+  const payee = db!.getPayeeById(payeeId);
+  if (!payee || payee.user_id !== userId) {
+    throw new Error("Payee not found");
+  }
+  return payee;
+}
+
+ipcMain.handle("payees:list", async (_event, userId: number) => {
+  try {
+    if (!db) {
+      return { success: false, error: "Database not initialized" };
+    }
+
+    const payees = db.getPayeesByUserId(userId).map(toFrontendPayee);
+    return { success: true, payees };
+  } catch (error: any) {
+    console.error("Error listing payees:", error);
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle(
+  "payees:create",
+  async (_event, userId: number, name: string, aliases: string[] = []) => {
+    try {
+      if (!db) {
+        return { success: false, error: "Database not initialized" };
+      }
+
+      let validatedName: string;
+      let validatedAliases: string[];
+      try {
+        validatedName = validatePayeeName(name);
+        validatedAliases = (aliases || []).map(validatePayeeAlias);
+      } catch (validationError: any) {
+        return {
+          success: false,
+          error: `Invalid payee: ${validationError.message}`,
+        };
+      }
+
+      const id = db.createPayee(userId, validatedName, validatedAliases);
+      return { success: true, id };
+    } catch (error: any) {
+      console.error("Error creating payee:", error);
+      return { success: false, error: error.message };
+    }
+  }
+);
+
+ipcMain.handle(
+  "payees:rename",
+  async (_event, userId: number, payeeId: number, name: string) => {
+    try {
+      if (!db) {
+        return { success: false, error: "Database not initialized" };
+      }
+
+      let validatedName: string;
+      try {
+        validatedName = validatePayeeName(name);
+      } catch (validationError: any) {
+        return {
+          success: false,
+          error: `Invalid payee: ${validationError.message}`,
+        };
+      }
+
+      findOwnPayee(userId, payeeId);
+      db.renamePayee(payeeId, validatedName);
+      return { success: true };
+    } catch (error: any) {
+      console.error("Error renaming payee:", error);
+      return { success: false, error: error.message };
+    }
+  }
+);
+
+ipcMain.handle(
+  "payees:delete",
+  async (_event, userId: number, payeeId: number) => {
+    try {
+      if (!db) {
+        return { success: false, error: "Database not initialized" };
+      }
+
+      findOwnPayee(userId, payeeId);
+      db.deletePayee(payeeId);
+      return { success: true };
+    } catch (error: any) {
+      console.error("Error deleting payee:", error);
+      return { success: false, error: error.message };
+    }
+  }
+);
+
+ipcMain.handle(
+  "payees:add-alias",
+  async (_event, userId: number, payeeId: number, pattern: string) => {
+    try {
+      if (!db) {
+        return { success: false, error: "Database not initialized" };
+      }
+
+      let validatedPattern: string;
+      try {
+        validatedPattern = validatePayeeAlias(pattern);
+      } catch (validationError: any) {
+        return {
+          success: false,
+          error: `Invalid alias: ${validationError.message}`,
+        };
+      }
+
+      findOwnPayee(userId, payeeId);
+      const id = db.addPayeeAlias(payeeId, validatedPattern);
+      return { success: true, id };
+    } catch (error: any) {
+      console.error("Error adding payee alias:", error);
+      return { success: false, error: error.message };
+    }
+  }
+);
+
+ipcMain.handle(
+  "payees:delete-alias",
+  async (_event, userId: number, aliasId: number) => {
+    try {
+      if (!db) {
+        return { success: false, error: "Database not initialized" };
+      }
+
+      const alias = db.getPayeeAliasById(aliasId);
+      if (!alias) {
+        return { success: false, error: "Alias not found" };
+      }
+      findOwnPayee(userId, alias.payee_id);
+      db.deletePayeeAlias(aliasId);
+      return { success: true };
+    } catch (error: any) {
+      console.error("Error deleting payee alias:", error);
+      return { success: false, error: error.message };
+    }
+  }
+);
+
+// Merge payees, and descriptions not yet linked to one, into a target
+// payee, rewriting the transactions that carry them
+ipcMain.handle(
+  "payees:merge",
+  async (
+    _event,
+    userId: number,
+    targetId: number,
+    payeeIds: number[] = [],
+    descriptions: string[] = []
+  ) => {
+    try {
+      if (!db) {
+        return { success: false, error: "Database not initialized" };
+      }
+
+      findOwnPayee(userId, targetId);
+      (payeeIds || []).forEach((id) => findOwnPayee(userId, id));
+      let validatedDescriptions: string[];
+      try {
+        validatedDescriptions = (descriptions || []).map(validatePayeeAlias);
+      } catch (validationError: any) {
+        return {
+          success: false,
+          error: `Invalid description: ${validationError.message}`,
+        };
+      }
+
+      const rewritten = db.mergePayees(
+        targetId,
+        payeeIds || [],
+        validatedDescriptions
+      );
+      return { success: true, rewritten };
+    } catch (error: any) {
+      console.error("Error merging payees:", error);
+      return { success: false, error: error.message };
+    }
+  }
+);
+
+// Delete Transaction
+ipcMain.handle("delete-transaction", async (_event, transactionId: string) => {
+  try {
+    if (!db) {
+      return { success: false, error: "Database not initialized" };
+    }
+
+    db.deleteTransaction(transactionId);
+    return { success: true };
+  } catch (error: any) {
+    console.error("Delete transaction error:", error);
+    return { success: false, error: error.message };
+  }
+});
+
+// Reconciliation handlers
+ipcMain.handle(
+  "db:find-unreconciled-by-amount",
+  async (
+    _event,
+    userId: number,
+    amount: number,
+    dateFrom: string | null,
+    dateTo: string | null
+  ) => {
+    try {
+      if (!db) {
+        return { success: false, error: "Database not initialized" };
+      }
+
+      const transactions = db
+        .findUnreconciledTransactionsByAmount(
+          userId,
+          toCents(amount),
+          dateFrom,
+          dateTo
+        )
+        .map((t: any) => ({ ...t, amount: fromCents(t.amount) }));
+      return { success: true, transactions };
+    } catch (error: any) {
+      console.error("Error finding unreconciled transactions:", error);
+      return { success: false, error: error.message };
+    }
+  }
+);
+
+ipcMain.handle(
+  "db:find-by-amount",
+  async (
+    _event,
+    userId: number,
+    amount: number,
+    dateFrom: string | null,
+    dateTo: string | null
+  ) => {
+    try {
+      if (!db) {
+        return { success: false, error: "Database not initialized" };
+      }
+
+      const transactions = db
+        .findTransactionsByAmount(userId, toCents(amount), dateFrom, dateTo)
+        .map((t: any) => ({ ...t, amount: fromCents(t.amount) }));
+      return { success: true, transactions };
+    } catch (error: any) {
+      console.error("Error finding transactions by amount:", error);
+      return { success: false, error: error.message };
+    }
+  }
+);
+
+ipcMain.handle(
+  "db:mark-reconciled",
+  async (_event, transactionId: string, isReconciled: boolean) => {
+    try {
+      if (!db) {
+        return { success: false, error: "Database not initialized" };
+      }
+
+      db.markTransactionReconciled(transactionId, isReconciled);
+      return { success: true };
+    } catch (error: any) {
+      console.error("Error marking transaction as reconciled:", error);
+      return { success: false, error: error.message };
+    }
+  }
+);
+
+ipcMain.handle("db:get-unreconciled", async (_event, userId: number) => {
+  try {
+    if (!db) {
+      return { success: false, error: "Database not initialized" };
+    }
+
+    const transactions = db.getUnreconciledTransactionsByUserId(userId);
     return { success: true, transactions };
   } catch (error: any) {
     console.error("Error getting unreconciled transactions:", error);
@@ -883,6 +3392,162 @@ ipcMain.handle("db:get-unreconciled", async (_event, userId: number) => {
   }
 });
 
+// Statement reconciliation session handlers
+ipcMain.handle(
+  "reconciliation:start",
+  async (_event, userId: number, statement: any) => {
+    try {
+      if (!db) {
+        return { success: false, error: "Database not initialized" };
+      }
+
+      let validated: any;
+      try {
+        validated = validateReconciliationData(statement);
+      } catch (validationError: any) {
+        return {
+          success: false,
+          error: `Invalid statement data: ${validationError.message}`,
+        };
+      }
+
+      if (validated.accountId) {
+        const account = db.getAccountById(validated.accountId);
+        if (!account || account.user_id !== userId) {
+          return { success: false, error: "Account not found" };
+        }
+      }
+      if (validated.importBatchId) {
+        const batch = db.getImportBatchById(validated.importBatchId);
+        if (
+          !batch ||
+          batch.user_id !== userId ||
+          batch.account_id !== validated.accountId
+        ) {
+          return { success: false, error: "Import not found" };
+        }
+      }
+
+      const id = db.startReconciliation({
+        userId,
+        accountId: validated.accountId,
+        statementDate: validated.statementDate,
+        beginningBalance: toCents(validated.beginningBalance),
+        endingBalance: toCents(validated.endingBalance),
+        importBatchId: validated.importBatchId,
+      });
+      return { success: true, reconciliation: getReconciliationView(id) };
+    } catch (error: any) {
+      console.error("Error starting reconciliation:", error);
+      return { success: false, error: error.message };
+    }
+  }
+);
+
+ipcMain.handle(
+  "reconciliation:resume",
+  async (_event, userId: number, accountId: string | null) => {
+    try {
+      if (!db) {
+        return { success: false, error: "Database not initialized" };
+      }
+
+      const inProgress = db.getInProgressReconciliation(
+        userId,
+        accountId || null
+      );
+      return {
+        success: true,
+        reconciliation: inProgress ? getReconciliationView(inProgress.id) : null,
+        suggestedBeginningBalance: fromCents(
+          db.getSuggestedBeginningBalance(userId, accountId || null)
+        ),
+      };
+    } catch (error: any) {
+      console.error("Error resuming reconciliation:", error);
+      return { success: false, error: error.message };
+    }
+  }
+);
+
+ipcMain.handle(
+  "reconciliation:list",
+  async (_event, userId: number, accountId: string | null) => {
+    try {
+      if (!db) {
+        return { success: false, error: "Database not initialized" };
+      }
+
+      const reconciliations = db
+        .getReconciliationsByAccount(userId, accountId || null)
+        .map((r: any) => getReconciliationView(r.id));
+      return { success: true, reconciliations };
+    } catch (error: any) {
+      console.error("Error listing reconciliations:", error);
+      return { success: false, error: error.message };
+    }
+  }
+);
+
+ipcMain.handle(
+  "reconciliation:set-cleared",
+  async (
+    _event,
+    reconciliationId: number,
+    transactionId: string,
+    cleared: boolean
+  ) => {
+    try {
+      if (!db) {
+        return { success: false, error: "Database not initialized" };
+      }
+
+      db.setReconciliationCleared(reconciliationId, transactionId, cleared);
+      return {
+        success: true,
+        reconciliation: getReconciliationView(reconciliationId),
+      };
+    } catch (error: any) {
+      console.error("Error updating cleared transaction:", error);
+      return { success: false, error: error.message };
+    }
+  }
+);
+
+ipcMain.handle(
+  "reconciliation:finish",
+  async (_event, reconciliationId: number) => {
+    try {
+      if (!db) {
+        return { success: false, error: "Database not initialized" };
+      }
+
+      db.finishReconciliation(reconciliationId);
+      return {
+        success: true,
+        reconciliation: getReconciliationView(reconciliationId),
+      };
+    } catch (error: any) {
+      console.error("Error finishing reconciliation:", error);
+      return { success: false, error: error.message };
+    }
+  }
+);
+
+ipcMain.handle("reconciliation:undo", async (_event, reconciliationId: number) => {
+  try {
+    if (!db) {
+      return { success: false, error: "Database not initialized" };
+    }
+
+    db.undoReconciliation(reconciliationId);
+    return { success: true };
+  } catch (error: any) {
+    console.error("Error undoing reconciliation:", error);
+    return { success: false, error: error.message };
+  }
+});
+
 app.whenReady().then(async () => {
   // Initialize encryption key manager
   encryptionKeyManager = new EncryptionKeyManager(app);
@@ -0,0 +1,286 @@
+import {
+  buildImportPreview,
+  canonicalPayee,
+  descriptionSimilarity,
+  findMatches,
+  findPayeeAlias,
+  subsetsSummingTo,
+} from "./matcher";
+
+describe("Matcher", () => {
+  const row = {
+    rowNumber: 2,
+    date: "2024-01-10",
+    description: "Coffee",
+    amount: 450,
+    type: "debit" as const,
+    category: null,
+    checkNumber: null,
+  };
+
+  describe("descriptionSimilarity", () => {
+    const aliases = [
+      { payee: "Blue Bottle Coffee", pattern: "sq blue bottle" },
+    ];
+
+    test("should resolve bank text to the aliased payee", () => {
+      expect(
+        canonicalPayee("POS PURCHASE SQ *BLUE BOTTLE 0423 OAKLAND CA", aliases)
+      ).toBe("blue bottle coffee");
+      expect(canonicalPayee("Corner Deli #12", aliases)).toBe("corner deli 12");
+    });
+
+    test("should prefer the longest alias found in the bank text", () => {
+      const square = { payee: "Square", pattern: "SQ" };
+      const both = [square, ...aliases];
+
+      expect(findPayeeAlias("SQ *BLUE BOTTLE 0423", both)).toBe(aliases[0]);
+      expect(findPayeeAlias("SQ *CORNER DELI", both)).toBe(square);
+      // Patterns match whole words only
+      expect(findPayeeAlias("SQUARE ONE BOOKS", both)).toBeUndefined();
+    });
+
+    test("should score shared payee words, ignoring store numbers", () => {
+      expect(descriptionSimilarity("Corner Deli #12", "CORNER DELI 0099")).toBe(
+        1
+      );
+      expect(descriptionSimilarity("City Water Bill", "City Water")).toBe(0.8);
+      expect(descriptionSimilarity("Rent", "Coffee")).toBe(0);
+      expect(descriptionSimilarity("Rent", "")).toBe(0);
+    });
+
+    test("should treat descriptions of the same aliased payee as equal", () => {
+      expect(
+        descriptionSimilarity(
+          "SQ *BLUE BOTTLE 0423",
+          "Blue Bottle Coffee",
+          aliases
+        )
+      ).toBe(1);
+    });
+  });
+
+  describe("findMatches", () => {
+    test("should only propose same-amount transactions within the window", () => {
+      const candidates = [
+        { id: "near", date: "2024-01-09", amount: 450, type: "debit" },
+        { id: "far", date: "2024-02-01", amount: 450, type: "debit" },
+        { id: "other-amount", date: "2024-01-10", amount: 451, type: "debit" },
+      ];
+
+      const matches = findMatches(row, candidates);
+      expect(matches.map((m) => m.transaction.id)).toEqual(["near"]);
+      expect(matches[0].daysApart).toBe(1);
+    });
+
+    test("should rank same type and closer dates first", () => {
+      const candidates = [
+        { id: "credit-same-day", date: "2024-01-10", amount: 450, type: "credit" },
+        { id: "debit-two-days", date: "2024-01-12", amount: 450, type: "debit" },
+        { id: "debit-same-day", date: "2024-01-10", amount: 450, type: "debit" },
+      ];
+
+      expect(findMatches(row, candidates).map((m) => m.transaction.id)).toEqual([
+        "debit-same-day",
+        "debit-two-days",
+        "credit-same-day",
+      ]);
+    });
+
+    test("should explain the confidence score", () => {
+      const [match] = findMatches(row, [
+        {
+          id: "t1",
+          date: "2024-01-10",
+          description: "COFFEE",
+          amount: 450,
+          type: "debit",
+        },
+      ]);
+
+      expect(match.confidence).toBe(100);
+      expect(match.reason).toBe("Exact amount, same day, same payee");
+    });
+
+    test("should accept a close amount when the payee matches", () => {
+      const dinner = { ...row, description: "Bistro Verde", amount: 6000 };
+      const candidates = [
+        {
+          id: "with-tip",
+          date: "2024-01-11",
+          description: "BISTRO VERDE",
+          amount: 5000,
+          type: "debit",
+        },
+        {
+          id: "other-payee",
+          date: "2024-01-10",
+          description: "Hardware",
+          amount: 5900,
+          type: "debit",
+        },
+      ];
+
+      const matches = findMatches(dinner, candidates);
+      expect(matches.map((m) => m.transaction.id)).toEqual(["with-tip"]);
+      expect(matches[0].reason).toBe(
+        "Amount off by 10.00, 1 day apart, same payee"
+      );
+      expect(matches[0].confidence).toBeLessThan(80);
+    });
+
+    test("should use check numbers", () => {
+      const check = { ...row, description: "CHECK", checkNumber: "0101" };
+      const candidates = [
+        {
+          id: "check-101",
+          date: "2024-01-06",
+          description: "Plumber",
+          amount: 450,
+          type: "debit",
+          check_number: "101",
+        },
+        {
+          id: "check-102",
+          date: "2024-01-10",
+          description: "Plumber",
+          amount: 450,
+          type: "debit",
+          check_number: "102",
+        },
+      ];
+
+      const matches = findMatches(check, candidates);
+      expect(matches.map((m) => m.transaction.id)).toEqual(["check-101"]);
+      expect(matches[0].reason).toContain("check #101");
+    });
+  });
+
+  describe("buildImportPreview", () => {
+    const coffee = {
+      id: "coffee",
+      date: "2024-01-10",
+      description: "Coffee",
+      amount: 450,
+      type: "debit",
+      is_reconciled: 0,
+    };
+
+    test("should auto-pair confident matches", () => {
+      const [preview] = buildImportPreview([row], [coffee]);
+
+      expect(preview.matches[0].transaction.id).toBe("coffee");
+      expect(preview.autoMatchId).toBe("coffee");
+    });
+
+    test("should leave weak or close calls for review", () => {
+      // No description to confirm the payee
+      const [weak] = buildImportPreview(
+        [row],
+        [{ ...coffee, description: "" }]
+      );
+      expect(weak.matches).toHaveLength(1);
+      expect(weak.autoMatchId).toBeNull();
+
+      // Two equally good candidates
+      const [tied] = buildImportPreview(
+        [row],
+        [coffee, { ...coffee, id: "coffee-2" }]
+      );
+      expect(tied.autoMatchId).toBeNull();
+
+      // Already reconciled against an earlier statement
+      const [reconciled] = buildImportPreview(
+        [row],
+        [{ ...coffee, is_reconciled: 1 }]
+      );
+      expect(reconciled.autoMatchId).toBeNull();
+    });
+
+    test("should pair each register transaction at most once", () => {
+      const preview = buildImportPreview(
+        [{ ...row, date: "2024-01-12" }, row],
+        [coffee]
+      );
+
+      expect(preview.map((r) => r.autoMatchId)).toEqual([null, "coffee"]);
+    });
+  });
+
+  describe("subsetsSummingTo", () => {
+    test("should find combinations adding up exactly", () => {
+      expect(subsetsSummingTo([500, 1200, 300, 700], 1500)).toEqual([
+        [1, 2],
+        [3, 0, 2],
+      ]);
+      expect(subsetsSummingTo([500, 700], 1500)).toEqual([]);
+    });
+  });
+
+  describe("group matches", () => {
+    const check = (id: string, date: string, amount: number) => ({
+      id,
+      date,
+      description: `Check from ${id}`,
+      amount,
+      type: "credit",
+      is_reconciled: 0,
+    });
+
+    test("should propose register transactions that make up one deposit", () => {
+      const deposit = {
+        ...row,
+        description: "DEPOSIT",
+        amount: 45000,
+        type: "credit" as const,
+      };
+      const [preview] = buildImportPreview(
+        [deposit],
+        [
+          check("alice", "2024-01-08", 20000),
+          check("bob", "2024-01-09", 25000),
+          check("carol", "2024-01-09", 7000),
+          { ...check("reconciled", "2024-01-09", 45000), is_reconciled: 1 },
+        ]
+      );
+
+      expect(preview.groupMatches).toEqual([
+        expect.objectContaining({
+          kind: "many_to_one",
+          rowIndexes: [0],
+          reason: "2 transactions add up to the exact amount, within 2 days",
+        }),
+      ]);
+      expect(
+        preview.groupMatches[0].transactions.map((t: any) => t.id)
+      ).toEqual(["bob", "alice"]);
+      expect(preview.groupMatches[0].confidence).toBeLessThan(80);
+    });
+
+    test("should propose bank lines that make up one transaction", () => {
+      const preview = buildImportPreview(
+        [
+          { ...row, description: "PAYMENT 1 OF 2", amount: 30000 },
+          { ...row, description: "PAYMENT 2 OF 2", amount: 20000 },
+          { ...row, description: "Unrelated", amount: 1234 },
+        ],
+        [
+          {
+            id: "tuition",
+            date: "2024-01-09",
+            description: "Tuition",
+            amount: 50000,
+            type: "debit",
+            is_reconciled: 0,
+          },
+        ]
+      );
+
+      const [group] = preview[0].groupMatches;
+      expect(group).toMatchObject({ kind: "one_to_many", rowIndexes: [0, 1] });
+      expect(group.transactions[0].id).toBe("tuition");
+      expect(preview[1].groupMatches).toEqual([group]);
+      expect(preview[2].groupMatches).toEqual([]);
+    });
+  });
+});
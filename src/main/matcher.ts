@@ -0,0 +1,463 @@
+import {
+  ImportGroupMatch,
+  ImportMatch,
+  ImportPreviewRow,
+  ImportRow,
+  normalizeDescription,
+} from "./csv-import";
+import { formatCents } from "./money";
+
+/**
+ * Reconciliation matching: scores the register transactions an import
+ * row could be on amount, date distance, check number and description,
+ * and pairs the rows whose best match is clear enough not to need a
+ * review. Also proposes groups whose amounts add up: several register
+ * transactions for one bank line, or several bank lines for one register
+ * transaction. Amounts are integer cents.
+ */
+
+/**
+ * A canonical payee and a pattern found in the bank's descriptions for
+ * it, e.g. "Blue Bottle Coffee" for "SQ *BLUE BOTTLE"
+ */
+interface PayeeAlias {
+  payee: string;
+  pattern: string;
+}
+
+// Candidates further apart than this are never proposed
+const MATCH_WINDOW_DAYS = 10;
+const MAX_MATCHES = 10;
+
+// Points for each signal; a perfect match without a check number
+// scores 100
+const AMOUNT_POINTS = 45;
+const DATE_POINTS = 25;
+const DESCRIPTION_POINTS = 30;
+const CHECK_NUMBER_POINTS = 20;
+const OPPOSITE_TYPE_PENALTY = 25;
+
+// Card transactions often post for more than was recorded (tips), so
+// amounts this close still match when the descriptions agree
+const AMOUNT_TOLERANCE = 0.2;
+const NEAR_AMOUNT_POINTS = 20;
+const NEAR_AMOUNT_MIN_SIMILARITY = 0.5;
+
+// Weaker candidates are not worth showing
+const MIN_CONFIDENCE = 30;
+
+// A row is paired without review when its best match reaches this
+// confidence and is this far ahead of the runner-up
+const AUTO_MATCH_CONFIDENCE = 80;
+const AUTO_MATCH_MARGIN = 15;
+
+// Group matching is a bounded subset-sum search over the nearest
+// unreconciled transactions. Groups always need review, so their
+// confidence stays below AUTO_MATCH_CONFIDENCE.
+const MAX_GROUP_SIZE = 6;
+const MAX_GROUP_CANDIDATES = 20;
+const MAX_GROUP_MATCHES = 3;
+const MAX_GROUP_SEARCH_STEPS = 20000;
+const GROUP_AMOUNT_POINTS = 50;
+const GROUP_SIZE_PENALTY = 2; // per member beyond two
+
+function daysBetween(a: string, b: string): number {
+  const msPerDay = 1000 * 60 * 60 * 24;
+  return Math.round(
+    Math.abs(Date.parse(`${a}T00:00:00Z`) - Date.parse(`${b}T00:00:00Z`)) /
+      msPerDay
+  );
+}
+
+/**
+ * The alias whose pattern appears in a bank description as whole words.
+ * The longest pattern wins, so "sq blue bottle" beats "sq".
+ */
+function findPayeeAlias<T extends PayeeAlias>(
+  description: string,
+  aliases: T[]
+): T | undefined {
+  const normalized = ` ${normalizeDescription(description)} `;
+  let found: T | undefined;
+  let foundLength = 0;
+  for (const alias of aliases) {
+    const pattern = normalizeDescription(alias.pattern);
+    if (
+      pattern &&
+      pattern.length > foundLength &&
+      normalized.includes(` ${pattern} `)
+    ) {
+      found = alias;
+      foundLength = pattern.length;
+    }
+  }
+  return found;
+}
+
+/**
+ * The canonical payee for a description: the payee of the alias found
+ * in it, otherwise the normalized description
+ */
+function canonicalPayee(description: string, aliases: PayeeAlias[]): string {
+  const alias = findPayeeAlias(description, aliases);
+  return alias
+    ? normalizeDescription(alias.payee)
+    : normalizeDescription(description);
+}
+
+// Words that identify a payee; store numbers and single letters do not
+function payeeWords(payee: string): Set<string> {
+  return new Set(
+    payee.split(" ").filter((word) => word.length > 1 && !/^\d+$/.test(word))
+  );
+}
+
+/**
+ * How alike two descriptions are, from 0 to 1: 1 when both resolve to
+ * the same payee, otherwise the share of payee words they have in common
+ */
+function descriptionSimilarity(
+  a: string,
+  b: string,
+  aliases: PayeeAlias[] = []
+): number {
+  const payeeA = canonicalPayee(a, aliases);
+  const payeeB = canonicalPayee(b, aliases);
+  if (!payeeA || !payeeB) return 0;
+  if (payeeA === payeeB) return 1;
+
+  const wordsA = payeeWords(payeeA);
+  const wordsB = payeeWords(payeeB);
+  if (wordsA.size === 0 || wordsB.size === 0) return 0;
+
+  let shared = 0;
+  wordsA.forEach((word) => {
+    if (wordsB.has(word)) shared++;
+  });
+  return (2 * shared) / (wordsA.size + wordsB.size);
+}
+
+function normalizeCheckNumber(value: string | null | undefined): string {
+  return (value || "").replace(/^0+/, "").trim();
+}
+
+/**
+ * Score one register transaction against an import row. Returns null
+ * when it cannot be the same transaction: outside the date window, a
+ * different check number, or an amount that neither matches nor is close
+ * with a similar description.
+ */
+function scoreMatch(
+  row: ImportRow,
+  transaction: any,
+  aliases: PayeeAlias[]
+): ImportMatch | null {
+  const daysApart = daysBetween(row.date, transaction.date);
+  if (daysApart > MATCH_WINDOW_DAYS) return null;
+
+  const rowCheck = normalizeCheckNumber(row.checkNumber);
+  const transactionCheck = normalizeCheckNumber(transaction.check_number);
+  if (rowCheck && transactionCheck && rowCheck !== transactionCheck) {
+    return null;
+  }
+
+  const similarity = descriptionSimilarity(
+    row.description,
+    transaction.description || "",
+    aliases
+  );
+  const amountDifference = Math.abs(Math.abs(transaction.amount) - row.amount);
+  const reasons: string[] = [];
+  let score: number;
+
+  if (amountDifference === 0) {
+    score = AMOUNT_POINTS;
+    reasons.push("exact amount");
+  } else if (
+    amountDifference <= row.amount * AMOUNT_TOLERANCE &&
+    similarity >= NEAR_AMOUNT_MIN_SIMILARITY
+  ) {
+    score =
+      NEAR_AMOUNT_POINTS *
+      (1 - amountDifference / (row.amount * AMOUNT_TOLERANCE));
+    reasons.push(`amount off by ${formatCents(amountDifference)}`);
+  } else {
+    return null;
+  }
+
+  score += DATE_POINTS * (1 - daysApart / (MATCH_WINDOW_DAYS + 1));
+  reasons.push(
+    daysApart === 0
+      ? "same day"
+      : `${daysApart} day${daysApart === 1 ? "" : "s"} apart`
+  );
+
+  if (rowCheck && rowCheck === transactionCheck) {
+    score += CHECK_NUMBER_POINTS;
+    reasons.push(`check #${rowCheck}`);
+  }
+
+  score += DESCRIPTION_POINTS * similarity;
+  if (similarity === 1) {
+    reasons.push("same payee");
+  } else if (similarity > 0) {
+    reasons.push("similar description");
+  }
+
+  if (transaction.type !== row.type) {
+    score -= OPPOSITE_TYPE_PENALTY;
+    reasons.push(
+      row.type === "debit" ? "recorded as a deposit" : "recorded as a payment"
+    );
+  }
+
+  const confidence = Math.max(0, Math.min(100, Math.round(score)));
+  const reason = reasons.join(", ");
+  return {
+    transaction,
+    confidence,
+    reason: reason.charAt(0).toUpperCase() + reason.slice(1),
+    daysApart,
+  };
+}
+
+/**
+ * Propose existing register transactions an import row could be, best
+ * first
+ */
+function findMatches(
+  row: ImportRow,
+  candidates: any[],
+  aliases: PayeeAlias[] = []
+): ImportMatch[] {
+  const matches: ImportMatch[] = [];
+
+  for (const transaction of candidates) {
+    const match = scoreMatch(row, transaction, aliases);
+    if (match && match.confidence >= MIN_CONFIDENCE) {
+      matches.push(match);
+    }
+  }
+
+  matches.sort(
+    (a, b) => b.confidence - a.confidence || a.daysApart - b.daysApart
+  );
+  return matches.slice(0, MAX_MATCHES);
+}
+
+/**
+ * Pick the rows that can be paired without review. A row qualifies when
+ * its best match is confident, clearly ahead of the next one and not
+ * reconciled yet; each register transaction is paired at most once, the
+ * most confident row winning.
+ */
+function autoPairMatches(rows: ImportPreviewRow[]): void {
+  const proposals = rows
+    .map((row, index) => ({
+      index,
+      best: row.matches[0],
+      next: row.matches[1],
+    }))
+    .filter(
+      ({ best, next }) =>
+        best &&
+        best.confidence >= AUTO_MATCH_CONFIDENCE &&
+        best.transaction.is_reconciled !== 1 &&
+        (!next || best.confidence - next.confidence >= AUTO_MATCH_MARGIN)
+    )
+    .sort((a, b) => b.best.confidence - a.best.confidence);
+
+  const paired = new Set<string>();
+  for (const { index, best } of proposals) {
+    if (paired.has(best.transaction.id)) continue;
+    paired.add(best.transaction.id);
+    rows[index].autoMatchId = best.transaction.id;
+  }
+}
+
+/**
+ * Combinations of two or more of the amounts that add up to the target
+ * exactly, as indexes into amounts. Amounts must be positive and below
+ * the target. The search stops after MAX_GROUP_MATCHES combinations or
+ * MAX_GROUP_SEARCH_STEPS steps.
+ */
+function subsetsSummingTo(amounts: number[], target: number): number[][] {
+  // Largest first, so the running total reaches the target quickly
+  const order = amounts
+    .map((_, i) => i)
+    .sort((a, b) => amounts[b] - amounts[a]);
+  const rest = new Array<number>(order.length + 1).fill(0);
+  for (let k = order.length - 1; k >= 0; k--) {
+    rest[k] = rest[k + 1] + amounts[order[k]];
+  }
+
+  const results: number[][] = [];
+  const chosen: number[] = [];
+  let steps = 0;
+
+  const search = (start: number, remaining: number): void => {
+    if (remaining === 0) {
+      results.push(chosen.map((k) => order[k]));
+      return;
+    }
+    if (chosen.length === MAX_GROUP_SIZE) return;
+
+    for (let k = start; k < order.length; k++) {
+      if (
+        results.length >= MAX_GROUP_MATCHES ||
+        ++steps > MAX_GROUP_SEARCH_STEPS ||
+        rest[k] < remaining // the smaller amounts left cannot get there
+      ) {
+        return;
+      }
+      const amount = amounts[order[k]];
+      if (amount > remaining) continue;
+
+      chosen.push(k);
+      search(k + 1, remaining - amount);
+      chosen.pop();
+    }
+  };
+
+  search(0, target);
+  return results;
+}
+
+function groupConfidence(daysApart: number, size: number): number {
+  const score =
+    GROUP_AMOUNT_POINTS +
+    DATE_POINTS * (1 - daysApart / (MATCH_WINDOW_DAYS + 1)) -
+    GROUP_SIZE_PENALTY * (size - 2);
+  return Math.max(0, Math.round(score));
+}
+
+function groupReason(what: string, daysApart: number): string {
+  return daysApart === 0
+    ? `${what} add up to the exact amount, all on the same day`
+    : `${what} add up to the exact amount, within ${daysApart} day${
+        daysApart === 1 ? "" : "s"
+      }`;
+}
+
+/**
+ * Propose groups for every row that was not auto-paired: register
+ * transactions adding up to one bank line (many_to_one) and bank lines
+ * adding up to one register transaction (one_to_many). Only unreconciled
+ * transactions of the same type and within the date window take part.
+ */
+function addGroupMatches(rows: ImportPreviewRow[], candidates: any[]): void {
+  const paired = new Set(rows.map((row) => row.autoMatchId));
+  const open = candidates.filter(
+    (t) => t.is_reconciled !== 1 && !paired.has(t.id)
+  );
+  const openRows = rows
+    .map((row, index) => ({ row, index }))
+    .filter(({ row }) => !row.autoMatchId);
+  let nextId = 1;
+
+  for (const { row, index } of openRows) {
+    const nearby = open
+      .map((transaction) => ({
+        transaction,
+        daysApart: daysBetween(row.date, transaction.date),
+      }))
+      .filter(
+        ({ transaction, daysApart }) =>
+          transaction.type === row.type &&
+          daysApart <= MATCH_WINDOW_DAYS &&
+          Math.abs(transaction.amount) < row.amount
+      )
+      .sort((a, b) => a.daysApart - b.daysApart)
+      .slice(0, MAX_GROUP_CANDIDATES);
+
+    const subsets = subsetsSummingTo(
+      nearby.map(({ transaction }) => Math.abs(transaction.amount)),
+      row.amount
+    );
+    for (const subset of subsets) {
+      const daysApart = Math.max(...subset.map((i) => nearby[i].daysApart));
+      row.groupMatches.push({
+        id: `group-${nextId++}`,
+        kind: "many_to_one",
+        transactions: subset.map((i) => nearby[i].transaction),
+        rowIndexes: [index],
+        confidence: groupConfidence(daysApart, subset.length),
+        reason: groupReason(`${subset.length} transactions`, daysApart),
+      });
+    }
+  }
+
+  for (const transaction of open) {
+    const amount = Math.abs(transaction.amount);
+    const nearby = openRows
+      .map(({ row, index }) => ({
+        row,
+        index,
+        daysApart: daysBetween(row.date, transaction.date),
+      }))
+      .filter(
+        ({ row, daysApart }) =>
+          row.type === transaction.type &&
+          daysApart <= MATCH_WINDOW_DAYS &&
+          row.amount < amount
+      )
+      .sort((a, b) => a.daysApart - b.daysApart)
+      .slice(0, MAX_GROUP_CANDIDATES);
+    if (nearby.length < 2) continue;
+
+    const subsets = subsetsSummingTo(
+      nearby.map(({ row }) => row.amount),
+      amount
+    );
+    for (const subset of subsets) {
+      const daysApart = Math.max(...subset.map((i) => nearby[i].daysApart));
+      const group: ImportGroupMatch = {
+        id: `group-${nextId++}`,
+        kind: "one_to_many",
+        transactions: [transaction],
+        rowIndexes: subset.map((i) => nearby[i].index).sort((a, b) => a - b),
+        confidence: groupConfidence(daysApart, subset.length),
+        reason: groupReason(`${subset.length} bank lines`, daysApart),
+      };
+      for (const i of subset) {
+        nearby[i].row.groupMatches.push(group);
+      }
+    }
+  }
+
+  for (const row of rows) {
+    row.groupMatches.sort((a, b) => b.confidence - a.confidence);
+  }
+}
+
+/**
+ * Attach match proposals from the user's register to each parsed row,
+ * auto-pair the clear ones and propose groups for the rest
+ */
+function buildImportPreview(
+  rows: ImportRow[],
+  candidates: any[],
+  aliases: PayeeAlias[] = []
+): ImportPreviewRow[] {
+  const preview: ImportPreviewRow[] = rows.map((row) => ({
+    ...row,
+    matches: findMatches(row, candidates, aliases),
+    autoMatchId: null,
+    groupMatches: [],
+  }));
+  autoPairMatches(preview);
+  addGroupMatches(preview, candidates);
+  return preview;
+}
+
+export {
+  AUTO_MATCH_CONFIDENCE,
+  MATCH_WINDOW_DAYS,
+  PayeeAlias,
+  buildImportPreview,
+  canonicalPayee,
+  descriptionSimilarity,
+  findMatches,
+  findPayeeAlias,
+  subsetsSummingTo,
+};
@@ -0,0 +1,916 @@
+import Database from "better-sqlite3-multiple-ciphers";
+import fs from "fs";
+import path from "path";
+
+/**
+ * Helpers a migration may need from the database that is being upgraded
+ */
+interface MigrationContext {
+  encrypt(text: string | null): string | null;
+  blindIndex(value: string): string;
+}
+
+interface Migration {
+  version: number;
+  description: string;
+  up(db: Database.Database, context: MigrationContext): void;
+}
+
+interface MigrationResult {
+  fromVersion: number;
+  toVersion: number;
+  // A pre-upgrade copy that could not be removed after the upgrade
+  backupPath: string | null;
+}
+
+/**
+ * Raised when a database was written by a newer version of the app.
+ * Opening it would risk silently dropping data the newer schema relies on.
+ */
+class SchemaVersionError extends Error {
+  constructor(databaseVersion: number, supportedVersion: number) {
+    super(
+      `Database schema version ${databaseVersion} is newer than this version of BankRec supports (${supportedVersion}). Please update the app.`
+    );
+    this.name = "SchemaVersionError";
+  }
+}
+
+/**
+ * Raised when a migration fails. Earlier migrations stay applied, so the
+ * copy taken before the upgrade is kept and named for the user.
+ */
+class MigrationError extends Error {
+  readonly backupPath: string | null;
+
+  constructor(
+    migration: Migration,
+    reason: string,
+    fromVersion: number,
+    backupPath: string | null
+  ) {
+    let message = `Migration ${migration.version} (${migration.description}) failed: ${reason}`;
+    if (backupPath) {
+      message += ` The database as it was before the upgrade was kept at ${backupPath}`;
+      // Fields are encrypted by migration 2
+      message +=
+        fromVersion < 2
+          ? "; its fields are not encrypted, so delete it once your data is safe."
+          : ".";
+    }
+    super(message);
+    this.name = "MigrationError";
+    this.backupPath = backupPath;
+  }
+}
+
+function hasColumn(
+  db: Database.Database,
+  table: string,
+  column: string
+): boolean {
+  const columns = db.pragma(`table_info(${table})`) as { name: string }[];
+  return columns.some((c) => c.name === column);
+}
+
+/**
+ * Ordered schema migrations. Each one runs exactly once, inside its own
+ * transaction, and bumps PRAGMA user_version to its version number.
+ * Never edit a migration that has shipped - append a new one instead.
+ */
+const migrations: Migration[] = [
+  {
+    version: 1,
+    description: "Initial schema: users, transactions and categories",
+    up(db) {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS users (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          email TEXT UNIQUE NOT NULL,
+          first_name TEXT,
+          last_name TEXT,
+          address TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS transactions (
+          id TEXT PRIMARY KEY,
+          user_id INTEGER NOT NULL,
+          date TEXT NOT NULL,
+          description TEXT NOT NULL,
+          amount REAL NOT NULL,
+          type TEXT NOT NULL,
+          category TEXT,
+          check_number TEXT,
+          is_reconciled INTEGER DEFAULT 0,
+          account_id TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (user_id) REFERENCES users(id)
+        )
+      `);
+
+      // Databases created before check numbers were tracked
+      if (!hasColumn(db, "transactions", "check_number")) {
+        db.exec(`ALTER TABLE transactions ADD COLUMN check_number TEXT`);
+      }
+
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS categories (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          user_id INTEGER NOT NULL,
+          name TEXT NOT NULL,
+          type TEXT NOT NULL CHECK(type IN ('income', 'expense')),
+          is_default INTEGER DEFAULT 0,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (user_id) REFERENCES users(id),
+          UNIQUE(user_id, name, type)
+        )
+      `);
+
+      db.exec(`
+        CREATE INDEX IF NOT EXISTS idx_transactions_user_id ON transactions(user_id);
+        CREATE INDEX IF NOT EXISTS idx_transactions_date ON transactions(date);
+        CREATE INDEX IF NOT EXISTS idx_transactions_category ON transactions(category);
+        CREATE INDEX IF NOT EXISTS idx_transactions_amount ON transactions(amount);
+        CREATE INDEX IF NOT EXISTS idx_transactions_description ON transactions(description);
+        CREATE INDEX IF NOT EXISTS idx_transactions_is_reconciled ON transactions(is_reconciled);
+        CREATE INDEX IF NOT EXISTS idx_categories_user_id ON categories(user_id);
+      `);
+    },
+  },
+  {
+    version: 2,
+    description: "Encrypt sensitive user and transaction fields at rest",
+    up(db, { encrypt, blindIndex }) {
+      if (!hasColumn(db, "users", "email_hash")) {
+        db.exec(`ALTER TABLE users ADD COLUMN email_hash TEXT`);
+      }
+
+      // Key/value store for database-level settings
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS app_metadata (
+          key TEXT PRIMARY KEY,
+          value TEXT NOT NULL
+        )
+      `);
+
+      // Databases opened by builds that encrypted fields before versioned
+      // migrations existed are already encrypted
+      const alreadyEncrypted = db
+        .prepare("SELECT 1 FROM app_metadata WHERE key = 'field_encryption'")
+        .get();
+
+      if (!alreadyEncrypted) {
+        const users = db.prepare("SELECT * FROM users").all() as any[];
+        const updateUser = db.prepare(`
+          UPDATE users
+          SET email = ?, email_hash = ?, first_name = ?, last_name = ?, address = ?
+          WHERE id = ?
+        `);
+        for (const user of users) {
+          updateUser.run(
+            encrypt(user.email),
+            blindIndex(user.email),
+            encrypt(user.first_name),
+            encrypt(user.last_name),
+            encrypt(user.address),
+            user.id
+          );
+        }
+
+        const transactions = db
+          .prepare("SELECT id, description, check_number FROM transactions")
+          .all() as any[];
+        const updateTransaction = db.prepare(
+          "UPDATE transactions SET description = ?, check_number = ? WHERE id = ?"
+        );
+        for (const transaction of transactions) {
+          updateTransaction.run(
+            encrypt(transaction.description),
+            encrypt(transaction.check_number),
+            transaction.id
+          );
+        }
+
+        db.prepare(
+          "INSERT INTO app_metadata (key, value) VALUES ('field_encryption', '1')"
+        ).run();
+      }
+
+      db.exec(
+        `CREATE UNIQUE INDEX IF NOT EXISTS idx_users_email_hash ON users(email_hash)`
+      );
+    },
+  },
+  {
+    version: 3,
+    description: "Accounts with per-account registers",
+    up(db) {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS accounts (
+          id TEXT PRIMARY KEY,
+          user_id INTEGER NOT NULL,
+          name TEXT NOT NULL,
+          institution TEXT,
+          account_type TEXT NOT NULL CHECK(account_type IN ('checking', 'savings', 'credit_card')),
+          last_four TEXT,
+          opening_balance REAL NOT NULL DEFAULT 0,
+          opening_date TEXT NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (user_id) REFERENCES users(id)
+        )
+      `);
+
+      db.exec(`
+        CREATE INDEX IF NOT EXISTS idx_transactions_account_id ON transactions(account_id);
+        CREATE INDEX IF NOT EXISTS idx_accounts_user_id ON accounts(user_id);
+      `);
+    },
+  },
+  {
+    version: 4,
+    description: "Statement reconciliation sessions",
+    up(db) {
+      // One row per bank statement reconciled
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS reconciliations (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          user_id INTEGER NOT NULL,
+          account_id TEXT,
+          statement_date TEXT NOT NULL,
+          beginning_balance REAL NOT NULL,
+          ending_balance REAL NOT NULL,
+          status TEXT NOT NULL DEFAULT 'in_progress' CHECK(status IN ('in_progress', 'completed')),
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          completed_at DATETIME,
+          FOREIGN KEY (user_id) REFERENCES users(id),
+          FOREIGN KEY (account_id) REFERENCES accounts(id)
+        )
+      `);
+
+      // Transactions cleared in each reconciliation session
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS reconciliation_transactions (
+          reconciliation_id INTEGER NOT NULL,
+          transaction_id TEXT NOT NULL,
+          PRIMARY KEY (reconciliation_id, transaction_id),
+          FOREIGN KEY (reconciliation_id) REFERENCES reconciliations(id) ON DELETE CASCADE,
+          FOREIGN KEY (transaction_id) REFERENCES transactions(id) ON DELETE CASCADE
+        )
+      `);
+
+      db.exec(`
+        CREATE INDEX IF NOT EXISTS idx_reconciliations_account ON reconciliations(user_id, account_id, status);
+        CREATE INDEX IF NOT EXISTS idx_reconciliation_transactions_transaction_id ON reconciliation_transactions(transaction_id);
+      `);
+    },
+  },
+  {
+    version: 5,
+    description: "Store money as integer cents instead of REAL",
+    up(db) {
+      // SQLite cannot change a column's type, so each table is rebuilt:
+      // create the new shape, copy with conversion, drop, rename.
+      // The runner disables foreign keys so the drops do not cascade.
+      db.exec(`
+        CREATE TABLE transactions_new (
+          id TEXT PRIMARY KEY,
+          user_id INTEGER NOT NULL,
+          date TEXT NOT NULL,
+          description TEXT NOT NULL,
+          amount INTEGER NOT NULL CHECK(typeof(amount) = 'integer'),
+          type TEXT NOT NULL,
+          category TEXT,
+          check_number TEXT,
+          is_reconciled INTEGER DEFAULT 0,
+          account_id TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (user_id) REFERENCES users(id)
+        );
+        INSERT INTO transactions_new
+          (id, user_id, date, description, amount, type, category, check_number, is_reconciled, account_id, created_at)
+        SELECT id, user_id, date, description, CAST(ROUND(amount * 100) AS INTEGER),
+          type, category, check_number, is_reconciled, account_id, created_at
+        FROM transactions;
+        DROP TABLE transactions;
+        ALTER TABLE transactions_new RENAME TO transactions;
+
+        CREATE INDEX idx_transactions_user_id ON transactions(user_id);
+        CREATE INDEX idx_transactions_date ON transactions(date);
+        CREATE INDEX idx_transactions_category ON transactions(category);
+        CREATE INDEX idx_transactions_amount ON transactions(amount);
+        CREATE INDEX idx_transactions_description ON transactions(description);
+        CREATE INDEX idx_transactions_is_reconciled ON transactions(is_reconciled);
+        CREATE INDEX idx_transactions_account_id ON transactions(account_id);
+      `);
+
+      db.exec(`
+        CREATE TABLE accounts_new (
+          id TEXT PRIMARY KEY,
+          user_id INTEGER NOT NULL,
+          name TEXT NOT NULL,
+          institution TEXT,
+          account_type TEXT NOT NULL CHECK(account_type IN ('checking', 'savings', 'credit_card')),
+          last_four TEXT,
+          opening_balance INTEGER NOT NULL DEFAULT 0 CHECK(typeof(opening_balance) = 'integer'),
+          opening_date TEXT NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (user_id) REFERENCES users(id)
+        );
+        INSERT INTO accounts_new
+          (id, user_id, name, institution, account_type, last_four, opening_balance, opening_date, created_at)
+        SELECT id, user_id, name, institution, account_type, last_four,
+          CAST(ROUND(opening_balance * 100) AS INTEGER), opening_date, created_at
+        FROM accounts;
+        DROP TABLE accounts;
+        ALTER TABLE accounts_new RENAME TO accounts;
+
+        CREATE INDEX idx_accounts_user_id ON accounts(user_id);
+      `);
+
+      db.exec(`
+        CREATE TABLE reconciliations_new (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          user_id INTEGER NOT NULL,
+          account_id TEXT,
+          statement_date TEXT NOT NULL,
+          beginning_balance INTEGER NOT NULL CHECK(typeof(beginning_balance) = 'integer'),
+          ending_balance INTEGER NOT NULL CHECK(typeof(ending_balance) = 'integer'),
+          status TEXT NOT NULL DEFAULT 'in_progress' CHECK(status IN ('in_progress', 'completed')),
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          completed_at DATETIME,
+          FOREIGN KEY (user_id) REFERENCES users(id),
+          FOREIGN KEY (account_id) REFERENCES accounts(id)
+        );
+        INSERT INTO reconciliations_new
+          (id, user_id, account_id, statement_date, beginning_balance, ending_balance, status, created_at, completed_at)
+        SELECT id, user_id, account_id, statement_date,
+          CAST(ROUND(beginning_balance * 100) AS INTEGER),
+          CAST(ROUND(ending_balance * 100) AS INTEGER),
+          status, created_at, completed_at
+        FROM reconciliations;
+        DROP TABLE reconciliations;
+        ALTER TABLE reconciliations_new RENAME TO reconciliations;
+
+        CREATE INDEX idx_reconciliations_account ON reconciliations(user_id, account_id, status);
+      `);
+    },
+  },
+  {
+    version: 6,
+    description: "Saved CSV import profiles",
+    up(db) {
+      // Per-bank column mappings, recognised by their header signature
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS import_profiles (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          user_id INTEGER NOT NULL,
+          name TEXT NOT NULL,
+          header_signature TEXT,
+          mapping TEXT NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (user_id) REFERENCES users(id)
+        )
+      `);
+
+      db.exec(`
+        CREATE INDEX IF NOT EXISTS idx_import_profiles_signature ON import_profiles(user_id, header_signature);
+      `);
+    },
+  },
+  {
+    version: 7,
+    description: "OFX transaction ids",
+    up(db) {
+      // The bank's FITID for transactions imported from OFX/QFX, so the
+      // same statement can be imported again without duplicates
+      if (!hasColumn(db, "transactions", "fitid")) {
+        db.exec("ALTER TABLE transactions ADD COLUMN fitid TEXT");
+      }
+
+      db.exec(`
+        CREATE INDEX IF NOT EXISTS idx_transactions_fitid ON transactions(user_id, fitid);
+      `);
+    },
+  },
+  {
+    version: 8,
+    description: "Import fingerprints",
+    up(db) {
+      // Identity of the statement row a transaction was imported from or
+      // matched to, so overlapping statements are not imported twice
+      if (!hasColumn(db, "transactions", "import_fingerprint")) {
+        db.exec("ALTER TABLE transactions ADD COLUMN import_fingerprint TEXT");
+      }
+
+      db.exec(`
+        UPDATE transactions SET import_fingerprint = 'fitid:' || fitid
+        WHERE fitid IS NOT NULL AND import_fingerprint IS NULL
+      `);
+
+      db.exec(`
+        CREATE INDEX IF NOT EXISTS idx_transactions_import_fingerprint ON transactions(user_id, import_fingerprint);
+      `);
+    },
+  },
+  {
+    version: 9,
+    description: "Import batches",
+    up(db) {
+      // One row per committed statement import, so a bad import can be
+      // rolled back as a whole
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS import_batches (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          user_id INTEGER NOT NULL,
+          account_id TEXT,
+          format TEXT NOT NULL CHECK(format IN ('csv', 'ofx', 'qif')),
+          file_name TEXT NOT NULL,
+          file_hash TEXT NOT NULL,
+          profile_id INTEGER,
+          created_count INTEGER NOT NULL DEFAULT 0,
+          matched_count INTEGER NOT NULL DEFAULT 0,
+          skipped_count INTEGER NOT NULL DEFAULT 0,
+          imported_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          rolled_back_at DATETIME,
+          FOREIGN KEY (user_id) REFERENCES users(id),
+          FOREIGN KEY (account_id) REFERENCES accounts(id),
+          FOREIGN KEY (profile_id) REFERENCES import_profiles(id) ON DELETE SET NULL
+        )
+      `);
+
+      if (!hasColumn(db, "transactions", "import_batch_id")) {
+        db.exec(
+          "ALTER TABLE transactions ADD COLUMN import_batch_id INTEGER REFERENCES import_batches(id)"
+        );
+      }
+
+      db.exec(`
+        CREATE INDEX IF NOT EXISTS idx_import_batches_user ON import_batches(user_id, imported_at);
+        CREATE INDEX IF NOT EXISTS idx_transactions_import_batch ON transactions(import_batch_id);
+      `);
+    },
+  },
+  {
+    version: 10,
+    description: "Match groups",
+    up(db) {
+      // Accepted group matches: which register transactions and which
+      // bank lines cleared each other when they only add up as a group
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS match_groups (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          user_id INTEGER NOT NULL,
+          account_id TEXT,
+          import_batch_id INTEGER,
+          kind TEXT NOT NULL CHECK(kind IN ('many_to_one', 'one_to_many')),
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (user_id) REFERENCES users(id),
+          FOREIGN KEY (account_id) REFERENCES accounts(id),
+          FOREIGN KEY (import_batch_id) REFERENCES import_batches(id)
+        )
+      `);
+
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS match_group_transactions (
+          group_id INTEGER NOT NULL,
+          transaction_id TEXT NOT NULL,
+          PRIMARY KEY (group_id, transaction_id),
+          FOREIGN KEY (group_id) REFERENCES match_groups(id) ON DELETE CASCADE,
+          FOREIGN KEY (transaction_id) REFERENCES transactions(id) ON DELETE CASCADE
+        )
+      `);
+
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS match_group_lines (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          group_id INTEGER NOT NULL,
+          date TEXT NOT NULL,
+          description TEXT NOT NULL,
+          amount INTEGER NOT NULL,
+          type TEXT NOT NULL CHECK(type IN ('debit', 'credit')),
+          import_fingerprint TEXT,
+          FOREIGN KEY (group_id) REFERENCES match_groups(id) ON DELETE CASCADE
+        )
+      `);
+
+      db.exec(`
+        CREATE INDEX IF NOT EXISTS idx_match_groups_account ON match_groups(user_id, account_id);
+        CREATE INDEX IF NOT EXISTS idx_match_group_transactions_transaction_id ON match_group_transactions(transaction_id);
+        CREATE INDEX IF NOT EXISTS idx_match_group_lines_group ON match_group_lines(group_id);
+      `);
+    },
+  },
+  {
+    version: 11,
+    description: "Statement lines",
+    up(db) {
+      // Every bank line an import created or matched a transaction from,
+      // as the bank sent it, and which register transactions it cleared
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS statement_lines (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          user_id INTEGER NOT NULL,
+          account_id TEXT,
+          import_batch_id INTEGER,
+          date TEXT NOT NULL,
+          description TEXT NOT NULL,
+          amount INTEGER NOT NULL,
+          type TEXT NOT NULL CHECK(type IN ('debit', 'credit')),
+          check_number TEXT,
+          fitid TEXT,
+          import_fingerprint TEXT,
+          raw_data TEXT,
+          imported_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (user_id) REFERENCES users(id),
+          FOREIGN KEY (account_id) REFERENCES accounts(id),
+          FOREIGN KEY (import_batch_id) REFERENCES import_batches(id)
+        )
+      `);
+
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS statement_line_links (
+          statement_line_id INTEGER NOT NULL,
+          transaction_id TEXT NOT NULL,
+          match_group_id INTEGER,
+          linked_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          PRIMARY KEY (statement_line_id, transaction_id),
+          FOREIGN KEY (statement_line_id) REFERENCES statement_lines(id) ON DELETE CASCADE,
+          FOREIGN KEY (transaction_id) REFERENCES transactions(id) ON DELETE CASCADE,
+          FOREIGN KEY (match_group_id) REFERENCES match_groups(id) ON DELETE CASCADE
+        )
+      `);
+
+      // Bank lines of match groups become statement lines linked to each
+      // transaction of their group
+      const lines = db
+        .prepare(
+          `
+        SELECT l.*, g.user_id, g.account_id, g.import_batch_id, g.created_at
+        FROM match_group_lines l JOIN match_groups g ON g.id = l.group_id
+      `
+        )
+        .all() as any[];
+      const insertLine = db.prepare(`
+        INSERT INTO statement_lines
+        (user_id, account_id, import_batch_id, date, description, amount, type, import_fingerprint, imported_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `);
+      const linkGroup = db.prepare(`
+        INSERT OR IGNORE INTO statement_line_links (statement_line_id, transaction_id, match_group_id, linked_at)
+        SELECT ?, transaction_id, group_id, ? FROM match_group_transactions WHERE group_id = ?
+      `);
+
+      for (const line of lines) {
+        // Descriptions are copied as stored (encrypted)
+        const lineId = insertLine.run(
+          line.user_id,
+          line.account_id,
+          line.import_batch_id,
+          line.date,
+          line.description,
+          line.amount,
+          line.type,
+          line.import_fingerprint,
+          line.created_at
+        ).lastInsertRowid;
+        linkGroup.run(lineId, line.created_at, line.group_id);
+      }
+
+      db.exec("DROP TABLE match_group_lines");
+      db.exec("DROP TABLE match_group_transactions");
+
+      db.exec(`
+        CREATE INDEX IF NOT EXISTS idx_statement_lines_account ON statement_lines(user_id, account_id);
+        CREATE INDEX IF NOT EXISTS idx_statement_lines_import_batch ON statement_lines(import_batch_id);
+        CREATE INDEX IF NOT EXISTS idx_statement_line_links_transaction_id ON statement_line_links(transaction_id);
+        CREATE INDEX IF NOT EXISTS idx_statement_line_links_match_group ON statement_line_links(match_group_id);
+      `);
+    },
+  },
+  {
+    version: 12,
+    description: "Transaction splits",
+    up(db) {
+      // A transaction spread over several categories. Amounts are signed
+      // in the direction of the parent (a paycheck's tax withholding is
+      // negative) and add up to the parent amount.
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS transaction_splits (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          transaction_id TEXT NOT NULL,
+          position INTEGER NOT NULL,
+          amount INTEGER NOT NULL,
+          category TEXT,
+          memo TEXT,
+          FOREIGN KEY (transaction_id) REFERENCES transactions(id) ON DELETE CASCADE
+        )
+      `);
+
+      db.exec(`
+        CREATE INDEX IF NOT EXISTS idx_transaction_splits_transaction ON transaction_splits(transaction_id, position);
+      `);
+    },
+  },
+  {
+    version: 13,
+    description: "Transfers",
+    up(db) {
+      // A transfer is a debit in one account and a credit in another,
+      // linked so they are edited and deleted together
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS transfers (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          user_id INTEGER NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (user_id) REFERENCES users(id)
+        )
+      `);
+
+      if (!hasColumn(db, "transactions", "transfer_id")) {
+        db.exec(
+          "ALTER TABLE transactions ADD COLUMN transfer_id INTEGER REFERENCES transfers(id)"
+        );
+      }
+
+      db.exec(`
+        CREATE INDEX IF NOT EXISTS idx_transactions_transfer ON transactions(transfer_id);
+      `);
+    },
+  },
+  {
+    version: 14,
+    description: "Scheduled transactions",
+    up(db) {
+      // Recurring entries (rent, payroll, subscriptions). next_date is the
+      // first occurrence not yet posted or skipped, NULL once the schedule
+      // has ended. Schedules in "post" mode are entered automatically
+      // when due; "remind" mode asks first.
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS scheduled_transactions (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          user_id INTEGER NOT NULL,
+          account_id TEXT,
+          description TEXT NOT NULL,
+          amount INTEGER NOT NULL,
+          type TEXT NOT NULL CHECK(type IN ('debit', 'credit')),
+          category TEXT,
+          frequency TEXT NOT NULL CHECK(frequency IN ('weekly', 'biweekly', 'monthly', 'quarterly', 'yearly', 'last_business_day')),
+          day_of_month INTEGER,
+          start_date TEXT NOT NULL,
+          end_date TEXT,
+          next_date TEXT,
+          mode TEXT NOT NULL CHECK(mode IN ('post', 'remind')),
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (user_id) REFERENCES users(id),
+          FOREIGN KEY (account_id) REFERENCES accounts(id)
+        )
+      `);
+
+      // Changes to a single occurrence: skipped, or posted on another
+      // date, for another amount or under another description
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS scheduled_occurrences (
+          scheduled_id INTEGER NOT NULL,
+          occurrence_date TEXT NOT NULL,
+          skipped INTEGER NOT NULL DEFAULT 0,
+          date TEXT,
+          amount INTEGER,
+          description TEXT,
+          PRIMARY KEY (scheduled_id, occurrence_date),
+          FOREIGN KEY (scheduled_id) REFERENCES scheduled_transactions(id) ON DELETE CASCADE
+        )
+      `);
+
+      db.exec(`
+        CREATE INDEX IF NOT EXISTS idx_scheduled_transactions_user ON scheduled_transactions(user_id, next_date);
+      `);
+    },
+  },
+  {
+    version: 15,
+    description: "Categorization rules",
+    up(db) {
+      // User-defined rules applied in position order. The conditions that
+      // are set must all match; description_pattern is encrypted like the
+      // descriptions it is matched against.
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS categorization_rules (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          user_id INTEGER NOT NULL,
+          position INTEGER NOT NULL,
+          description_pattern TEXT,
+          match_type TEXT NOT NULL DEFAULT 'contains' CHECK(match_type IN ('contains', 'regex')),
+          min_amount INTEGER,
+          max_amount INTEGER,
+          account_id TEXT,
+          type TEXT CHECK(type IN ('debit', 'credit')),
+          set_category TEXT,
+          set_description TEXT,
+          transfer_account_id TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (user_id) REFERENCES users(id),
+          FOREIGN KEY (account_id) REFERENCES accounts(id) ON DELETE CASCADE,
+          FOREIGN KEY (transfer_account_id) REFERENCES accounts(id) ON DELETE CASCADE
+        )
+      `);
+
+      db.exec(`
+        CREATE INDEX IF NOT EXISTS idx_categorization_rules_user ON categorization_rules(user_id, position);
+      `);
+    },
+  },
+  {
+    version: 16,
+    description: "Payees and payee aliases",
+    up(db) {
+      // Canonical payee names (encrypted; name_hash is a blind index of
+      // the name so it stays unique per user) and the patterns found in
+      // bank descriptions for each
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS payees (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          user_id INTEGER NOT NULL,
+          name TEXT NOT NULL,
+          name_hash TEXT NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          UNIQUE (user_id, name_hash),
+          FOREIGN KEY (user_id) REFERENCES users(id)
+        )
+      `);
+
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS payee_aliases (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          payee_id INTEGER NOT NULL,
+          pattern TEXT NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (payee_id) REFERENCES payees(id) ON DELETE CASCADE
+        )
+      `);
+
+      // Transactions normalized to a payee keep the bank's wording
+      if (!hasColumn(db, "transactions", "payee_id")) {
+        db.exec(
+          "ALTER TABLE transactions ADD COLUMN payee_id INTEGER REFERENCES payees(id) ON DELETE SET NULL"
+        );
+      }
+      if (!hasColumn(db, "transactions", "original_description")) {
+        db.exec(
+          "ALTER TABLE transactions ADD COLUMN original_description TEXT"
+        );
+      }
+
+      db.exec(`
+        CREATE INDEX IF NOT EXISTS idx_payee_aliases_payee ON payee_aliases(payee_id);
+        CREATE INDEX IF NOT EXISTS idx_transactions_payee ON transactions(payee_id);
+      `);
+    },
+  },
+  {
+    version: 17,
+    description: "Keyed import fingerprints",
+    up(db, { encrypt, blindIndex }) {
+      // Fingerprints were plain SHA-256 hashes of a row's account, date,
+      // amount and description, which can be guessed against. Store a
+      // keyed hash instead, with the old value encrypted so the hash can
+      // be recomputed when the key changes.
+      for (const table of ["transactions", "statement_lines"]) {
+        if (!hasColumn(db, table, "import_fingerprint_source")) {
+          db.exec(
+            `ALTER TABLE ${table} ADD COLUMN import_fingerprint_source TEXT`
+          );
+        }
+
+        const rows = db
+          .prepare(
+            `SELECT rowid, import_fingerprint FROM ${table} WHERE import_fingerprint IS NOT NULL AND import_fingerprint_source IS NULL`
+          )
+          .all() as { rowid: number; import_fingerprint: string }[];
+        const update = db.prepare(
+          `UPDATE ${table} SET import_fingerprint = ?, import_fingerprint_source = ? WHERE rowid = ?`
+        );
+        for (const row of rows) {
+          update.run(
+            blindIndex(row.import_fingerprint),
+            encrypt(row.import_fingerprint),
+            row.rowid
+          );
+        }
+      }
+    },
+  },
+];
+
+const LATEST_SCHEMA_VERSION = migrations[migrations.length - 1].version;
+
+/**
+ * Copy the database aside before upgrading it. VACUUM INTO writes a
+ * consistent, compacted snapshot even while the database is in WAL mode.
+ */
+function backupBeforeMigration(
+  db: Database.Database,
+  dbPath: string,
+  fromVersion: number
+): string {
+  const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+  const backupPath = path.join(
+    path.dirname(dbPath),
+    `${path.basename(dbPath)}.schema-v${fromVersion}-${timestamp}.bak`
+  );
+  db.prepare("VACUUM INTO ?").run(backupPath);
+  return backupPath;
+}
+
+/**
+ * Bring a database up to LATEST_SCHEMA_VERSION.
+ * Refuses databases from newer app versions and backs up existing
+ * databases before applying any pending migration. The backup is deleted
+ * once every migration has committed, so no plaintext copy of a database
+ * from before field encryption outlives the upgrade; a failed upgrade
+ * keeps it and names it in the MigrationError.
+ */
+function runMigrations(
+  db: Database.Database,
+  dbPath: string,
+  context: MigrationContext
+): MigrationResult {
+  const fromVersion = db.pragma("user_version", { simple: true }) as number;
+
+  if (fromVersion > LATEST_SCHEMA_VERSION) {
+    throw new SchemaVersionError(fromVersion, LATEST_SCHEMA_VERSION);
+  }
+
+  const pending = migrations.filter((m) => m.version > fromVersion);
+  if (pending.length === 0) {
+    return { fromVersion, toVersion: fromVersion, backupPath: null };
+  }
+
+  // Only back up databases that already hold data (not brand new files)
+  const hasTables = db
+    .prepare(
+      "SELECT 1 FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%' LIMIT 1"
+    )
+    .get();
+  const backupPath =
+    hasTables && dbPath !== ":memory:"
+      ? backupBeforeMigration(db, dbPath, fromVersion)
+      : null;
+
+  // Table rebuilds drop and recreate tables; with foreign keys enforced
+  // the DROP would cascade into child rows. The pragma is a no-op inside
+  // a transaction, so it is switched off around the whole run.
+  const foreignKeys = db.pragma("foreign_keys", { simple: true });
+  db.pragma("foreign_keys = OFF");
+
+  try {
+    for (const migration of pending) {
+      const apply = db.transaction(() => {
+        migration.up(db, context);
+        db.pragma(`user_version = ${migration.version}`);
+      });
+
+      try {
+        apply();
+      } catch (err) {
+        throw new MigrationError(
+          migration,
+          (err as Error).message,
+          fromVersion,
+          backupPath
+        );
+      }
+    }
+  } finally {
+    db.pragma(`foreign_keys = ${foreignKeys ? "ON" : "OFF"}`);
+  }
+
+  let keptBackupPath: string | null = null;
+  if (backupPath) {
+    try {
+      fs.rmSync(backupPath, { force: true });
+    } catch {
+      keptBackupPath = backupPath;
+    }
+  }
+
+  return {
+    fromVersion,
+    toVersion: LATEST_SCHEMA_VERSION,
+    backupPath: keptBackupPath,
+  };
+}
+
+export {
+  LATEST_SCHEMA_VERSION,
+  Migration,
+  MigrationContext,
+  MigrationError,
+  MigrationResult,
+  SchemaVersionError,
+  migrations,
+  runMigrations,
+};
@@ -0,0 +1,45 @@
+import { formatCents, fromCents, toCents } from "./money";
+
+describe("money", () => {
+  describe("toCents", () => {
+    test("should convert decimal amounts to integer cents", () => {
+      expect(toCents(12.34)).toBe(1234);
+      expect(toCents(-0.3)).toBe(-30);
+      expect(toCents(100)).toBe(10000);
+    });
+
+    test("should round away binary floating point error", () => {
+      expect(toCents(0.1 + 0.2)).toBe(30);
+      expect(toCents(0.29)).toBe(29);
+    });
+
+    test("should never return negative zero", () => {
+      expect(Object.is(toCents(-0.001), 0)).toBe(true);
+    });
+
+    test("should reject non-finite values", () => {
+      expect(() => toCents(NaN)).toThrow("Amount must be a finite number");
+      expect(() => toCents(Infinity)).toThrow("Amount must be a finite number");
+    });
+  });
+
+  describe("fromCents", () => {
+    test("should convert cents back to decimal amounts", () => {
+      expect(fromCents(1234)).toBe(12.34);
+      expect(fromCents(-30)).toBe(-0.3);
+    });
+
+    test("should round-trip two-decimal amounts exactly", () => {
+      for (const amount of [0.01, 0.3, 19.99, 1234567.89]) {
+        expect(fromCents(toCents(amount))).toBe(amount);
+      }
+    });
+  });
+
+  describe("formatCents", () => {
+    test("should format cents with two decimal places", () => {
+      expect(formatCents(1230)).toBe("12.30");
+      expect(formatCents(-5)).toBe("-0.05");
+    });
+  });
+});
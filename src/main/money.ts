@@ -0,0 +1,34 @@
+/**
+ * Money is stored as integer minor units (cents) so sums and equality
+ * checks are exact. The renderer and validation work in decimal dollars;
+ * convert with these helpers at the IPC boundary in main.ts.
+ */
+
+const MINOR_UNITS_PER_MAJOR = 100;
+
+/**
+ * Convert a decimal amount (e.g. 12.34) to integer cents (1234)
+ */
+function toCents(amount: number): number {
+  if (typeof amount !== "number" || !Number.isFinite(amount)) {
+    throw new Error("Amount must be a finite number");
+  }
+  const cents = Math.round(amount * MINOR_UNITS_PER_MAJOR);
+  return cents === 0 ? 0 : cents; // avoid -0
+}
+
+/**
+ * Convert integer cents back to a decimal amount for the renderer
+ */
+function fromCents(cents: number): number {
+  return cents / MINOR_UNITS_PER_MAJOR;
+}
+
+/**
+ * Format integer cents as a plain two-decimal string (e.g. "-12.30")
+ */
+function formatCents(cents: number): string {
+  return fromCents(cents).toFixed(2);
+}
+
+export { MINOR_UNITS_PER_MAJOR, formatCents, fromCents, toCents };
@@ -0,0 +1,280 @@
+import {
+  decodeOfxFile,
+  ofxImportRows,
+  parseOfx,
+  parseOfxDate,
+  statementAccountMismatch,
+} from "./ofx-import";
+
+const SGML_STATEMENT = [
+  "OFXHEADER:100",
+  "DATA:OFXSGML",
+  "VERSION:102",
+  "CHARSET:1252",
+  "",
+  "<OFX>",
+  "<SIGNONMSGSRSV1><SONRS>",
+  "<STATUS><CODE>0<SEVERITY>INFO</STATUS>",
+  "<DTSERVER>20240201120000",
+  "</SONRS></SIGNONMSGSRSV1>",
+  "<BANKMSGSRSV1><STMTTRNRS>",
+  "<TRNUID>1",
+  "<STMTRS>",
+  "<CURDEF>USD",
+  "<BANKACCTFROM>",
+  "<BANKID>123456789",
+  "<ACCTID>000111222333",
+  "<ACCTTYPE>CHECKING",
+  "</BANKACCTFROM>",
+  "<BANKTRANLIST>",
+  "<DTSTART>20240101",
+  "<DTEND>20240131",
+  "<STMTTRN>",
+  "<TRNTYPE>POS",
+  "<DTPOSTED>20240105120000.000[-5:EST]",
+  "<TRNAMT>-4.50",
+  "<FITID>2024010501",
+  "<NAME>COFFEE SHOP &amp; BAKERY",
+  "<MEMO>Card 1234",
+  "</STMTTRN>",
+  "<STMTTRN>",
+  "<TRNTYPE>CHECK",
+  "<DTPOSTED>20240110",
+  "<TRNAMT>-120.00",
+  "<FITID>2024011001",
+  "<CHECKNUM>101",
+  "<MEMO>Check 101",
+  "</STMTTRN>",
+  "<STMTTRN>",
+  "<TRNTYPE>CREDIT",
+  "<DTPOSTED>20240115",
+  "<TRNAMT>2000.00",
+  "<FITID>2024011501",
+  "<NAME>PAYROLL",
+  "</STMTTRN>",
+  "</BANKTRANLIST>",
+  "<LEDGERBAL>",
+  "<BALAMT>1875.50",
+  "<DTASOF>20240131235959",
+  "</LEDGERBAL>",
+  "</STMTRS>",
+  "</STMTTRNRS></BANKMSGSRSV1>",
+  "</OFX>",
+].join("\r\n");
+
+const XML_CREDIT_CARD_STATEMENT = `<?xml version="1.0" encoding="UTF-8" standalone="no"?>
+<?OFX OFXHEADER="200" VERSION="211" SECURITY="NONE" OLDFILEUID="NONE" NEWFILEUID="NONE"?>
+<OFX>
+  <CREDITCARDMSGSRSV1>
+    <CCSTMTTRNRS>
+      <TRNUID>1</TRNUID>
+      <CCSTMTRS>
+        <CURDEF>USD</CURDEF>
+        <CCACCTFROM>
+          <ACCTID>4111111111111111</ACCTID>
+        </CCACCTFROM>
+        <BANKTRANLIST>
+          <DTSTART>20240301000000</DTSTART>
+          <DTEND>20240331000000</DTEND>
+          <STMTTRN>
+            <TRNTYPE>DEBIT</TRNTYPE>
+            <DTPOSTED>20240304</DTPOSTED>
+            <TRNAMT>-25.00</TRNAMT>
+            <FITID>CC-1</FITID>
+            <PAYEE><NAME>Café Rouge</NAME></PAYEE>
+            <MEMO/>
+          </STMTTRN>
+          <STMTTRN>
+            <TRNTYPE>INT</TRNTYPE>
+            <DTPOSTED>20240331</DTPOSTED>
+            <TRNAMT>0.00</TRNAMT>
+            <FITID>CC-2</FITID>
+            <NAME>Interest</NAME>
+          </STMTTRN>
+        </BANKTRANLIST>
+        <LEDGERBAL>
+          <BALAMT>-25.00</BALAMT>
+          <DTASOF>20240331</DTASOF>
+        </LEDGERBAL>
+      </CCSTMTRS>
+    </CCSTMTTRNRS>
+  </CREDITCARDMSGSRSV1>
+</OFX>
+`;
+
+describe("OFX Import", () => {
+  describe("parseOfxDate", () => {
+    test("should take the date part of OFX date/times", () => {
+      expect(parseOfxDate("20240105")).toBe("2024-01-05");
+      expect(parseOfxDate("20240105120000.000[-5:EST]")).toBe("2024-01-05");
+    });
+
+    test("should return null for non-dates", () => {
+      expect(parseOfxDate("2024-01-05")).toBeNull();
+      expect(parseOfxDate("20241305")).toBeNull();
+      expect(parseOfxDate(null)).toBeNull();
+    });
+
+    test("should reject days the month does not have", () => {
+      expect(parseOfxDate("20240230")).toBeNull();
+      expect(parseOfxDate("20230229120000")).toBeNull();
+      expect(parseOfxDate("20240431")).toBeNull();
+      expect(parseOfxDate("20240229")).toBe("2024-02-29");
+    });
+  });
+
+  describe("parseOfx", () => {
+    test("should read an OFX 1.x SGML bank statement", () => {
+      const statement = parseOfx(SGML_STATEMENT);
+
+      expect(statement).toMatchObject({
+        accountType: "CHECKING",
+        accountId: "000111222333",
+        bankId: "123456789",
+        currency: "USD",
+        startDate: "2024-01-01",
+        endDate: "2024-01-31",
+        ledgerBalance: { amount: 187550, date: "2024-01-31" },
+      });
+      expect(statement.transactions).toEqual([
+        {
+          fitId: "2024010501",
+          type: "POS",
+          date: "2024-01-05",
+          amount: -450,
+          name: "COFFEE SHOP & BAKERY",
+          memo: "Card 1234",
+          checkNumber: null,
+          line: 23,
+        },
+        expect.objectContaining({
+          fitId: "2024011001",
+          type: "CHECK",
+          amount: -12000,
+          name: null,
+          checkNumber: "101",
+        }),
+        expect.objectContaining({
+          fitId: "2024011501",
+          amount: 200000,
+          name: "PAYROLL",
+        }),
+      ]);
+    });
+
+    test("should read an OFX 2.x XML credit card statement", () => {
+      const statement = parseOfx(XML_CREDIT_CARD_STATEMENT);
+
+      expect(statement).toMatchObject({
+        accountType: "CREDITCARD",
+        accountId: "4111111111111111",
+        bankId: null,
+        ledgerBalance: { amount: -2500, date: "2024-03-31" },
+      });
+      expect(statement.transactions[0]).toMatchObject({
+        fitId: "CC-1",
+        amount: -2500,
+        name: "Café Rouge",
+        memo: null,
+      });
+    });
+
+    test("should reject files without an OFX body or statement", () => {
+      expect(() => parseOfx("Date,Description,Amount")).toThrow(
+        "Not an OFX file"
+      );
+      expect(() =>
+        parseOfx("<OFX><SIGNONMSGSRSV1></SIGNONMSGSRSV1></OFX>")
+      ).toThrow("No bank or credit card statement found");
+    });
+
+    test("should report transactions without an amount", () => {
+      const broken = SGML_STATEMENT.replace("<TRNAMT>-120.00", "<TRNAMT>n/a");
+      expect(() => parseOfx(broken)).toThrow(
+        "Transaction on line 31 has no valid amount"
+      );
+    });
+  });
+
+  describe("ofxImportRows", () => {
+    test("should map statement transactions to import rows", () => {
+      const rows = ofxImportRows(parseOfx(SGML_STATEMENT));
+
+      expect(rows).toEqual([
+        {
+          rowNumber: 23,
+          date: "2024-01-05",
+          description: "COFFEE SHOP & BAKERY",
+          amount: 450,
+          type: "debit",
+          category: null,
+          checkNumber: null,
+          fitId: "2024010501",
+        },
+        expect.objectContaining({
+          description: "Check 101",
+          amount: 12000,
+          type: "debit",
+          checkNumber: "101",
+          fitId: "2024011001",
+        }),
+        expect.objectContaining({
+          description: "PAYROLL",
+          amount: 200000,
+          type: "credit",
+          fitId: "2024011501",
+        }),
+      ]);
+    });
+
+    test("should skip zero-amount entries", () => {
+      const rows = ofxImportRows(parseOfx(XML_CREDIT_CARD_STATEMENT));
+      expect(rows.map((r) => r.fitId)).toEqual(["CC-1"]);
+    });
+  });
+
+  describe("decodeOfxFile", () => {
+    test("should decode Windows-1252 files declared in the header", () => {
+      const content = "OFXHEADER:100\r\nCHARSET:1252\r\n\r\n<OFX><NAME>Caf\xe9";
+      expect(decodeOfxFile(Buffer.from(content, "latin1"))).toContain("Café");
+    });
+
+    test("should decode UTF-8 by default", () => {
+      const content = '<?xml version="1.0" encoding="UTF-8"?><OFX>Café';
+      expect(decodeOfxFile(Buffer.from(content, "utf8"))).toContain("Café");
+    });
+  });
+
+  describe("statementAccountMismatch", () => {
+    const statement = () => parseOfx(SGML_STATEMENT);
+    const checking = {
+      name: "Everyday Checking",
+      accountType: "checking",
+      lastFour: "2333",
+    };
+
+    test("should accept the statement of the account", () => {
+      expect(statementAccountMismatch(statement(), checking)).toBeNull();
+      expect(
+        statementAccountMismatch(statement(), { ...checking, lastFour: null })
+      ).toBeNull();
+    });
+
+    test("should flag another account's statement", () => {
+      expect(
+        statementAccountMismatch(statement(), { ...checking, lastFour: "9876" })
+      ).toBe(
+        "This statement is for the account ending 2333, but Everyday Checking ends in 9876."
+      );
+      expect(
+        statementAccountMismatch(statement(), {
+          name: "Visa",
+          accountType: "credit_card",
+          lastFour: null,
+        })
+      ).toBe(
+        "This is a bank account statement, but Visa is a credit card account."
+      );
+    });
+  });
+});
@@ -0,0 +1,298 @@
+import { ImportRow, parseAmount } from "./csv-import";
+
+/**
+ * OFX/QFX statement import. Reads OFX 1.x (SGML, leaf elements without
+ * closing tags) and OFX 2.x (XML) bank and credit card statements into
+ * the same ImportRow shape as the CSV import, keeping each transaction's
+ * FITID for deduplication and the ledger balance for reconciliation.
+ * Amounts are integer cents.
+ */
+
+interface OfxElement {
+  name: string;
+  value: string | null; // text of a leaf element; null for aggregates
+  line: number;
+  children: OfxElement[];
+}
+
+interface OfxTransaction {
+  fitId: string | null;
+  type: string; // TRNTYPE, e.g. DEBIT, CHECK, POS
+  date: string; // YYYY-MM-DD
+  amount: number; // signed integer cents, negative is money out
+  name: string | null;
+  memo: string | null;
+  checkNumber: string | null;
+  line: number;
+}
+
+interface OfxBalance {
+  amount: number; // signed integer cents
+  date: string; // YYYY-MM-DD
+}
+
+interface OfxStatement {
+  accountType: string; // CHECKING, SAVINGS, ... or CREDITCARD
+  accountId: string | null;
+  bankId: string | null;
+  currency: string | null;
+  startDate: string | null;
+  endDate: string | null;
+  ledgerBalance: OfxBalance | null;
+  transactions: OfxTransaction[];
+}
+
+// The register an OFX statement is imported into
+interface ImportAccount {
+  name: string;
+  accountType: string; // checking, savings or credit_card
+  lastFour: string | null;
+}
+
+const ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x?[0-9a-f]+|[a-z]+);/gi, (entity, name: string) => {
+    if (name.startsWith("#")) {
+      const code =
+        name[1].toLowerCase() === "x"
+          ? parseInt(name.slice(2), 16)
+          : parseInt(name.slice(1), 10);
+      return Number.isNaN(code) ? entity : String.fromCodePoint(code);
+    }
+    return ENTITIES[name.toLowerCase()] ?? entity;
+  });
+}
+
+/**
+ * Decode an OFX file, honouring the Windows-1252 / Latin-1 charset many
+ * banks still declare in OFX 1.x headers and XML declarations
+ */
+function decodeOfxFile(buffer: Buffer): string {
+  const head = buffer.subarray(0, 1024).toString("latin1");
+  const singleByte =
+    /CHARSET:\s*(1252|ISO-8859-1)/i.test(head) ||
+    /encoding=["'](windows-1252|iso-8859-1)["']/i.test(head);
+  return new TextDecoder(singleByte ? "windows-1252" : "utf-8").decode(buffer);
+}
+
+/**
+ * Build an element tree from the <OFX> body. Leaf elements are those
+ * with text after the opening tag, so the optional closing tags of SGML
+ * OFX 1.x and the mandatory ones of XML OFX 2.x both work.
+ */
+function parseOfxElements(content: string): OfxElement {
+  const start = content.search(/<OFX>/i);
+  if (start === -1) {
+    throw new Error("Not an OFX file: no <OFX> element found");
+  }
+
+  const root: OfxElement = { name: "", value: null, line: 0, children: [] };
+  const stack: OfxElement[] = [root];
+  const tagPattern = /<(\/?)([A-Za-z0-9._]+)[^>]*?(\/?)>([^<]*)/g;
+
+  let line = content.slice(0, start).split("\n").length;
+  let lastIndex = start;
+  tagPattern.lastIndex = start;
+
+  let match: RegExpExecArray | null;
+  while ((match = tagPattern.exec(content)) !== null) {
+    const [, closing, rawName, selfClosing, text] = match;
+    const name = rawName.toUpperCase();
+    for (let i = lastIndex; i < match.index; i++) {
+      if (content[i] === "\n") line++;
+    }
+    lastIndex = match.index;
+
+    if (closing) {
+      // XML closing tags of leaf elements have no aggregate to close
+      const open = stack.map((e) => e.name).lastIndexOf(name);
+      if (open > 0) stack.length = open;
+      continue;
+    }
+
+    const value = decodeEntities(text.trim());
+    const element: OfxElement = {
+      name,
+      value: value || selfClosing ? value : null, // empty <X/> is a leaf
+      line,
+      children: [],
+    };
+    stack[stack.length - 1].children.push(element);
+    if (element.value === null) {
+      stack.push(element);
+    }
+  }
+
+  return root;
+}
+
+function findAll(element: OfxElement, name: string): OfxElement[] {
+  const found: OfxElement[] = [];
+  for (const child of element.children) {
+    if (child.name === name) found.push(child);
+    found.push(...findAll(child, name));
+  }
+  return found;
+}
+
+function find(element: OfxElement, name: string): OfxElement | null {
+  return findAll(element, name)[0] || null;
+}
+
+function text(element: OfxElement | null, name: string): string | null {
+  const child = element && element.children.find((c) => c.name === name);
+  return (child && child.value) || null;
+}
+
+/**
+ * Convert an OFX date/time such as "20240105120000.000[-5:EST]" to
+ * YYYY-MM-DD. Returns null when the value is not a date or not a day of
+ * the calendar (20240230).
+ */
+function parseOfxDate(value: string | null): string | null {
+  const match = value && value.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (!match) return null;
+
+  const month = Number(match[2]);
+  const day = Number(match[3]);
+  const date = new Date(Date.UTC(Number(match[1]), month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return `${match[1]}-${match[2]}-${match[3]}`;
+}
+
+function parseTransaction(element: OfxElement): OfxTransaction {
+  const date = parseOfxDate(text(element, "DTPOSTED"));
+  const amountText = text(element, "TRNAMT");
+  const amount = amountText === null ? null : parseAmount(amountText);
+
+  if (!date) {
+    throw new Error(
+      `Transaction on line ${element.line} has no valid posting date`
+    );
+  }
+  if (amount === null) {
+    throw new Error(`Transaction on line ${element.line} has no valid amount`);
+  }
+
+  return {
+    fitId: text(element, "FITID"),
+    type: (text(element, "TRNTYPE") || "OTHER").toUpperCase(),
+    date,
+    amount,
+    name: text(element, "NAME") || text(find(element, "PAYEE"), "NAME"),
+    memo: text(element, "MEMO"),
+    checkNumber: text(element, "CHECKNUM"),
+    line: element.line,
+  };
+}
+
+/**
+ * Parse the first bank or credit card statement in an OFX/QFX file
+ */
+function parseOfx(content: string): OfxStatement {
+  const root = parseOfxElements(content);
+  const statement = find(root, "STMTRS") || find(root, "CCSTMTRS");
+  if (!statement) {
+    throw new Error("No bank or credit card statement found in the OFX file");
+  }
+
+  const bankAccount = find(statement, "BANKACCTFROM");
+  const account = bankAccount || find(statement, "CCACCTFROM");
+  const transactionList = find(statement, "BANKTRANLIST");
+  const ledger = find(statement, "LEDGERBAL");
+
+  let ledgerBalance: OfxBalance | null = null;
+  if (ledger) {
+    const amount = parseAmount(text(ledger, "BALAMT") || "");
+    const date = parseOfxDate(text(ledger, "DTASOF"));
+    if (amount !== null && date) {
+      ledgerBalance = { amount, date };
+    }
+  }
+
+  return {
+    accountType: bankAccount
+      ? (text(bankAccount, "ACCTTYPE") || "CHECKING").toUpperCase()
+      : "CREDITCARD",
+    accountId: text(account, "ACCTID"),
+    bankId: text(bankAccount, "BANKID"),
+    currency: text(statement, "CURDEF"),
+    startDate: parseOfxDate(text(transactionList, "DTSTART")),
+    endDate: parseOfxDate(text(transactionList, "DTEND")),
+    ledgerBalance,
+    transactions: transactionList
+      ? findAll(transactionList, "STMTTRN").map(parseTransaction)
+      : [],
+  };
+}
+
+/**
+ * Turn statement transactions into import rows. The payee is the NAME
+ * (falling back to MEMO); zero-amount entries are skipped.
+ */
+function ofxImportRows(statement: OfxStatement): ImportRow[] {
+  return statement.transactions
+    .filter((t) => t.amount !== 0)
+    .map((t) => ({
+      rowNumber: t.line,
+      date: t.date,
+      description: (t.name || t.memo || t.type).replace(/\s+/g, " ").trim(),
+      amount: Math.abs(t.amount),
+      type: t.amount < 0 ? "debit" : "credit",
+      category: null,
+      checkNumber: t.checkNumber,
+      fitId: t.fitId,
+    }));
+}
+
+/**
+ * Why a statement looks like it belongs to another account than the one
+ * it is being imported into, or null when nothing says so. The ACCTID is
+ * compared with the account's last four digits when both are known, and
+ * the statement type with the account type.
+ */
+function statementAccountMismatch(
+  statement: OfxStatement,
+  account: ImportAccount
+): string | null {
+  const statementLastFour = statement.accountId
+    ? statement.accountId.slice(-4)
+    : null;
+  if (
+    statementLastFour &&
+    account.lastFour &&
+    statementLastFour !== account.lastFour
+  ) {
+    return `This statement is for the account ending ${statementLastFour}, but ${account.name} ends in ${account.lastFour}.`;
+  }
+
+  const creditCardStatement = statement.accountType === "CREDITCARD";
+  if (creditCardStatement !== (account.accountType === "credit_card")) {
+    return creditCardStatement
+      ? `This is a credit card statement, but ${account.name} is not a credit card account.`
+      : `This is a bank account statement, but ${account.name} is a credit card account.`;
+  }
+  return null;
+}
+
+export {
+  ImportAccount,
+  OfxBalance,
+  OfxStatement,
+  OfxTransaction,
+  decodeOfxFile,
+  ofxImportRows,
+  parseOfx,
+  parseOfxDate,
+  statementAccountMismatch,
+};
@@ -0,0 +1,254 @@
+import { parseQif, parseQifDate, qifImportRows, writeQif } from "./qif";
+
+const QUICKEN_EXPORT = [
+  "!Option:AutoSwitch",
+  "!Account",
+  "NEveryday Checking",
+  "TBank",
+  "^",
+  "NVisa",
+  "TCCard",
+  "^",
+  "!Clear:AutoSwitch",
+  "!Account",
+  "NEveryday Checking",
+  "TBank",
+  "^",
+  "!Type:Bank",
+  "D1/ 1'24",
+  "T1,000.00",
+  "CX",
+  "POpening Balance",
+  "L[Everyday Checking]",
+  "^",
+  "D1/ 5'24",
+  "T-4.50",
+  "C*",
+  "PCoffee Shop",
+  "MLatte",
+  "LDining:Coffee/Business",
+  "^",
+  "D01/10/2024",
+  "U-120.00",
+  "T-120.00",
+  "N101",
+  "PCity Water",
+  "LUtilities",
+  "^",
+  "D1/15'24",
+  "T-150.00",
+  "PSuperstore",
+  "SGroceries",
+  "EFood",
+  "$-100.00",
+  "SHousehold",
+  "$-50.00",
+  "^",
+  "D1/20'24",
+  "T-200.00",
+  "PTransfer to savings",
+  "L[Savings]",
+  "^",
+].join("\r\n");
+
+describe("QIF", () => {
+  describe("parseQifDate", () => {
+    test("should read Quicken date forms", () => {
+      expect(parseQifDate("1/ 5'24")).toBe("2024-01-05");
+      expect(parseQifDate("01/05/2024")).toBe("2024-01-05");
+      expect(parseQifDate("12/31/99")).toBe("1999-12-31");
+      expect(parseQifDate("1/5/04")).toBe("2004-01-05");
+      expect(parseQifDate("2024-01-05")).toBe("2024-01-05");
+    });
+
+    test("should return null for non-dates", () => {
+      expect(parseQifDate("Jan 5")).toBeNull();
+      expect(parseQifDate("13/01/2024")).toBeNull();
+    });
+
+    test("should reject days the month does not have", () => {
+      expect(parseQifDate("2/30/2024")).toBeNull();
+      expect(parseQifDate("2/29'23")).toBeNull();
+      expect(parseQifDate("2024-04-31")).toBeNull();
+      expect(parseQifDate("2/29'24")).toBe("2024-02-29");
+    });
+  });
+
+  describe("parseQif", () => {
+    test("should read a register with its account name", () => {
+      const accounts = parseQif(QUICKEN_EXPORT);
+
+      expect(accounts).toHaveLength(1);
+      expect(accounts[0].name).toBe("Everyday Checking");
+      expect(accounts[0].type).toBe("Bank");
+      expect(accounts[0].transactions).toHaveLength(5);
+      expect(accounts[0].transactions[1]).toEqual({
+        date: "2024-01-05",
+        amount: -450,
+        payee: "Coffee Shop",
+        memo: "Latte",
+        category: "Dining:Coffee/Business",
+        checkNumber: null,
+        reconciled: false,
+        splits: [],
+        line: 21,
+      });
+    });
+
+    test("should read reconciled status and split lines", () => {
+      const [account] = parseQif(QUICKEN_EXPORT);
+
+      expect(account.transactions[0].reconciled).toBe(true);
+      expect(account.transactions[3].splits).toEqual([
+        { category: "Groceries", memo: "Food", amount: -10000 },
+        { category: "Household", memo: null, amount: -5000 },
+      ]);
+    });
+
+    test("should read credit card registers and skip other sections", () => {
+      const accounts = parseQif(
+        "!Type:Cat\nNGroceries\nE\n^\n" +
+          "!Type:CCard\nD3/4'24\nT-25.00\nPRestaurant\n^\n"
+      );
+
+      expect(accounts).toEqual([
+        expect.objectContaining({ name: null, type: "CCard" }),
+      ]);
+      expect(accounts[0].transactions[0].amount).toBe(-2500);
+    });
+
+    test("should report records without a date or amount", () => {
+      expect(() => parseQif("!Type:Bank\nT-4.50\nPCoffee\n^\n")).toThrow(
+        "Transaction on line 2 has no valid date"
+      );
+      expect(() => parseQif("!Type:Bank\nD1/5'24\nPCoffee\n^\n")).toThrow(
+        "Transaction on line 2 has no valid amount"
+      );
+    });
+  });
+
+  describe("qifImportRows", () => {
+    test("should map the register to import rows", () => {
+      const rows = qifImportRows(parseQif(QUICKEN_EXPORT)[0]);
+
+      expect(rows.map((r) => r.description)).toEqual([
+        "Coffee Shop",
+        "City Water",
+        "Superstore",
+        "Transfer to savings",
+      ]);
+      expect(rows[0]).toEqual({
+        rowNumber: 21,
+        date: "2024-01-05",
+        description: "Coffee Shop",
+        amount: 450,
+        type: "debit",
+        category: "Dining:Coffee",
+        checkNumber: null,
+        splits: [],
+      });
+      expect(rows[1].checkNumber).toBe("101");
+      // Mixed splits and transfers have no single register category
+      expect(rows[2].category).toBeNull();
+      expect(rows[3].category).toBeNull();
+    });
+
+    test("should keep split lines as the row's splits", () => {
+      const [, , superstore] = qifImportRows(parseQif(QUICKEN_EXPORT)[0]);
+
+      expect(superstore.splits).toEqual([
+        { amount: 10000, category: "Groceries", memo: "Food" },
+        { amount: 5000, category: "Household", memo: null },
+      ]);
+    });
+
+    test("should import the row whole when its split lines do not add up", () => {
+      const [row] = qifImportRows(
+        parseQif(
+          "!Type:Bank\nD1/15'24\nT-150.00\nPSuperstore\n" +
+            "SGroceries\n$-100.00\nSHousehold\n$-40.00\n^\n"
+        )[0]
+      );
+
+      expect(row.amount).toBe(15000);
+      expect(row.splits).toEqual([]);
+    });
+  });
+
+  describe("writeQif", () => {
+    test("should write records Quicken can read back", () => {
+      const qif = writeQif({
+        type: "Bank",
+        transactions: [
+          {
+            date: "2024-01-05",
+            amount: -450,
+            payee: "Coffee\nShop",
+            memo: null,
+            category: "Dining",
+            checkNumber: "101",
+            reconciled: true,
+            splits: [],
+          },
+        ],
+      });
+
+      expect(qif).toBe(
+        [
+          "!Type:Bank",
+          "D01/05/2024",
+          "T-4.50",
+          "CX",
+          "N101",
+          "PCoffee Shop",
+          "LDining",
+          "^",
+          "",
+        ].join("\n")
+      );
+    });
+
+    test("should round-trip transactions with splits", () => {
+      const [account] = parseQif(QUICKEN_EXPORT);
+      const [roundTripped] = parseQif(writeQif(account));
+
+      expect(
+        roundTripped.transactions.map(({ line, ...rest }) => rest)
+      ).toEqual(account.transactions.map(({ line, ...rest }) => rest));
+    });
+
+    test("should import the splits of an exported register", () => {
+      const qif = writeQif({
+        type: "Bank",
+        transactions: [
+          {
+            date: "2024-01-15",
+            amount: -15000,
+            payee: "Superstore",
+            memo: null,
+            category: null,
+            checkNumber: null,
+            reconciled: false,
+            splits: [
+              { category: "Groceries", memo: "Food", amount: -16000 },
+              { category: "Refunds", memo: "Returned kettle", amount: 1000 },
+            ],
+          },
+        ],
+      });
+
+      const [row] = qifImportRows(parseQif(qif)[0]);
+
+      expect(row).toMatchObject({
+        description: "Superstore",
+        amount: 15000,
+        type: "debit",
+        category: null,
+      });
+      expect(row.splits).toEqual([
+        { amount: 16000, category: "Groceries", memo: "Food" },
+        { amount: -1000, category: "Refunds", memo: "Returned kettle" },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,333 @@
+import { ImportRow, ImportSplit, parseAmount } from "./csv-import";
+import { formatCents } from "./money";
+
+/**
+ * QIF (Quicken Interchange Format) reader and writer for bank and credit
+ * card registers. Each record is a run of lines starting with a one
+ * letter field code and ends with "^". Amounts are integer cents.
+ */
+
+type QifAccountType = "Bank" | "CCard";
+
+interface QifSplit {
+  category: string | null;
+  memo: string | null;
+  amount: number; // signed integer cents
+}
+
+interface QifTransaction {
+  date: string; // YYYY-MM-DD
+  amount: number; // signed integer cents, negative is money out
+  payee: string | null;
+  memo: string | null;
+  category: string | null; // "[Account]" for transfers
+  checkNumber: string | null;
+  reconciled: boolean;
+  splits: QifSplit[];
+  line: number; // 1-based line the record starts on
+}
+
+interface QifAccount {
+  name: string | null; // from a preceding !Account block, if any
+  type: QifAccountType;
+  transactions: QifTransaction[];
+}
+
+const ACCOUNT_TYPES: Record<string, QifAccountType> = {
+  bank: "Bank",
+  cash: "Bank",
+  ccard: "CCard",
+};
+
+/**
+ * Normalize a QIF date to YYYY-MM-DD. Quicken writes M/D/YY, M/D'YY
+ * (an apostrophe marks years from 2000) and M/D/YYYY, often with spaces
+ * padding single digits; ISO dates are accepted too. Returns null when
+ * the value is not a date or not a day of the calendar.
+ */
+function parseQifDate(value: string): string | null {
+  const compact = value.replace(/\s+/g, "");
+  let year: number;
+  let month: number;
+  let day: number;
+
+  const iso = compact.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  const us = compact.match(/^(\d{1,2})[/-](\d{1,2})(['/-])(\d{2}|\d{4})$/);
+
+  if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  } else if (us) {
+    [month, day, year] = [Number(us[1]), Number(us[2]), Number(us[4])];
+    if (us[4].length === 2) {
+      // Two digit years: the apostrophe form is always 20xx
+      year += us[3] === "'" || year < 50 ? 2000 : 1900;
+    }
+  } else {
+    return null;
+  }
+
+  // Not a day of the calendar (2/30/2024)
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return [
+    String(year),
+    String(month).padStart(2, "0"),
+    String(day).padStart(2, "0"),
+  ].join("-");
+}
+
+/**
+ * Parse the bank and credit card registers in a QIF file. Other sections
+ * (category lists, investment accounts, memorized transactions) are
+ * skipped.
+ */
+function parseQif(content: string): QifAccount[] {
+  const lines = content.replace(/^\uFEFF/, "").split(/\r\n|\r|\n/);
+  const accounts: QifAccount[] = [];
+
+  let section: string | null = null;
+  let current: QifAccount | null = null;
+  let accountName: string | null = null;
+  let fields: [string, string][] = [];
+  let recordLine = 1;
+
+  const finishRecord = (): void => {
+    if (section === "account") {
+      const name = fields.find(([code]) => code === "N");
+      if (name) accountName = name[1];
+    } else if (current && fields.length > 0) {
+      current.transactions.push(parseRecord(fields, recordLine));
+    }
+    fields = [];
+  };
+
+  lines.forEach((raw, index) => {
+    const line = raw.trim();
+    if (!line) return;
+
+    if (line.startsWith("!")) {
+      finishRecord();
+      const [header, value = ""] = line.slice(1).split(":");
+      const type = ACCOUNT_TYPES[value.trim().toLowerCase()];
+
+      if (header.toLowerCase() === "account") {
+        section = "account";
+        current = null;
+      } else if (header.toLowerCase() === "type" && type) {
+        section = "register";
+        current = { name: accountName, type, transactions: [] };
+        accounts.push(current);
+        accountName = null;
+      } else if (header.toLowerCase() === "type") {
+        section = null;
+        current = null;
+      }
+      // !Option/!Clear lines do not change the section
+      return;
+    }
+
+    if (line === "^") {
+      finishRecord();
+      return;
+    }
+
+    if (fields.length === 0) recordLine = index + 1;
+    fields.push([line[0], line.slice(1).trim()]);
+  });
+  finishRecord();
+
+  return accounts.filter((account) => account.transactions.length > 0);
+}
+
+function parseRecord(
+  fields: [string, string][],
+  line: number
+): QifTransaction {
+  const transaction: QifTransaction = {
+    date: "",
+    amount: 0,
+    payee: null,
+    memo: null,
+    category: null,
+    checkNumber: null,
+    reconciled: false,
+    splits: [],
+    line,
+  };
+  let amount: number | null = null;
+
+  for (const [code, value] of fields) {
+    switch (code) {
+      case "D":
+        transaction.date = parseQifDate(value) || "";
+        break;
+      case "T":
+      case "U":
+        // T and U carry the same amount; T wins when both are present
+        if (code === "T" || amount === null) amount = parseAmount(value);
+        break;
+      case "P":
+        transaction.payee = value || null;
+        break;
+      case "M":
+        transaction.memo = value || null;
+        break;
+      case "L":
+        transaction.category = value || null;
+        break;
+      case "N":
+        transaction.checkNumber = value || null;
+        break;
+      case "C":
+        transaction.reconciled = /^[xr]$/i.test(value);
+        break;
+      case "S":
+        transaction.splits.push({
+          category: value || null,
+          memo: null,
+          amount: 0,
+        });
+        break;
+      case "E":
+      case "$": {
+        const split = transaction.splits[transaction.splits.length - 1];
+        if (!split) break;
+        if (code === "E") {
+          split.memo = value || null;
+        } else {
+          split.amount = parseAmount(value) ?? 0;
+        }
+        break;
+      }
+      // A (address) and other fields are not used
+    }
+  }
+
+  if (!transaction.date) {
+    throw new Error(`Transaction on line ${line} has no valid date`);
+  }
+  if (amount === null) {
+    throw new Error(`Transaction on line ${line} has no valid amount`);
+  }
+  transaction.amount = amount;
+  return transaction;
+}
+
+/**
+ * A QIF category as the register names it: transfers ("[Account]") have
+ * none, and the Quicken class after "/" is dropped
+ */
+function categoryName(category: string | null): string | null {
+  return category && !category.startsWith("[")
+    ? category.split("/")[0]
+    : null;
+}
+
+/**
+ * The register category for a QIF transaction: its own category, or the
+ * split category when every split shares one
+ */
+function registerCategory(transaction: QifTransaction): string | null {
+  if (transaction.category) {
+    return categoryName(transaction.category);
+  }
+
+  const categories = new Set(transaction.splits.map((s) => s.category));
+  const [only] = categories;
+  return categories.size === 1 ? categoryName(only) : null;
+}
+
+/**
+ * The splits of a QIF transaction as import splits, signed in the
+ * direction of the transaction. Split lines that would not make a valid
+ * split transaction (fewer than two, a zero amount, or a total other
+ * than the transaction's) are left out and the row imports whole.
+ */
+function importSplits(transaction: QifTransaction): ImportSplit[] {
+  const { splits, amount } = transaction;
+  const total = splits.reduce((sum, split) => sum + split.amount, 0);
+  if (
+    splits.length < 2 ||
+    splits.some((split) => split.amount === 0) ||
+    total !== amount
+  ) {
+    return [];
+  }
+
+  return splits.map((split) => ({
+    amount: amount < 0 ? -split.amount : split.amount,
+    category: categoryName(split.category),
+    memo: split.memo,
+  }));
+}
+
+/**
+ * Turn a QIF register into import rows, keeping split lines as the
+ * row's splits. Zero-amount entries and the "Opening Balance" record
+ * Quicken writes first are skipped; the account's own opening balance
+ * covers it.
+ */
+function qifImportRows(account: QifAccount): ImportRow[] {
+  return account.transactions
+    .filter(
+      (t) =>
+        t.amount !== 0 && (t.payee || "").toLowerCase() !== "opening balance"
+    )
+    .map((t) => ({
+      rowNumber: t.line,
+      date: t.date,
+      description: (t.payee || t.memo || "").replace(/\s+/g, " ").trim(),
+      amount: Math.abs(t.amount),
+      type: t.amount < 0 ? "debit" : "credit",
+      category: registerCategory(t),
+      checkNumber: t.checkNumber,
+      splits: importSplits(t),
+    }));
+}
+
+function formatQifDate(date: string): string {
+  const [year, month, day] = date.split("-");
+  return `${month}/${day}/${year}`;
+}
+
+/**
+ * Write a register as QIF, in the M/D/YYYY form Quicken reads back
+ */
+function writeQif(account: {
+  type: QifAccountType;
+  transactions: Omit<QifTransaction, "line">[];
+}): string {
+  // Field values must stay on one line
+  const clean = (value: string): string => value.replace(/\s+/g, " ").trim();
+  const lines = [`!Type:${account.type}`];
+
+  for (const t of account.transactions) {
+    lines.push(`D${formatQifDate(t.date)}`, `T${formatCents(t.amount)}`);
+    if (t.reconciled) lines.push("CX");
+    if (t.checkNumber) lines.push(`N${clean(t.checkNumber)}`);
+    if (t.payee) lines.push(`P${clean(t.payee)}`);
+    if (t.memo) lines.push(`M${clean(t.memo)}`);
+    if (t.category) lines.push(`L${clean(t.category)}`);
+    for (const split of t.splits) {
+      lines.push(`S${clean(split.category || "")}`);
+      if (split.memo) lines.push(`E${clean(split.memo)}`);
+      lines.push(`$${formatCents(split.amount)}`);
+    }
+    lines.push("^");
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+export {
+  QifAccount,
+  QifAccountType,
+  QifSplit,
+  QifTransaction,
+  parseQif,
+  parseQifDate,
+  qifImportRows,
+  writeQif,
+};
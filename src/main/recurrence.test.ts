@@ -0,0 +1,93 @@
+import { nextOccurrence, occurrencesBetween } from "./recurrence";
+
+describe("Recurrence", () => {
+  describe("occurrencesBetween", () => {
+    test("should repeat weekly and biweekly from the start date", () => {
+      const weekly = { frequency: "weekly" as const, startDate: "2024-01-05" };
+      expect(occurrencesBetween(weekly, "2024-01-01", "2024-01-31")).toEqual([
+        "2024-01-05",
+        "2024-01-12",
+        "2024-01-19",
+        "2024-01-26",
+      ]);
+
+      const biweekly = { ...weekly, frequency: "biweekly" as const };
+      expect(occurrencesBetween(biweekly, "2024-01-10", "2024-02-29")).toEqual(
+        ["2024-01-19", "2024-02-02", "2024-02-16"]
+      );
+    });
+
+    test("should clamp the day of the month to short months", () => {
+      const rule = {
+        frequency: "monthly" as const,
+        dayOfMonth: 31,
+        startDate: "2024-01-01",
+      };
+      expect(occurrencesBetween(rule, "2024-01-01", "2024-04-30")).toEqual([
+        "2024-01-31",
+        "2024-02-29",
+        "2024-03-31",
+        "2024-04-30",
+      ]);
+    });
+
+    test("should step quarterly and yearly across year ends", () => {
+      const quarterly = {
+        frequency: "quarterly" as const,
+        startDate: "2024-11-15",
+      };
+      expect(
+        occurrencesBetween(quarterly, "2024-01-01", "2025-06-30")
+      ).toEqual(["2024-11-15", "2025-02-15", "2025-05-15"]);
+
+      const yearly = { frequency: "yearly" as const, startDate: "2024-02-29" };
+      expect(occurrencesBetween(yearly, "2024-01-01", "2026-12-31")).toEqual([
+        "2024-02-29",
+        "2025-02-28",
+        "2026-02-28",
+      ]);
+    });
+
+    test("should fall on the last weekday of the month", () => {
+      const rule = {
+        frequency: "last_business_day" as const,
+        startDate: "2024-03-01",
+      };
+      // March 31 and June 30 2024 are Sundays
+      expect(occurrencesBetween(rule, "2024-03-01", "2024-06-30")).toEqual([
+        "2024-03-29",
+        "2024-04-30",
+        "2024-05-31",
+        "2024-06-28",
+      ]);
+    });
+
+    test("should stop at the end date", () => {
+      const rule = {
+        frequency: "monthly" as const,
+        startDate: "2024-01-15",
+        endDate: "2024-03-01",
+      };
+      expect(occurrencesBetween(rule, "2024-01-01", "2024-12-31")).toEqual([
+        "2024-01-15",
+        "2024-02-15",
+      ]);
+    });
+  });
+
+  describe("nextOccurrence", () => {
+    test("should find the occurrence after a date", () => {
+      const rule = {
+        frequency: "monthly" as const,
+        dayOfMonth: 1,
+        startDate: "2024-01-10",
+        endDate: "2024-03-31",
+      };
+
+      // The 1st of January is before the start date
+      expect(nextOccurrence(rule, "2023-12-31")).toBe("2024-02-01");
+      expect(nextOccurrence(rule, "2024-02-01")).toBe("2024-03-01");
+      expect(nextOccurrence(rule, "2024-03-01")).toBeNull();
+    });
+  });
+});
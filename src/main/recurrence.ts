@@ -0,0 +1,130 @@
+/**
+ * Recurrence rules for scheduled transactions. Occurrences are counted
+ * from the schedule's start date; dates are YYYY-MM-DD strings and all
+ * arithmetic is done in UTC so time zones cannot shift a day.
+ */
+
+type RecurrenceFrequency =
+  | "weekly"
+  | "biweekly"
+  | "monthly"
+  | "quarterly"
+  | "yearly"
+  | "last_business_day";
+
+interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  // Monthly, quarterly and yearly: the day of the month, clamped to the
+  // month's last day (31 means the end of every month). Defaults to the
+  // start date's day.
+  dayOfMonth?: number | null;
+  startDate: string;
+  endDate?: string | null; // last day an occurrence may fall on
+}
+
+// Months between occurrences of the month based frequencies
+const MONTH_STEPS: Partial<Record<RecurrenceFrequency, number>> = {
+  monthly: 1,
+  quarterly: 3,
+  yearly: 12,
+  last_business_day: 1,
+};
+
+// Guards against runaway loops on far-off ranges
+const MAX_OCCURRENCES = 5000;
+
+function parseDate(date: string): Date {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function addDays(date: string, days: number): string {
+  const result = parseDate(date);
+  result.setUTCDate(result.getUTCDate() + days);
+  return formatDate(result);
+}
+
+function daysInMonth(year: number, monthIndex: number): number {
+  return new Date(Date.UTC(year, monthIndex + 1, 0)).getUTCDate();
+}
+
+/**
+ * The last Monday to Friday of a month. Bank holidays are not known.
+ */
+function lastBusinessDay(year: number, monthIndex: number): Date {
+  const date = new Date(
+    Date.UTC(year, monthIndex, daysInMonth(year, monthIndex))
+  );
+  while (date.getUTCDay() === 0 || date.getUTCDay() === 6) {
+    date.setUTCDate(date.getUTCDate() - 1);
+  }
+  return date;
+}
+
+/**
+ * The n-th candidate date of a rule (n = 0 is in the start week or
+ * month). Candidates before the start date are not occurrences.
+ */
+function candidate(rule: RecurrenceRule, n: number): string {
+  if (rule.frequency === "weekly" || rule.frequency === "biweekly") {
+    const days = rule.frequency === "weekly" ? 7 : 14;
+    return addDays(rule.startDate, n * days);
+  }
+
+  const start = parseDate(rule.startDate);
+  const months = start.getUTCMonth() + n * MONTH_STEPS[rule.frequency]!;
+  const year = start.getUTCFullYear() + Math.floor(months / 12);
+  const monthIndex = months % 12;
+
+  if (rule.frequency === "last_business_day") {
+    return formatDate(lastBusinessDay(year, monthIndex));
+  }
+  const day = Math.min(
+    rule.dayOfMonth || start.getUTCDate(),
+    daysInMonth(year, monthIndex)
+  );
+  return formatDate(new Date(Date.UTC(year, monthIndex, day)));
+}
+
+/**
+ * Occurrence dates of a rule from `from` through `to`, inclusive
+ */
+function occurrencesBetween(
+  rule: RecurrenceRule,
+  from: string,
+  to: string
+): string[] {
+  const dates: string[] = [];
+  const last = rule.endDate && rule.endDate < to ? rule.endDate : to;
+
+  for (let n = 0; n < MAX_OCCURRENCES; n++) {
+    const date = candidate(rule, n);
+    if (date > last) break;
+    if (date >= rule.startDate && date >= from) dates.push(date);
+  }
+  return dates;
+}
+
+/**
+ * The first occurrence after a date, or null once the rule has ended
+ */
+function nextOccurrence(rule: RecurrenceRule, after: string): string | null {
+  for (let n = 0; n < MAX_OCCURRENCES; n++) {
+    const date = candidate(rule, n);
+    if (rule.endDate && date > rule.endDate) return null;
+    if (date >= rule.startDate && date > after) return date;
+  }
+  return null;
+}
+
+export {
+  RecurrenceFrequency,
+  RecurrenceRule,
+  addDays,
+  nextOccurrence,
+  occurrencesBetween,
+};
@@ -0,0 +1,134 @@
+import { applyRules, ruleMatches } from "./rules";
+
+describe("Rules", () => {
+  const rule = (id: number, fields: object) => ({
+    id,
+    descriptionPattern: null,
+    matchType: "contains" as const,
+    minAmount: null,
+    maxAmount: null,
+    accountId: null,
+    type: null,
+    setCategory: null,
+    setDescription: null,
+    transferAccountId: null,
+    ...fields,
+  });
+
+  const coffee = {
+    description: "SQ *BLUE BOTTLE 0423",
+    amount: 450,
+    type: "debit",
+    category: null,
+    account_id: "checking",
+  };
+
+  describe("ruleMatches", () => {
+    test("should need every condition the rule sets", () => {
+      expect(
+        ruleMatches(rule(1, { descriptionPattern: "blue bottle" }), coffee)
+      ).toBe(true);
+      expect(
+        ruleMatches(
+          rule(1, { descriptionPattern: "blue bottle", type: "credit" }),
+          coffee
+        )
+      ).toBe(false);
+      expect(
+        ruleMatches(rule(1, { minAmount: 100, maxAmount: 450 }), coffee)
+      ).toBe(true);
+      expect(ruleMatches(rule(1, { minAmount: 451 }), coffee)).toBe(false);
+      expect(ruleMatches(rule(1, { accountId: "savings" }), coffee)).toBe(
+        false
+      );
+    });
+
+    test("should match regular expressions case-insensitively", () => {
+      const sq = rule(1, {
+        descriptionPattern: "^sq \\*\\w+",
+        matchType: "regex",
+      });
+      expect(ruleMatches(sq, coffee)).toBe(true);
+      expect(ruleMatches(sq, { ...coffee, description: "Blue Bottle" })).toBe(
+        false
+      );
+    });
+  });
+
+  describe("applyRules", () => {
+    test("should take each change from the first rule that makes it", () => {
+      const changes = applyRules(
+        [
+          rule(1, { descriptionPattern: "bottle", setCategory: "Coffee" }),
+          rule(2, {
+            descriptionPattern: "bottle",
+            setCategory: "Dining",
+            setDescription: "Blue Bottle Coffee",
+          }),
+          rule(3, { setCategory: "Misc" }),
+        ],
+        coffee
+      );
+
+      expect(changes).toEqual({
+        category: "Coffee",
+        description: "Blue Bottle Coffee",
+        ruleIds: [1, 2],
+      });
+    });
+
+    test("should let the first matching rule keep a value already set", () => {
+      const rules = [
+        rule(1, { descriptionPattern: "amazon", setCategory: "Shopping" }),
+        rule(2, { descriptionPattern: "prime", setCategory: "Subscriptions" }),
+        rule(3, { descriptionPattern: "prime", setDescription: "Amazon" }),
+      ];
+
+      expect(
+        applyRules(rules, {
+          ...coffee,
+          description: "Amazon Prime",
+          category: "Shopping",
+        })
+      ).toEqual({ description: "Amazon", ruleIds: [3] });
+      expect(
+        applyRules(rules.slice(0, 2), {
+          ...coffee,
+          description: "Amazon Prime",
+          category: "Shopping",
+        })
+      ).toBeNull();
+    });
+
+    test("should report nothing when the transaction already agrees", () => {
+      const rules = [rule(1, { setCategory: "Coffee" })];
+      expect(applyRules(rules, { ...coffee, category: "Coffee" })).toBeNull();
+      expect(applyRules(rules, { ...coffee, transfer_id: 4 })).toBeNull();
+      expect(applyRules(rules, { ...coffee, hasSplits: true })).toBeNull();
+    });
+
+    test("should mark transfers without a category", () => {
+      const payment = {
+        ...coffee,
+        description: "ONLINE PMT CREDIT CARD",
+        amount: 50000,
+      };
+      const changes = applyRules(
+        [
+          rule(1, { setCategory: "Bills" }),
+          rule(2, {
+            descriptionPattern: "credit card",
+            transferAccountId: "card",
+          }),
+        ],
+        payment
+      );
+
+      expect(changes).toEqual({ transferAccountId: "card", ruleIds: [1, 2] });
+      // Never a transfer to the account the transaction is in
+      expect(
+        applyRules([rule(1, { transferAccountId: "checking" })], payment)
+      ).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * Auto-categorization rules. A rule matches a transaction when every
+ * condition it sets holds: the description contains a text or matches a
+ * regular expression (both case-insensitive), the amount falls in a range,
+ * and the account and type agree. Matching rules can set the category,
+ * rename the payee or mark the transaction as a transfer to another
+ * account. Amounts are integer cents.
+ */
+
+interface CategorizationRule {
+  id: number;
+  descriptionPattern: string | null;
+  matchType: "contains" | "regex";
+  minAmount: number | null;
+  maxAmount: number | null;
+  accountId: string | null;
+  type: string | null;
+  setCategory: string | null;
+  setDescription: string | null;
+  transferAccountId: string | null;
+}
+
+// The parts of a transaction rules look at
+interface RuleTarget {
+  description: string;
+  amount: number; // always positive
+  type: string;
+  category?: string | null;
+  account_id?: string | null;
+  transfer_id?: number | null;
+  hasSplits?: boolean;
+}
+
+// What the rules would change; unset fields stay as they are
+interface RuleChanges {
+  category?: string;
+  description?: string;
+  transferAccountId?: string;
+  ruleIds: number[]; // the matching rules that set something, in order
+}
+
+function descriptionMatches(
+  rule: CategorizationRule,
+  description: string
+): boolean {
+  if (!rule.descriptionPattern) return true;
+  if (rule.matchType === "regex") {
+    try {
+      return new RegExp(rule.descriptionPattern, "i").test(description);
+    } catch {
+      return false; // patterns are validated when saved
+    }
+  }
+  return description
+    .toLowerCase()
+    .includes(rule.descriptionPattern.toLowerCase());
+}
+
+function ruleMatches(rule: CategorizationRule, target: RuleTarget): boolean {
+  return (
+    descriptionMatches(rule, target.description || "") &&
+    (rule.minAmount === null || target.amount >= rule.minAmount) &&
+    (rule.maxAmount === null || target.amount <= rule.maxAmount) &&
+    (!rule.accountId || rule.accountId === target.account_id) &&
+    (!rule.type || rule.type === target.type)
+  );
+}
+
+/**
+ * Run the rules over a transaction in order. Each field belongs to the
+ * first matching rule that sets it, even when the transaction already
+ * has that value, and every rule sees the original description, so
+ * reordering rules is the only way they interact. Transfers are left
+ * alone, transactions split across categories keep their splits, and a
+ * transaction marked as a transfer gets no category. Returns null when
+ * nothing would change.
+ */
+function applyRules(
+  rules: CategorizationRule[],
+  target: RuleTarget
+): RuleChanges | null {
+  if (target.transfer_id) return null;
+
+  const changes: RuleChanges = { ruleIds: [] };
+  const claimed = new Set<"transferAccountId" | "category" | "description">();
+  for (const rule of rules) {
+    if (!ruleMatches(rule, target)) continue;
+    let changed = false;
+
+    if (
+      rule.transferAccountId &&
+      !claimed.has("transferAccountId") &&
+      target.account_id &&
+      rule.transferAccountId !== target.account_id &&
+      !target.hasSplits
+    ) {
+      claimed.add("transferAccountId");
+      changes.transferAccountId = rule.transferAccountId;
+      changed = true;
+    }
+    if (rule.setCategory && !claimed.has("category") && !target.hasSplits) {
+      claimed.add("category");
+      if (rule.setCategory !== target.category) {
+        changes.category = rule.setCategory;
+        changed = true;
+      }
+    }
+    if (rule.setDescription && !claimed.has("description")) {
+      claimed.add("description");
+      if (rule.setDescription !== target.description) {
+        changes.description = rule.setDescription;
+        changed = true;
+      }
+    }
+
+    if (changed) changes.ruleIds.push(rule.id);
+  }
+
+  if (changes.transferAccountId) delete changes.category;
+  return changes.ruleIds.length > 0 ? changes : null;
+}
+
+export {
+  CategorizationRule,
+  RuleChanges,
+  RuleTarget,
+  applyRules,
+  ruleMatches,
+};
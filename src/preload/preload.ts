@@ -5,18 +5,144 @@ contextBridge.exposeInMainWorld("electronAPI", {
   loadData: () => ipcRenderer.invoke("load-data"),
   exportData: (path: string, password: string) =>
     ipcRenderer.invoke("export-data", path, password),
-  importData: (path: string, password: string) =>
-    ipcRenderer.invoke("import-data", path, password),
+  importData: (path: string, password: string, exportKey?: string) =>
+    ipcRenderer.invoke("import-data", path, password, exportKey),
   openFileDialog: () => ipcRenderer.invoke("dialog:openFile"),
   saveFileDialog: () => ipcRenderer.invoke("dialog:saveFile"),
-  openCsvFile: () => ipcRenderer.invoke("dialog:openCsvFile"),
 
   // Transaction API
   updateTransaction: (transactionId: string, updates: any) =>
     ipcRenderer.invoke("update-transaction", transactionId, updates),
+  createTransfer: (userId: number, transfer: any) =>
+    ipcRenderer.invoke("transfers:create", userId, transfer),
+  updateTransfer: (userId: number, transferId: number, transfer: any) =>
+    ipcRenderer.invoke("transfers:update", userId, transferId, transfer),
   deleteTransaction: (transactionId: string) =>
     ipcRenderer.invoke("delete-transaction", transactionId),
 
+  // Account API
+  listAccounts: (userId: number) => ipcRenderer.invoke("accounts:list", userId),
+  createAccount: (userId: number, account: any) =>
+    ipcRenderer.invoke("accounts:create", userId, account),
+  updateAccount: (accountId: string, updates: any) =>
+    ipcRenderer.invoke("accounts:update", accountId, updates),
+  deleteAccount: (accountId: string) =>
+    ipcRenderer.invoke("accounts:delete", accountId),
+  getAccountRegister: (accountId: string) =>
+    ipcRenderer.invoke("accounts:get-register", accountId),
+  getBalances: (
+    userId: number,
+    accountId: string | null,
+    asOf: string | null
+  ) => ipcRenderer.invoke("balances:get", userId, accountId, asOf),
+  getCategoryTotals: (userId: number, filter: any) =>
+    ipcRenderer.invoke("reports:category-totals", userId, filter),
+
+  // Scheduled Transaction API
+  listScheduledTransactions: (userId: number) =>
+    ipcRenderer.invoke("scheduled:list", userId),
+  createScheduledTransaction: (userId: number, schedule: any) =>
+    ipcRenderer.invoke("scheduled:create", userId, schedule),
+  deleteScheduledTransaction: (userId: number, scheduledId: number) =>
+    ipcRenderer.invoke("scheduled:delete", userId, scheduledId),
+  runDueScheduledTransactions: (userId: number) =>
+    ipcRenderer.invoke("scheduled:run-due", userId),
+  postScheduledOccurrence: (
+    userId: number,
+    scheduledId: number,
+    occurrenceDate: string
+  ) =>
+    ipcRenderer.invoke("scheduled:post", userId, scheduledId, occurrenceDate),
+  skipScheduledOccurrence: (
+    userId: number,
+    scheduledId: number,
+    occurrenceDate: string
+  ) =>
+    ipcRenderer.invoke("scheduled:skip", userId, scheduledId, occurrenceDate),
+  overrideScheduledOccurrence: (
+    userId: number,
+    scheduledId: number,
+    occurrenceDate: string,
+    override: any
+  ) =>
+    ipcRenderer.invoke(
+      "scheduled:override",
+      userId,
+      scheduledId,
+      occurrenceDate,
+      override
+    ),
+  getForecast: (userId: number, accountId: string | null, through: string) =>
+    ipcRenderer.invoke("scheduled:forecast", userId, accountId, through),
+
+  // Categorization Rule API
+  listRules: (userId: number) => ipcRenderer.invoke("rules:list", userId),
+  saveRule: (userId: number, rule: any) =>
+    ipcRenderer.invoke("rules:save", userId, rule),
+  deleteRule: (userId: number, ruleId: number) =>
+    ipcRenderer.invoke("rules:delete", userId, ruleId),
+  reorderRules: (userId: number, ruleIds: number[]) =>
+    ipcRenderer.invoke("rules:reorder", userId, ruleIds),
+  previewRules: (userId: number, accountId: string | null) =>
+    ipcRenderer.invoke("rules:preview", userId, accountId),
+  applyRules: (userId: number, transactionIds: string[]) =>
+    ipcRenderer.invoke("rules:apply", userId, transactionIds),
+
+  // Payees API
+  listPayees: (userId: number) => ipcRenderer.invoke("payees:list", userId),
+  createPayee: (userId: number, name: string, aliases: string[]) =>
+    ipcRenderer.invoke("payees:create", userId, name, aliases),
+  renamePayee: (userId: number, payeeId: number, name: string) =>
+    ipcRenderer.invoke("payees:rename", userId, payeeId, name),
+  deletePayee: (userId: number, payeeId: number) =>
+    ipcRenderer.invoke("payees:delete", userId, payeeId),
+  addPayeeAlias: (userId: number, payeeId: number, pattern: string) =>
+    ipcRenderer.invoke("payees:add-alias", userId, payeeId, pattern),
+  deletePayeeAlias: (userId: number, aliasId: number) =>
+    ipcRenderer.invoke("payees:delete-alias", userId, aliasId),
+  mergePayees: (
+    userId: number,
+    targetId: number,
+    payeeIds: number[],
+    descriptions: string[]
+  ) =>
+    ipcRenderer.invoke(
+      "payees:merge",
+      userId,
+      targetId,
+      payeeIds,
+      descriptions
+    ),
+
+  // Statement Import API
+  previewCsvImport: (userId: number, accountId: string | null) =>
+    ipcRenderer.invoke("import:csv-preview", userId, accountId),
+  remapCsvImport: (importId: string, mapping: any, profileId: number | null) =>
+    ipcRenderer.invoke("import:csv-remap", importId, mapping, profileId),
+  saveCsvImportProfile: (importId: string, name: string) =>
+    ipcRenderer.invoke("import:csv-save-profile", importId, name),
+  deleteImportProfile: (userId: number, profileId: number) =>
+    ipcRenderer.invoke("import-profiles:delete", userId, profileId),
+  previewOfxImport: (userId: number, accountId: string | null) =>
+    ipcRenderer.invoke("import:ofx-preview", userId, accountId),
+  previewQifImport: (userId: number, accountId: string | null) =>
+    ipcRenderer.invoke("import:qif-preview", userId, accountId),
+  commitImport: (
+    importId: string,
+    decisions: any[],
+    accountId: string | null
+  ) => ipcRenderer.invoke("import:commit", importId, decisions, accountId),
+  exportQif: (userId: number, accountId: string | null) =>
+    ipcRenderer.invoke("export:qif", userId, accountId),
+  listImportBatches: (userId: number) =>
+    ipcRenderer.invoke("import-batches:list", userId),
+  rollbackImportBatch: (userId: number, batchId: number) =>
+    ipcRenderer.invoke("import-batches:rollback", userId, batchId),
+  getStatementLines: (transactionId: string) =>
+    ipcRenderer.invoke("statement-lines:for-transaction", transactionId),
+  unlinkStatementLine: (statementLineId: number, transactionId: string) =>
+    ipcRenderer.invoke("statement-lines:unlink", statementLineId, transactionId),
+
   // Reconciliation API
   findUnreconciledByAmount: (
     userId: number,
@@ -43,6 +169,29 @@ contextBridge.exposeInMainWorld("electronAPI", {
   getUnreconciled: (userId: number) =>
     ipcRenderer.invoke("db:get-unreconciled", userId),
 
+  // Statement Reconciliation Session API
+  startReconciliation: (userId: number, statement: any) =>
+    ipcRenderer.invoke("reconciliation:start", userId, statement),
+  resumeReconciliation: (userId: number, accountId: string | null) =>
+    ipcRenderer.invoke("reconciliation:resume", userId, accountId),
+  listReconciliations: (userId: number, accountId: string | null) =>
+    ipcRenderer.invoke("reconciliation:list", userId, accountId),
+  setReconciliationCleared: (
+    reconciliationId: number,
+    transactionId: string,
+    cleared: boolean
+  ) =>
+    ipcRenderer.invoke(
+      "reconciliation:set-cleared",
+      reconciliationId,
+      transactionId,
+      cleared
+    ),
+  finishReconciliation: (reconciliationId: number) =>
+    ipcRenderer.invoke("reconciliation:finish", reconciliationId),
+  undoReconciliation: (reconciliationId: number) =>
+    ipcRenderer.invoke("reconciliation:undo", reconciliationId),
+
   // Encryption Key Management API
   encryptionGenerateKey: () => ipcRenderer.invoke("encryption:generate-key"),
   encryptionStoreKey: (key: string) =>
@@ -50,6 +199,11 @@ contextBridge.exposeInMainWorld("electronAPI", {
   encryptionHasKey: () => ipcRenderer.invoke("encryption:has-key"),
   encryptionFormatKey: (key: string) =>
     ipcRenderer.invoke("encryption:format-key", key),
+  encryptionRotateKey: () => ipcRenderer.invoke("encryption:rotate-key"),
+  encryptionRestoreKey: (displayedKey: string, dbPath: string | null) =>
+    ipcRenderer.invoke("encryption:restore-key", displayedKey, dbPath),
+  encryptionFileStatus: () => ipcRenderer.invoke("encryption:file-status"),
+  encryptionEncryptFile: () => ipcRenderer.invoke("encryption:encrypt-file"),
 
   // Database Path Configuration API
   dbGetPath: () => ipcRenderer.invoke("db:get-path"),
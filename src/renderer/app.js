@@ -3,6 +3,7 @@
 // Global state
 let appData = {
   user: null,
+  accounts: [],
   transactions: [],
   categories: { income: [], expense: [] },
   balance: 0,
@@ -13,6 +14,8 @@ const itemsPerPage = 20;
 let filteredTransactions = [];
 let saveAndAddAnother = false;
 let editingTransactionId = null;
+let activeReconciliation = null;
+let reconciliationImportBatchId = null; // the statement import a new session follows
 
 // Helper function to format currency with commas
 function formatCurrency(amount) {
@@ -37,6 +40,10 @@ document.addEventListener('DOMContentLoaded', async () => {
         appData = result.data;
         showScreen('main-screen');
         renderUI();
+        await runDueScheduledTransactions();
+      } else if (result.schemaTooNew) {
+        // Never offer onboarding over a database we cannot read
+        alert(result.error);
       } else {
         console.log('No user data found, showing onboarding');
         showScreen('onboarding-screen');
@@ -71,6 +78,19 @@ function setupEventListeners() {
     }
   });
   
+  document.getElementById('show-restore-key-btn').addEventListener('click', () => {
+    document.getElementById('restore-key-form').reset();
+    showScreen('restore-key-screen');
+  });
+  document.getElementById('cancel-restore-key-btn').addEventListener('click', () => showScreen('onboarding-screen'));
+  document.getElementById('restore-choose-db-btn').addEventListener('click', async () => {
+    const result = await window.electronAPI.openFileDialog();
+    if (result.success && result.filePath) {
+      document.getElementById('restore-db-path-input').value = result.filePath;
+    }
+  });
+  document.getElementById('restore-key-form').addEventListener('submit', restoreEncryptionKey);
+
   document.getElementById('copy-key-btn').addEventListener('click', copyEncryptionKey);
   document.getElementById('key-saved-checkbox').addEventListener('change', (e) => {
     document.getElementById('continue-to-app-btn').disabled = !e.target.checked;
@@ -83,12 +103,29 @@ function setupEventListeners() {
   document.getElementById('export-btn').addEventListener('click', openExportDialog);
   document.getElementById('import-btn').addEventListener('click', openImportDialog);
   document.getElementById('import-csv-btn').addEventListener('click', openCsvImport);
-  document.getElementById('start-reconciliation-btn').addEventListener('click', startReconciliation);
+  document.getElementById('import-ofx-btn').addEventListener('click', openOfxImport);
+  document.getElementById('import-qif-btn').addEventListener('click', openQifImport);
+  document.getElementById('export-qif-btn').addEventListener('click', exportQif);
+  document.getElementById('import-history-btn').addEventListener('click', openImportHistory);
+  document.getElementById('category-totals-btn').addEventListener('click', openCategoryTotals);
+  document.getElementById('scheduled-btn').addEventListener('click', () => openScheduled());
+  document.getElementById('rules-btn').addEventListener('click', openRules);
+  document.getElementById('payees-btn').addEventListener('click', openPayees);
+  document.getElementById('start-reconciliation-btn').addEventListener('click', () => startReconciliation());
   
   document.getElementById('transaction-form').addEventListener('submit', saveTransaction);
   document.getElementById('save-and-add-another-btn').addEventListener('click', saveAndAddAnotherTransaction);
   document.getElementById('cancel-transaction-btn').addEventListener('click', closeTransactionModal);
   document.getElementById('add-category-btn').addEventListener('click', openCategoryModal);
+  document.getElementById('split-transaction-btn').addEventListener('click', toggleSplits);
+  document.getElementById('txType').addEventListener('change', updateTransferFields);
+  document.getElementById('add-split-btn').addEventListener('click', () => addSplitRow());
+  document.getElementById('amount').addEventListener('input', updateSplitRemaining);
+  
+  document.getElementById('add-account-btn').addEventListener('click', openAccountModal);
+  document.getElementById('account-form').addEventListener('submit', saveAccount);
+  document.getElementById('cancel-account-btn').addEventListener('click', closeAccountModal);
+  document.getElementById('account-filter').addEventListener('change', calculateBalance);
   
   document.getElementById('save-category-btn').addEventListener('click', saveCategory);
   document.getElementById('cancel-category-btn').addEventListener('click', closeCategoryModal);
@@ -102,26 +139,57 @@ function setupEventListeners() {
   document.getElementById('csv-select-all').addEventListener('change', toggleCsvSelectAll);
   document.getElementById('import-csv-confirm-btn').addEventListener('click', confirmCsvImport);
   document.getElementById('cancel-csv-import-btn').addEventListener('click', closeCsvImportModal);
+  document.getElementById('csv-profile-select').addEventListener('change', selectCsvProfile);
+  document.getElementById('csv-apply-mapping-btn').addEventListener('click', applyCsvMapping);
+  document.getElementById('csv-save-profile-btn').addEventListener('click', saveCsvProfile);
+  document.getElementById('csv-delete-profile-btn').addEventListener('click', deleteCsvProfile);
+  document.getElementById('close-import-history-btn').addEventListener('click', closeImportHistoryModal);
+  document.getElementById('close-statement-lines-btn').addEventListener('click', closeStatementLinesModal);
+  document.getElementById('close-category-totals-btn').addEventListener('click', closeCategoryTotalsModal);
+  document.getElementById('close-scheduled-btn').addEventListener('click', closeScheduledModal);
+  document.getElementById('scheduled-form').addEventListener('submit', saveSchedule);
+  document.getElementById('forecast-through').addEventListener('change', loadForecast);
+  document.getElementById('close-rules-btn').addEventListener('click', closeRulesModal);
+  document.getElementById('rule-form').addEventListener('submit', saveRule);
+  document.getElementById('cancel-rule-edit-btn').addEventListener('click', resetRuleForm);
+  document.getElementById('preview-rules-btn').addEventListener('click', previewRules);
+  document.getElementById('apply-rules-btn').addEventListener('click', applySelectedRules);
+  document.getElementById('close-payees-btn').addEventListener('click', closePayeesModal);
+  document.getElementById('payee-form').addEventListener('submit', createPayee);
+  document.getElementById('merge-payees-btn').addEventListener('click', mergeSelectedPayees);
+  document.getElementById('rules-preview-select-all').addEventListener('change', (e) => {
+    document.querySelectorAll('.rule-change-checkbox').forEach(checkbox => {
+      checkbox.checked = e.target.checked;
+    });
+  });
   
+  document.getElementById('reconciliation-statement-form').addEventListener('submit', beginReconciliationSession);
+  document.getElementById('undo-last-reconciliation-btn').addEventListener('click', undoLastReconciliation);
+  document.getElementById('reconciliation-list').addEventListener('change', toggleClearedTransaction);
   document.getElementById('reconcile-all-checkbox').addEventListener('change', toggleReconcileAll);
-  document.getElementById('save-reconciliation-btn').addEventListener('click', saveReconciliation);
+  document.getElementById('finish-reconciliation-btn').addEventListener('click', finishReconciliation);
+  document.getElementById('save-reconciliation-btn').addEventListener('click', closeReconciliationModal);
+  document.getElementById('discard-reconciliation-btn').addEventListener('click', discardReconciliation);
   document.getElementById('cancel-reconciliation-btn').addEventListener('click', closeReconciliationModal);
   
   document.getElementById('close-settings-btn').addEventListener('click', closeSettingsModal);
   document.getElementById('change-db-path-btn').addEventListener('click', changeDbPath);
+  document.getElementById('rotate-key-btn').addEventListener('click', rotateEncryptionKey);
+  document.getElementById('encrypt-file-btn').addEventListener('click', encryptDatabaseFile);
   
   document.getElementById('search-box').addEventListener('input', filterTransactions);
   document.getElementById('start-date').addEventListener('change', filterTransactions);
-  document.getElementById('end-date').addEventListener('change', filterTransactions);
+  document.getElementById('end-date').addEventListener('change', calculateBalance);
   document.getElementById('clear-filters-btn').addEventListener('click', clearFilters);
   
   document.getElementById('prev-page-btn').addEventListener('click', () => changePage(-1));
   document.getElementById('next-page-btn').addEventListener('click', () => changePage(1));
   
-  // Event delegation for edit and delete transaction buttons
+  // Event delegation for edit, delete and statement line buttons
   document.getElementById('transactions-body').addEventListener('click', (e) => {
     const editBtn = e.target.closest('.edit-transaction-btn');
     const deleteBtn = e.target.closest('.delete-transaction-btn');
+    const bankBtn = e.target.closest('.statement-lines-btn');
     
     if (editBtn) {
       const transactionId = editBtn.getAttribute('data-transaction-id');
@@ -129,6 +197,9 @@ function setupEventListeners() {
     } else if (deleteBtn) {
       const transactionId = deleteBtn.getAttribute('data-transaction-id');
       deleteTransaction(transactionId);
+    } else if (bankBtn) {
+      const transactionId = bankBtn.getAttribute('data-transaction-id');
+      showStatementLines(transactionId);
     }
   });
 }
@@ -180,6 +251,25 @@ async function handleOnboardingSubmit(e) {
   }
 }
 
+async function restoreEncryptionKey(e) {
+  e.preventDefault();
+
+  const displayedKey = document.getElementById('restore-key-input').value;
+  const dbPath = document.getElementById('restore-db-path-input').value || null;
+
+  try {
+    const result = await window.electronAPI.encryptionRestoreKey(displayedKey, dbPath);
+    if (!result.success) {
+      alert('Error restoring encryption key: ' + result.error);
+      return;
+    }
+    await continueToApp();
+  } catch (error) {
+    console.error('Error restoring encryption key:', error);
+    alert('Error restoring encryption key: ' + error.message);
+  }
+}
+
 async function copyEncryptionKey() {
   const keyDisplay = document.getElementById('encryption-key-display');
   const btn = document.getElementById('copy-key-btn');
@@ -253,25 +343,46 @@ function toggleTheme() {
 }
 
 function renderUI() {
-  calculateBalance();
-  renderTransactions();
+  renderAccounts();
+  calculateBalance(); // redraws the register once the balances are in
   renderCategories();
   checkUnreconciledTransactions();
 }
 
-function calculateBalance() {
-  let balance = 0;
-  
-  appData.transactions.forEach(t => {
-    if (t.type === 'credit') {
-      balance += parseFloat(t.amount);
-    } else {
-      balance -= parseFloat(t.amount);
+function getSelectedAccountId() {
+  return document.getElementById('account-filter').value || null;
+}
+
+// Running balance after each transaction, keyed by transaction id
+let registerBalances = new Map();
+
+// Balances are computed by the main process for the selected account
+// (or every transaction) as of the end date filter, then the register
+// is redrawn with them
+async function calculateBalance() {
+  const asOf = document.getElementById('end-date').value || null;
+
+  try {
+    const result = await window.electronAPI.getBalances(appData.user.id, getSelectedAccountId(), asOf);
+    if (!result.success) {
+      alert('Error calculating balances: ' + result.error);
+      return;
     }
-  });
-  
-  appData.balance = balance;
-  document.getElementById('current-balance').textContent = '$' + formatCurrency(balance);
+
+    const { balances } = result;
+    appData.balance = balances.balance;
+    registerBalances = new Map(balances.running.map(r => [r.transactionId, r.balance]));
+
+    document.getElementById('current-balance').textContent = formatSignedCurrency(balances.balance);
+    document.getElementById('cleared-balance').textContent = formatSignedCurrency(balances.cleared);
+    document.getElementById('uncleared-balance').textContent = formatSignedCurrency(balances.uncleared);
+    document.getElementById('balance-as-of').textContent = asOf ? `as of ${asOf}` : '';
+  } catch (error) {
+    console.error('Error calculating balances:', error);
+    alert('Error calculating balances: ' + error.message);
+  }
+
+  renderTransactions();
 }
 
 function renderTransactions() {
@@ -283,16 +394,21 @@ function filterTransactions() {
   const startDate = document.getElementById('start-date').value;
   const endDate = document.getElementById('end-date').value;
   
+  const selectedAccountId = getSelectedAccountId();
+  
   filteredTransactions = appData.transactions.filter(t => {
+    const matchesAccount = !selectedAccountId || t.accountId === selectedAccountId;
     const matchesSearch = !searchTerm || 
       t.payee.toLowerCase().includes(searchTerm) ||
+      (t.originalDescription && t.originalDescription.toLowerCase().includes(searchTerm)) ||
       (t.category && t.category.toLowerCase().includes(searchTerm)) ||
+      (t.splits || []).some(split => split.category && split.category.toLowerCase().includes(searchTerm)) ||
       (t.checkNumber && t.checkNumber.includes(searchTerm));
     
     const matchesStartDate = !startDate || t.date >= startDate;
     const matchesEndDate = !endDate || t.date <= endDate;
     
-    return matchesSearch && matchesStartDate && matchesEndDate;
+    return matchesAccount && matchesSearch && matchesStartDate && matchesEndDate;
   });
   
   filteredTransactions.sort((a, b) => new Date(b.date) - new Date(a.date));
@@ -317,41 +433,27 @@ function renderPaginatedTransactions() {
   const endIndex = Math.min(startIndex + itemsPerPage, filteredTransactions.length);
   const pageTransactions = filteredTransactions.slice(startIndex, endIndex);
   
-  // Pre-calculate balances for each transaction based on ALL transactions in chronological order
-  const transactionBalances = new Map();
-  const sortedAllTransactions = [...appData.transactions].sort((a, b) => {
-    const dateCompare = new Date(a.date) - new Date(b.date);
-    if (dateCompare !== 0) return dateCompare;
-    // If dates are equal, maintain stable sort by id
-    return a.id.localeCompare(b.id);
-  });
-  
-  let runningBalance = 0;
-  sortedAllTransactions.forEach(t => {
-    if (t.type === 'credit') {
-      runningBalance += parseFloat(t.amount);
-    } else {
-      runningBalance -= parseFloat(t.amount);
-    }
-    transactionBalances.set(t.id, runningBalance);
-  });
-  
   pageTransactions.forEach(transaction => {
-    const balance = transactionBalances.get(transaction.id) || 0;
+    const balance = registerBalances.get(transaction.id) || 0;
     
     const row = document.createElement('tr');
     row.innerHTML = `
       <td>${transaction.date}</td>
       <td>${transaction.checkNumber || '-'}</td>
-      <td>${transaction.payee}</td>
-      <td>${transaction.category || '-'}</td>
+      <td ${transaction.originalDescription ? `title="Bank: ${transaction.originalDescription}"` : ''}>${transaction.payee}</td>
+      <td>${transaction.transferId
+        ? `Transfer ${transaction.type === 'debit' ? 'to' : 'from'} ${accountName(transaction.transferAccountId)}`
+        : transaction.splits && transaction.splits.length > 0
+        ? `<span class="badge badge-outline" title="${transaction.splits.map(split => `${split.category || 'Uncategorized'}: $${formatCurrency(split.amount)}`).join(', ')}">Split (${transaction.splits.length})</span>`
+        : (transaction.category || '-')}</td>
       <td>${transaction.type === 'debit' ? '$' + formatCurrency(transaction.amount) : '-'}</td>
       <td>${transaction.type === 'credit' ? '$' + formatCurrency(transaction.amount) : '-'}</td>
-      <td>$${formatCurrency(balance)}</td>
+      <td>${formatSignedCurrency(balance)}</td>
       <td>
         <span class="badge ${transaction.isReconciled ? 'badge-success' : 'badge-warning'}">
           ${transaction.isReconciled ? 'Reconciled' : 'Unreconciled'}
         </span>
+        ${transaction.hasStatementLines ? `<button class="btn btn-xs btn-ghost statement-lines-btn" data-transaction-id="${transaction.id}" title="Show the bank statement lines that cleared this transaction">Bank</button>` : ''}
       </td>
       <td>
         <div class="flex gap-1">
@@ -394,7 +496,91 @@ function clearFilters() {
   document.getElementById('search-box').value = '';
   document.getElementById('start-date').value = '';
   document.getElementById('end-date').value = '';
-  filterTransactions();
+  calculateBalance();
+}
+
+function renderAccounts() {
+  const accounts = appData.accounts || [];
+  const filterSelect = document.getElementById('account-filter');
+  const txAccountSelect = document.getElementById('txAccount');
+  const txToAccountSelect = document.getElementById('txToAccount');
+  const scheduleAccountSelect = document.getElementById('schedule-account');
+  const ruleAccountSelect = document.getElementById('rule-account');
+  const ruleTransferAccountSelect = document.getElementById('rule-transfer-account');
+  const selectedAccountId = filterSelect.value;
+  
+  filterSelect.innerHTML = '<option value="">All Accounts</option>';
+  txAccountSelect.innerHTML = '<option value="">-- No Account --</option>';
+  txToAccountSelect.innerHTML = '<option value="">-- Select Account --</option>';
+  scheduleAccountSelect.innerHTML = '<option value="">-- No Account --</option>';
+  ruleAccountSelect.innerHTML = '<option value="">Any account</option>';
+  ruleTransferAccountSelect.innerHTML = '<option value="">Not a transfer</option>';
+  
+  accounts.forEach(account => {
+    const label = account.lastFour ? `${account.name} (…${account.lastFour})` : account.name;
+    
+    const filterOption = document.createElement('option');
+    filterOption.value = account.id;
+    filterOption.textContent = label;
+    filterSelect.appendChild(filterOption);
+    
+    const txOption = document.createElement('option');
+    txOption.value = account.id;
+    txOption.textContent = label;
+    txAccountSelect.appendChild(txOption);
+    txToAccountSelect.appendChild(txOption.cloneNode(true));
+    scheduleAccountSelect.appendChild(txOption.cloneNode(true));
+    ruleAccountSelect.appendChild(txOption.cloneNode(true));
+    ruleTransferAccountSelect.appendChild(txOption.cloneNode(true));
+  });
+  
+  // Keep the current selection if the account still exists
+  if (accounts.some(a => a.id === selectedAccountId)) {
+    filterSelect.value = selectedAccountId;
+  }
+}
+
+function openAccountModal() {
+  document.getElementById('account-form').reset();
+  document.getElementById('account-opening-date').value = new Date().toISOString().split('T')[0];
+  document.getElementById('account-modal').classList.add('modal-open');
+}
+
+function closeAccountModal() {
+  document.getElementById('account-modal').classList.remove('modal-open');
+}
+
+async function saveAccount(e) {
+  e.preventDefault();
+  
+  const account = {
+    name: document.getElementById('account-name').value.trim(),
+    institution: document.getElementById('account-institution').value.trim() || null,
+    accountType: document.getElementById('account-type').value,
+    lastFour: document.getElementById('account-last-four').value.trim() || null,
+    openingBalance: parseFloat(document.getElementById('account-opening-balance').value) || 0,
+    openingDate: document.getElementById('account-opening-date').value,
+  };
+  
+  try {
+    const result = await window.electronAPI.createAccount(appData.user.id, account);
+    
+    if (!result.success) {
+      alert('Error saving account: ' + result.error);
+      return;
+    }
+    
+    const loadResult = await window.electronAPI.loadData();
+    if (loadResult.success && loadResult.data) {
+      appData = loadResult.data;
+      renderUI();
+    }
+    
+    closeAccountModal();
+  } catch (error) {
+    console.error('Error saving account:', error);
+    alert('Error saving account: ' + error.message);
+  }
 }
 
 function renderCategories() {
@@ -427,7 +613,11 @@ function renderCategories() {
   
   const payeeList = document.getElementById('payee-list');
   payeeList.innerHTML = '';
-  const uniquePayees = [...new Set(appData.transactions.map(t => t.payee))];
+  // Canonical payees, plus names typed by hand; raw bank text stays out
+  const uniquePayees = [...new Set([
+    ...(appData.payees || []).map(p => p.name),
+    ...appData.transactions.filter(t => t.source === 'manual').map(t => t.payee)
+  ])];
   uniquePayees.forEach(payee => {
     const option = document.createElement('option');
     option.value = payee;
@@ -451,6 +641,9 @@ function openTransactionModal() {
   editingTransactionId = null;
   document.getElementById('transaction-form').reset();
   document.getElementById('txDate').value = new Date().toISOString().split('T')[0];
+  document.getElementById('txAccount').value = getSelectedAccountId() || '';
+  hideSplits();
+  updateTransferFields();
   document.getElementById('add-transaction-modal').classList.add('modal-open');
 }
 
@@ -479,26 +672,50 @@ async function submitTransaction() {
   const amount = parseFloat(document.getElementById('amount').value);
   const category = document.getElementById('category').value;
   const reconciled = document.getElementById('reconciled').checked;
+  const accountId = document.getElementById('txAccount').value || null;
+  const splits = getSplits();
   
   if (!payee || !amount) {
     alert('Please fill in all required fields');
     return;
   }
   
+  if (splits.length > 0) {
+    if (splits.length < 2) {
+      alert('A split transaction needs at least two splits');
+      return;
+    }
+    if (splitRemainingCents() !== 0) {
+      alert('The splits must add up to the transaction amount');
+      return;
+    }
+  }
+  
   const transactionData = {
     date,
     description: payee,
     payee,
     amount,
     type,
-    category: category || null,
+    category: splits.length > 0 ? null : category || null,
     checkNumber: checkNumber || null,
     isReconciled: reconciled,
-    accountId: null,
+    accountId,
+    splits,
   };
   
   try {
-    if (editingTransactionId) {
+    if (type === 'transfer') {
+      const saved = await saveTransfer({
+        date,
+        description: payee,
+        amount,
+        fromAccountId: accountId,
+        toAccountId: document.getElementById('txToAccount').value || null,
+        checkNumber: checkNumber || null,
+      });
+      if (!saved) return;
+    } else if (editingTransactionId) {
       const result = await window.electronAPI.updateTransaction(editingTransactionId, transactionData);
       
       if (!result.success) {
@@ -528,6 +745,9 @@ async function submitTransaction() {
       document.getElementById('txDate').value = date;
       document.getElementById('txType').value = type;
       document.getElementById('category').value = category;
+      document.getElementById('txAccount').value = accountId || '';
+      hideSplits();
+      updateTransferFields();
     } else {
       closeTransactionModal();
     }
@@ -554,12 +774,168 @@ function editTransaction(transactionId) {
   document.getElementById('amount').value = transaction.amount;
   document.getElementById('category').value = transaction.category || '';
   document.getElementById('reconciled').checked = transaction.isReconciled;
+  document.getElementById('txAccount').value = transaction.accountId || '';
+  if (transaction.splits && transaction.splits.length > 0) {
+    showSplits(transaction.splits);
+  } else {
+    hideSplits();
+  }
+  
+  // A transfer is edited as a whole from either side
+  if (transaction.transferId) {
+    const [from, to] = transaction.type === 'debit'
+      ? [transaction.accountId, transaction.transferAccountId]
+      : [transaction.transferAccountId, transaction.accountId];
+    document.getElementById('txType').value = 'transfer';
+    document.getElementById('txAccount').value = from || '';
+    document.getElementById('txToAccount').value = to || '';
+  }
+  updateTransferFields();
   
   document.getElementById('add-transaction-modal').classList.add('modal-open');
 }
 
+// Transfers: a payment out of one account and a deposit into another,
+// created and edited as a pair. They have no category.
+function updateTransferFields() {
+  const isTransfer = document.getElementById('txType').value === 'transfer';
+  const category = document.getElementById('category');
+
+  if (isTransfer) {
+    hideSplits();
+  }
+  document.getElementById('transfer-to-section').classList.toggle('hidden', !isTransfer);
+  document.getElementById('txToAccount').required = isTransfer;
+  document.getElementById('category-section').classList.toggle('hidden', isTransfer);
+  document.getElementById('split-toggle-section').classList.toggle('hidden', isTransfer);
+  document.getElementById('reconciled-section').classList.toggle('hidden', isTransfer);
+  document.getElementById('txAccount-label').textContent = isTransfer ? 'From Account *' : 'Account';
+  document.getElementById('txAccount').required = isTransfer;
+  category.required = !isTransfer && getSplits().length === 0;
+}
+
+function accountName(accountId) {
+  const account = (appData.accounts || []).find(a => a.id === accountId);
+  return account ? account.name : 'another account';
+}
+
+// Returns whether the transfer was saved
+async function saveTransfer(transfer) {
+  const editing = appData.transactions.find(t => t.id === editingTransactionId);
+
+  if (!transfer.fromAccountId || !transfer.toAccountId) {
+    alert('Please choose the accounts to transfer from and to');
+    return false;
+  }
+  if (editing && !editing.transferId) {
+    alert('A transaction cannot be turned into a transfer. Delete it and add a transfer instead.');
+    return false;
+  }
+
+  const result = editing
+    ? await window.electronAPI.updateTransfer(appData.user.id, editing.transferId, transfer)
+    : await window.electronAPI.createTransfer(appData.user.id, transfer);
+  if (!result.success) {
+    alert('Error saving transfer: ' + result.error);
+    return false;
+  }
+  return true;
+}
+
+// Split transactions: the amount spread over several categories, each
+// split with its own amount and memo. Amounts are signed in the direction
+// of the transaction (e.g. tax withheld from a paycheck is negative).
+function categoryOptionsHtml(selected) {
+  const group = (label, categories) => categories.length === 0 ? '' : `
+    <optgroup label="${label}">
+      ${categories.map(cat => `<option value="${cat}" ${cat === selected ? 'selected' : ''}>${cat}</option>`).join('')}
+    </optgroup>`;
+  return '<option value="">-- Select Category --</option>' +
+    group('Income', appData.categories.income) +
+    group('Expenses', appData.categories.expense);
+}
+
+function addSplitRow(split = {}) {
+  const row = document.createElement('div');
+  row.className = 'split-row grid grid-cols-12 gap-2 items-center';
+  row.innerHTML = `
+    <select class="select select-bordered select-sm col-span-4 split-category">${categoryOptionsHtml(split.category)}</select>
+    <input type="text" class="input input-bordered input-sm col-span-4 split-memo" placeholder="Memo" value="${split.memo || ''}">
+    <input type="number" step="0.01" class="input input-bordered input-sm col-span-3 split-amount" placeholder="0.00" value="${split.amount !== undefined ? split.amount : ''}">
+    <button type="button" class="btn btn-sm btn-ghost text-error col-span-1 remove-split-btn" title="Remove split">&times;</button>
+  `;
+  row.querySelector('.split-amount').addEventListener('input', updateSplitRemaining);
+  row.querySelector('.remove-split-btn').addEventListener('click', () => {
+    row.remove();
+    updateSplitRemaining();
+  });
+  document.getElementById('split-rows').appendChild(row);
+  updateSplitRemaining();
+}
+
+function showSplits(splits) {
+  const category = document.getElementById('category');
+  document.getElementById('split-rows').innerHTML = '';
+  document.getElementById('splits-section').classList.remove('hidden');
+  category.required = false;
+  category.disabled = true;
+
+  if (splits.length > 0) {
+    splits.forEach(split => addSplitRow(split));
+  } else {
+    // Start from the transaction's own category and amount
+    addSplitRow({ category: category.value, amount: document.getElementById('amount').value });
+    addSplitRow();
+  }
+}
+
+function hideSplits() {
+  const category = document.getElementById('category');
+  document.getElementById('split-rows').innerHTML = '';
+  document.getElementById('splits-section').classList.add('hidden');
+  category.required = true;
+  category.disabled = false;
+}
+
+function toggleSplits() {
+  if (document.getElementById('splits-section').classList.contains('hidden')) {
+    showSplits([]);
+  } else {
+    hideSplits();
+  }
+}
+
+function getSplits() {
+  if (document.getElementById('splits-section').classList.contains('hidden')) {
+    return [];
+  }
+  return [...document.querySelectorAll('#split-rows .split-row')].map(row => ({
+    category: row.querySelector('.split-category').value || null,
+    memo: row.querySelector('.split-memo').value.trim() || null,
+    amount: parseFloat(row.querySelector('.split-amount').value) || 0,
+  }));
+}
+
+// Compared in cents so the remainder is exact
+function splitRemainingCents() {
+  const amount = parseFloat(document.getElementById('amount').value) || 0;
+  const allocated = getSplits().reduce((sum, split) => sum + Math.round(split.amount * 100), 0);
+  return Math.round(amount * 100) - allocated;
+}
+
+function updateSplitRemaining() {
+  const remaining = splitRemainingCents();
+  const label = document.getElementById('split-remaining');
+  label.textContent = formatSignedCurrency(remaining / 100);
+  label.classList.toggle('text-error', remaining !== 0);
+}
+
 async function deleteTransaction(transactionId) {
-  if (!confirm('Are you sure you want to delete this transaction?')) {
+  const transaction = appData.transactions.find(t => t.id === transactionId);
+  const message = transaction && transaction.transferId
+    ? 'Delete this transfer? Both sides of it will be deleted.'
+    : 'Are you sure you want to delete this transaction?';
+  if (!confirm(message)) {
     return;
   }
   
@@ -582,6 +958,108 @@ async function deleteTransaction(transactionId) {
   }
 }
 
+// Audit trail: what the bank posted for a transaction, next to our own
+// entry, with the option to undo the match
+let statementLinesTransactionId = null;
+
+async function showStatementLines(transactionId) {
+  statementLinesTransactionId = transactionId;
+  await loadStatementLines();
+  document.getElementById('statement-lines-modal').classList.add('modal-open');
+}
+
+function closeStatementLinesModal() {
+  document.getElementById('statement-lines-modal').classList.remove('modal-open');
+  statementLinesTransactionId = null;
+}
+
+async function loadStatementLines() {
+  const content = document.getElementById('statement-lines-content');
+  const transactionId = statementLinesTransactionId;
+  const transaction = appData.transactions.find(t => t.id === transactionId);
+
+  try {
+    const result = await window.electronAPI.getStatementLines(transactionId);
+    if (!result.success) {
+      alert('Error loading statement lines: ' + result.error);
+      return;
+    }
+
+    if (result.lines.length === 0) {
+      content.innerHTML = '<p class="text-center text-base-content/70">No statement lines are matched to this transaction.</p>';
+      return;
+    }
+
+    content.innerHTML = result.lines.map(line => {
+      const group = result.groups.find(g => g.id === line.matchGroupId);
+      const raw = line.rawData
+        ? Object.entries(line.rawData)
+            .map(([key, value]) => `<tr><td class="font-semibold">${key}</td><td>${value === null ? '' : value}</td></tr>`)
+            .join('')
+        : '';
+      const members = group
+        ? `<div class="text-sm mt-2">
+            <span class="font-semibold">${group.kind === 'many_to_one' ? 'Cleared together with' : 'Paid in parts'}:</span>
+            ${group.kind === 'many_to_one'
+              ? group.transactions.map(tx => `${tx.date} ${tx.payee} $${formatCurrency(tx.amount)}`).join('; ')
+              : group.lines.map(l => `${l.date} ${l.description} $${formatCurrency(l.amount)}`).join('; ')}
+          </div>`
+        : '';
+
+      return `
+        <div class="border border-base-300 rounded-lg p-3">
+          <div class="grid grid-cols-2 gap-4 text-sm">
+            <div>
+              <div class="text-base-content/70">Bank</div>
+              <div>${line.date} &middot; ${line.description}</div>
+              <div>${line.type === 'debit' ? '-' : ''}$${formatCurrency(line.amount)}${line.checkNumber ? ' &middot; Check #' + line.checkNumber : ''}</div>
+            </div>
+            <div>
+              <div class="text-base-content/70">Register</div>
+              <div>${transaction ? transaction.date + ' &middot; ' + transaction.payee : ''}</div>
+              <div>${transaction ? (transaction.type === 'debit' ? '-' : '') + '$' + formatCurrency(transaction.amount) : ''}</div>
+            </div>
+          </div>
+          ${members}
+          ${raw ? `<details class="mt-2"><summary class="text-sm cursor-pointer">Original row</summary><table class="table table-xs">${raw}</table></details>` : ''}
+          <div class="flex justify-between items-center mt-2">
+            <span class="text-xs text-base-content/70">Imported ${line.importedAt}, matched ${line.linkedAt}</span>
+            <button class="btn btn-xs btn-warning" onclick="unlinkStatementLine(${line.id})">Unmatch</button>
+          </div>
+        </div>
+      `;
+    }).join('');
+  } catch (error) {
+    console.error('Error loading statement lines:', error);
+    alert('Error loading statement lines: ' + error.message);
+  }
+}
+
+async function unlinkStatementLine(statementLineId) {
+  const message = 'Unmatch this statement line? Transactions left without a statement line become unreconciled.';
+  if (!confirm(message)) {
+    return;
+  }
+
+  try {
+    const result = await window.electronAPI.unlinkStatementLine(statementLineId, statementLinesTransactionId);
+    if (!result.success) {
+      alert('Error unmatching statement line: ' + result.error);
+      return;
+    }
+
+    const loadResult = await window.electronAPI.loadData();
+    if (loadResult.success && loadResult.data) {
+      appData = loadResult.data;
+      renderUI();
+    }
+    await loadStatementLines();
+  } catch (error) {
+    console.error('Error unmatching statement line:', error);
+    alert('Error unmatching statement line: ' + error.message);
+  }
+}
+
 function openCategoryModal() {
   document.getElementById('category-modal').classList.add('modal-open');
 }
@@ -679,6 +1157,8 @@ async function openImportDialog() {
     document.getElementById('import-file-path').textContent = fileResult.filePath;
     document.getElementById('import-password-modal').classList.add('modal-open');
     document.getElementById('importPassword').value = '';
+    document.getElementById('importExportKey').value = '';
+    document.getElementById('import-key-field').style.display = 'none';
   } catch (error) {
     console.error('Error opening import dialog:', error);
     alert('Error opening file: ' + error.message);
@@ -701,7 +1181,9 @@ async function confirmImport(e) {
   }
   
   try {
-    const result = await window.electronAPI.importData(filePath, password);
+    // Asked for only when the export was made under an earlier key
+    const exportKey = document.getElementById('importExportKey').value.trim();
+    const result = await window.electronAPI.importData(filePath, password, exportKey || undefined);
     
     if (result.success) {
       const loadResult = await window.electronAPI.loadData();
@@ -713,6 +1195,9 @@ async function confirmImport(e) {
       alert('Data imported successfully!');
       closeImportConfirmModal();
     } else {
+      if (result.needsExportKey) {
+        document.getElementById('import-key-field').style.display = '';
+      }
       alert('Error importing data: ' + result.error);
     }
   } catch (error) {
@@ -721,23 +1206,109 @@ async function confirmImport(e) {
   }
 }
 
-function startReconciliation() {
-  const unreconciledTransactions = appData.transactions.filter(t => !t.isReconciled);
+// An imported statement's ending balance, when given, pre-fills a new session,
+// and the transactions the import cleared start out cleared in it
+async function startReconciliation(statement = null) {
+  const accountId = getSelectedAccountId();
   
-  if (unreconciledTransactions.length === 0) {
-    alert('No unreconciled transactions');
-    return;
+  try {
+    // Pick up where we left off if this account has a session in progress
+    const result = await window.electronAPI.resumeReconciliation(appData.user.id, accountId);
+    
+    if (!result.success) {
+      alert('Error starting reconciliation: ' + result.error);
+      return;
+    }
+    
+    if (result.reconciliation) {
+      showReconciliationSession(result.reconciliation);
+    } else {
+      activeReconciliation = null;
+      reconciliationImportBatchId = statement ? statement.importBatchId : null;
+      document.getElementById('reconciliation-statement-form').reset();
+      document.getElementById('statement-date').value = new Date().toISOString().split('T')[0];
+      document.getElementById('beginning-balance').value = parseFloat(result.suggestedBeginningBalance).toFixed(2);
+      if (statement) {
+        document.getElementById('statement-date').value = statement.date;
+        document.getElementById('ending-balance').value = statement.endingBalance.toFixed(2);
+      }
+      showReconciliationStep('statement');
+    }
+    
+    document.getElementById('reconciliation-modal').classList.add('modal-open');
+  } catch (error) {
+    console.error('Error starting reconciliation:', error);
+    alert('Error starting reconciliation: ' + error.message);
+  }
+}
+
+function showReconciliationStep(step) {
+  const inSession = step === 'session';
+  document.getElementById('reconciliation-statement-form').classList.toggle('hidden', inSession);
+  document.getElementById('reconciliation-session').classList.toggle('hidden', !inSession);
+  ['finish-reconciliation-btn', 'save-reconciliation-btn', 'discard-reconciliation-btn'].forEach(id => {
+    document.getElementById(id).classList.toggle('hidden', !inSession);
+  });
+}
+
+async function beginReconciliationSession(e) {
+  e.preventDefault();
+  
+  const statement = {
+    accountId: getSelectedAccountId(),
+    statementDate: document.getElementById('statement-date').value,
+    beginningBalance: parseFloat(document.getElementById('beginning-balance').value),
+    endingBalance: parseFloat(document.getElementById('ending-balance').value),
+    importBatchId: reconciliationImportBatchId,
+  };
+  
+  try {
+    const result = await window.electronAPI.startReconciliation(appData.user.id, statement);
+    
+    if (!result.success) {
+      alert('Error starting reconciliation: ' + result.error);
+      return;
+    }
+    
+    showReconciliationSession(result.reconciliation);
+  } catch (error) {
+    console.error('Error starting reconciliation:', error);
+    alert('Error starting reconciliation: ' + error.message);
   }
+}
+
+function formatSignedCurrency(amount) {
+  return (amount < 0 ? '-$' : '$') + formatCurrency(Math.abs(amount));
+}
+
+function showReconciliationSession(reconciliation) {
+  activeReconciliation = reconciliation;
+  showReconciliationStep('session');
+  
+  document.getElementById('reconciliation-beginning').textContent = formatSignedCurrency(reconciliation.beginningBalance);
+  document.getElementById('reconciliation-cleared').textContent = formatSignedCurrency(reconciliation.clearedTotal);
+  document.getElementById('reconciliation-ending').textContent = formatSignedCurrency(reconciliation.endingBalance);
+  
+  const difference = document.getElementById('reconciliation-difference');
+  difference.textContent = formatSignedCurrency(reconciliation.difference);
+  difference.classList.toggle('text-success', reconciliation.canFinish);
+  difference.classList.toggle('text-error', !reconciliation.canFinish);
+  
+  document.getElementById('finish-reconciliation-btn').disabled = !reconciliation.canFinish;
   
   const list = document.getElementById('reconciliation-list');
   list.innerHTML = '';
   
-  unreconciledTransactions.forEach(transaction => {
+  if (reconciliation.transactions.length === 0) {
+    list.innerHTML = '<div class="text-center py-4 text-base-content/60">No unreconciled transactions up to the statement date</div>';
+  }
+  
+  reconciliation.transactions.forEach(transaction => {
     const item = document.createElement('div');
     item.classList.add('form-control');
     item.innerHTML = `
       <label class="label cursor-pointer justify-start gap-3">
-        <input type="checkbox" class="checkbox checkbox-primary reconcile-checkbox" data-id="${transaction.id}">
+        <input type="checkbox" class="checkbox checkbox-primary reconcile-checkbox" data-id="${transaction.id}" ${transaction.cleared ? 'checked' : ''}>
         <span class="label-text">
           ${transaction.date} - ${transaction.payee} - 
           ${transaction.type === 'debit' ? '-' : '+'}$${formatCurrency(transaction.amount)}
@@ -747,360 +1318,551 @@ function startReconciliation() {
     list.appendChild(item);
   });
   
-  document.getElementById('reconcile-all-checkbox').checked = false;
-  document.getElementById('reconciliation-modal').classList.add('modal-open');
+  document.getElementById('reconcile-all-checkbox').checked =
+    reconciliation.transactions.length > 0 && reconciliation.transactions.every(t => t.cleared);
 }
 
-function toggleReconcileAll(e) {
-  const checkboxes = document.querySelectorAll('.reconcile-checkbox');
-  checkboxes.forEach(cb => {
-    cb.checked = e.target.checked;
-  });
+async function setTransactionCleared(transactionId, cleared) {
+  const result = await window.electronAPI.setReconciliationCleared(activeReconciliation.id, transactionId, cleared);
+  
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+  
+  return result.reconciliation;
 }
 
-async function saveReconciliation() {
-  const checkboxes = document.querySelectorAll('.reconcile-checkbox:checked');
-  
-  if (checkboxes.length === 0) {
-    alert('Please select at least one transaction to reconcile');
+async function toggleClearedTransaction(e) {
+  if (!e.target.classList.contains('reconcile-checkbox') || !activeReconciliation) {
     return;
   }
   
   try {
-    for (const checkbox of checkboxes) {
-      const transactionId = checkbox.dataset.id;
-      await window.electronAPI.markReconciled(transactionId, true);
-    }
-    
-    const loadResult = await window.electronAPI.loadData();
-    if (loadResult.success && loadResult.data) {
-      appData = loadResult.data;
-      renderUI();
-    }
-    
-    closeReconciliationModal();
-    alert('Transactions reconciled successfully!');
+    const reconciliation = await setTransactionCleared(e.target.dataset.id, e.target.checked);
+    showReconciliationSession(reconciliation);
   } catch (error) {
-    console.error('Error reconciling transactions:', error);
-    alert('Error reconciling transactions: ' + error.message);
+    console.error('Error clearing transaction:', error);
+    alert('Error clearing transaction: ' + error.message);
+    e.target.checked = !e.target.checked;
   }
 }
 
-function closeReconciliationModal() {
-  document.getElementById('reconciliation-modal').classList.remove('modal-open');
-}
-
-async function openSettings() {
+async function toggleReconcileAll(e) {
+  if (!activeReconciliation) return;
+  
+  const cleared = e.target.checked;
+  let reconciliation = activeReconciliation;
+  
   try {
-    const result = await window.electronAPI.dbGetPath();
-    if (result.success) {
-      document.getElementById('current-db-path').value = result.path;
+    for (const transaction of activeReconciliation.transactions) {
+      if (transaction.cleared !== cleared) {
+        reconciliation = await setTransactionCleared(transaction.id, cleared);
+      }
     }
   } catch (error) {
-    console.error('Error getting DB path:', error);
+    console.error('Error clearing transactions:', error);
+    alert('Error clearing transactions: ' + error.message);
   }
   
-  document.getElementById('settings-modal').classList.add('modal-open');
+  showReconciliationSession(reconciliation);
 }
 
-function closeSettingsModal() {
-  document.getElementById('settings-modal').classList.remove('modal-open');
+async function reloadAfterReconciliation() {
+  const loadResult = await window.electronAPI.loadData();
+  if (loadResult.success && loadResult.data) {
+    appData = loadResult.data;
+    renderUI();
+  }
 }
 
-async function changeDbPath() {
+async function finishReconciliation() {
+  if (!activeReconciliation) return;
+  
   try {
-    const result = await window.electronAPI.dbChoosePath();
+    const result = await window.electronAPI.finishReconciliation(activeReconciliation.id);
     
-    if (result.success && result.path) {
-      const changeResult = await window.electronAPI.dbChangePath(result.path);
-      
-      if (changeResult.success) {
-        document.getElementById('current-db-path').value = result.path;
-        alert('Database location changed successfully! Please restart the application.');
-      } else {
-        alert('Error changing database location: ' + changeResult.error);
-      }
+    if (!result.success) {
+      alert('Error finishing reconciliation: ' + result.error);
+      return;
     }
+    
+    await reloadAfterReconciliation();
+    closeReconciliationModal();
+    alert(`Statement reconciled! ${result.reconciliation.clearedCount} transaction(s) cleared.`);
   } catch (error) {
-    console.error('Error changing database path:', error);
-    alert('Error changing database location: ' + error.message);
+    console.error('Error finishing reconciliation:', error);
+    alert('Error finishing reconciliation: ' + error.message);
   }
 }
 
-// CSV Import functionality
-let csvTransactions = [];
-
-async function openCsvImport() {
+async function discardReconciliation() {
+  if (!activeReconciliation) return;
+  
+  if (!confirm('Discard this reconciliation? Cleared marks will be lost.')) {
+    return;
+  }
+  
   try {
-    const result = await window.electronAPI.openCsvFile();
+    const result = await window.electronAPI.undoReconciliation(activeReconciliation.id);
     
     if (!result.success) {
+      alert('Error discarding reconciliation: ' + result.error);
       return;
     }
     
-    const csvContent = result.content;
-    const parsedData = parseCSV(csvContent);
+    closeReconciliationModal();
+  } catch (error) {
+    console.error('Error discarding reconciliation:', error);
+    alert('Error discarding reconciliation: ' + error.message);
+  }
+}
+
+async function undoLastReconciliation() {
+  try {
+    const listResult = await window.electronAPI.listReconciliations(appData.user.id, getSelectedAccountId());
     
-    if (parsedData.length === 0) {
-      alert('No valid transactions found in CSV file');
+    if (!listResult.success) {
+      alert('Error loading reconciliations: ' + listResult.error);
       return;
     }
     
-    csvTransactions = parsedData;
-    displayCsvPreview(parsedData);
-    document.getElementById('csv-import-modal').classList.add('modal-open');
+    const last = listResult.reconciliations.find(r => r.status === 'completed');
+    if (!last) {
+      alert('No completed reconciliation to undo');
+      return;
+    }
+    
+    if (!confirm(`Undo the reconciliation for the statement dated ${last.statementDate}? Its ${last.clearedCount} transaction(s) will be marked unreconciled.`)) {
+      return;
+    }
+    
+    const result = await window.electronAPI.undoReconciliation(last.id);
+    
+    if (!result.success) {
+      alert('Error undoing reconciliation: ' + result.error);
+      return;
+    }
+    
+    await reloadAfterReconciliation();
+    closeReconciliationModal();
+    alert('Reconciliation undone.');
   } catch (error) {
-    console.error('Error opening CSV file:', error);
-    alert('Error opening CSV file: ' + error.message);
+    console.error('Error undoing reconciliation:', error);
+    alert('Error undoing reconciliation: ' + error.message);
   }
 }
 
-function parseCSV(csvContent) {
-  const lines = csvContent.split('\n').filter(line => line.trim());
-  
-  if (lines.length === 0) {
-    return [];
+function closeReconciliationModal() {
+  document.getElementById('reconciliation-modal').classList.remove('modal-open');
+  activeReconciliation = null;
+}
+
+async function openSettings() {
+  try {
+    const result = await window.electronAPI.dbGetPath();
+    if (result.success) {
+      document.getElementById('current-db-path').value = result.path;
+    }
+  } catch (error) {
+    console.error('Error getting DB path:', error);
   }
+  await loadFileEncryptionStatus();
   
-  // Find the header row by looking for "Date" column
-  let headerIndex = -1;
-  let headers = [];
-  
-  for (let i = 0; i < Math.min(10, lines.length); i++) {
-    const fields = parseCSVLine(lines[i]);
-    const lowerFields = fields.map(f => f.toLowerCase().trim());
+  document.getElementById('settings-modal').classList.add('modal-open');
+}
+
+async function loadFileEncryptionStatus() {
+  const status = document.getElementById('file-encryption-status');
+  const btn = document.getElementById('encrypt-file-btn');
+  try {
+    const result = await window.electronAPI.encryptionFileStatus();
+    if (result.success) {
+      status.textContent = result.encrypted ? 'Encrypted' : 'Not encrypted';
+      btn.disabled = result.encrypted;
+    }
+  } catch (error) {
+    console.error('Error getting file encryption status:', error);
+  }
+}
+
+function closeSettingsModal() {
+  document.getElementById('settings-modal').classList.remove('modal-open');
+}
+
+async function changeDbPath() {
+  try {
+    const result = await window.electronAPI.dbChoosePath();
     
-    if (lowerFields.some(f => f === 'date' || f.includes('date'))) {
-      headerIndex = i;
-      headers = lowerFields;
-      break;
+    if (result.success && result.path) {
+      const changeResult = await window.electronAPI.dbChangePath(result.path);
+      
+      if (changeResult.success) {
+        document.getElementById('current-db-path').value = result.path;
+        alert('Database location changed successfully! Please restart the application.');
+      } else {
+        alert('Error changing database location: ' + changeResult.error);
+      }
     }
+  } catch (error) {
+    console.error('Error changing database path:', error);
+    alert('Error changing database location: ' + error.message);
   }
-  
-  if (headerIndex === -1) {
-    console.warn('No header row found, using default format');
-    headerIndex = 0;
-    headers = ['date', 'description', 'amount'];
+}
+
+async function rotateEncryptionKey() {
+  if (!confirm('Replace your encryption key with a new one? Your old key will no longer open this database.')) {
+    return;
   }
-  
-  // Map column indices
-  const columnMap = detectColumns(headers);
-  const dataLines = lines.slice(headerIndex + 1);
-  const transactions = [];
-  
-  for (let i = 0; i < dataLines.length; i++) {
-    const line = dataLines[i].trim();
-    if (!line) continue;
-    
-    // Parse CSV line (handle quoted fields)
-    const fields = parseCSVLine(line);
-    
-    if (fields.length < 2) {
-      console.warn(`Skipping line ${i + 1}: insufficient fields`);
-      continue;
+
+  const btn = document.getElementById('rotate-key-btn');
+  btn.disabled = true;
+  try {
+    const result = await window.electronAPI.encryptionRotateKey();
+    if (!result.success) {
+      alert('Error rotating encryption key: ' + result.error + (result.backupPath ? '\nBackup: ' + result.backupPath : ''));
+      return;
     }
-    
-    // Extract fields based on column mapping
-    const dateStr = fields[columnMap.date] || fields[0];
-    const descriptionStr = fields[columnMap.description] || fields[1];
-    const amountStr = fields[columnMap.amount] || fields[2];
-    
-    // Skip summary/header rows
-    if (!dateStr || !amountStr || 
-        descriptionStr.toLowerCase().includes('beginning balance') ||
-        descriptionStr.toLowerCase().includes('ending balance') ||
-        descriptionStr.toLowerCase().includes('total credits') ||
-        descriptionStr.toLowerCase().includes('total debits')) {
-      continue;
+
+    // Show the new key the way onboarding shows the first one
+    const formattedKey = await window.electronAPI.encryptionFormatKey(result.key);
+    document.getElementById('encryption-key-display').value = formattedKey.formatted || result.key;
+    document.getElementById('key-saved-checkbox').checked = false;
+    document.getElementById('continue-to-app-btn').disabled = true;
+    closeSettingsModal();
+    showScreen('encryption-key-screen');
+  } catch (error) {
+    console.error('Error rotating encryption key:', error);
+    alert('Error rotating encryption key: ' + error.message);
+  } finally {
+    btn.disabled = false;
+  }
+}
+
+async function encryptDatabaseFile() {
+  if (!confirm('Encrypt the whole database file with your encryption key? Without the key the file cannot be opened by anything, including other SQLite tools.')) {
+    return;
+  }
+
+  const btn = document.getElementById('encrypt-file-btn');
+  btn.disabled = true;
+  try {
+    const result = await window.electronAPI.encryptionEncryptFile();
+    if (!result.success) {
+      alert('Error encrypting database file: ' + result.error);
+      return;
     }
+    alert('The database file is now encrypted. The plaintext copy made during the change was checked against it and deleted.');
+  } catch (error) {
+    console.error('Error encrypting database file:', error);
+    alert('Error encrypting database file: ' + error.message);
+  } finally {
+    await loadFileEncryptionStatus();
+  }
+}
+
+// CSV Import functionality
+// Parsing and matching happen in the main process; we only get the preview
+let csvTransactions = [];
+let csvImportId = null;
+let csvProfiles = [];
+let ofxStatement = null;
+
+// Mapping form fields and the CsvMapping key each one edits
+const CSV_COLUMN_FIELDS = {
+  'csv-map-date': 'dateColumn',
+  'csv-map-description': 'descriptionColumn',
+  'csv-map-amount': 'amountColumn',
+  'csv-map-debit': 'debitColumn',
+  'csv-map-credit': 'creditColumn',
+  'csv-map-category': 'categoryColumn',
+  'csv-map-check-number': 'checkNumberColumn',
+};
+
+async function openCsvImport() {
+  try {
+    const result = await window.electronAPI.previewCsvImport(appData.user.id, getSelectedAccountId());
     
-    const parsedDate = parseDate(dateStr);
-    const parsedAmount = parseAmount(amountStr);
-    
-    if (!parsedDate || parsedAmount === null || parsedAmount === 0) {
-      console.warn(`Skipping line ${i + 1}: invalid date or amount`);
-      continue;
+    if (!result.success) {
+      if (result.error) {
+        alert(result.error);
+      }
+      return;
     }
     
-    // Determine type from amount sign (negative = debit, positive = credit)
-    const type = determineTypeFromAmount(amountStr);
-    
-    const transaction = {
-      date: parsedDate,
-      description: descriptionStr.trim(),
-      payee: descriptionStr.trim(),
-      amount: parsedAmount,
-      type: type,
-      category: columnMap.category >= 0 && fields[columnMap.category] ? fields[columnMap.category].trim() : null,
-      checkNumber: columnMap.checkNumber >= 0 && fields[columnMap.checkNumber] ? fields[columnMap.checkNumber].trim() : null,
-      isReconciled: false,
-      accountId: null,
-      selected: true,
-    };
-    
-    transactions.push(transaction);
+    showCsvImportPreview(result);
+    ofxStatement = null;
+    document.getElementById('csv-import-title').textContent = 'Import CSV - Review & Reconcile Transactions';
+    document.getElementById('csv-mapping-section').classList.remove('hidden');
+    document.getElementById('ofx-statement-info').classList.add('hidden');
+    document.getElementById('csv-profile-name').value = '';
+    document.getElementById('csv-import-modal').classList.add('modal-open');
+  } catch (error) {
+    console.error('Error opening CSV file:', error);
+    alert('Error opening CSV file: ' + error.message);
   }
-  
-  return transactions;
 }
 
-function detectColumns(headers) {
-  const map = {
-    date: -1,
-    description: -1,
-    amount: -1,
-    category: -1,
-    checkNumber: -1,
-  };
-  
-  headers.forEach((header, index) => {
-    const h = header.toLowerCase().trim();
-    
-    // Date column
-    if (h === 'date' || h.includes('date')) {
-      map.date = index;
-    }
-    // Description/Payee column
-    else if (h === 'description' || h === 'payee' || h === 'memo' || h.includes('description')) {
-      map.description = index;
-    }
-    // Amount column
-    else if (h === 'amount' || h.includes('amt') || h === 'debit' || h === 'credit') {
-      if (map.amount === -1) { // Use first amount-like column
-        map.amount = index;
+async function openOfxImport() {
+  try {
+    const result = await window.electronAPI.previewOfxImport(appData.user.id, getSelectedAccountId());
+
+    if (!result.success) {
+      if (result.error) {
+        alert(result.error);
       }
+      return;
     }
-    // Category column
-    else if (h === 'category' || h.includes('category')) {
-      map.category = index;
+
+    ofxStatement = result.statement;
+    const info = document.getElementById('ofx-statement-info');
+    const parts = [`${ofxStatement.accountType.toLowerCase()} account`];
+    if (ofxStatement.accountLastFour) {
+      parts[0] += ` ending ${ofxStatement.accountLastFour}`;
     }
-    // Check number column
-    else if (h === 'check' || h === 'check number' || h === 'check #' || h.includes('check')) {
-      map.checkNumber = index;
+    if (ofxStatement.startDate && ofxStatement.endDate) {
+      parts.push(`${ofxStatement.startDate} to ${ofxStatement.endDate}`);
     }
-  });
-  
-  return map;
+    if (ofxStatement.ledgerBalance !== null) {
+      parts.push(`ending balance $${formatCurrency(ofxStatement.ledgerBalance)} as of ${ofxStatement.ledgerBalanceDate}`);
+    }
+    info.textContent = `Statement: ${parts.join(' • ')}`;
+    if (ofxStatement.accountMismatch) {
+      info.textContent += ` — ${ofxStatement.accountMismatch}`;
+    }
+    info.classList.toggle('alert-warning', !!ofxStatement.accountMismatch);
+    info.classList.remove('hidden');
+
+    showStatementImportPreview('OFX', result);
+  } catch (error) {
+    console.error('Error opening OFX file:', error);
+    alert('Error opening OFX file: ' + error.message);
+  }
 }
 
-function parseCSVLine(line) {
-  const fields = [];
-  let currentField = '';
-  let inQuotes = false;
-  
-  for (let i = 0; i < line.length; i++) {
-    const char = line[i];
-    
-    if (char === '"') {
-      inQuotes = !inQuotes;
-    } else if (char === ',' && !inQuotes) {
-      fields.push(currentField);
-      currentField = '';
-    } else {
-      currentField += char;
+async function openQifImport() {
+  try {
+    const result = await window.electronAPI.previewQifImport(appData.user.id, getSelectedAccountId());
+
+    if (!result.success) {
+      if (result.error) {
+        alert(result.error);
+      }
+      return;
     }
+
+    ofxStatement = null;
+    document.getElementById('ofx-statement-info').classList.add('hidden');
+    showStatementImportPreview('QIF', result);
+  } catch (error) {
+    console.error('Error opening QIF file:', error);
+    alert('Error opening QIF file: ' + error.message);
   }
-  
-  fields.push(currentField);
-  return fields;
 }
 
-function parseDate(dateStr) {
-  dateStr = dateStr.trim();
-  
-  // Try ISO format first (YYYY-MM-DD)
-  if (/^\d{4}-\d{2}-\d{2}$/.test(dateStr)) {
-    return dateStr;
+// OFX and QIF files need no column mapping; they share the CSV review modal
+function showStatementImportPreview(format, result) {
+  csvImportId = result.importId;
+  csvProfiles = [];
+  csvTransactions = toCsvTransactions(result.rows);
+
+  document.getElementById('csv-import-title').textContent = `Import ${format} - Review & Reconcile Transactions`;
+  document.getElementById('csv-mapping-section').classList.add('hidden');
+  displayCsvPreview(csvTransactions);
+  document.getElementById('csv-import-modal').classList.add('modal-open');
+}
+
+async function exportQif() {
+  try {
+    const result = await window.electronAPI.exportQif(appData.user.id, getSelectedAccountId());
+
+    if (!result.success) {
+      if (result.error) {
+        alert('Error exporting QIF: ' + result.error);
+      }
+      return;
+    }
+
+    alert(`Exported ${result.count} transaction(s) to ${result.filePath}`);
+  } catch (error) {
+    console.error('Error exporting QIF:', error);
+    alert('Error exporting QIF: ' + error.message);
   }
-  
-  // Try MM/DD/YYYY or M/D/YYYY
-  const match = dateStr.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
-  if (match) {
-    const month = match[1].padStart(2, '0');
-    const day = match[2].padStart(2, '0');
-    const year = match[3];
-    return `${year}-${month}-${day}`;
+}
+
+// Every preview, remap and profile save returns the same response shape
+function showCsvImportPreview(result) {
+  csvImportId = result.importId;
+  csvProfiles = result.profiles;
+  csvTransactions = toCsvTransactions(result.rows);
+  renderCsvMapping(result);
+  displayCsvPreview(csvTransactions, result.unreadableLines);
+}
+
+// Rows already imported into this account start unselected; the import
+// would skip them anyway
+function toCsvTransactions(rows) {
+  return rows.map(row => ({ ...row, selected: row.status !== 'skipped' }));
+}
+
+function renderCsvMapping(result) {
+  const { mapping, columns, sample } = result;
+
+  const profileSelect = document.getElementById('csv-profile-select');
+  profileSelect.innerHTML = '<option value="">-- Custom Mapping --</option>';
+  csvProfiles.forEach(profile => {
+    profileSelect.appendChild(new Option(profile.name, profile.id));
+  });
+  profileSelect.value = result.profileId ? String(result.profileId) : '';
+  document.getElementById('csv-delete-profile-btn').disabled = !result.profileId;
+
+  Object.entries(CSV_COLUMN_FIELDS).forEach(([id, field]) => {
+    const select = document.getElementById(id);
+    select.innerHTML = '';
+    if (select.dataset.optional) {
+      select.appendChild(new Option('-- None --', ''));
+    }
+    columns.forEach((name, index) => {
+      select.appendChild(new Option(`${index + 1}: ${name}`, index));
+    });
+    select.value = mapping[field] === null ? '' : String(mapping[field]);
+  });
+
+  document.getElementById('csv-skip-rows').value = mapping.skipRows;
+  document.getElementById('csv-has-header').checked = mapping.hasHeader;
+  document.getElementById('csv-date-format').value = mapping.dateFormat;
+  document.getElementById('csv-sign-convention').value = mapping.signConvention;
+
+  // Raw rows from the top of the file, numbered so skip rows is easy to set
+  const table = document.getElementById('csv-sample-table');
+  table.innerHTML = '';
+  sample.forEach((fields, rowIndex) => {
+    const tr = table.insertRow();
+    if (rowIndex < mapping.skipRows) {
+      tr.classList.add('opacity-40');
+    } else if (mapping.hasHeader && rowIndex === mapping.skipRows) {
+      tr.classList.add('font-semibold');
+    }
+    tr.insertCell().textContent = rowIndex + 1;
+    fields.forEach(field => {
+      tr.insertCell().textContent = field;
+    });
+  });
+}
+
+function readCsvMappingForm() {
+  const mapping = {
+    skipRows: parseInt(document.getElementById('csv-skip-rows').value) || 0,
+    hasHeader: document.getElementById('csv-has-header').checked,
+    dateFormat: document.getElementById('csv-date-format').value,
+    signConvention: document.getElementById('csv-sign-convention').value,
+  };
+  Object.entries(CSV_COLUMN_FIELDS).forEach(([id, field]) => {
+    const value = document.getElementById(id).value;
+    mapping[field] = value === '' ? null : parseInt(value);
+  });
+  return mapping;
+}
+
+async function remapCsvImport(mapping, profileId) {
+  try {
+    const result = await window.electronAPI.remapCsvImport(csvImportId, mapping, profileId);
+
+    if (!result.success) {
+      alert(result.error);
+      return;
+    }
+
+    showCsvImportPreview(result);
+  } catch (error) {
+    console.error('Error applying column mapping:', error);
+    alert('Error applying column mapping: ' + error.message);
   }
-  
-  // Try parsing as Date object
-  const date = new Date(dateStr);
-  if (!isNaN(date.getTime())) {
-    const year = date.getFullYear();
-    const month = String(date.getMonth() + 1).padStart(2, '0');
-    const day = String(date.getDate()).padStart(2, '0');
-    return `${year}-${month}-${day}`;
+}
+
+async function applyCsvMapping() {
+  await remapCsvImport(readCsvMappingForm(), null);
+}
+
+async function selectCsvProfile(e) {
+  const profileId = parseInt(e.target.value);
+  const profile = csvProfiles.find(p => p.id === profileId);
+  if (!profile) {
+    document.getElementById('csv-delete-profile-btn').disabled = true;
+    return;
   }
-  
-  return null;
+
+  document.getElementById('csv-profile-name').value = profile.name;
+  await remapCsvImport(profile.mapping, profile.id);
 }
 
-function parseAmount(amountStr) {
-  if (!amountStr) return null;
-  
-  // Remove currency symbols, commas, quotes, and whitespace
-  let cleaned = amountStr.replace(/[$,"'\s]/g, '').trim();
-  
-  // Handle parentheses as negative
-  let isNegative = false;
-  if (cleaned.startsWith('(') && cleaned.endsWith(')')) {
-    isNegative = true;
-    cleaned = cleaned.slice(1, -1);
+async function saveCsvProfile() {
+  const name = document.getElementById('csv-profile-name').value.trim();
+  if (!name) {
+    alert('Please enter a name for this import profile');
+    return;
   }
-  
-  // Check for negative sign
-  if (cleaned.startsWith('-')) {
-    isNegative = true;
-    cleaned = cleaned.substring(1);
+
+  // Save exactly what is on screen, so apply the form first
+  const mapping = readCsvMappingForm();
+  try {
+    const remapResult = await window.electronAPI.remapCsvImport(csvImportId, mapping, null);
+    if (!remapResult.success) {
+      alert(remapResult.error);
+      return;
+    }
+
+    const result = await window.electronAPI.saveCsvImportProfile(csvImportId, name);
+    if (!result.success) {
+      alert('Error saving import profile: ' + result.error);
+      return;
+    }
+
+    showCsvImportPreview(result);
+  } catch (error) {
+    console.error('Error saving import profile:', error);
+    alert('Error saving import profile: ' + error.message);
   }
-  
-  const num = parseFloat(cleaned);
-  if (isNaN(num)) return null;
-  
-  // Return absolute value - we'll determine type separately
-  return Math.abs(num);
 }
 
-function determineTypeFromAmount(amountStr) {
-  if (!amountStr) return 'debit';
-  
-  // Remove quotes and whitespace
-  const cleaned = amountStr.replace(/["'\s]/g, '').trim();
-  
-  // Negative amount or parentheses = debit (withdrawal/expense)
-  if (cleaned.startsWith('-') || (cleaned.startsWith('(') && cleaned.endsWith(')'))) {
-    return 'debit';
+async function deleteCsvProfile() {
+  const profileId = parseInt(document.getElementById('csv-profile-select').value);
+  const profile = csvProfiles.find(p => p.id === profileId);
+  if (!profile) return;
+
+  if (!confirm(`Delete the import profile "${profile.name}"?`)) {
+    return;
   }
-  
-  // Positive amount = credit (deposit/income)
-  return 'credit';
-}
 
-function determineType(amountStr, typeStr) {
-  // If type is explicitly provided
-  if (typeStr) {
-    const type = typeStr.toLowerCase().trim();
-    if (type === 'credit' || type === 'deposit' || type === 'income') {
-      return 'credit';
-    }
-    if (type === 'debit' || type === 'withdrawal' || type === 'expense') {
-      return 'debit';
+  try {
+    const result = await window.electronAPI.deleteImportProfile(appData.user.id, profile.id);
+    if (!result.success) {
+      alert('Error deleting import profile: ' + result.error);
+      return;
     }
+
+    document.getElementById('csv-profile-name').value = '';
+    await remapCsvImport(readCsvMappingForm(), null);
+  } catch (error) {
+    console.error('Error deleting import profile:', error);
+    alert('Error deleting import profile: ' + error.message);
   }
-  
-  // Fall back to amount-based detection
-  return determineTypeFromAmount(amountStr);
 }
 
-function displayCsvPreview(transactions) {
+function displayCsvPreview(transactions, unreadableLines = []) {
   const container = document.getElementById('csv-preview-body');
   container.innerHTML = '';
   
   const summary = document.getElementById('csv-summary');
-  summary.textContent = `Found ${transactions.length} transaction(s) to import`;
+  const count = status => transactions.filter(t => t.status === status).length;
+  summary.textContent = `Found ${transactions.length} transaction(s): ${count('new')} new, ` +
+    `${count('matched')} matched automatically, ${count('ambiguous')} to review, ` +
+    `${count('skipped')} already imported`;
+  if (unreadableLines.length > 0) {
+    summary.textContent += `. ${unreadableLines.length} row(s) without a valid date or amount were left out (line ${unreadableLines.join(', ')})`;
+  }
   
   transactions.forEach((transaction, index) => {
-    // Find possible matches from existing unreconciled transactions
-    const matches = findMatchesForCsvRow(transaction);
+    const matches = transaction.matches;
 
     const card = document.createElement('div');
     card.classList.add('card', 'bg-base-100', 'border', 'border-base-300');
@@ -1123,6 +1885,9 @@ function displayCsvPreview(transactions) {
                   ${transaction.date}
                   ${transaction.category ? `• ${transaction.category}` : ''}
                   ${transaction.checkNumber ? `• Check #${transaction.checkNumber}` : ''}
+                  ${transaction.status === 'skipped' ? '<span class="badge badge-warning badge-sm ml-1">Already imported</span>' : ''}
+                  ${transaction.status === 'matched' ? '<span class="badge badge-success badge-sm ml-1">Matched</span>' : ''}
+                  ${transaction.status === 'ambiguous' ? '<span class="badge badge-info badge-sm ml-1">Needs review</span>' : ''}
                 </div>
               </div>
               <div class="text-right">
@@ -1147,7 +1912,7 @@ function displayCsvPreview(transactions) {
                          name="csv-match-${index}" 
                          value="new" 
                          class="radio radio-primary radio-sm mt-0.5" 
-                         ${matches.length === 0 ? 'checked' : ''}>
+                         ${matches.length === 0 && transaction.groupMatches.length === 0 ? 'checked' : ''}>
                   <div class="flex-1">
                     <div class="font-medium text-sm">Create New Transaction</div>
                     <div class="text-xs text-base-content/60">Import as a new reconciled transaction</div>
@@ -1159,11 +1924,9 @@ function displayCsvPreview(transactions) {
     if (matches.length > 0) {
       cardHTML += `<div class="divider my-1 text-xs">OR match with existing transaction</div>`;
       
-      matches.forEach((match, matchIdx) => {
+      matches.forEach(match => {
         const tx = match.transaction;
-        const txDate = new Date(tx.date);
-        const csvDate = new Date(transaction.date);
-        const daysDiff = Math.abs((csvDate - txDate) / (1000 * 60 * 60 * 24));
+        const daysDiff = match.daysApart;
         const isReconciled = tx.isReconciled || tx.reconciled;
         
         cardHTML += `
@@ -1172,15 +1935,17 @@ function displayCsvPreview(transactions) {
                    name="csv-match-${index}" 
                    value="match:${tx.id}" 
                    class="radio radio-primary radio-sm mt-0.5"
-                   ${matchIdx === 0 && !isReconciled ? 'checked' : ''}>
+                   ${tx.id === transaction.autoMatchId ? 'checked' : ''}>
             <div class="flex-1">
               <div class="flex justify-between items-start">
                 <div>
                   <div class="flex items-center gap-2">
                     <span class="font-medium">${tx.date}</span>
-                    ${daysDiff > 0 ? `<span class="text-xs text-warning ml-1">(${Math.round(daysDiff)} day${daysDiff !== 1 ? 's' : ''} diff)</span>` : ''}
+                    ${daysDiff > 0 ? `<span class="text-xs text-warning ml-1">(${daysDiff} day${daysDiff !== 1 ? 's' : ''} diff)</span>` : ''}
                     ${isReconciled ? `<span class="badge badge-success badge-xs">Already Reconciled</span>` : ''}
+                    <span class="badge badge-ghost badge-xs" title="${match.reason}">${match.confidence}% match</span>
                   </div>
+                  <div class="text-xs text-base-content/60">${match.reason}</div>
                   <div class="text-sm">${tx.payee}</div>
                   ${tx.category ? `<div class="text-xs text-base-content/60">Category: ${tx.category}</div>` : ''}
                   ${tx.checkNumber ? `<div class="text-xs text-base-content/60">Check #${tx.checkNumber}</div>` : ''}
@@ -1193,7 +1958,42 @@ function displayCsvPreview(transactions) {
           </label>
         `;
       });
-    } else {
+    }
+    
+    // Groups that only add up together: several register transactions for
+    // this line, or this line as one part of a single register transaction
+    transaction.groupMatches.forEach(group => {
+      const total = group.transactions.reduce((sum, tx) => sum + tx.amount, 0);
+      const title = group.kind === 'many_to_one'
+        ? `Group of ${group.transactions.length} transactions`
+        : `Part of ${group.rowIndexes.length} bank lines for one transaction`;
+      
+      cardHTML += `
+        <label class="flex items-start gap-3 p-2 rounded hover:bg-base-200 cursor-pointer border border-base-300">
+          <input type="radio" 
+                 name="csv-match-${index}" 
+                 value="group:${group.id}" 
+                 class="radio radio-primary radio-sm mt-0.5"
+                 onchange="selectCsvGroup('${group.id}')">
+          <div class="flex-1">
+            <div class="flex items-center gap-2">
+              <span class="font-medium">${title}</span>
+              <span class="badge badge-ghost badge-xs">${group.confidence}% match</span>
+            </div>
+            <div class="text-xs text-base-content/60">${group.reason}</div>
+            ${group.transactions.map(tx => `
+              <div class="text-sm flex justify-between">
+                <span>${tx.date} ${tx.payee}</span>
+                <span>$${formatCurrency(tx.amount)}</span>
+              </div>
+            `).join('')}
+            ${group.kind === 'one_to_many' ? `<div class="text-xs text-base-content/60">Bank lines: ${group.rowIndexes.map(i => `${csvTransactions[i].date} $${formatCurrency(csvTransactions[i].amount)}`).join(', ')} (total $${formatCurrency(total)})</div>` : ''}
+          </div>
+        </label>
+      `;
+    });
+    
+    if (matches.length === 0 && transaction.groupMatches.length === 0) {
       cardHTML += `<div class="text-xs text-base-content/60 italic pl-2">No matching transactions found</div>`;
     }
     
@@ -1213,43 +2013,16 @@ function displayCsvPreview(transactions) {
   document.getElementById('csv-select-all').checked = transactions.every(t => t.selected);
 }
 
-function findMatchesForCsvRow(csvRow) {
-  const matches = [];
-  if (!csvRow || typeof csvRow.amount === 'undefined') return matches;
-
-  const targetAmount = Math.abs(parseFloat(csvRow.amount));
-  const targetType = csvRow.type || null;
-  const targetDate = csvRow.date ? new Date(csvRow.date) : null;
-
-  // Search ALL transactions (including already reconciled ones)
-  const candidates = appData.transactions;
-
-  candidates.forEach(tx => {
-    const txAmount = Math.abs(parseFloat(tx.amount));
-    if (Math.abs(txAmount - targetAmount) > 0.01) return; // amount must match
-
-    // Filter by date range: +/- 10 days
-    if (targetDate && tx.date) {
-      const txDate = new Date(tx.date);
-      const daysDiff = Math.abs((targetDate - txDate) / (1000 * 60 * 60 * 24));
-      if (daysDiff > 10) return; // Skip if outside date range
-    }
-
-    // Scoring: prefer same type and closer dates
-    let score = 0;
-    if (targetType && tx.type === targetType) score += 10;
-    if (targetDate && tx.date) {
-      const txDate = new Date(tx.date);
-      const daysDiff = Math.abs((targetDate - txDate) / (1000 * 60 * 60 * 24));
-      score += Math.max(0, 20 - daysDiff);
-    }
-
-    matches.push({ transaction: tx, score });
+// A group spanning several bank lines is chosen for all of them at once
+window.selectCsvGroup = function(groupId) {
+  document.querySelectorAll(`#csv-preview-body input[value="group:${groupId}"]`).forEach(radio => {
+    radio.checked = true;
+    const index = Number(radio.name.replace('csv-match-', ''));
+    csvTransactions[index].selected = true;
+    const checkbox = document.querySelector(`.csv-transaction-checkbox[data-index="${index}"]`);
+    if (checkbox) checkbox.checked = true;
   });
-
-  matches.sort((a, b) => b.score - a.score);
-  return matches.slice(0, 10);
-}
+};
 
 window.updateCsvTransactionType = function(index, newType) {
   if (csvTransactions[index]) {
@@ -1285,51 +2058,48 @@ async function confirmCsvImport() {
     return;
   }
   
-  try {
-    // Process each selected CSV transaction
-    for (const transaction of selectedTransactions) {
-      const idx = csvTransactions.indexOf(transaction);
-      
-      // Get the selected match radio button for this CSV row
-      const selectedRadio = document.querySelector(`input[name="csv-match-${idx}"]:checked`);
-      const matchValue = selectedRadio ? selectedRadio.value : 'new';
-
-      if (matchValue && matchValue.startsWith('match:')) {
-        // Mark the existing transaction as reconciled
-        const matchedId = matchValue.split(':')[1];
-        try {
-          await window.electronAPI.markReconciled(matchedId, true);
-        } catch (err) {
-          console.error('Error marking matched transaction reconciled:', err);
-        }
-      } else {
-        // Create new reconciled transaction
-        const transactionData = {
-          date: transaction.date,
-          description: transaction.description,
-          payee: transaction.payee,
-          amount: transaction.amount,
-          type: transaction.type,
-          category: transaction.category,
-          checkNumber: transaction.checkNumber,
-          isReconciled: true,
-          accountId: transaction.accountId,
-        };
-
-        try {
-          const result = await window.electronAPI.saveData({
-            user: appData.user,
-            transactions: [transactionData],
-          });
-          if (!result.success) {
-            console.error('Error saving transaction:', result.error);
-          }
-        } catch (err) {
-          console.error('Error creating transaction:', err);
-        }
-      }
-    }
-    
+  // Rows without a confident match have nothing preselected; the user
+  // has to pick a match or "Create New" for each of them
+  const unreviewed = selectedTransactions.filter(transaction =>
+    !document.querySelector(`input[name="csv-match-${transaction.index}"]:checked`));
+  if (unreviewed.length > 0) {
+    alert(`${unreviewed.length} transaction(s) still need review. Choose a match or "Create New Transaction" for each, or unselect them.`);
+    return;
+  }
+  
+  // Each selected row is either matched to an existing transaction
+  // (which gets marked reconciled) or created as a new reconciled one
+  const decisions = selectedTransactions.map(transaction => {
+    const selectedRadio = document.querySelector(`input[name="csv-match-${transaction.index}"]:checked`);
+    const matchValue = selectedRadio ? selectedRadio.value : 'new';
+    
+    if (matchValue.startsWith('group:')) {
+      const group = transaction.groupMatches.find(g => `group:${g.id}` === matchValue);
+      return group.kind === 'many_to_one'
+        ? { index: transaction.index, matchIds: group.transactions.map(tx => tx.id), type: transaction.type }
+        : { index: transaction.index, splitOf: group.transactions[0].id, type: transaction.type };
+    }
+    
+    return {
+      index: transaction.index,
+      matchId: matchValue.startsWith('match:') ? matchValue.split(':')[1] : null,
+      type: transaction.type,
+    };
+  });
+  
+  if (ofxStatement && ofxStatement.accountMismatch &&
+      !confirm(`${ofxStatement.accountMismatch}\n\nImport it into this account anyway?`)) {
+    return;
+  }
+  
+  try {
+    const result = await window.electronAPI.commitImport(csvImportId, decisions, getSelectedAccountId());
+    
+    if (!result.success) {
+      alert('Error importing transactions: ' + result.error);
+      return;
+    }
+    
     // Reload data
     const loadResult = await window.electronAPI.loadData();
     if (loadResult.success && loadResult.data) {
@@ -1337,8 +2107,21 @@ async function confirmCsvImport() {
       renderUI();
     }
     
+    const statement = ofxStatement;
     closeCsvImportModal();
-    alert(`Successfully imported ${selectedTransactions.length} transaction(s)!`);
+    alert(`Import complete: ${result.created} new, ${result.matched} matched, ` +
+      `${result.skipped} skipped as already imported.` +
+      (result.categorized > 0 ? ` ${result.categorized} categorized by rules.` : ''));
+
+    // OFX statements carry the bank's ledger balance; offer to reconcile against it
+    if (statement && statement.ledgerBalance !== null &&
+        confirm(`Reconcile against the statement ending balance of $${formatCurrency(statement.ledgerBalance)} as of ${statement.ledgerBalanceDate}?`)) {
+      await startReconciliation({
+        date: statement.ledgerBalanceDate,
+        endingBalance: statement.ledgerBalance,
+        importBatchId: result.batchId,
+      });
+    }
   } catch (error) {
     console.error('Error importing CSV transactions:', error);
     alert('Error importing transactions: ' + error.message);
@@ -1348,5 +2131,885 @@ async function confirmCsvImport() {
 function closeCsvImportModal() {
   document.getElementById('csv-import-modal').classList.remove('modal-open');
   csvTransactions = [];
+  csvImportId = null;
+  csvProfiles = [];
+  ofxStatement = null;
+}
+
+async function openImportHistory() {
+  await loadImportHistory();
+  document.getElementById('import-history-modal').classList.add('modal-open');
+}
+
+function closeImportHistoryModal() {
+  document.getElementById('import-history-modal').classList.remove('modal-open');
+}
+
+async function loadImportHistory() {
+  const body = document.getElementById('import-history-body');
+
+  try {
+    const result = await window.electronAPI.listImportBatches(appData.user.id);
+    if (!result.success) {
+      alert('Error loading import history: ' + result.error);
+      return;
+    }
+
+    body.innerHTML = '';
+    if (result.batches.length === 0) {
+      body.innerHTML = '<tr><td colspan="7" class="text-center text-base-content/70">No imports yet</td></tr>';
+      return;
+    }
+
+    const accounts = appData.accounts || [];
+    result.batches.forEach(batch => {
+      const account = accounts.find(a => a.id === batch.accountId);
+      let action;
+      if (batch.rolledBackAt) {
+        action = `<span class="badge badge-ghost badge-sm">Rolled back ${batch.rolledBackAt}</span>`;
+      } else if (batch.reconciledCount > 0) {
+        action = `<span class="badge badge-warning badge-sm">${batch.reconciledCount} reconciled</span>`;
+      } else {
+        action = `<button class="btn btn-xs btn-error" onclick="rollbackImportBatch(${batch.id})">Roll Back</button>`;
+      }
+
+      const row = document.createElement('tr');
+      row.innerHTML = `
+        <td class="whitespace-nowrap">${batch.importedAt}</td>
+        <td><span class="badge badge-outline badge-sm mr-1">${batch.format.toUpperCase()}</span>${batch.fileName}</td>
+        <td>${account ? account.name : 'No account'}</td>
+        <td class="text-right">${batch.createdCount}</td>
+        <td class="text-right">${batch.matchedCount}</td>
+        <td class="text-right">${batch.skippedCount}</td>
+        <td class="text-right">${action}</td>
+      `;
+      body.appendChild(row);
+    });
+  } catch (error) {
+    console.error('Error loading import history:', error);
+    alert('Error loading import history: ' + error.message);
+  }
+}
+
+// Category totals for the register's current account and date filters,
+// with split transactions counted by their splits
+async function openCategoryTotals() {
+  const accountId = getSelectedAccountId();
+  const startDate = document.getElementById('start-date').value || null;
+  const endDate = document.getElementById('end-date').value || null;
+  const account = (appData.accounts || []).find(a => a.id === accountId);
+  const body = document.getElementById('category-totals-body');
+
+  try {
+    const result = await window.electronAPI.getCategoryTotals(appData.user.id, { accountId, startDate, endDate });
+    if (!result.success) {
+      alert('Error loading category totals: ' + result.error);
+      return;
+    }
+
+    const period = startDate || endDate ? `${startDate || 'the beginning'} to ${endDate || 'today'}` : 'all dates';
+    document.getElementById('category-totals-scope').textContent = `${account ? account.name : 'All accounts'}, ${period}`;
+
+    body.innerHTML = '';
+    if (result.totals.length === 0) {
+      body.innerHTML = '<tr><td colspan="4" class="text-center text-base-content/70">No transactions</td></tr>';
+    }
+    result.totals.forEach(total => {
+      const row = document.createElement('tr');
+      row.innerHTML = `
+        <td>${total.category || 'Uncategorized'}</td>
+        <td class="text-right">${total.credits ? '$' + formatCurrency(total.credits) : '-'}</td>
+        <td class="text-right">${total.debits ? '$' + formatCurrency(total.debits) : '-'}</td>
+        <td class="text-right">${formatSignedCurrency(total.net)}</td>
+      `;
+      body.appendChild(row);
+    });
+
+    document.getElementById('category-totals-modal').classList.add('modal-open');
+  } catch (error) {
+    console.error('Error loading category totals:', error);
+    alert('Error loading category totals: ' + error.message);
+  }
+}
+
+function closeCategoryTotalsModal() {
+  document.getElementById('category-totals-modal').classList.remove('modal-open');
+}
+
+// Scheduled transactions
+const FREQUENCY_LABELS = {
+  weekly: 'Weekly',
+  biweekly: 'Every two weeks',
+  monthly: 'Monthly',
+  quarterly: 'Quarterly',
+  yearly: 'Yearly',
+  last_business_day: 'Last business day'
+};
+
+function addDaysToDate(date, days) {
+  const result = new Date(date + 'T00:00:00Z');
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().split('T')[0];
+}
+
+async function reloadAfterScheduledChange() {
+  const loadResult = await window.electronAPI.loadData();
+  if (loadResult.success && loadResult.data) {
+    appData = loadResult.data;
+    renderUI();
+  }
+}
+
+// Enters the occurrences due for "post" schedules and opens the scheduled
+// transactions window when reminders are waiting. Runs once at startup.
+async function runDueScheduledTransactions() {
+  try {
+    const result = await window.electronAPI.runDueScheduledTransactions(appData.user.id);
+    if (!result.success) {
+      console.error('Error posting scheduled transactions:', result.error);
+      return;
+    }
+
+    if (result.posted > 0) {
+      await reloadAfterScheduledChange();
+    }
+    if (result.reminders.length > 0) {
+      await openScheduled(result.reminders);
+    }
+  } catch (error) {
+    console.error('Error posting scheduled transactions:', error);
+  }
+}
+
+async function openScheduled(reminders = null) {
+  document.getElementById('schedule-category').innerHTML = categoryOptionsHtml('');
+  if (!document.getElementById('schedule-start').value) {
+    document.getElementById('schedule-start').value = new Date().toISOString().split('T')[0];
+  }
+  if (!document.getElementById('forecast-through').value) {
+    document.getElementById('forecast-through').value = addDaysToDate(new Date().toISOString().split('T')[0], 90);
+  }
+
+  await loadScheduled(reminders);
+  document.getElementById('scheduled-modal').classList.add('modal-open');
+}
+
+function closeScheduledModal() {
+  document.getElementById('scheduled-modal').classList.remove('modal-open');
+}
+
+async function loadScheduled(reminders = null) {
+  try {
+    if (!reminders) {
+      const dueResult = await window.electronAPI.runDueScheduledTransactions(appData.user.id);
+      if (!dueResult.success) {
+        alert('Error loading scheduled transactions: ' + dueResult.error);
+        return;
+      }
+      if (dueResult.posted > 0) {
+        await reloadAfterScheduledChange();
+      }
+      reminders = dueResult.reminders;
+    }
+    renderScheduledReminders(reminders);
+
+    const result = await window.electronAPI.listScheduledTransactions(appData.user.id);
+    if (!result.success) {
+      alert('Error loading scheduled transactions: ' + result.error);
+      return;
+    }
+
+    const body = document.getElementById('scheduled-list-body');
+    body.innerHTML = '';
+    if (result.schedules.length === 0) {
+      body.innerHTML = '<tr><td colspan="7" class="text-center text-base-content/70">No scheduled transactions</td></tr>';
+    }
+    result.schedules.forEach(schedule => {
+      const repeats = schedule.dayOfMonth ? `${FREQUENCY_LABELS[schedule.frequency]} on day ${schedule.dayOfMonth}` : FREQUENCY_LABELS[schedule.frequency];
+      const row = document.createElement('tr');
+      row.innerHTML = `
+        <td>${schedule.description}</td>
+        <td>${schedule.accountId ? accountName(schedule.accountId) : '-'}</td>
+        <td>${repeats}</td>
+        <td>${schedule.nextDate || 'Ended'}</td>
+        <td>${schedule.mode === 'post' ? 'Enter automatically' : 'Remind me'}</td>
+        <td class="text-right">${formatSignedCurrency(schedule.type === 'credit' ? schedule.amount : -schedule.amount)}</td>
+        <td><button class="btn btn-xs btn-error" onclick="deleteSchedule(${schedule.id})">Delete</button></td>
+      `;
+      body.appendChild(row);
+    });
+
+    await loadForecast();
+  } catch (error) {
+    console.error('Error loading scheduled transactions:', error);
+    alert('Error loading scheduled transactions: ' + error.message);
+  }
+}
+
+function renderScheduledReminders(reminders) {
+  const body = document.getElementById('scheduled-reminders-body');
+  body.innerHTML = '';
+  document.getElementById('scheduled-reminders-section').classList.toggle('hidden', reminders.length === 0);
+
+  reminders.forEach(entry => {
+    const row = document.createElement('tr');
+    row.innerHTML = `
+      <td>${entry.date}</td>
+      <td>${entry.description}</td>
+      <td class="text-right">${formatSignedCurrency(entry.type === 'credit' ? entry.amount : -entry.amount)}</td>
+      <td class="text-right">
+        <button class="btn btn-xs btn-primary" onclick="postScheduledOccurrence(${entry.scheduledId}, '${entry.occurrenceDate}')">Enter</button>
+        <button class="btn btn-xs btn-ghost" onclick="skipScheduledOccurrence(${entry.scheduledId}, '${entry.occurrenceDate}')">Skip</button>
+      </td>
+    `;
+    body.appendChild(row);
+  });
+}
+
+// Upcoming entries for the register's selected account (or all accounts)
+// with the balance projected after each one
+async function loadForecast() {
+  const accountId = getSelectedAccountId();
+  const through = document.getElementById('forecast-through').value;
+  const body = document.getElementById('forecast-body');
+  if (!through) return;
+
+  try {
+    const result = await window.electronAPI.getForecast(appData.user.id, accountId, through);
+    if (!result.success) {
+      alert('Error loading forecast: ' + result.error);
+      return;
+    }
+
+    document.getElementById('forecast-scope').textContent =
+      `${accountId ? accountName(accountId) : 'All accounts'}: ${formatSignedCurrency(result.startBalance)} today`;
+
+    body.innerHTML = '';
+    if (result.entries.length === 0) {
+      body.innerHTML = '<tr><td colspan="5" class="text-center text-base-content/70">Nothing scheduled</td></tr>';
+    }
+    result.entries.forEach(entry => {
+      let actions = '';
+      if (entry.kind === 'scheduled' && entry.skipped) {
+        actions = `<button class="btn btn-xs btn-ghost" onclick="restoreScheduledOccurrence(${entry.scheduledId}, '${entry.occurrenceDate}')">Restore</button>`;
+      } else if (entry.kind === 'scheduled') {
+        actions = `
+          <button class="btn btn-xs btn-ghost" onclick="changeScheduledAmount(${entry.scheduledId}, '${entry.occurrenceDate}', ${entry.amount})">Change Amount</button>
+          <button class="btn btn-xs btn-ghost" onclick="skipScheduledOccurrence(${entry.scheduledId}, '${entry.occurrenceDate}')">Skip</button>
+        `;
+      }
+
+      const row = document.createElement('tr');
+      if (entry.skipped) row.classList.add('opacity-50', 'line-through');
+      row.innerHTML = `
+        <td>${entry.date}</td>
+        <td>${entry.description}${entry.kind === 'scheduled' ? ' <span class="badge badge-ghost badge-sm">Scheduled</span>' : ''}${entry.changed ? ' <span class="badge badge-warning badge-sm">Changed</span>' : ''}</td>
+        <td class="text-right">${formatSignedCurrency(entry.type === 'credit' ? entry.amount : -entry.amount)}</td>
+        <td class="text-right">${formatSignedCurrency(entry.balance)}</td>
+        <td class="text-right">${actions}</td>
+      `;
+      body.appendChild(row);
+    });
+  } catch (error) {
+    console.error('Error loading forecast:', error);
+    alert('Error loading forecast: ' + error.message);
+  }
+}
+
+async function saveSchedule(e) {
+  e.preventDefault();
+
+  const day = document.getElementById('schedule-day').value;
+  const schedule = {
+    description: document.getElementById('schedule-description').value.trim(),
+    amount: parseFloat(document.getElementById('schedule-amount').value),
+    type: document.getElementById('schedule-type').value,
+    accountId: document.getElementById('schedule-account').value || null,
+    category: document.getElementById('schedule-category').value || null,
+    frequency: document.getElementById('schedule-frequency').value,
+    dayOfMonth: day ? parseInt(day, 10) : null,
+    startDate: document.getElementById('schedule-start').value,
+    endDate: document.getElementById('schedule-end').value || null,
+    mode: document.getElementById('schedule-mode').value
+  };
+
+  try {
+    const result = await window.electronAPI.createScheduledTransaction(appData.user.id, schedule);
+    if (!result.success) {
+      alert('Error saving schedule: ' + result.error);
+      return;
+    }
+
+    document.getElementById('scheduled-form').reset();
+    document.getElementById('schedule-start').value = new Date().toISOString().split('T')[0];
+    document.getElementById('schedule-category').innerHTML = categoryOptionsHtml('');
+    await loadScheduled();
+  } catch (error) {
+    console.error('Error saving schedule:', error);
+    alert('Error saving schedule: ' + error.message);
+  }
+}
+
+async function deleteSchedule(scheduledId) {
+  if (!confirm('Delete this schedule? Transactions already entered from it are kept.')) {
+    return;
+  }
+
+  try {
+    const result = await window.electronAPI.deleteScheduledTransaction(appData.user.id, scheduledId);
+    if (!result.success) {
+      alert('Error deleting schedule: ' + result.error);
+      return;
+    }
+    await loadScheduled();
+  } catch (error) {
+    console.error('Error deleting schedule:', error);
+    alert('Error deleting schedule: ' + error.message);
+  }
+}
+
+async function postScheduledOccurrence(scheduledId, occurrenceDate) {
+  try {
+    const result = await window.electronAPI.postScheduledOccurrence(appData.user.id, scheduledId, occurrenceDate);
+    if (!result.success) {
+      alert('Error entering scheduled transaction: ' + result.error);
+      return;
+    }
+    await reloadAfterScheduledChange();
+    await loadScheduled();
+  } catch (error) {
+    console.error('Error entering scheduled transaction:', error);
+    alert('Error entering scheduled transaction: ' + error.message);
+  }
+}
+
+async function skipScheduledOccurrence(scheduledId, occurrenceDate) {
+  try {
+    const result = await window.electronAPI.skipScheduledOccurrence(appData.user.id, scheduledId, occurrenceDate);
+    if (!result.success) {
+      alert('Error skipping scheduled transaction: ' + result.error);
+      return;
+    }
+    await loadScheduled();
+  } catch (error) {
+    console.error('Error skipping scheduled transaction:', error);
+    alert('Error skipping scheduled transaction: ' + error.message);
+  }
+}
+
+async function changeScheduledAmount(scheduledId, occurrenceDate, amount) {
+  const value = prompt(`Amount for the ${occurrenceDate} occurrence only:`, amount);
+  if (value === null) return;
+
+  try {
+    const result = await window.electronAPI.overrideScheduledOccurrence(appData.user.id, scheduledId, occurrenceDate, { amount: parseFloat(value) });
+    if (!result.success) {
+      alert('Error changing scheduled transaction: ' + result.error);
+      return;
+    }
+    await loadForecast();
+  } catch (error) {
+    console.error('Error changing scheduled transaction:', error);
+    alert('Error changing scheduled transaction: ' + error.message);
+  }
+}
+
+async function restoreScheduledOccurrence(scheduledId, occurrenceDate) {
+  try {
+    const result = await window.electronAPI.overrideScheduledOccurrence(appData.user.id, scheduledId, occurrenceDate, null);
+    if (!result.success) {
+      alert('Error restoring scheduled transaction: ' + result.error);
+      return;
+    }
+    await loadForecast();
+  } catch (error) {
+    console.error('Error restoring scheduled transaction:', error);
+    alert('Error restoring scheduled transaction: ' + error.message);
+  }
+}
+
+// Categorization rules
+let categorizationRules = [];
+let editingRuleId = null;
+
+async function openRules() {
+  resetRuleForm();
+  document.getElementById('rules-preview-body').innerHTML = '';
+  document.getElementById('rules-preview-scope').textContent = '';
+  document.getElementById('apply-rules-btn').disabled = true;
+  await loadRules();
+  document.getElementById('rules-modal').classList.add('modal-open');
+}
+
+function closeRulesModal() {
+  document.getElementById('rules-modal').classList.remove('modal-open');
+}
+
+function describeRuleConditions(rule) {
+  const conditions = [];
+  if (rule.descriptionPattern) {
+    conditions.push(rule.matchType === 'regex' ? `description matches /${rule.descriptionPattern}/` : `description contains "${rule.descriptionPattern}"`);
+  }
+  if (rule.minAmount !== null && rule.maxAmount !== null) {
+    conditions.push(`amount $${formatCurrency(rule.minAmount)} to $${formatCurrency(rule.maxAmount)}`);
+  } else if (rule.minAmount !== null) {
+    conditions.push(`amount at least $${formatCurrency(rule.minAmount)}`);
+  } else if (rule.maxAmount !== null) {
+    conditions.push(`amount up to $${formatCurrency(rule.maxAmount)}`);
+  }
+  if (rule.accountId) conditions.push(`in ${accountName(rule.accountId)}`);
+  if (rule.type) conditions.push(rule.type === 'debit' ? 'payments' : 'deposits');
+  return conditions.join(', ');
+}
+
+// Takes a rule's actions or the changes a preview proposes
+function describeRuleActions({ category, description, transferAccountId }) {
+  const actions = [];
+  if (transferAccountId) actions.push(`transfer with ${accountName(transferAccountId)}`);
+  if (category) actions.push(`category ${category}`);
+  if (description) actions.push(`payee "${description}"`);
+  return actions.join(', ');
+}
+
+async function loadRules() {
+  try {
+    const result = await window.electronAPI.listRules(appData.user.id);
+    if (!result.success) {
+      alert('Error loading rules: ' + result.error);
+      return;
+    }
+    categorizationRules = result.rules;
+
+    const body = document.getElementById('rules-list-body');
+    body.innerHTML = '';
+    if (categorizationRules.length === 0) {
+      body.innerHTML = '<tr><td colspan="4" class="text-center text-base-content/70">No rules yet</td></tr>';
+    }
+    categorizationRules.forEach((rule, index) => {
+      const row = document.createElement('tr');
+      row.innerHTML = `
+        <td class="whitespace-nowrap">
+          <button class="btn btn-xs btn-ghost" onclick="moveRule(${index}, -1)" ${index === 0 ? 'disabled' : ''}>&uarr;</button>
+          <button class="btn btn-xs btn-ghost" onclick="moveRule(${index}, 1)" ${index === categorizationRules.length - 1 ? 'disabled' : ''}>&darr;</button>
+        </td>
+        <td>${describeRuleConditions(rule)}</td>
+        <td>${describeRuleActions({ category: rule.setCategory, description: rule.setDescription, transferAccountId: rule.transferAccountId })}</td>
+        <td class="text-right whitespace-nowrap">
+          <button class="btn btn-xs btn-ghost" onclick="editRule(${rule.id})">Edit</button>
+          <button class="btn btn-xs btn-error" onclick="deleteRule(${rule.id})">Delete</button>
+        </td>
+      `;
+      body.appendChild(row);
+    });
+  } catch (error) {
+    console.error('Error loading rules:', error);
+    alert('Error loading rules: ' + error.message);
+  }
+}
+
+function resetRuleForm() {
+  editingRuleId = null;
+  document.getElementById('rule-form').reset();
+  document.getElementById('rule-category').innerHTML = categoryOptionsHtml('');
+  document.getElementById('rule-form-title').textContent = 'New Rule';
+  document.getElementById('cancel-rule-edit-btn').classList.add('hidden');
+}
+
+function editRule(ruleId) {
+  const rule = categorizationRules.find(r => r.id === ruleId);
+  if (!rule) return;
+
+  editingRuleId = rule.id;
+  document.getElementById('rule-match-type').value = rule.matchType;
+  document.getElementById('rule-pattern').value = rule.descriptionPattern || '';
+  document.getElementById('rule-min-amount').value = rule.minAmount !== null ? rule.minAmount : '';
+  document.getElementById('rule-max-amount').value = rule.maxAmount !== null ? rule.maxAmount : '';
+  document.getElementById('rule-account').value = rule.accountId || '';
+  document.getElementById('rule-type').value = rule.type || '';
+  document.getElementById('rule-category').innerHTML = categoryOptionsHtml(rule.setCategory);
+  document.getElementById('rule-description').value = rule.setDescription || '';
+  document.getElementById('rule-transfer-account').value = rule.transferAccountId || '';
+  document.getElementById('rule-form-title').textContent = 'Edit Rule';
+  document.getElementById('cancel-rule-edit-btn').classList.remove('hidden');
+}
+
+async function saveRule(e) {
+  e.preventDefault();
+
+  const amount = (id) => {
+    const value = document.getElementById(id).value;
+    return value === '' ? null : parseFloat(value);
+  };
+  const rule = {
+    id: editingRuleId,
+    matchType: document.getElementById('rule-match-type').value,
+    descriptionPattern: document.getElementById('rule-pattern').value,
+    minAmount: amount('rule-min-amount'),
+    maxAmount: amount('rule-max-amount'),
+    accountId: document.getElementById('rule-account').value || null,
+    type: document.getElementById('rule-type').value || null,
+    setCategory: document.getElementById('rule-category').value || null,
+    setDescription: document.getElementById('rule-description').value,
+    transferAccountId: document.getElementById('rule-transfer-account').value || null
+  };
+
+  try {
+    const result = await window.electronAPI.saveRule(appData.user.id, rule);
+    if (!result.success) {
+      alert('Error saving rule: ' + result.error);
+      return;
+    }
+    resetRuleForm();
+    await loadRules();
+  } catch (error) {
+    console.error('Error saving rule:', error);
+    alert('Error saving rule: ' + error.message);
+  }
+}
+
+async function deleteRule(ruleId) {
+  if (!confirm('Delete this rule? Transactions it already changed stay as they are.')) {
+    return;
+  }
+
+  try {
+    const result = await window.electronAPI.deleteRule(appData.user.id, ruleId);
+    if (!result.success) {
+      alert('Error deleting rule: ' + result.error);
+      return;
+    }
+    if (editingRuleId === ruleId) resetRuleForm();
+    await loadRules();
+  } catch (error) {
+    console.error('Error deleting rule:', error);
+    alert('Error deleting rule: ' + error.message);
+  }
+}
+
+async function moveRule(index, offset) {
+  const ids = categorizationRules.map(r => r.id);
+  const target = index + offset;
+  if (target < 0 || target >= ids.length) return;
+  [ids[index], ids[target]] = [ids[target], ids[index]];
+
+  try {
+    const result = await window.electronAPI.reorderRules(appData.user.id, ids);
+    if (!result.success) {
+      alert('Error reordering rules: ' + result.error);
+      return;
+    }
+    await loadRules();
+  } catch (error) {
+    console.error('Error reordering rules:', error);
+    alert('Error reordering rules: ' + error.message);
+  }
+}
+
+// Dry run over the register's selected account (or every transaction):
+// lists what the rules would change without changing anything
+async function previewRules() {
+  const accountId = getSelectedAccountId();
+  const body = document.getElementById('rules-preview-body');
+
+  try {
+    const result = await window.electronAPI.previewRules(appData.user.id, accountId);
+    if (!result.success) {
+      alert('Error previewing rules: ' + result.error);
+      return;
+    }
+
+    document.getElementById('rules-preview-scope').textContent =
+      `${accountId ? accountName(accountId) : 'All accounts'}: ${result.changes.length} transaction(s) would change`;
+    document.getElementById('rules-preview-select-all').checked = true;
+    document.getElementById('apply-rules-btn').disabled = result.changes.length === 0;
+
+    body.innerHTML = '';
+    result.changes.forEach(change => {
+      const row = document.createElement('tr');
+      row.innerHTML = `
+        <td><input type="checkbox" class="checkbox checkbox-sm rule-change-checkbox" value="${change.transactionId}" checked></td>
+        <td>${change.date}</td>
+        <td>${change.description}</td>
+        <td class="text-right">${formatSignedCurrency(change.type === 'credit' ? change.amount : -change.amount)}</td>
+        <td>${describeRuleActions(change.changes)}</td>
+      `;
+      body.appendChild(row);
+    });
+  } catch (error) {
+    console.error('Error previewing rules:', error);
+    alert('Error previewing rules: ' + error.message);
+  }
+}
+
+async function applySelectedRules() {
+  const transactionIds = Array.from(document.querySelectorAll('.rule-change-checkbox:checked')).map(checkbox => checkbox.value);
+  if (transactionIds.length === 0) {
+    alert('Select the changes to apply.');
+    return;
+  }
+
+  try {
+    const result = await window.electronAPI.applyRules(appData.user.id, transactionIds);
+    if (!result.success) {
+      alert('Error applying rules: ' + result.error);
+      return;
+    }
+
+    const loadResult = await window.electronAPI.loadData();
+    if (loadResult.success && loadResult.data) {
+      appData = loadResult.data;
+      renderUI();
+    }
+    await previewRules();
+    alert(`${result.updated} transaction(s) updated.`);
+  } catch (error) {
+    console.error('Error applying rules:', error);
+    alert('Error applying rules: ' + error.message);
+  }
+}
+
+// Payees
+let payees = [];
+let mergeDescriptions = []; // descriptions not yet normalized to a payee
+
+async function openPayees() {
+  document.getElementById('payee-form').reset();
+  await loadPayees();
+  document.getElementById('payees-modal').classList.add('modal-open');
+}
+
+function closePayeesModal() {
+  document.getElementById('payees-modal').classList.remove('modal-open');
+}
+
+async function reloadAfterPayeeChange() {
+  const loadResult = await window.electronAPI.loadData();
+  if (loadResult.success && loadResult.data) {
+    appData = loadResult.data;
+    renderUI();
+  }
+  await loadPayees();
+}
+
+async function loadPayees() {
+  try {
+    const result = await window.electronAPI.listPayees(appData.user.id);
+    if (!result.success) {
+      alert('Error loading payees: ' + result.error);
+      return;
+    }
+    payees = result.payees;
+
+    const body = document.getElementById('payees-list-body');
+    body.innerHTML = '';
+    if (payees.length === 0) {
+      body.innerHTML = '<tr><td colspan="4" class="text-center text-base-content/70">No payees yet</td></tr>';
+    }
+    payees.forEach(payee => {
+      const aliases = payee.aliases.map(alias => `
+        <span class="badge badge-outline gap-1">${alias.pattern}
+          <button class="btn btn-xs btn-ghost px-1" onclick="deletePayeeAlias(${alias.id})">&times;</button>
+        </span>
+      `).join(' ');
+      const row = document.createElement('tr');
+      row.innerHTML = `
+        <td class="font-semibold">${payee.name}</td>
+        <td>${aliases || '<span class="text-base-content/50">None</span>'}</td>
+        <td class="text-right">${payee.transactionCount}</td>
+        <td class="text-right whitespace-nowrap">
+          <button class="btn btn-xs btn-ghost" onclick="addPayeeAlias(${payee.id})">Add Alias</button>
+          <button class="btn btn-xs btn-ghost" onclick="renamePayee(${payee.id})">Rename</button>
+          <button class="btn btn-xs btn-error" onclick="deletePayee(${payee.id})">Delete</button>
+        </td>
+      `;
+      body.appendChild(row);
+    });
+
+    renderPayeeMerge();
+  } catch (error) {
+    console.error('Error loading payees:', error);
+    alert('Error loading payees: ' + error.message);
+  }
+}
+
+// Merge choices: other payees and the register's unnormalized descriptions
+function renderPayeeMerge() {
+  const names = new Set(payees.map(p => p.name.toLowerCase()));
+  mergeDescriptions = [...new Set(appData.transactions.filter(t => !t.payeeId && !t.transferId).map(t => t.payee))]
+    .filter(description => !names.has(description.toLowerCase()))
+    .sort((a, b) => a.localeCompare(b));
+
+  const target = document.getElementById('merge-target');
+  target.innerHTML = '<option value="">-- Merge into --</option>' +
+    payees.map(p => `<option value="${p.id}">${p.name}</option>`).join('');
+
+  const sources = document.getElementById('merge-sources');
+  sources.innerHTML = '';
+  payees.forEach(payee => {
+    sources.innerHTML += `
+      <label class="label cursor-pointer justify-start gap-2">
+        <input type="checkbox" class="checkbox checkbox-sm merge-payee-checkbox" value="${payee.id}">
+        <span class="label-text">${payee.name} <span class="badge badge-ghost badge-sm">payee</span></span>
+      </label>
+    `;
+  });
+  mergeDescriptions.forEach((description, index) => {
+    sources.innerHTML += `
+      <label class="label cursor-pointer justify-start gap-2">
+        <input type="checkbox" class="checkbox checkbox-sm merge-description-checkbox" value="${index}">
+        <span class="label-text">${description}</span>
+      </label>
+    `;
+  });
+}
+
+async function createPayee(e) {
+  e.preventDefault();
+
+  const name = document.getElementById('payee-name').value;
+  const aliases = document.getElementById('payee-aliases').value
+    .split('\n')
+    .map(alias => alias.trim())
+    .filter(alias => alias);
+
+  try {
+    const result = await window.electronAPI.createPayee(appData.user.id, name, aliases);
+    if (!result.success) {
+      alert('Error creating payee: ' + result.error);
+      return;
+    }
+    document.getElementById('payee-form').reset();
+    await reloadAfterPayeeChange();
+  } catch (error) {
+    console.error('Error creating payee:', error);
+    alert('Error creating payee: ' + error.message);
+  }
+}
+
+async function renamePayee(payeeId) {
+  const payee = payees.find(p => p.id === payeeId);
+  const name = prompt('New name for this payee:', payee ? payee.name : '');
+  if (name === null) return;
+
+  try {
+    const result = await window.electronAPI.renamePayee(appData.user.id, payeeId, name);
+    if (!result.success) {
+      alert('Error renaming payee: ' + result.error);
+      return;
+    }
+    await reloadAfterPayeeChange();
+  } catch (error) {
+    console.error('Error renaming payee:', error);
+    alert('Error renaming payee: ' + error.message);
+  }
+}
+
+async function deletePayee(payeeId) {
+  if (!confirm('Delete this payee and its aliases? Its transactions keep their descriptions.')) {
+    return;
+  }
+
+  try {
+    const result = await window.electronAPI.deletePayee(appData.user.id, payeeId);
+    if (!result.success) {
+      alert('Error deleting payee: ' + result.error);
+      return;
+    }
+    await reloadAfterPayeeChange();
+  } catch (error) {
+    console.error('Error deleting payee:', error);
+    alert('Error deleting payee: ' + error.message);
+  }
+}
+
+async function addPayeeAlias(payeeId) {
+  const pattern = prompt('Bank text that means this payee (for example "SQ *BLUE BOTTLE"):');
+  if (pattern === null) return;
+
+  try {
+    const result = await window.electronAPI.addPayeeAlias(appData.user.id, payeeId, pattern);
+    if (!result.success) {
+      alert('Error adding alias: ' + result.error);
+      return;
+    }
+    await loadPayees();
+  } catch (error) {
+    console.error('Error adding alias:', error);
+    alert('Error adding alias: ' + error.message);
+  }
+}
+
+async function deletePayeeAlias(aliasId) {
+  try {
+    const result = await window.electronAPI.deletePayeeAlias(appData.user.id, aliasId);
+    if (!result.success) {
+      alert('Error deleting alias: ' + result.error);
+      return;
+    }
+    await loadPayees();
+  } catch (error) {
+    console.error('Error deleting alias:', error);
+    alert('Error deleting alias: ' + error.message);
+  }
+}
+
+async function mergeSelectedPayees() {
+  const targetId = parseInt(document.getElementById('merge-target').value);
+  if (!targetId) {
+    alert('Choose the payee to merge into.');
+    return;
+  }
+  const payeeIds = Array.from(document.querySelectorAll('.merge-payee-checkbox:checked'))
+    .map(checkbox => parseInt(checkbox.value))
+    .filter(id => id !== targetId);
+  const descriptions = Array.from(document.querySelectorAll('.merge-description-checkbox:checked'))
+    .map(checkbox => mergeDescriptions[parseInt(checkbox.value)]);
+  if (payeeIds.length === 0 && descriptions.length === 0) {
+    alert('Select the payees or descriptions to merge.');
+    return;
+  }
+  if (!confirm('Rewrite every matching transaction to this payee? Their original descriptions are kept.')) {
+    return;
+  }
+
+  try {
+    const result = await window.electronAPI.mergePayees(appData.user.id, targetId, payeeIds, descriptions);
+    if (!result.success) {
+      alert('Error merging payees: ' + result.error);
+      return;
+    }
+    await reloadAfterPayeeChange();
+    alert(`${result.rewritten} transaction(s) rewritten.`);
+  } catch (error) {
+    console.error('Error merging payees:', error);
+    alert('Error merging payees: ' + error.message);
+  }
+}
+
+async function rollbackImportBatch(batchId) {
+  if (!confirm('Delete every transaction created by this import and unmatch the ones it matched?')) {
+    return;
+  }
+
+  try {
+    const result = await window.electronAPI.rollbackImportBatch(appData.user.id, batchId);
+
+    if (!result.success) {
+      alert('Error rolling back import: ' + result.error);
+      return;
+    }
+
+    const loadResult = await window.electronAPI.loadData();
+    if (loadResult.success && loadResult.data) {
+      appData = loadResult.data;
+      renderUI();
+    }
+
+    await loadImportHistory();
+    alert(`Import rolled back: ${result.deleted} transaction(s) deleted.`);
+  } catch (error) {
+    console.error('Error rolling back import:', error);
+    alert('Error rolling back import: ' + error.message);
+  }
 }
 
@@ -1,10 +1,20 @@
 import {
+  hasCurrencyPrecision,
   isValidEmail,
   RateLimiter,
   sanitizeString,
+  validateAccountData,
   validateCategory,
+  validateCsvMapping,
   validateFilePath,
+  validateImportProfileName,
+  validatePayeeAlias,
+  validatePayeeName,
+  validateReconciliationData,
+  validateRuleData,
+  validateScheduledTransactionData,
   validateTransactionData,
+  validateTransferData,
   validateUserData,
 } from "./validation";
 
@@ -36,6 +46,23 @@ describe("Validation Module", () => {
     });
   });
 
+  describe("hasCurrencyPrecision", () => {
+    test("should accept whole and two-decimal amounts", () => {
+      expect(hasCurrencyPrecision(12)).toBe(true);
+      expect(hasCurrencyPrecision(0.3)).toBe(true);
+      expect(hasCurrencyPrecision(-1234.56)).toBe(true);
+    });
+
+    test("should tolerate floating point noise", () => {
+      expect(hasCurrencyPrecision(0.1 + 0.2)).toBe(true);
+    });
+
+    test("should reject fractions of a cent", () => {
+      expect(hasCurrencyPrecision(1.005)).toBe(false);
+      expect(hasCurrencyPrecision(0.001)).toBe(false);
+    });
+  });
+
   describe("sanitizeString", () => {
     test("should remove null bytes and control characters", () => {
       expect(sanitizeString("hello\0world")).toBe("helloworld");
@@ -192,6 +219,13 @@ describe("Validation Module", () => {
       );
     });
 
+    test("should throw error for fractions of a cent", () => {
+      const txn = { ...validTransaction, amount: 10.555 };
+      expect(() => validateTransactionData(txn)).toThrow(
+        "cannot have more than 2 decimal places"
+      );
+    });
+
     test("should sanitize transaction data", () => {
       const txn = {
         ...validTransaction,
@@ -203,6 +237,78 @@ describe("Validation Module", () => {
       expect(result.category).toBe("Groceries");
     });
 
+    test("should accept splits that add up to the amount", () => {
+      const result = validateTransactionData({
+        ...validTransaction,
+        amount: 100.3,
+        splits: [
+          { amount: 80.1, category: "  Groceries ", memo: "Food" },
+          { amount: 20.2, category: "Household" },
+        ],
+      });
+
+      expect(result.splits).toEqual([
+        { amount: 80.1, category: "Groceries", memo: "Food" },
+        { amount: 20.2, category: "Household", memo: null },
+      ]);
+      expect(validateTransactionData(validTransaction).splits).toEqual([]);
+    });
+
+    test("should allow negative splits such as withholding", () => {
+      const paycheck = {
+        ...validTransaction,
+        amount: 2200,
+        type: "credit",
+        splits: [
+          { amount: 3000, category: "Salary" },
+          { amount: -800, category: "Taxes" },
+        ],
+      };
+      expect(validateTransactionData(paycheck).splits).toHaveLength(2);
+    });
+
+    test("should reject splits that do not add up", () => {
+      const txn = {
+        ...validTransaction,
+        splits: [
+          { amount: 50, category: "Groceries" },
+          { amount: 40, category: "Household" },
+        ],
+      };
+      expect(() => validateTransactionData(txn)).toThrow(
+        "Splits must add up to the transaction amount of 100.50, not 90.00"
+      );
+    });
+
+    test("should reject a single split and zero or fractional amounts", () => {
+      expect(() =>
+        validateTransactionData({
+          ...validTransaction,
+          splits: [{ amount: 100.5, category: "Groceries" }],
+        })
+      ).toThrow("A split transaction needs at least two splits");
+
+      expect(() =>
+        validateTransactionData({
+          ...validTransaction,
+          splits: [
+            { amount: 100.5, category: "Groceries" },
+            { amount: 0, category: "Household" },
+          ],
+        })
+      ).toThrow("Split 2 amount cannot be zero");
+
+      expect(() =>
+        validateTransactionData({
+          ...validTransaction,
+          splits: [
+            { amount: 100.495, category: "Groceries" },
+            { amount: 0.005, category: "Household" },
+          ],
+        })
+      ).toThrow("Split 1 amount cannot have more than 2 decimal places");
+    });
+
     test("should convert isReconciled to boolean", () => {
       const txn1 = { ...validTransaction, isReconciled: 1 as any };
       expect(validateTransactionData(txn1).isReconciled).toBe(true);
@@ -212,6 +318,295 @@ describe("Validation Module", () => {
     });
   });
 
+  describe("validateAccountData", () => {
+    const validAccount = {
+      name: "Everyday Checking",
+      institution: "First Bank",
+      accountType: "checking",
+      lastFour: "1234",
+      openingBalance: 250.75,
+      openingDate: "2024-01-01",
+    };
+
+    test("should validate correct account data", () => {
+      const result = validateAccountData(validAccount);
+      expect(result).toEqual(validAccount);
+    });
+
+    test("should default optional fields", () => {
+      const result = validateAccountData({
+        name: "Savings",
+        accountType: "savings",
+        openingDate: "2024-01-01",
+      });
+      expect(result.institution).toBeNull();
+      expect(result.lastFour).toBeNull();
+      expect(result.openingBalance).toBe(0);
+    });
+
+    test("should throw error for invalid account type", () => {
+      expect(() =>
+        validateAccountData({ ...validAccount, accountType: "brokerage" })
+      ).toThrow('Account type must be "checking", "savings" or "credit_card"');
+    });
+
+    test("should throw error for malformed last four", () => {
+      expect(() =>
+        validateAccountData({ ...validAccount, lastFour: "12a4" })
+      ).toThrow("Last four must be exactly 4 digits");
+    });
+
+    test("should throw error for missing name and bad opening date", () => {
+      expect(() =>
+        validateAccountData({
+          ...validAccount,
+          name: "",
+          openingDate: "01/01/2024",
+        })
+      ).toThrow(
+        "Account name is required, Opening date must be in YYYY-MM-DD format"
+      );
+    });
+
+    test("should throw error for fractions of a cent in opening balance", () => {
+      expect(() =>
+        validateAccountData({ ...validAccount, openingBalance: 250.755 })
+      ).toThrow("Opening balance cannot have more than 2 decimal places");
+    });
+
+    test("should sanitize account name", () => {
+      const result = validateAccountData({
+        ...validAccount,
+        name: "  Joint\0 Checking  ",
+      });
+      expect(result.name).toBe("Joint Checking");
+    });
+  });
+
+  describe("validateTransferData", () => {
+    const validTransfer = {
+      date: "2024-01-15",
+      amount: 500,
+      fromAccountId: "checking",
+      toAccountId: "savings",
+    };
+
+    test("should validate a transfer and default its description", () => {
+      expect(validateTransferData(validTransfer)).toEqual({
+        date: "2024-01-15",
+        description: "Transfer",
+        amount: 500,
+        fromAccountId: "checking",
+        toAccountId: "savings",
+        checkNumber: null,
+      });
+    });
+
+    test("should require two different accounts", () => {
+      expect(() =>
+        validateTransferData({ ...validTransfer, toAccountId: "checking" })
+      ).toThrow("A transfer needs two different accounts");
+      expect(() =>
+        validateTransferData({ ...validTransfer, toAccountId: "" })
+      ).toThrow("The account to transfer to is required");
+    });
+
+    test("should require a positive amount in cents", () => {
+      expect(() =>
+        validateTransferData({ ...validTransfer, amount: -5 })
+      ).toThrow("Transfer amount must be greater than zero");
+      expect(() =>
+        validateTransferData({ ...validTransfer, amount: 5.001 })
+      ).toThrow("cannot have more than 2 decimal places");
+    });
+  });
+
+  describe("validateScheduledTransactionData", () => {
+    const validSchedule = {
+      description: "Rent",
+      amount: 1200,
+      type: "debit",
+      accountId: "checking",
+      frequency: "monthly",
+      dayOfMonth: 1,
+      startDate: "2024-01-01",
+      mode: "post",
+    };
+
+    test("should validate a monthly schedule", () => {
+      expect(validateScheduledTransactionData(validSchedule)).toEqual({
+        ...validSchedule,
+        category: null,
+        endDate: null,
+      });
+    });
+
+    test("should only keep the day of the month where it applies", () => {
+      const weekly = validateScheduledTransactionData({
+        ...validSchedule,
+        frequency: "weekly",
+      });
+      expect(weekly.dayOfMonth).toBeNull();
+
+      expect(() =>
+        validateScheduledTransactionData({ ...validSchedule, dayOfMonth: 32 })
+      ).toThrow("Day of the month must be between 1 and 31");
+    });
+
+    test("should reject unknown frequencies and reversed dates", () => {
+      expect(() =>
+        validateScheduledTransactionData({
+          ...validSchedule,
+          frequency: "daily",
+        })
+      ).toThrow("Frequency must be one of");
+      expect(() =>
+        validateScheduledTransactionData({
+          ...validSchedule,
+          endDate: "2023-12-31",
+        })
+      ).toThrow("End date cannot be before the start date");
+    });
+  });
+
+  describe("validateRuleData", () => {
+    test("should validate a rule and fill in the defaults", () => {
+      expect(
+        validateRuleData({
+          descriptionPattern: "  blue bottle ",
+          maxAmount: 20,
+          setCategory: "Coffee",
+        })
+      ).toEqual({
+        descriptionPattern: "blue bottle",
+        matchType: "contains",
+        minAmount: null,
+        maxAmount: 20,
+        accountId: null,
+        type: null,
+        setCategory: "Coffee",
+        setDescription: null,
+        transferAccountId: null,
+      });
+    });
+
+    test("should need a condition and an action", () => {
+      expect(() => validateRuleData({ setCategory: "Coffee" })).toThrow(
+        "A rule needs at least one condition"
+      );
+      expect(() => validateRuleData({ type: "debit" })).toThrow(
+        "A rule needs an action"
+      );
+    });
+
+    test("should reject bad patterns, ranges and transfer targets", () => {
+      expect(() =>
+        validateRuleData({
+          descriptionPattern: "sq *(",
+          matchType: "regex",
+          setCategory: "Coffee",
+        })
+      ).toThrow("Invalid regular expression");
+      expect(() =>
+        validateRuleData({
+          minAmount: 50,
+          maxAmount: 10,
+          setCategory: "Coffee",
+        })
+      ).toThrow("Minimum amount cannot be more than the maximum");
+      expect(() =>
+        validateRuleData({
+          accountId: "checking",
+          transferAccountId: "checking",
+        })
+      ).toThrow("A rule cannot mark transfers to the account it matches");
+    });
+  });
+
+  describe("validateReconciliationData", () => {
+    const validReconciliation = {
+      accountId: "acc_1",
+      statementDate: "2024-01-31",
+      beginningBalance: 1000,
+      endingBalance: 1250.5,
+    };
+
+    test("should validate correct statement data", () => {
+      expect(validateReconciliationData(validReconciliation)).toEqual({
+        ...validReconciliation,
+        importBatchId: null,
+      });
+    });
+
+    test("should allow reconciling transactions without an account", () => {
+      const result = validateReconciliationData({
+        ...validReconciliation,
+        accountId: undefined,
+      });
+      expect(result.accountId).toBeNull();
+    });
+
+    test("should throw error for invalid statement date", () => {
+      expect(() =>
+        validateReconciliationData({
+          ...validReconciliation,
+          statementDate: "January 31",
+        })
+      ).toThrow("Statement date must be in YYYY-MM-DD format");
+    });
+
+    test("should throw error for non-numeric balances", () => {
+      expect(() =>
+        validateReconciliationData({
+          ...validReconciliation,
+          endingBalance: "abc" as any,
+        })
+      ).toThrow("endingBalance must be a valid number");
+    });
+
+    test("should throw error for fractions of a cent", () => {
+      expect(() =>
+        validateReconciliationData({
+          ...validReconciliation,
+          beginningBalance: 0.001,
+        })
+      ).toThrow("beginningBalance cannot have more than 2 decimal places");
+    });
+
+    test("should keep the statement import a session follows", () => {
+      expect(
+        validateReconciliationData({ ...validReconciliation, importBatchId: 3 })
+          .importBatchId
+      ).toBe(3);
+      expect(() =>
+        validateReconciliationData({
+          ...validReconciliation,
+          importBatchId: "3" as any,
+        })
+      ).toThrow("Import batch id must be a positive integer");
+    });
+  });
+
+  describe("validatePayeeName", () => {
+    test("should trim and accept a payee name", () => {
+      expect(validatePayeeName("  Corner Coffee ")).toBe("Corner Coffee");
+    });
+
+    test("should throw error for missing or long names", () => {
+      expect(() => validatePayeeName("   ")).toThrow("Payee name is required");
+      expect(() => validatePayeeName("x".repeat(101))).toThrow(
+        "Payee name too long"
+      );
+    });
+  });
+
+  describe("validatePayeeAlias", () => {
+    test("should require an alias pattern", () => {
+      expect(validatePayeeAlias("SQ *CORNER")).toBe("SQ *CORNER");
+      expect(() => validatePayeeAlias("")).toThrow("Alias pattern is required");
+    });
+  });
+
   describe("validateCategory", () => {
     test("should validate correct category data", () => {
       const result = validateCategory("Groceries", "expense");
@@ -253,6 +648,99 @@ describe("Validation Module", () => {
     });
   });
 
+  describe("validateCsvMapping", () => {
+    const validMapping = {
+      skipRows: 1,
+      hasHeader: true,
+      dateColumn: 0,
+      descriptionColumn: 1,
+      amountColumn: 2,
+      debitColumn: null,
+      creditColumn: null,
+      categoryColumn: null,
+      checkNumberColumn: 3,
+      signConvention: "negative_is_credit",
+      dateFormat: "DD/MM/YYYY",
+    };
+
+    test("should validate a complete mapping", () => {
+      expect(validateCsvMapping(validMapping)).toEqual(validMapping);
+    });
+
+    test("should fill in defaults for optional settings", () => {
+      const result = validateCsvMapping({
+        dateColumn: 0,
+        descriptionColumn: 1,
+        debitColumn: 2,
+        creditColumn: 3,
+      });
+      expect(result).toMatchObject({
+        skipRows: 0,
+        hasHeader: false,
+        amountColumn: null,
+        categoryColumn: null,
+        signConvention: "negative_is_debit",
+        dateFormat: "auto",
+      });
+    });
+
+    test("should require date and description columns", () => {
+      expect(() =>
+        validateCsvMapping({ ...validMapping, dateColumn: undefined })
+      ).toThrow("A date column is required");
+      expect(() =>
+        validateCsvMapping({ ...validMapping, descriptionColumn: -1 })
+      ).toThrow("A description column is required");
+    });
+
+    test("should require an amount or debit/credit column", () => {
+      expect(() =>
+        validateCsvMapping({ ...validMapping, amountColumn: null })
+      ).toThrow("An amount column or debit/credit columns are required");
+    });
+
+    test("should reject invalid column numbers", () => {
+      expect(() =>
+        validateCsvMapping({ ...validMapping, categoryColumn: 1.5 })
+      ).toThrow("categoryColumn must be a column number");
+    });
+
+    test("should reject invalid settings", () => {
+      expect(() =>
+        validateCsvMapping({ ...validMapping, skipRows: 101 })
+      ).toThrow("Rows to skip must be a whole number between 0 and 100");
+      expect(() =>
+        validateCsvMapping({ ...validMapping, dateFormat: "YY-M-D" })
+      ).toThrow("Unsupported date format");
+      expect(() =>
+        validateCsvMapping({ ...validMapping, signConvention: "sometimes" })
+      ).toThrow("Sign convention must be");
+      expect(() => validateCsvMapping(null as any)).toThrow(
+        "Invalid column mapping"
+      );
+    });
+  });
+
+  describe("validateImportProfileName", () => {
+    test("should sanitize a valid name", () => {
+      expect(validateImportProfileName("  Big Bank Checking  ")).toBe(
+        "Big Bank Checking"
+      );
+    });
+
+    test("should throw error for missing or too long names", () => {
+      expect(() => validateImportProfileName("")).toThrow(
+        "Profile name is required"
+      );
+      expect(() => validateImportProfileName("   ")).toThrow(
+        "Profile name is required"
+      );
+      expect(() => validateImportProfileName("a".repeat(101))).toThrow(
+        "Profile name too long"
+      );
+    });
+  });
+
   describe("validateFilePath", () => {
     test("should validate normal file paths", () => {
       expect(validateFilePath("/path/to/file.txt")).toBe("/path/to/file.txt");
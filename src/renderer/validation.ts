@@ -14,6 +14,12 @@ interface ValidatedUser {
   lastName: string | null;
 }
 
+interface SplitData {
+  amount: number; // signed in the direction of the transaction
+  category?: string | null;
+  memo?: string | null;
+}
+
 interface TransactionData {
   id?: string;
   date: string;
@@ -24,6 +30,13 @@ interface TransactionData {
   checkNumber?: string | null;
   isReconciled?: boolean;
   accountId?: string | null;
+  splits?: SplitData[];
+}
+
+interface ValidatedSplit {
+  amount: number;
+  category: string | null;
+  memo: string | null;
 }
 
 interface ValidatedTransaction {
@@ -36,6 +49,148 @@ interface ValidatedTransaction {
   checkNumber: string | null;
   isReconciled: boolean;
   accountId: string | null;
+  splits: ValidatedSplit[]; // empty unless split across categories
+}
+
+interface AccountData {
+  name: string;
+  institution?: string | null;
+  accountType: string;
+  lastFour?: string | null;
+  openingBalance?: number;
+  openingDate: string;
+}
+
+interface ValidatedAccount {
+  name: string;
+  institution: string | null;
+  accountType: string;
+  lastFour: string | null;
+  openingBalance: number;
+  openingDate: string;
+}
+
+interface TransferData {
+  date: string;
+  description?: string | null;
+  amount: number;
+  fromAccountId: string;
+  toAccountId: string;
+  checkNumber?: string | null;
+}
+
+interface ValidatedTransfer {
+  date: string;
+  description: string;
+  amount: number;
+  fromAccountId: string;
+  toAccountId: string;
+  checkNumber: string | null;
+}
+
+interface ScheduledTransactionData {
+  description: string;
+  amount: number;
+  type: string;
+  category?: string | null;
+  accountId?: string | null;
+  frequency: string;
+  dayOfMonth?: number | null;
+  startDate: string;
+  endDate?: string | null;
+  mode: string;
+}
+
+interface ValidatedScheduledTransaction {
+  description: string;
+  amount: number;
+  type: string;
+  category: string | null;
+  accountId: string | null;
+  frequency:
+    | "weekly"
+    | "biweekly"
+    | "monthly"
+    | "quarterly"
+    | "yearly"
+    | "last_business_day";
+  dayOfMonth: number | null;
+  startDate: string;
+  endDate: string | null;
+  mode: "post" | "remind";
+}
+
+interface RuleData {
+  descriptionPattern?: string | null;
+  matchType?: string | null;
+  minAmount?: number | null;
+  maxAmount?: number | null;
+  accountId?: string | null;
+  type?: string | null;
+  setCategory?: string | null;
+  setDescription?: string | null;
+  transferAccountId?: string | null;
+}
+
+interface ValidatedRule {
+  descriptionPattern: string | null;
+  matchType: "contains" | "regex";
+  minAmount: number | null;
+  maxAmount: number | null;
+  accountId: string | null;
+  type: string | null;
+  setCategory: string | null;
+  setDescription: string | null;
+  transferAccountId: string | null;
+}
+
+interface ReconciliationData {
+  accountId?: string | null;
+  statementDate: string;
+  beginningBalance: number;
+  endingBalance: number;
+  importBatchId?: number | null; // the statement import it follows
+}
+
+interface ValidatedReconciliation {
+  accountId: string | null;
+  statementDate: string;
+  beginningBalance: number;
+  endingBalance: number;
+  importBatchId: number | null;
+}
+
+interface CsvMappingData {
+  skipRows?: number;
+  hasHeader?: boolean;
+  dateColumn?: number | null;
+  descriptionColumn?: number | null;
+  amountColumn?: number | null;
+  debitColumn?: number | null;
+  creditColumn?: number | null;
+  categoryColumn?: number | null;
+  checkNumberColumn?: number | null;
+  signConvention?: string;
+  dateFormat?: string;
+}
+
+interface ValidatedCsvMapping {
+  skipRows: number;
+  hasHeader: boolean;
+  dateColumn: number;
+  descriptionColumn: number;
+  amountColumn: number | null;
+  debitColumn: number | null;
+  creditColumn: number | null;
+  categoryColumn: number | null;
+  checkNumberColumn: number | null;
+  signConvention: "negative_is_debit" | "negative_is_credit";
+  dateFormat:
+    | "auto"
+    | "YYYY-MM-DD"
+    | "MM/DD/YYYY"
+    | "DD/MM/YYYY"
+    | "DD.MM.YYYY";
 }
 
 interface ValidatedCategory {
@@ -52,6 +207,17 @@ function isValidEmail(email: string): boolean {
   return emailRegex.test(email) && email.length <= 254;
 }
 
+/**
+ * Check that a money value has no more precision than the currency allows
+ * (two decimal places). Amounts are stored as integer cents, so anything
+ * finer would be silently rounded.
+ */
+function hasCurrencyPrecision(value: number): boolean {
+  const cents = value * 100;
+  // Tolerate binary floating point noise such as 0.1 + 0.2
+  return Math.abs(cents - Math.round(cents)) < 1e-6;
+}
+
 /**
  * Sanitize string input to prevent injection attacks
  */
@@ -131,6 +297,8 @@ function validateTransactionData(
 
   if (typeof transaction.amount !== "number" || isNaN(transaction.amount)) {
     errors.push("Transaction amount must be a valid number");
+  } else if (!hasCurrencyPrecision(transaction.amount)) {
+    errors.push("Transaction amount cannot have more than 2 decimal places");
   }
 
   if (!transaction.type || !["debit", "credit"].includes(transaction.type)) {
@@ -142,6 +310,13 @@ function validateTransactionData(
     errors.push("Transaction amount exceeds maximum allowed value");
   }
 
+  const splits = transaction.splits || [];
+  if (!Array.isArray(splits)) {
+    errors.push("Transaction splits must be a list");
+  } else if (splits.length > 0) {
+    errors.push(...validateSplits(splits, transaction.amount));
+  }
+
   if (errors.length > 0) {
     throw new Error(errors.join(", "));
   }
@@ -162,7 +337,544 @@ function validateTransactionData(
     accountId: transaction.accountId
       ? sanitizeString(transaction.accountId, 100)
       : null,
+    splits: splits.map((split) => ({
+      amount: split.amount,
+      category: split.category ? sanitizeString(split.category, 100) : null,
+      memo: split.memo ? sanitizeString(split.memo, 500) : null,
+    })),
+  };
+}
+
+/**
+ * Errors in a transaction's splits: there must be at least two, each
+ * with a non-zero amount, and they must add up to the transaction amount
+ * to the cent
+ */
+function validateSplits(splits: SplitData[], amount: number): string[] {
+  const errors: string[] = [];
+
+  if (splits.length < 2) {
+    errors.push("A split transaction needs at least two splits");
+  }
+
+  let total = 0;
+  splits.forEach((split, i) => {
+    if (!split || typeof split !== "object") {
+      errors.push(`Split ${i + 1} is invalid`);
+    } else if (typeof split.amount !== "number" || isNaN(split.amount)) {
+      errors.push(`Split ${i + 1} amount must be a valid number`);
+    } else if (split.amount === 0) {
+      errors.push(`Split ${i + 1} amount cannot be zero`);
+    } else if (!hasCurrencyPrecision(split.amount)) {
+      errors.push(`Split ${i + 1} amount cannot have more than 2 decimal places`);
+    } else {
+      total += Math.round(split.amount * 100);
+    }
+  });
+
+  // Compared in cents so floating point noise cannot break the sum
+  if (
+    errors.length === 0 &&
+    typeof amount === "number" &&
+    total !== Math.round(amount * 100)
+  ) {
+    errors.push(
+      `Splits must add up to the transaction amount of ${amount.toFixed(2)}, not ${(total / 100).toFixed(2)}`
+    );
+  }
+
+  return errors;
+}
+
+/**
+ * Validate and sanitize bank account data
+ */
+function validateAccountData(account: AccountData): ValidatedAccount {
+  if (!account || typeof account !== "object") {
+    throw new Error("Invalid account data");
+  }
+
+  const errors: string[] = [];
+
+  if (!account.name || typeof account.name !== "string") {
+    errors.push("Account name is required");
+  } else if (account.name.length > 100) {
+    errors.push("Account name too long (max 100 characters)");
+  }
+
+  if (
+    !account.accountType ||
+    !["checking", "savings", "credit_card"].includes(account.accountType)
+  ) {
+    errors.push(
+      'Account type must be "checking", "savings" or "credit_card"'
+    );
+  }
+
+  if (account.lastFour && !/^\d{4}$/.test(String(account.lastFour))) {
+    errors.push("Last four must be exactly 4 digits");
+  }
+
+  const openingBalance =
+    account.openingBalance === undefined ? 0 : account.openingBalance;
+  if (typeof openingBalance !== "number" || isNaN(openingBalance)) {
+    errors.push("Opening balance must be a valid number");
+  } else if (Math.abs(openingBalance) > 999999999.99) {
+    errors.push("Opening balance exceeds maximum allowed value");
+  } else if (!hasCurrencyPrecision(openingBalance)) {
+    errors.push("Opening balance cannot have more than 2 decimal places");
+  }
+
+  if (
+    !account.openingDate ||
+    typeof account.openingDate !== "string" ||
+    !/^\d{4}-\d{2}-\d{2}$/.test(account.openingDate)
+  ) {
+    errors.push("Opening date must be in YYYY-MM-DD format");
+  }
+
+  if (errors.length > 0) {
+    throw new Error(errors.join(", "));
+  }
+
+  return {
+    name: sanitizeString(account.name, 100),
+    institution: account.institution
+      ? sanitizeString(account.institution, 100)
+      : null,
+    accountType: account.accountType,
+    lastFour: account.lastFour ? String(account.lastFour) : null,
+    openingBalance,
+    openingDate: account.openingDate,
+  };
+}
+
+/**
+ * Validate a transfer between two of the user's accounts
+ */
+function validateTransferData(transfer: TransferData): ValidatedTransfer {
+  if (!transfer || typeof transfer !== "object") {
+    throw new Error("Invalid transfer data");
+  }
+
+  const errors: string[] = [];
+
+  if (
+    !transfer.date ||
+    typeof transfer.date !== "string" ||
+    !/^\d{4}-\d{2}-\d{2}$/.test(transfer.date)
+  ) {
+    errors.push("Transfer date must be in YYYY-MM-DD format");
+  }
+
+  if (typeof transfer.amount !== "number" || isNaN(transfer.amount)) {
+    errors.push("Transfer amount must be a valid number");
+  } else if (transfer.amount <= 0) {
+    errors.push("Transfer amount must be greater than zero");
+  } else if (transfer.amount > 999999999.99) {
+    errors.push("Transfer amount exceeds maximum allowed value");
+  } else if (!hasCurrencyPrecision(transfer.amount)) {
+    errors.push("Transfer amount cannot have more than 2 decimal places");
+  }
+
+  if (!transfer.fromAccountId || typeof transfer.fromAccountId !== "string") {
+    errors.push("The account to transfer from is required");
+  }
+  if (!transfer.toAccountId || typeof transfer.toAccountId !== "string") {
+    errors.push("The account to transfer to is required");
+  }
+  if (
+    transfer.fromAccountId &&
+    transfer.fromAccountId === transfer.toAccountId
+  ) {
+    errors.push("A transfer needs two different accounts");
+  }
+
+  if (errors.length > 0) {
+    throw new Error(errors.join(", "));
+  }
+
+  return {
+    date: transfer.date,
+    description:
+      (transfer.description && sanitizeString(transfer.description, 500)) ||
+      "Transfer",
+    amount: transfer.amount,
+    fromAccountId: sanitizeString(transfer.fromAccountId, 100),
+    toAccountId: sanitizeString(transfer.toAccountId, 100),
+    checkNumber: transfer.checkNumber
+      ? sanitizeString(transfer.checkNumber, 50)
+      : null,
+  };
+}
+
+const SCHEDULE_FREQUENCIES = [
+  "weekly",
+  "biweekly",
+  "monthly",
+  "quarterly",
+  "yearly",
+  "last_business_day",
+];
+
+/**
+ * Validate a recurring transaction. The day of the month only applies to
+ * monthly, quarterly and yearly schedules.
+ */
+function validateScheduledTransactionData(
+  schedule: ScheduledTransactionData
+): ValidatedScheduledTransaction {
+  if (!schedule || typeof schedule !== "object") {
+    throw new Error("Invalid scheduled transaction data");
+  }
+
+  const errors: string[] = [];
+  const isDate = (value: unknown): value is string =>
+    typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+  if (!schedule.description || typeof schedule.description !== "string") {
+    errors.push("Scheduled transaction description is required");
+  }
+
+  if (typeof schedule.amount !== "number" || isNaN(schedule.amount)) {
+    errors.push("Scheduled amount must be a valid number");
+  } else if (schedule.amount <= 0) {
+    errors.push("Scheduled amount must be greater than zero");
+  } else if (schedule.amount > 999999999.99) {
+    errors.push("Scheduled amount exceeds maximum allowed value");
+  } else if (!hasCurrencyPrecision(schedule.amount)) {
+    errors.push("Scheduled amount cannot have more than 2 decimal places");
+  }
+
+  if (!schedule.type || !["debit", "credit"].includes(schedule.type)) {
+    errors.push('Transaction type must be "debit" or "credit"');
+  }
+
+  if (!SCHEDULE_FREQUENCIES.includes(schedule.frequency)) {
+    errors.push(`Frequency must be one of: ${SCHEDULE_FREQUENCIES.join(", ")}`);
+  }
+
+  const usesDayOfMonth = ["monthly", "quarterly", "yearly"].includes(
+    schedule.frequency
+  );
+  if (
+    usesDayOfMonth &&
+    schedule.dayOfMonth !== null &&
+    schedule.dayOfMonth !== undefined &&
+    (!Number.isInteger(schedule.dayOfMonth) ||
+      schedule.dayOfMonth < 1 ||
+      schedule.dayOfMonth > 31)
+  ) {
+    errors.push("Day of the month must be between 1 and 31");
+  }
+
+  if (!isDate(schedule.startDate)) {
+    errors.push("Start date must be in YYYY-MM-DD format");
+  }
+  if (schedule.endDate) {
+    if (!isDate(schedule.endDate)) {
+      errors.push("End date must be in YYYY-MM-DD format");
+    } else if (
+      isDate(schedule.startDate) &&
+      schedule.endDate < schedule.startDate
+    ) {
+      errors.push("End date cannot be before the start date");
+    }
+  }
+
+  if (!["post", "remind"].includes(schedule.mode)) {
+    errors.push('Mode must be "post" or "remind"');
+  }
+
+  if (errors.length > 0) {
+    throw new Error(errors.join(", "));
+  }
+
+  return {
+    description: sanitizeString(schedule.description, 500),
+    amount: schedule.amount,
+    type: schedule.type,
+    category: schedule.category ? sanitizeString(schedule.category, 100) : null,
+    accountId: schedule.accountId
+      ? sanitizeString(schedule.accountId, 100)
+      : null,
+    frequency: schedule.frequency as ValidatedScheduledTransaction["frequency"],
+    dayOfMonth:
+      usesDayOfMonth && schedule.dayOfMonth ? schedule.dayOfMonth : null,
+    startDate: schedule.startDate,
+    endDate: schedule.endDate || null,
+    mode: schedule.mode as ValidatedScheduledTransaction["mode"],
+  };
+}
+
+/**
+ * Validate the statement details used to start a reconciliation session
+ */
+function validateReconciliationData(
+  reconciliation: ReconciliationData
+): ValidatedReconciliation {
+  if (!reconciliation || typeof reconciliation !== "object") {
+    throw new Error("Invalid reconciliation data");
+  }
+
+  const errors: string[] = [];
+
+  if (
+    !reconciliation.statementDate ||
+    typeof reconciliation.statementDate !== "string" ||
+    !/^\d{4}-\d{2}-\d{2}$/.test(reconciliation.statementDate)
+  ) {
+    errors.push("Statement date must be in YYYY-MM-DD format");
+  }
+
+  for (const field of ["beginningBalance", "endingBalance"] as const) {
+    const value = reconciliation[field];
+    if (typeof value !== "number" || isNaN(value)) {
+      errors.push(`${field} must be a valid number`);
+    } else if (Math.abs(value) > 999999999.99) {
+      errors.push(`${field} exceeds maximum allowed value`);
+    } else if (!hasCurrencyPrecision(value)) {
+      errors.push(`${field} cannot have more than 2 decimal places`);
+    }
+  }
+
+  const { importBatchId } = reconciliation;
+  if (
+    importBatchId !== undefined &&
+    importBatchId !== null &&
+    (!Number.isInteger(importBatchId) || importBatchId < 1)
+  ) {
+    errors.push("Import batch id must be a positive integer");
+  }
+
+  if (errors.length > 0) {
+    throw new Error(errors.join(", "));
+  }
+
+  return {
+    accountId: reconciliation.accountId
+      ? sanitizeString(reconciliation.accountId, 100)
+      : null,
+    statementDate: reconciliation.statementDate,
+    beginningBalance: reconciliation.beginningBalance,
+    endingBalance: reconciliation.endingBalance,
+    importBatchId: importBatchId ?? null,
+  };
+}
+
+/**
+ * Validate a CSV column mapping chosen in the import dialog
+ */
+function validateCsvMapping(mapping: CsvMappingData): ValidatedCsvMapping {
+  if (!mapping || typeof mapping !== "object") {
+    throw new Error("Invalid column mapping");
+  }
+
+  const errors: string[] = [];
+  const isColumn = (value: unknown): value is number =>
+    Number.isInteger(value) &&
+    (value as number) >= 0 &&
+    (value as number) < 100;
+  const optionalColumn = (field: keyof CsvMappingData): number | null => {
+    const value = mapping[field];
+    if (value === undefined || value === null) return null;
+    if (!isColumn(value)) {
+      errors.push(`${field} must be a column number`);
+      return null;
+    }
+    return value;
   };
+
+  const skipRows = mapping.skipRows === undefined ? 0 : mapping.skipRows;
+  if (!Number.isInteger(skipRows) || skipRows < 0 || skipRows > 100) {
+    errors.push("Rows to skip must be a whole number between 0 and 100");
+  }
+
+  if (!isColumn(mapping.dateColumn)) {
+    errors.push("A date column is required");
+  }
+  if (!isColumn(mapping.descriptionColumn)) {
+    errors.push("A description column is required");
+  }
+
+  const amountColumn = optionalColumn("amountColumn");
+  const debitColumn = optionalColumn("debitColumn");
+  const creditColumn = optionalColumn("creditColumn");
+  if (amountColumn === null && debitColumn === null && creditColumn === null) {
+    errors.push("An amount column or debit/credit columns are required");
+  }
+
+  const signConvention = mapping.signConvention || "negative_is_debit";
+  if (!["negative_is_debit", "negative_is_credit"].includes(signConvention)) {
+    errors.push(
+      'Sign convention must be "negative_is_debit" or "negative_is_credit"'
+    );
+  }
+
+  const dateFormat = mapping.dateFormat || "auto";
+  if (
+    !["auto", "YYYY-MM-DD", "MM/DD/YYYY", "DD/MM/YYYY", "DD.MM.YYYY"].includes(
+      dateFormat
+    )
+  ) {
+    errors.push("Unsupported date format");
+  }
+
+  const categoryColumn = optionalColumn("categoryColumn");
+  const checkNumberColumn = optionalColumn("checkNumberColumn");
+
+  if (errors.length > 0) {
+    throw new Error(errors.join(", "));
+  }
+
+  return {
+    skipRows: skipRows as number,
+    hasHeader: Boolean(mapping.hasHeader),
+    dateColumn: mapping.dateColumn as number,
+    descriptionColumn: mapping.descriptionColumn as number,
+    amountColumn,
+    debitColumn,
+    creditColumn,
+    categoryColumn,
+    checkNumberColumn,
+    signConvention: signConvention as ValidatedCsvMapping["signConvention"],
+    dateFormat: dateFormat as ValidatedCsvMapping["dateFormat"],
+  };
+}
+
+/**
+ * Validate an auto-categorization rule: at least one condition (a
+ * description text or regular expression, an amount range, an account or
+ * a type) and at least one action (a category, a new payee name or a
+ * transfer account). Amounts are in dollars and compared without sign.
+ */
+function validateRuleData(rule: RuleData): ValidatedRule {
+  if (!rule || typeof rule !== "object") {
+    throw new Error("Invalid rule data");
+  }
+
+  const errors: string[] = [];
+  const text = (value: string | null | undefined, maxLength: number) =>
+    typeof value === "string" && value.trim()
+      ? sanitizeString(value.trim(), maxLength)
+      : null;
+
+  const descriptionPattern = text(rule.descriptionPattern, 200);
+  const matchType = rule.matchType || "contains";
+  if (!["contains", "regex"].includes(matchType)) {
+    errors.push('Description match must be "contains" or "regex"');
+  } else if (matchType === "regex" && descriptionPattern) {
+    try {
+      new RegExp(descriptionPattern, "i");
+    } catch (error: any) {
+      errors.push(`Invalid regular expression: ${error.message}`);
+    }
+  }
+
+  const amount = (value: number | null | undefined, label: string) => {
+    if (value === null || value === undefined) return null;
+    if (typeof value !== "number" || isNaN(value) || value < 0) {
+      errors.push(`${label} must be a positive number`);
+    } else if (!hasCurrencyPrecision(value)) {
+      errors.push(`${label} cannot have more than 2 decimal places`);
+    }
+    return value;
+  };
+  const minAmount = amount(rule.minAmount, "Minimum amount");
+  const maxAmount = amount(rule.maxAmount, "Maximum amount");
+  if (minAmount !== null && maxAmount !== null && minAmount > maxAmount) {
+    errors.push("Minimum amount cannot be more than the maximum");
+  }
+
+  const type = rule.type || null;
+  if (type && !["debit", "credit"].includes(type)) {
+    errors.push('Transaction type must be "debit" or "credit"');
+  }
+
+  const accountId = text(rule.accountId, 100);
+  const setCategory = text(rule.setCategory, 100);
+  const setDescription = text(rule.setDescription, 500);
+  const transferAccountId = text(rule.transferAccountId, 100);
+
+  if (
+    !descriptionPattern &&
+    minAmount === null &&
+    maxAmount === null &&
+    !accountId &&
+    !type
+  ) {
+    errors.push("A rule needs at least one condition");
+  }
+  if (!setCategory && !setDescription && !transferAccountId) {
+    errors.push(
+      "A rule needs an action: set a category, rename the payee or mark a transfer"
+    );
+  }
+  if (transferAccountId && setCategory) {
+    errors.push("Transfers have no category; a rule cannot set both");
+  }
+  if (transferAccountId && transferAccountId === accountId) {
+    errors.push("A rule cannot mark transfers to the account it matches");
+  }
+
+  if (errors.length > 0) {
+    throw new Error(errors.join(", "));
+  }
+
+  return {
+    descriptionPattern,
+    matchType: matchType as ValidatedRule["matchType"],
+    minAmount,
+    maxAmount,
+    accountId,
+    type,
+    setCategory,
+    setDescription,
+    transferAccountId,
+  };
+}
+
+/**
+ * Validate the name a CSV import profile is saved under
+ */
+function validateImportProfileName(name: string): string {
+  if (!name || typeof name !== "string" || !sanitizeString(name, 100)) {
+    throw new Error("Profile name is required");
+  }
+  if (name.length > 100) {
+    throw new Error("Profile name too long (max 100 characters)");
+  }
+  return sanitizeString(name, 100);
+}
+
+/**
+ * Validate a payee's canonical name
+ */
+function validatePayeeName(name: string): string {
+  if (!name || typeof name !== "string" || !sanitizeString(name, 100)) {
+    throw new Error("Payee name is required");
+  }
+  if (name.length > 100) {
+    throw new Error("Payee name too long (max 100 characters)");
+  }
+  return sanitizeString(name, 100);
+}
+
+/**
+ * Validate an alias pattern, the bank wording a payee is found by
+ */
+function validatePayeeAlias(pattern: string): string {
+  if (
+    !pattern ||
+    typeof pattern !== "string" ||
+    !sanitizeString(pattern, 200)
+  ) {
+    throw new Error("Alias pattern is required");
+  }
+  if (pattern.length > 200) {
+    throw new Error("Alias pattern too long (max 200 characters)");
+  }
+  return sanitizeString(pattern, 200);
 }
 
 /**
@@ -243,10 +955,20 @@ class RateLimiter {
 
 export {
   RateLimiter,
+  hasCurrencyPrecision,
   isValidEmail,
   sanitizeString,
+  validateAccountData,
   validateCategory,
+  validateCsvMapping,
   validateFilePath,
+  validateImportProfileName,
+  validatePayeeAlias,
+  validatePayeeName,
+  validateReconciliationData,
+  validateRuleData,
+  validateScheduledTransactionData,
   validateTransactionData,
+  validateTransferData,
   validateUserData,
 };